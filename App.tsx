@@ -1,9 +1,53 @@
 import React, { useState, useRef, useEffect, useCallback, ReactNode } from 'react';
-import ReactMarkdown from 'https://esm.sh/react-markdown@9';
-import remarkGfm from 'https://esm.sh/remark-gfm@4';
-import { AppStatus } from './types';
-import { MicrophoneIcon, StopIcon, SparklesIcon, CopyIcon, CheckIcon, ResetIcon, PaperAirplaneIcon, DocumentTextIcon } from './components/icons';
-import { generateMinutesFromText, transcribeAudio } from './services/geminiService';
+import { AppError, AppStatus, Locale, Minutes, MomentFlag, MomentFlagKind, MinutesTemplate, RecordingOptions, TemplateSection, TranscriptionChunk, TranscriptSegment, MeetingRecord } from './types';
+import { MicrophoneIcon, StopIcon, SparklesIcon, CopyIcon, CheckIcon, ResetIcon, PaperAirplaneIcon, DocumentTextIcon, ArchiveBoxIcon, ArrowUpTrayIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, CogIcon, PauseIcon } from './components/icons';
+import { MinutesEditor } from './components/MinutesEditor';
+import { useUndoableState } from './hooks/useUndoableState';
+import { FileDropZone } from './components/FileDropZone';
+import { TranscriptPreview } from './components/TranscriptPreview';
+import { TranscriptPlayer } from './components/TranscriptPlayer';
+import { ExportMenu } from './components/ExportMenu';
+import { HistoryView } from './components/HistoryView';
+import { TemplateManager } from './components/TemplateManager';
+import { TemplateSelect } from './components/TemplateSelect';
+import { ProviderSettings } from './components/ProviderSettings';
+import { IntegrationManager } from './components/IntegrationManager';
+import { IntegrationsPanel } from './components/IntegrationsPanel';
+import { TaskExport } from './components/TaskExport';
+import { ActionItemTracker } from './components/ActionItemTracker';
+import { ProjectFollowUps } from './components/ProjectFollowUps';
+import { FollowUpSelect } from './components/FollowUpSelect';
+import { LanguageSelect } from './components/LanguageSelect';
+import { LiveTranscript } from './components/LiveTranscript';
+import { RecordingSetup } from './components/RecordingSetup';
+import { LevelMeter } from './components/LevelMeter';
+import { useI18n } from './hooks/useI18n';
+import { getLocale, LOCALES, messages } from './i18n';
+import { generateMinutesFromText, transcribeAudio, regenerateMinutesSection } from './services/geminiService';
+import { minutesToMarkdown, minutesToHtml } from './services/minutesFormatter';
+import { NOT_SPECIFIED } from './services/minutesSchema';
+import { countUnsupported } from './services/citations';
+import { exportMinutes, ExportFormat } from './services/minutesExport';
+import { sendMinutesToNotion } from './services/notion';
+import { isNotionConfigured } from './services/notionSettings';
+import { buildIntegrationContext } from './services/integrationPayload';
+import { extractActionItems } from './services/actionItems';
+import { applyProgress, buildFollowUp, getFollowUpChoice, trackMeetingItems } from './services/actionItemTracker';
+import { startOutbox } from './services/outbox';
+import { DEFAULT_TEMPLATE, DEFAULT_TEMPLATE_ID, defaultTemplate, getTemplateSection } from './services/templates';
+import { getSelectedTemplateId, getTemplate } from './services/templateStore';
+import { getOutputLanguage, resolveOutputLanguage } from './services/language';
+import { FailedStep, recoveryActions, RecoveryAction } from './services/errors';
+import { buildAudioSegments, RECORDER_TIMESLICE_MS, AudioSegment } from './services/audioSegments';
+import { createLiveTranscriber, LIVE_UPLOAD_FACTOR, LiveTranscriber } from './services/liveTranscription';
+import { saveRecordingOptions } from './services/recordingOptions';
+import { removeSilence, summarizeSilence } from './services/voiceActivity';
+import { captureMicrophone, captureTabAudio, createRecorder, createRecordingMix } from './services/audioCapture';
+import { formatBytes, toFileName } from './services/download';
+import { TRANSCRIPT_FILE_EXTENSIONS, detectTranscriptFormat, parseTranscriptText, parseTranscriptFile } from './services/transcriptImport';
+import { ACCEPTED_MEDIA_TYPES, MAX_UPLOAD_BYTES, validateMediaFile, prepareUploadedMedia } from './services/audioImport';
+import { createMeetingId, saveMeeting, updateMeeting, deleteMeeting, appendRecordingChunk, getRecordingChunks, deleteRecordingChunks, findUnfinishedRecordings } from './services/meetingStore';
+import { mergeChunkSegments, getSpeakers, getParticipants, applySpeakerNames, formatTranscript, formatTimestamp } from './services/transcript';
 
 
 interface CardProps {
@@ -35,49 +79,89 @@ const ActionButton: React.FC<ActionButtonProps> = ({ onClick, disabled, children
 );
 
 const App = () => {
+    const { t, locale, setLocale } = useI18n();
     const [status, setStatus] = useState<AppStatus>(AppStatus.Idle);
-    const [minutes, setMinutes] = useState('');
-    const [error, setError] = useState<string | null>(null);
+    // Minutes keep an undo/redo history of the user's edits; a new generation
+    // resets it.
+    const {
+        value: minutes,
+        set: editMinutes,
+        reset: setMinutes,
+        undo: undoMinutes,
+        redo: redoMinutes,
+        canUndo,
+        canRedo,
+    } = useUndoableState<Minutes | null>(null);
+    // Transcript the current minutes were generated from, used to regenerate sections.
+    const [transcript, setTranscript] = useState('');
+    // Template the current minutes were generated with.
+    const [minutesTemplate, setMinutesTemplate] = useState<MinutesTemplate>(DEFAULT_TEMPLATE);
+    // Language the current minutes were written in.
+    const [minutesLanguage, setMinutesLanguage] = useState<Locale>('es');
+    // Sections received so far while the minutes stream in; null otherwise.
+    const [streamingSections, setStreamingSections] = useState<string[] | null>(null);
+    // Set when the user stopped the generation and kept the partial minutes.
+    const [isIncomplete, setIsIncomplete] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+    // Step the current error happened in, which the error screen can retry.
+    const [failedStep, setFailedStep] = useState<FailedStep>('generation');
+    // Failure of an action on finished minutes (copying, sending), shown
+    // next to the minutes instead of replacing them.
+    const [actionError, setActionError] = useState<string | null>(null);
     const [recordingTime, setRecordingTime] = useState(0);
+    const [isPaused, setIsPaused] = useState(false);
+    // Size of the audio recorded so far, roughly what transcription will upload.
+    const [recordedBytes, setRecordedBytes] = useState(0);
+    const [isLiveTranscribing, setIsLiveTranscribing] = useState(false);
+    // One meter per recorded source, tapped from the mixing graph.
+    const [levelMeters, setLevelMeters] = useState<{ label: string; analyser: AnalyserNode }[]>([]);
+    // Set when a mixed recording's shared tab came without an audio track.
+    const [tabHasNoAudio, setTabHasNoAudio] = useState(false);
     const [transcriptionInput, setTranscriptionInput] = useState('');
+    const [chunks, setChunks] = useState<TranscriptionChunk[]>([]);
+    const [isTranscribingChunks, setIsTranscribingChunks] = useState(false);
+    const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+    const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+    // Recording or uploaded file of the meeting, played next to the transcript.
+    const [meetingAudio, setMeetingAudio] = useState<Blob | null>(null);
+    // Transcript segment the Done view was asked to jump to.
+    const [sourceFocus, setSourceFocus] = useState<{ index: number } | null>(null);
+    // When a reopened meeting took place; new meetings are dated when exported.
+    const [meetingDate, setMeetingDate] = useState<number | null>(null);
+    // Windows of the recording transcribed while it is still going on.
+    const [liveChunks, setLiveChunks] = useState<TranscriptionChunk[]>([]);
+    // Moments the user marked while recording, passed to the minutes generator.
+    const [flags, setFlags] = useState<MomentFlag[]>([]);
+    const [unfinishedRecording, setUnfinishedRecording] = useState<MeetingRecord | null>(null);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [isPreparingAudio, setIsPreparingAudio] = useState(false);
 
     // State for UI controls
     const [isCopied, setIsCopied] = useState(false);
     const [isFormattedCopied, setIsFormattedCopied] = useState(false);
-    const [isSummaryCopied, setIsSummaryCopied] = useState(false);
-    const [isProjectNameCopied, setIsProjectNameCopied] = useState(false);
     const [isSendingToNotion, setIsSendingToNotion] = useState(false);
     const [notionSendSuccess, setNotionSendSuccess] = useState<boolean | null>(null);
-    const [loadingMessage, setLoadingMessage] = useState('');
+    // Page the current meeting was sent to; the URL is only known after a send.
+    const [notionPage, setNotionPage] = useState<{ id: string; url?: string } | null>(null);
     const [isSafari, setIsSafari] = useState(false);
 
     // Refs for audio processing
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
+    // Mirrors `chunks` so the sequential transcription loop always reads the latest state.
+    const transcriptionChunksRef = useRef<TranscriptionChunk[]>([]);
+    // Id of the meeting being saved to the local history, if any.
+    const sessionIdRef = useRef<string | null>(null);
+    // Chain of pending IndexedDB writes for recorded slices, kept in order.
+    const chunkWritesRef = useRef<Promise<void>>(Promise.resolve());
     const streamsRef = useRef<MediaStream[]>([]);
     const audioContextRef = useRef<AudioContext | null>(null);
     const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-
-
-    const loadingMessages = [
-        "Analizando la transcripción...",
-        "Identificando los puntos clave...",
-        "Estructurando decisiones y acuerdos...",
-        "Dando formato a la minuta...",
-        "Casi listo..."
-    ];
-
-    useEffect(() => {
-        if (status === AppStatus.Generating) {
-            setLoadingMessage(loadingMessages[0]);
-            let i = 1;
-            const interval = setInterval(() => {
-                setLoadingMessage(loadingMessages[i % loadingMessages.length]);
-                i++;
-            }, 2500);
-            return () => clearInterval(interval);
-        }
-    }, [status, loadingMessages]);
+    // Input of the last minutes generation, kept so a failed one can be retried.
+    const generationInputRef = useRef<{ transcription: string; participants: string[]; flags: MomentFlag[] }>({ transcription: '', participants: [], flags: [] });
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
 
     const cleanupStreams = useCallback(() => {
         streamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
@@ -94,24 +178,53 @@ const App = () => {
 
     const handleReset = useCallback(() => {
         cleanupStreams();
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
             mediaRecorderRef.current.stop();
         }
         mediaRecorderRef.current = null;
+        generationAbortRef.current?.abort();
+        generationAbortRef.current = null;
+        liveTranscriberRef.current?.cancel();
+        liveTranscriberRef.current = null;
         audioChunksRef.current = [];
+        transcriptionChunksRef.current = [];
+        sessionIdRef.current = null;
         
         setStatus(AppStatus.Idle);
-        setMinutes('');
+        setMinutes(null);
+        setTranscript('');
+        setMinutesTemplate(DEFAULT_TEMPLATE);
+        setMinutesLanguage('es');
+        setStreamingSections(null);
+        setIsIncomplete(false);
         setError(null);
+        setFailedStep('generation');
+        setActionError(null);
         setRecordingTime(0);
+        setIsPaused(false);
+        setRecordedBytes(0);
+        setIsLiveTranscribing(false);
+        setLevelMeters([]);
+        setTabHasNoAudio(false);
         setTranscriptionInput('');
+        setChunks([]);
+        setIsTranscribingChunks(false);
+        setTranscriptSegments([]);
+        setSpeakerNames({});
+        setMeetingAudio(null);
+        setSourceFocus(null);
+        setMeetingDate(null);
+        setLiveChunks([]);
+        setFlags([]);
+        setUploadError(null);
+        setImportError(null);
+        setIsPreparingAudio(false);
         setIsCopied(false);
         setIsFormattedCopied(false);
-        setIsSummaryCopied(false);
-        setIsProjectNameCopied(false);
         setIsSendingToNotion(false);
         setNotionSendSuccess(null);
-    }, [cleanupStreams]);
+        setNotionPage(null);
+    }, [cleanupStreams, setMinutes]);
     
     // Cleanup on component unmount
     useEffect(() => {
@@ -120,6 +233,27 @@ const App = () => {
         };
     }, [cleanupStreams]);
 
+    // Send what was queued for the integrations while offline or before a reload.
+    useEffect(() => startOutbox(), []);
+
+    // Look for a recording interrupted by a crash or reload.
+    useEffect(() => {
+        findUnfinishedRecordings()
+            .then(records => setUnfinishedRecording(records[0] ?? null))
+            .catch(err => console.error("Error looking for unfinished recordings:", err));
+    }, []);
+
+    // Warn before closing the tab in the middle of a recording.
+    useEffect(() => {
+        if (status !== AppStatus.Recording) return;
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+            event.preventDefault();
+            event.returnValue = '';
+        };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [status]);
+
     useEffect(() => {
         // Simple Safari detection
         const ua = navigator.userAgent;
@@ -127,104 +261,517 @@ const App = () => {
         setIsSafari(isSafariBrowser);
     }, []);
 
-    const generateAndSetMinutes = useCallback(async (transcription: string) => {
-        if (!transcription.trim()) {
-            setError("La transcripción no puede estar vacía.");
-            setStatus(AppStatus.Error);
-            return;
+    // Saves the current session to the meeting history, creating the record on
+    // first use. Storage failures are logged but never interrupt the flow.
+    const persistSession = useCallback(async (patch: Partial<Omit<MeetingRecord, 'id'>>) => {
+        try {
+            if (sessionIdRef.current && await updateMeeting(sessionIdRef.current, patch)) {
+                return;
+            }
+            const now = Date.now();
+            const id = sessionIdRef.current ?? createMeetingId();
+            sessionIdRef.current = id;
+            await saveMeeting({
+                id,
+                title: messages().app.defaultMeetingTitle(new Date(now).toLocaleString(getLocale(), { dateStyle: 'medium', timeStyle: 'short' })),
+                createdAt: now,
+                updatedAt: now,
+                status: AppStatus.Idle,
+                transcript: '',
+                transcriptSegments: [],
+                minutes: null,
+                ...patch,
+            });
+        } catch (err) {
+            console.error("Error saving meeting to history:", err);
         }
+    }, []);
+
+    // Shows the error screen. The audio chunks and transcript stay in state so
+    // the failed step can be repeated from there.
+    const failStep = useCallback(async (step: FailedStep, appError: AppError, { persist = true } = {}) => {
+        setError(appError);
+        setFailedStep(step);
+        setStatus(AppStatus.Error);
+        if (persist) {
+            await persistSession({ status: AppStatus.Error, error: appError.message });
+        }
+    }, [persistSession]);
+
+    // Keeps the task tracker in step with the minutes of this meeting.
+    const trackTasks = useCallback((next: Minutes | null, template: MinutesTemplate) => {
+        if (!next || !sessionIdRef.current) return;
+        const project = next.projectName !== NOT_SPECIFIED ? next.projectName : '';
+        trackMeetingItems(project, sessionIdRef.current, meetingDate ?? Date.now(), extractActionItems(next, template));
+    }, [meetingDate]);
+
+    const generateAndSetMinutes = useCallback(async (transcription: string, participants: string[] = [], momentFlags: MomentFlag[] = []) => {
+        generationInputRef.current = { transcription, participants, flags: momentFlags };
+        const language = resolveOutputLanguage(getOutputLanguage(), transcription);
+        // The built-in template is used in the language of the minutes.
+        const selectedId = getSelectedTemplateId();
+        const template = selectedId === DEFAULT_TEMPLATE_ID
+            ? defaultTemplate(language)
+            : getTemplate(selectedId) ?? defaultTemplate(language);
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
         setStatus(AppStatus.Generating);
-        const minutesResult = await generateMinutesFromText(transcription);
+        setTranscript(transcription);
+        setMinutesTemplate(template);
+        setMinutesLanguage(language);
+        setIsIncomplete(false);
+        await persistSession({ status: AppStatus.Generating, transcript: transcription });
+        const followUp = buildFollowUp(getFollowUpChoice(), transcription, sessionIdRef.current ?? undefined);
 
-        if (minutesResult.startsWith('Error')) {
-            setError(minutesResult);
-            setStatus(AppStatus.Error);
-        } else {
-            setMinutes(minutesResult);
-            setStatus(AppStatus.Done);
+        // The Done view shows the sections as they arrive.
+        let partial = null as Minutes | null;
+        const minutesResult = await generateMinutesFromText(transcription, {
+            participants,
+            flags: momentFlags,
+            followUp,
+            template,
+            language,
+            signal: controller.signal,
+            onPartial: ({ minutes: received, receivedSections }) => {
+                partial = received;
+                setMinutes(received);
+                setStreamingSections(receivedSections);
+                setStatus(AppStatus.Done);
+            },
+        });
+        // A reset while streaming has already cleared the screen.
+        if (generationAbortRef.current !== controller) return;
+        generationAbortRef.current = null;
+        setStreamingSections(null);
+
+        // Stopping keeps whatever arrived, if anything did.
+        if (minutesResult.ok === false && (minutesResult.error.category !== 'cancelled' || !partial)) {
+            await failStep('generation', minutesResult.error);
+            return;
         }
+        const finished = minutesResult.ok ? minutesResult.value : partial;
+        setMinutes(finished);
+        setIsIncomplete(!minutesResult.ok);
+        setStatus(AppStatus.Done);
+        await persistSession({
+            status: AppStatus.Done,
+            minutes: finished,
+            template,
+            language,
+            error: undefined,
+            ...(finished.projectName !== NOT_SPECIFIED && { title: finished.projectName }),
+        });
+        // Only tasks that were asked about can be updated.
+        const asked = new Set(followUp?.items.map(item => item.id));
+        applyProgress((finished.followUps ?? []).filter(report => asked.has(report.id)));
+        trackTasks(finished, template);
+    }, [persistSession, failStep, setMinutes, trackTasks]);
+
+    // Stopping keeps the sections that have arrived; before the first one
+    // there is nothing to keep, so it returns to the transcript instead.
+    const handleStopGeneration = () => {
+        generationAbortRef.current?.abort();
+        if (status === AppStatus.Generating) {
+            generationAbortRef.current = null;
+            handleBackToTranscript();
+        }
+    };
+
+    const updateChunk = useCallback((index: number, patch: Partial<TranscriptionChunk>) => {
+        transcriptionChunksRef.current = transcriptionChunksRef.current.map(chunk =>
+            chunk.index === index ? { ...chunk, ...patch } : chunk
+        );
+        setChunks(transcriptionChunksRef.current);
     }, []);
 
-    const handleStartRecording = async () => {
+    // Transcribes the given chunks one by one. Failed chunks keep their blob so
+    // they can be retried on their own; once every chunk is done the partial
+    // transcripts are merged and the user is asked to name the speakers.
+    const transcribeChunks = useCallback(async (indices: number[]) => {
+        setStatus(AppStatus.Transcribing);
+        setIsTranscribingChunks(true);
+        const total = transcriptionChunksRef.current.length;
+
+        for (const index of indices) {
+            let chunk = transcriptionChunksRef.current.find(c => c.index === index);
+            if (!chunk) continue;
+            updateChunk(index, { status: 'transcribing', error: undefined });
+            // Retries reuse the chunk already trimmed on the first attempt.
+            if (chunk.silenceSeconds === undefined) {
+                chunk = await removeSilence(chunk);
+                const { blob, timeMap, silenceSeconds, durationSeconds } = chunk;
+                updateChunk(index, { blob, timeMap, silenceSeconds, durationSeconds });
+                if (chunk.status === 'done') {
+                    updateChunk(index, { status: 'done', segments: [] });
+                    continue;
+                }
+            }
+            const previous = transcriptionChunksRef.current.find(c => c.index === index - 1);
+            const previousContext = previous ? formatTranscript(previous.segments.slice(-3)) : undefined;
+            const result = await transcribeAudio(chunk.blob, { part: { index, total, previousContext } });
+            if (result.ok === false) {
+                updateChunk(index, { status: 'error', error: result.error.message });
+            } else {
+                updateChunk(index, { status: 'done', segments: result.value });
+            }
+        }
+
+        setIsTranscribingChunks(false);
+        const allChunks = transcriptionChunksRef.current;
+        if (allChunks.length > 0 && allChunks.every(c => c.status === 'done')) {
+            const merged = mergeChunkSegments(allChunks);
+            if (merged.length === 0) {
+                await failStep('transcription', { category: 'emptyAudio', message: messages().errors.emptyTranscription });
+                return;
+            }
+            setTranscriptSegments(merged);
+            setSpeakerNames({});
+            setStatus(AppStatus.NamingSpeakers);
+            await persistSession({ status: AppStatus.NamingSpeakers, transcriptSegments: merged, transcript: formatTranscript(merged) });
+        }
+    }, [updateChunk, persistSession, failStep]);
+
+    const transcribeAudioSegments = useCallback(async (segments: AudioSegment[]) => {
+        transcriptionChunksRef.current = segments.map(({ blob, offset }, index) => ({
+            index,
+            blob,
+            offset,
+            status: 'pending',
+            segments: [],
+        }));
+        setChunks(transcriptionChunksRef.current);
+        
+        await transcribeChunks(transcriptionChunksRef.current.map(c => c.index));
+    }, [transcribeChunks]);
+
+    // Saves the full recording to the history, drops the crash-recovery slices
+    // and starts the segmented transcription. With a live transcriber, the
+    // windows it already transcribed are kept and only the rest are sent.
+    const processRecordedSlices = useCallback(async (slices: Blob[], mimeType: string, live?: LiveTranscriber) => {
+        setStatus(AppStatus.Transcribing);
+        const audio = new Blob(slices, { type: mimeType });
+        setMeetingAudio(audio);
+        await persistSession({ status: AppStatus.Transcribing, audio });
+        if (sessionIdRef.current) {
+            const sessionId = sessionIdRef.current;
+            await chunkWritesRef.current;
+            await deleteRecordingChunks(sessionId).catch(err => console.error("Error deleting recording chunks:", err));
+        }
+
+        if (live) {
+            transcriptionChunksRef.current = await live.finish();
+            setChunks(transcriptionChunksRef.current);
+            await transcribeChunks(transcriptionChunksRef.current.filter(c => c.status !== 'done').map(c => c.index));
+            return;
+        }
+        await transcribeAudioSegments(await buildAudioSegments(slices, mimeType));
+    }, [persistSession, transcribeChunks, transcribeAudioSegments]);
+
+    const handleFileSelected = async (file: File) => {
+        const validationError = validateMediaFile(file);
+        if (validationError) {
+            setUploadError(validationError);
+            return;
+        }
+        setUploadError(null);
+        setStatus(AppStatus.Transcribing);
+        setIsPreparingAudio(true);
+        await persistSession({
+            status: AppStatus.Transcribing,
+            title: file.name.replace(/\.[^.]+$/, ''),
+            audio: file,
+        });
+        setMeetingAudio(file);
+        await transcribeMedia(file);
+    };
+
+    // Splits an uploaded file, or the audio of a reopened meeting, into
+    // segments that fit in a transcription request and transcribes them.
+    const transcribeMedia = async (file: File) => {
+        setStatus(AppStatus.Transcribing);
+        setIsPreparingAudio(true);
+        try {
+            const segments = await prepareUploadedMedia(file);
+            setIsPreparingAudio(false);
+            await transcribeAudioSegments(segments);
+        } catch (err) {
+            console.error("Error processing uploaded file:", err);
+            const message = err instanceof Error ? err.message : t.errors.fileProcessing;
+            setIsPreparingAudio(false);
+            await failStep('import', { category: 'invalidInput', message });
+        }
+    };
+
+    const handleRecoverRecording = async () => {
+        if (!unfinishedRecording) return;
+        const record = unfinishedRecording;
+        setUnfinishedRecording(null);
         handleReset();
+        sessionIdRef.current = record.id;
+        setFlags(record.flags ?? []);
+        setMeetingDate(record.createdAt);
+        setStatus(AppStatus.Transcribing);
         try {
-            // 1. Get streams for both screen/tab audio and microphone
-            const displayStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
-            const userStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamsRef.current = [displayStream, userStream];
-
-            // 2. Mix audio streams
-            const context = new AudioContext();
-            audioContextRef.current = context;
-            const destination = context.createMediaStreamDestination();
-
-            // Connect microphone audio
-            const userSource = context.createMediaStreamSource(userStream);
-            userSource.connect(destination);
-
-            // Conditionally connect screen audio if it exists
-            if (displayStream.getAudioTracks().length > 0) {
-                const displaySource = context.createMediaStreamSource(displayStream);
-                displaySource.connect(destination);
+            const slices = await getRecordingChunks(record.id);
+            if (slices.length === 0) {
+                throw new Error(t.errors.noAudioToRecover);
             }
-            
-            const mixedStream = destination.stream;
+            await processRecordedSlices(slices, slices[0].type || 'audio/webm');
+        } catch (err) {
+            console.error("Error recovering recording:", err);
+            await failStep('import', {
+                category: 'unknown',
+                message: err instanceof Error ? err.message : t.errors.recoveryFailed,
+            }, { persist: false });
+        }
+    };
+
+    const handleDiscardRecording = async () => {
+        if (!unfinishedRecording) return;
+        if (!window.confirm(t.app.idle.discardConfirm)) return;
+        const record = unfinishedRecording;
+        setUnfinishedRecording(null);
+        await deleteMeeting(record.id).catch(err => console.error("Error discarding recording:", err));
+    };
+
+    const showImportedTranscript = async (segments: TranscriptSegment[], title?: string) => {
+        setImportError(null);
+        setTranscriptSegments(segments);
+        setSpeakerNames({});
+        setStatus(AppStatus.ImportPreview);
+        await persistSession({
+            status: AppStatus.ImportPreview,
+            transcriptSegments: segments,
+            transcript: formatTranscript(segments),
+            ...(title && { title }),
+        });
+    };
+
+    const handleTranscriptFileSelected = async (file: File) => {
+        try {
+            const segments = await parseTranscriptFile(file);
+            await showImportedTranscript(segments, file.name.replace(/\.[^.]+$/, ''));
+        } catch (err) {
+            console.error("Error importing transcript:", err);
+            setImportError(err instanceof Error ? err.message : t.errors.transcriptImportFailed);
+        }
+    };
+
+    // Pasted subtitles (VTT/SRT) are parsed like an imported file; plain text
+    // goes straight to minutes generation.
+    const handleGenerateFromPastedText = () => {
+        if (detectTranscriptFormat(transcriptionInput) !== 'text') {
+            const segments = parseTranscriptText(transcriptionInput);
+            if (segments.length > 0) {
+                showImportedTranscript(segments);
+                return;
+            }
+        }
+        generateAndSetMinutes(transcriptionInput);
+    };
+
+    // Generates the minutes from diarized segments. Generic "Hablante N" labels
+    // are not passed as participant names.
+    const generateFromSegments = (segments: TranscriptSegment[]) => {
+        generateAndSetMinutes(formatTranscript(segments), getParticipants(segments), flags);
+    };
+
+    const handleGenerateFromImport = () => {
+        generateFromSegments(transcriptSegments);
+    };
+
+    // The named segments replace the labelled ones, so the transcript shown
+    // next to the minutes uses the same names.
+    const handleGenerateWithSpeakerNames = () => {
+        const named = applySpeakerNames(transcriptSegments, speakerNames);
+        setTranscriptSegments(named);
+        setSpeakerNames({});
+        persistSession({ transcriptSegments: named });
+        generateFromSegments(named);
+    };
+
+    const handleRetryChunk = (index: number) => {
+        transcribeChunks([index]);
+    };
+
+    const handleRetryFailedChunks = () => {
+        transcribeChunks(transcriptionChunksRef.current.filter(c => c.status === 'error').map(c => c.index));
+    };
+
+    // Repeats the step that failed with the audio or transcript still in memory.
+    const handleRetryFailedStep = () => {
+        if (failedStep === 'generation') {
+            const { transcription, participants, flags: momentFlags } = generationInputRef.current;
+            generateAndSetMinutes(transcription, participants, momentFlags);
+        } else if (failedStep === 'transcription') {
+            const pending = transcriptionChunksRef.current.filter(c => c.status !== 'done');
+            transcribeChunks((pending.length > 0 ? pending : transcriptionChunksRef.current).map(c => c.index));
+        }
+    };
+
+    // Returns to the transcript the failed minutes were generated from, so it
+    // can be edited or the speakers renamed before trying again.
+    const handleBackToTranscript = () => {
+        if (transcriptSegments.length > 0) {
+            setStatus(AppStatus.NamingSpeakers);
+        } else {
+            setTranscriptionInput(generationInputRef.current.transcription);
+            setStatus(AppStatus.ReadyToGenerate);
+        }
+    };
+
+    const startTimer = () => {
+        timerIntervalRef.current = setInterval(() => {
+            setRecordingTime(prevTime => prevTime + 1);
+        }, 1000);
+    };
+
+    const handleStartRecording = async (options: RecordingOptions) => {
+        handleReset();
+        saveRecordingOptions(options);
+        try {
+            // 1. Get the streams of the chosen sources
+            const displayStream = options.source !== 'microphone' ? await captureTabAudio() : null;
+            if (displayStream) streamsRef.current.push(displayStream);
+            const tabHasAudio = !!displayStream && displayStream.getAudioTracks().length > 0;
+            if (options.source === 'tab' && !tabHasAudio) {
+                cleanupStreams();
+                await failStep('recording', { category: 'emptyAudio', message: t.errors.tabNoAudio }, { persist: false });
+                return;
+            }
+            const userStream = options.source !== 'tab' ? await captureMicrophone(options.microphoneId) : null;
+            if (userStream) streamsRef.current.push(userStream);
+
+            // 2. Mix audio streams, with an analyser on each source for the level meters.
+            // Without its audio track a shared tab adds nothing to the mix.
+            const inputs = [
+                ...(userStream ? [{ stream: userStream, label: t.app.recording.levelMicrophone }] : []),
+                ...(tabHasAudio ? [{ stream: displayStream, label: t.app.recording.levelTab }] : []),
+            ];
+            const mix = await createRecordingMix(inputs.map(input => input.stream), options.speechMode);
+            audioContextRef.current = mix.context;
+            setLevelMeters(inputs.map((input, i) => ({ label: input.label, analyser: mix.analysers[i] })));
+            setTabHasNoAudio(!!displayStream && !tabHasAudio);
+            setIsLiveTranscribing(options.liveTranscription);
 
             // 3. Record the mixed stream
-            mediaRecorderRef.current = new MediaRecorder(mixedStream);
+            mediaRecorderRef.current = createRecorder(mix.stream, mix.speechMode);
             audioChunksRef.current = [];
 
+            // Register the session before any audio arrives so an interrupted
+            // recording can be found again on the next load.
+            const sessionId = createMeetingId();
+            sessionIdRef.current = sessionId;
+            chunkWritesRef.current = persistSession({ status: AppStatus.Recording });
+            let seq = 0;
+
             mediaRecorderRef.current.ondataavailable = (event) => {
                 if (event.data.size > 0) {
                     audioChunksRef.current.push(event.data);
+                    setRecordedBytes(bytes => bytes + event.data.size);
+                    if (options.liveTranscription) {
+                        liveTranscriberRef.current ??= createLiveTranscriber(event.data.type || 'audio/webm', setLiveChunks);
+                        liveTranscriberRef.current.addSlice(event.data);
+                    }
+                    const chunkSeq = seq++;
+                    chunkWritesRef.current = chunkWritesRef.current
+                        .then(() => appendRecordingChunk(sessionId, chunkSeq, event.data))
+                        .catch(err => console.error("Error persisting audio chunk:", err));
                 }
             };
 
             mediaRecorderRef.current.onstop = async () => {
                 cleanupStreams();
                 if (audioChunksRef.current.length === 0) {
-                    setError("La grabación no contiene datos de audio. Por favor, inténtelo de nuevo.");
-                    setStatus(AppStatus.Error);
+                    await failStep('recording', { category: 'emptyAudio', message: t.errors.noRecordingData });
                     return;
                 }
                 
-                const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-                
-                setStatus(AppStatus.Transcribing);
-                const transcriptionResult = await transcribeAudio(audioBlob);
-
-                if (transcriptionResult.startsWith('Error:')) {
-                    setError(transcriptionResult);
-                    setStatus(AppStatus.Error);
-                    return;
-                }
-                
-                await generateAndSetMinutes(transcriptionResult);
+                const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
+                const live = liveTranscriberRef.current ?? undefined;
+                liveTranscriberRef.current = null;
+                await processRecordedSlices(audioChunksRef.current, mimeType, live);
             };
 
-            mediaRecorderRef.current.start();
+            // Emit a slice every RECORDER_TIMESLICE_MS so long meetings are
+            // transcribed in segments instead of one huge request.
+            mediaRecorderRef.current.start(RECORDER_TIMESLICE_MS);
             setStatus(AppStatus.Recording);
             
             // Start timer
             setRecordingTime(0);
-            timerIntervalRef.current = setInterval(() => {
-                setRecordingTime(prevTime => prevTime + 1);
-            }, 1000);
+            startTimer();
 
         } catch (err) {
             console.error("Error starting recording:", err);
-            let message = "Ocurrió un error al iniciar la grabación.";
-            if (err instanceof Error && (err.name === 'NotAllowedError' || err.name === 'NotFoundError')) {
-                message = "Permiso denegado para capturar pantalla o micrófono. Por favor, conceda los permisos necesarios e inténtelo de nuevo.";
-            }
-            setError(message);
-            setStatus(AppStatus.Error);
+            const denied = err instanceof Error && (err.name === 'NotAllowedError' || err.name === 'NotFoundError');
             cleanupStreams();
+            await failStep('recording', denied
+                ? { category: 'permission', message: t.errors.permissionDenied }
+                : { category: 'unknown', message: t.errors.recordingStartFailed },
+            { persist: false });
+        }
+    };
+
+    const handleReopenMeeting = (record: MeetingRecord) => {
+        handleReset();
+        sessionIdRef.current = record.id;
+        setTranscriptSegments(record.transcriptSegments);
+        setFlags(record.flags ?? []);
+        setMeetingDate(record.createdAt);
+        setMeetingAudio(record.audio ?? null);
+        setNotionPage(record.notionPageId ? { id: record.notionPageId } : null);
+
+        if (record.minutes) {
+            setMinutes(record.minutes);
+            setMinutesTemplate(record.template ?? DEFAULT_TEMPLATE);
+            setMinutesLanguage(record.language ?? 'es');
+            setTranscript(record.transcript);
+            setStatus(AppStatus.Done);
+        } else if (record.transcriptSegments.length > 0) {
+            setStatus(AppStatus.NamingSpeakers);
+        } else if (record.transcript) {
+            setTranscriptionInput(record.transcript);
+            setStatus(AppStatus.ReadyToGenerate);
+        } else if (record.audio) {
+            // Recordings are stored whole, so they are split like an upload.
+            const { audio } = record;
+            transcribeMedia(audio instanceof File ? audio : new File([audio], record.title, { type: audio.type }));
+        }
+    };
+
+    const handleFlagMoment = (kind: MomentFlagKind) => {
+        const next = [...flags, { kind, time: recordingTime }];
+        setFlags(next);
+        persistSession({ flags: next });
+    };
+
+    const handleRemoveFlag = (flag: MomentFlag) => {
+        const next = flags.filter(f => f !== flag);
+        setFlags(next);
+        persistSession({ flags: next });
+    };
+
+    // The timer only counts recorded time, so it stops while paused.
+    const handleTogglePause = () => {
+        const recorder = mediaRecorderRef.current;
+        if (!recorder) return;
+        if (recorder.state === 'recording') {
+            recorder.pause();
+            if (timerIntervalRef.current) {
+                clearInterval(timerIntervalRef.current);
+                timerIntervalRef.current = null;
+            }
+            setIsPaused(true);
+        } else if (recorder.state === 'paused') {
+            recorder.resume();
+            startTimer();
+            setIsPaused(false);
         }
     };
 
     const handleStopRecording = () => {
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
+        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
             mediaRecorderRef.current.stop();
         }
         if (timerIntervalRef.current) {
@@ -239,78 +786,76 @@ const App = () => {
         return h === '00' ? `${m}:${s}` : `${h}:${m}:${s}`;
     };
 
+    const unsupportedCount = minutes ? countUnsupported(minutes) : 0;
+
+    // Items without supporting evidence should be reviewed before the minutes
+    // leave the app.
+    const confirmUnsupported = useCallback(
+        () => unsupportedCount === 0 || window.confirm(t.app.done.unsupportedConfirm(unsupportedCount)),
+        [unsupportedCount, t],
+    );
+
     const handleCopy = useCallback(() => {
-        const markdownContent = minutes.split('---').slice(1).join('---').trim();
-        navigator.clipboard.writeText(markdownContent);
+        if (!minutes || !confirmUnsupported()) return;
+        navigator.clipboard.writeText(minutesToMarkdown(minutes, minutesTemplate, { language: minutesLanguage }));
         setIsCopied(true);
         setTimeout(() => setIsCopied(false), 2000);
-    }, [minutes]);
+    }, [minutes, minutesTemplate, minutesLanguage, confirmUnsupported]);
     
-    const handleCopySummary = useCallback(() => {
-        const summaryText = minutes.split('---')[0].trim();
-        if (summaryText) {
-            navigator.clipboard.writeText(summaryText);
-            setIsSummaryCopied(true);
-            setTimeout(() => setIsSummaryCopied(false), 2000);
-        }
-    }, [minutes]);
+    const handleMinutesChange = useCallback((next: Minutes) => {
+        editMinutes(next);
+        persistSession({ minutes: next });
+        trackTasks(next, minutesTemplate);
+    }, [editMinutes, persistSession, trackTasks, minutesTemplate]);
 
-    const handleCopyProjectName = useCallback((projectName: string) => {
-        if (projectName && projectName !== 'No se especifica') {
-            navigator.clipboard.writeText(projectName);
-            setIsProjectNameCopied(true);
-            setTimeout(() => setIsProjectNameCopied(false), 2000);
-        }
-    }, []);
-    
-    const markdownToHtml = (markdownText: string): string => {
-        let html = '';
-        const lines = markdownText.split('\n');
-        let inList = false;
-
-        const closeList = () => {
-            if (inList) {
-                html += '</ul>\n';
-                inList = false;
-            }
-        };
-        
-        for (const line of lines) {
-            let processedLine = line.trim();
-            if (processedLine === '') {
-                closeList();
-                continue;
-            }
+    const handleUndo = useCallback(() => {
+        const previous = undoMinutes();
+        persistSession({ minutes: previous });
+        trackTasks(previous, minutesTemplate);
+    }, [undoMinutes, persistSession, trackTasks, minutesTemplate]);
 
-            processedLine = processedLine.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+    const handleRedo = useCallback(() => {
+        const next = redoMinutes();
+        persistSession({ minutes: next });
+        trackTasks(next, minutesTemplate);
+    }, [redoMinutes, persistSession, trackTasks, minutesTemplate]);
 
-            if (processedLine.startsWith('### ')) {
-                closeList();
-                html += `<h3>${processedLine.replace('### ', '')}</h3>\n`;
-            } 
-            else if (processedLine.match(/^\s*(\*|-|\[ \])\s/)) {
-                 if (!inList) {
-                    html += '<ul>\n';
-                    inList = true;
-                }
-                html += `<li>${processedLine.replace(/^\s*(\*|-|\[ \])\s*/, '')}</li>\n`;
-            } 
-            else {
-                closeList();
-                html += `<p>${processedLine}</p>\n`;
-            }
+    const handleRegenerateSection = useCallback(async (section: TemplateSection, instruction: string): Promise<string | null> => {
+        if (!minutes) return null;
+        const result = await regenerateMinutesSection(transcript, minutes, section, instruction, minutesLanguage);
+        if (result.ok === false) {
+            return result.error.message;
         }
-        
-        closeList();
-        return html;
-    };
+        handleMinutesChange(result.value);
+        return null;
+    }, [minutes, transcript, minutesLanguage, handleMinutesChange]);
+
+    // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside text fields.
+    useEffect(() => {
+        if (status !== AppStatus.Done) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [status, handleUndo, handleRedo]);
     
     const handleCopyFormatted = useCallback(() => {
-        const markdownContent = minutes.split('---').slice(1).join('---').trim();
-        if (!markdownContent) return;
+        if (!minutes || !confirmUnsupported()) return;
+        setActionError(null);
 
         try {
-            const htmlContent = markdownToHtml(markdownContent);
+            const htmlContent = minutesToHtml(minutes, minutesTemplate, { language: minutesLanguage });
             const blob = new Blob([htmlContent], { type: 'text/html' });
             const data = [new ClipboardItem({ 'text/html': blob })];
             
@@ -321,182 +866,234 @@ const App = () => {
                 },
                 (err) => {
                     console.error("Failed to copy HTML to clipboard:", err);
-                    setError("No se pudo copiar con formato. Su navegador podría no ser compatible. Intente 'Copiar Markdown'.");
+                    setActionError(t.errors.copyFormattedUnsupported);
                 }
             );
         } catch (err) {
             console.error("Error creating HTML content:", err);
-            setError("Ocurrió un error al generar el contenido con formato.");
+            setActionError(t.errors.copyFormattedFailed);
         }
-    }, [minutes]);
-
-
-    // Helper to convert markdown bold (**text**) to Notion's rich_text format
-    const createTextWithBold = (text: string) => {
-        const parts = text.split('**');
-        const richText: any[] = [];
-        parts.forEach((part, index) => {
-            if (part) { // Avoid adding empty strings
-                richText.push({
-                    type: 'text',
-                    text: { content: part },
-                    annotations: {
-                        bold: index % 2 === 1, // Every odd-indexed part is bold
-                    },
-                });
-            }
+    }, [minutes, minutesTemplate, minutesLanguage, t, confirmUnsupported]);
+
+    const handleExport = useCallback(async (format: ExportFormat) => {
+        if (!minutes || !confirmUnsupported()) return;
+        await exportMinutes(format, minutes, minutesTemplate, {
+            language: minutesLanguage,
+            date: meetingDate ? new Date(meetingDate) : new Date(),
+            attendees: getParticipants(transcriptSegments),
         });
-        return richText;
-    };
-    
-    const parseMarkdownToNotionBlocks = (markdown: string) => {
-        const blocks: any[] = [];
-        const sections = markdown.split(/(?=###\s)/).filter(s => s.trim() !== '');
-    
-        for (const section of sections) {
-            const lines = section.trim().split('\n').filter(line => line.trim() !== '');
-            if (lines.length === 0) continue;
-    
-            const title = lines[0].replace('### ', '').trim();
-            blocks.push({
-                object: 'block',
-                type: 'heading_3',
-                heading_3: { rich_text: createTextWithBold(title) }
-            });
-    
-            const contentLines = lines.slice(1);
-    
-            if (title.includes('Compromisos y tareas')) {
-                for (const line of contentLines) {
-                    const taskText = line.replace(/\[ \]\s*/, '').trim();
-                    if (taskText) {
-                        blocks.push({
-                            object: 'block',
-                            type: 'to_do',
-                            to_do: {
-                                rich_text: createTextWithBold(taskText),
-                                checked: false
-                            }
-                        });
-                    }
-                }
-            } else {
-                for (const line of contentLines) {
-                    const cleanedLine = line.replace(/^\s*[\*\-]\s*/, '').trim();
-                     if (cleanedLine) {
-                        const bulletedLine = `• ${cleanedLine}`;
-                        blocks.push({
-                            object: 'block',
-                            type: 'paragraph',
-                            paragraph: {
-                                rich_text: createTextWithBold(bulletedLine)
-                            }
-                        });
-                    }
-                }
-            }
-        }
-    
-        return blocks;
-    };
+    }, [minutes, minutesTemplate, minutesLanguage, meetingDate, transcriptSegments, confirmUnsupported]);
 
     const handleSendToNotion = useCallback(async () => {
+        if (!minutes || !confirmUnsupported()) return;
         setIsSendingToNotion(true);
         setNotionSendSuccess(null);
-        setError(null);
+        setActionError(null);
 
         try {
-            const [summaryText, ...markdownParts] = minutes.split('---');
-            const rawMarkdown = markdownParts.join('---').trim();
-
-            const projectNameRegex = /### 1\. Nombre del proyecto o asunto\s*\n\s*\*?\s*(.*?)\s*\n/s;
-            const projectNameMatch = rawMarkdown.match(projectNameRegex);
-            const projectName = projectNameMatch ? projectNameMatch[1].trim() : 'Minuta de Reunión';
-            
-            const notionBlocks = parseMarkdownToNotionBlocks(rawMarkdown);
-
-            if (notionBlocks.length === 0) {
-                throw new Error("No se pudo procesar la minuta para Notion.");
-            }
-            
-            const payload = {
-                titulo: projectName,
-                resumen: summaryText.trim(),
-                fecha: new Date().toISOString(),
-                bloques_notion: notionBlocks
-            };
-
-            const response = await fetch('https://hook.us1.make.com/1murl9o10b6o5mfcc9gwbgst85qdiee6', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(payload),
+            const result = await sendMinutesToNotion(minutes, minutesTemplate, {
+                language: minutesLanguage,
+                date: meetingDate ? new Date(meetingDate) : new Date(),
+                attendees: getParticipants(transcriptSegments),
+                pageId: notionPage?.id,
             });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Error del servidor: ${response.status} - ${errorText}`);
-            }
-
+            setNotionPage({ id: result.pageId, url: result.url });
             setNotionSendSuccess(true);
-
+            // Sending the meeting again updates the same page.
+            persistSession({ notionPageId: result.pageId });
         } catch (err) {
             console.error("Error sending to Notion:", err);
-            const errorMessage = err instanceof Error ? err.message : "No se pudo enviar la minuta a Notion. Por favor, intente de nuevo.";
-            setError(errorMessage);
+            const errorMessage = err instanceof Error ? err.message : t.errors.notionFailed;
+            setActionError(errorMessage);
             setNotionSendSuccess(false);
         } finally {
             setIsSendingToNotion(false);
         }
-    }, [minutes]);
+    }, [minutes, minutesTemplate, minutesLanguage, meetingDate, transcriptSegments, notionPage, persistSession, t, confirmUnsupported]);
 
     const renderContent = () => {
         switch (status) {
              case AppStatus.Recording:
                 return (
-                    <div className="text-center flex flex-col items-center gap-6">
-                        <div className="flex items-center gap-3 text-red-400">
-                           <span className="relative flex h-3 w-3">
-                              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
-                              <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
-                            </span>
-                            <p className="text-lg font-medium">Grabando reunión completa...</p>
-                        </div>
+                    <div className="w-full text-center flex flex-col items-center gap-6">
+                        {isPaused ? (
+                            <p className="text-lg font-medium text-yellow-300">{t.app.recording.paused}</p>
+                        ) : (
+                            <div className="flex items-center gap-3 text-red-400">
+                               <span className="relative flex h-3 w-3">
+                                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+                                  <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
+                                </span>
+                                <p className="text-lg font-medium">{t.app.recording.inProgress}</p>
+                            </div>
+                        )}
                         <p className="text-5xl font-mono font-bold text-white">{formatTime(recordingTime)}</p>
-                        <ActionButton onClick={handleStopRecording} className="bg-red-600 hover:bg-red-700 focus:ring-red-500">
-                            <StopIcon className="w-6 h-6" />
-                            <span>Detener y Procesar</span>
-                        </ActionButton>
+                        {recordedBytes > 0 && <p className="text-sm text-gray-400">{t.app.recording.uploadEstimate(formatBytes(recordedBytes * (isLiveTranscribing ? LIVE_UPLOAD_FACTOR : 1)))}</p>}
+                        {tabHasNoAudio && (
+                            <div className="w-full p-4 text-sm text-yellow-300 bg-yellow-900/30 rounded-lg border border-yellow-400/50" role="alert">
+                                {t.app.recording.tabNoAudio}
+                            </div>
+                        )}
+                        <div className="w-full max-w-md flex flex-col gap-2">
+                            {levelMeters.map(meter => (
+                                <LevelMeter key={meter.label} label={meter.label} analyser={meter.analyser} paused={isPaused} />
+                            ))}
+                        </div>
+                        <LiveTranscript live={isLiveTranscribing} chunks={liveChunks} flags={flags} onFlag={handleFlagMoment} onRemoveFlag={handleRemoveFlag} />
+                        <div className="flex flex-wrap justify-center gap-4">
+                            <ActionButton onClick={handleTogglePause} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                                {isPaused ? <MicrophoneIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+                                <span>{isPaused ? t.app.recording.resume : t.app.recording.pause}</span>
+                            </ActionButton>
+                            <ActionButton onClick={handleStopRecording} className="bg-red-600 hover:bg-red-700 focus:ring-red-500">
+                                <StopIcon className="w-6 h-6" />
+                                <span>{t.app.recording.stop}</span>
+                            </ActionButton>
+                        </div>
                     </div>
                 );
-            case AppStatus.Transcribing:
+            case AppStatus.Transcribing: {
+                const doneCount = chunks.filter(c => c.status === 'done').length;
+                const failedChunks = chunks.filter(c => c.status === 'error');
+                const pendingBytes = chunks.filter(c => c.status !== 'done').reduce((sum, c) => sum + c.blob.size, 0);
+
+                if (!isTranscribingChunks && failedChunks.length > 0) {
+                    return (
+                        <div className="w-full flex flex-col items-center gap-4 text-center">
+                            <h2 className="text-2xl font-bold text-red-400">{t.app.transcribing.failedTitle}</h2>
+                            <p className="text-gray-400 max-w-md">{t.app.transcribing.failedBody(doneCount, chunks.length)}</p>
+                            <ul className="w-full max-w-md flex flex-col gap-2">
+                                {failedChunks.map(chunk => (
+                                    <li key={chunk.index} className="flex items-center justify-between gap-4 p-3 bg-red-900/30 rounded-lg border border-red-700/50 text-left">
+                                        <div>
+                                            <p className="font-semibold text-gray-200">{t.app.transcribing.chunk(chunk.index + 1)}</p>
+                                            <p className="text-sm text-gray-400">{chunk.error}</p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRetryChunk(chunk.index)}
+                                            className="shrink-0 px-3 py-1 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {t.common.retry}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <div className="flex justify-center gap-4">
+                                <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                                    <ResetIcon className="w-6 h-6"/>
+                                    <span>{t.common.cancel}</span>
+                                </ActionButton>
+                                <ActionButton onClick={handleRetryFailedChunks} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
+                                    <ResetIcon className="w-6 h-6"/>
+                                    <span>{t.app.transcribing.retryAll}</span>
+                                </ActionButton>
+                            </div>
+                        </div>
+                    );
+                }
+
                  return (
                     <div className="flex flex-col items-center gap-4 text-center">
                         <div className="w-12 h-12 border-4 border-t-transparent border-blue-400 rounded-full animate-spin"></div>
-                        <p className="text-xl font-semibold text-blue-300">Transcribiendo audio...</p>
-                        <p className="text-gray-400 max-w-sm">Este proceso puede tardar unos minutos dependiendo de la duración de la grabación. Por favor, no cierre esta ventana.</p>
+                        <p className="text-xl font-semibold text-blue-300">{isPreparingAudio ? t.app.transcribing.extracting : t.app.transcribing.transcribing}</p>
+                        {chunks.length > 1 && (
+                            <div className="w-64 flex flex-col gap-2">
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-400 transition-all duration-300" style={{ width: `${(doneCount / chunks.length) * 100}%` }}></div>
+                                </div>
+                                <p className="text-sm text-gray-400">{t.app.transcribing.progress(doneCount, chunks.length)}</p>
+                            </div>
+                        )}
+                        {pendingBytes > 0 && <p className="text-sm text-gray-400">{t.app.transcribing.upload(formatBytes(pendingBytes))}</p>}
+                        <p className="text-gray-400 max-w-sm">{t.app.transcribing.patience}</p>
                     </div>
                 );
+            }
+            case AppStatus.NamingSpeakers: {
+                const speakers = getSpeakers(transcriptSegments);
+                const silence = summarizeSilence(chunks);
+                return (
+                    <div className="w-full flex flex-col gap-6">
+                        <h2 className="text-2xl font-bold text-center text-gray-100">{t.app.naming.title}</h2>
+                        <p className="text-gray-400 text-center">{t.app.naming.intro}</p>
+                        {silence && silence.removedSeconds >= 1 && (
+                            <p className="text-sm text-cyan-200 text-center">
+                                {t.app.naming.silenceReport(
+                                    formatTimestamp(silence.removedSeconds),
+                                    formatTimestamp(silence.totalSeconds),
+                                    Math.round((silence.removedSeconds / silence.totalSeconds) * 100),
+                                )}
+                            </p>
+                        )}
+                        <ul className="flex flex-col gap-4 max-h-80 overflow-y-auto pr-1">
+                            {speakers.map(speaker => {
+                                const samples = transcriptSegments.filter(s => s.speaker === speaker).slice(0, 2);
+                                return (
+                                    <li key={speaker} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+                                        <label className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                            <span className="font-semibold text-cyan-400 sm:w-32 shrink-0">{speaker}</span>
+                                            <input
+                                                type="text"
+                                                className="flex-1 px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                                                value={speakerNames[speaker] ?? ''}
+                                                onChange={(e) => setSpeakerNames(prev => ({ ...prev, [speaker]: e.target.value }))}
+                                                placeholder={t.app.naming.placeholder}
+                                            />
+                                        </label>
+                                        {samples.map((sample, i) => (
+                                            <p key={i} className="text-sm text-gray-400">
+                                                <span className="font-mono text-gray-500">[{formatTimestamp(sample.start)}]</span> {sample.text}
+                                            </p>
+                                        ))}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <TemplateSelect />
+                        <FollowUpSelect />
+                        <LanguageSelect transcript={formatTranscript(transcriptSegments)} />
+                        <div className="flex justify-center gap-4">
+                            <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                                <ResetIcon className="w-6 h-6"/>
+                                <span>{t.common.cancel}</span>
+                            </ActionButton>
+                            <ActionButton onClick={handleGenerateWithSpeakerNames} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
+                                <SparklesIcon className="w-6 h-6" />
+                                <span>{t.common.generateMinutes}</span>
+                            </ActionButton>
+                        </div>
+                    </div>
+                );
+            }
             case AppStatus.ReadyToGenerate:
                 return (
                     <div className="w-full flex flex-col gap-6">
-                        <h2 className="text-2xl font-bold text-center text-gray-100">Usar Texto Existente</h2>
-                        <p className="text-gray-400 text-center">Pegue aquí la transcripción de su reunión para generar la minuta.</p>
+                        <h2 className="text-2xl font-bold text-center text-gray-100">{t.app.pasteText.title}</h2>
+                        <p className="text-gray-400 text-center">{t.app.pasteText.intro}</p>
                         <textarea
                             className="w-full h-64 p-4 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200 resize-none"
                             value={transcriptionInput}
                             onChange={(e) => setTranscriptionInput(e.target.value)}
-                            placeholder="Pegue aquí la transcripción completa de su reunión..."
+                            placeholder={t.app.pasteText.placeholder}
+                        />
+                        <FileDropZone
+                            compact
+                            accept={TRANSCRIPT_FILE_EXTENSIONS.join(',')}
+                            hint={t.app.pasteText.importHint}
+                            onFile={handleTranscriptFileSelected}
                         />
+                        {importError && <p className="text-gray-300 bg-red-900/50 p-3 rounded-lg text-center">{importError}</p>}
+                        <TemplateSelect />
+                        <FollowUpSelect />
+                        <LanguageSelect transcript={transcriptionInput} />
                         <div className="flex justify-center gap-4">
                             <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
                                 <ResetIcon className="w-6 h-6"/>
-                                <span>Cancelar</span>
+                                <span>{t.common.cancel}</span>
                             </ActionButton>
-                            <ActionButton onClick={() => generateAndSetMinutes(transcriptionInput)} disabled={!transcriptionInput.trim()} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
+                            <ActionButton onClick={handleGenerateFromPastedText} disabled={!transcriptionInput.trim()} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
                                 <SparklesIcon className="w-6 h-6" />
-                                <span>Generar Minuta</span>
+                                <span>{t.common.generateMinutes}</span>
                             </ActionButton>
                         </div>
                     </div>
@@ -505,142 +1102,338 @@ const App = () => {
                 return (
                     <div className="flex flex-col items-center gap-4 text-center">
                         <div className="w-12 h-12 border-4 border-t-transparent border-cyan-400 rounded-full animate-spin"></div>
-                        <p className="text-xl font-semibold text-cyan-300">Generando minuta...</p>
-                        <p className="text-gray-400 transition-opacity duration-500">{loadingMessage}</p>
+                        <p className="text-xl font-semibold text-cyan-300">{t.app.generating.title}</p>
+                        <p className="text-gray-400">{t.app.generating.waiting}</p>
+                        <ActionButton onClick={handleStopGeneration} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                            <StopIcon className="w-6 h-6" />
+                            <span>{t.common.cancel}</span>
+                        </ActionButton>
                     </div>
                 );
             case AppStatus.Done: {
-                const [summary, ...markdownParts] = minutes.split('---');
-                const rawMarkdown = markdownParts.join('---').trim();
+                if (!minutes) return null;
 
-                const projectNameRegex = /### 1\. Nombre del proyecto o asunto\s*\n\s*\*?\s*(.*?)\s*\n/s;
-                const projectNameMatch = rawMarkdown.match(projectNameRegex);
-                const projectName = projectNameMatch ? projectNameMatch[1].trim() : 'No se especifica';
-                
-                const restOfMarkdownStartIndex = rawMarkdown.indexOf('### 2. Objetivo de la reunión');
-                const restOfMarkdown = restOfMarkdownStartIndex !== -1 ? rawMarkdown.substring(restOfMarkdownStartIndex) : rawMarkdown;
+                if (streamingSections) {
+                    const received = { ...minutesTemplate, sections: minutesTemplate.sections.filter(section => streamingSections.includes(section.id)) };
+                    return (
+                        <div className="w-full flex flex-col gap-4">
+                            <div className="flex items-center gap-3 text-cyan-300">
+                                <div className="w-5 h-5 border-2 border-t-transparent border-cyan-400 rounded-full animate-spin"></div>
+                                <p className="font-semibold">{t.app.generating.streaming}</p>
+                            </div>
+                            <div className="max-h-[32rem] overflow-y-auto pr-1">
+                                <MinutesEditor
+                                    minutes={minutes}
+                                    template={received}
+                                    language={minutesLanguage}
+                                    onChange={handleMinutesChange}
+                                    onRegenerate={handleRegenerateSection}
+                                    canRegenerate={false}
+                                    readOnly
+                                />
+                            </div>
+                            <div className="flex justify-center">
+                                <ActionButton onClick={handleStopGeneration} className="bg-red-600 hover:bg-red-700 focus:ring-red-500">
+                                    <StopIcon className="w-6 h-6" />
+                                    <span>{t.app.generating.stop}</span>
+                                </ActionButton>
+                            </div>
+                        </div>
+                    );
+                }
 
+                const minutesTitle = minutes.projectName && minutes.projectName !== NOT_SPECIFIED ? minutes.projectName : messages(minutesLanguage).minutes.untitled;
                 return (
                     <div className="w-full flex flex-col gap-4">
-                        <div className="p-4 bg-gray-900/70 rounded-lg border border-gray-700">
-                            <div className="flex justify-between items-center">
-                                <h3 className="text-xl font-bold text-cyan-400">{projectName}</h3>
-                                <button
-                                    onClick={() => handleCopyProjectName(projectName)}
-                                    className="text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                                    aria-label="Copiar nombre del proyecto"
-                                    disabled={!projectName || projectName === 'No se especifica'}
-                                >
-                                    {isProjectNameCopied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
-                                </button>
-                            </div>
+                        <div className="flex justify-end gap-1">
+                            <button
+                                onClick={handleUndo}
+                                disabled={!canUndo}
+                                className="text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t.app.done.undo}
+                                title={t.app.done.undoHint}
+                            >
+                                <ArrowUturnLeftIcon className="w-5 h-5" />
+                            </button>
+                            <button
+                                onClick={handleRedo}
+                                disabled={!canRedo}
+                                className="text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label={t.app.done.redo}
+                                title={t.app.done.redoHint}
+                            >
+                                <ArrowUturnRightIcon className="w-5 h-5" />
+                            </button>
                         </div>
 
-                        <div className="p-4 bg-gray-900/70 rounded-lg border border-gray-700">
-                            <div className="flex justify-between items-center mb-2">
-                                <h3 className="text-lg font-semibold text-gray-200">Resumen</h3>
-                                <button
-                                    onClick={handleCopySummary}
-                                    className="text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
-                                    aria-label="Copiar resumen"
-                                >
-                                    {isSummaryCopied ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
-                                </button>
-                            </div>
-                            <p className="text-gray-300">{summary.trim()}</p>
-                        </div>
-                        
-                        <div className="prose prose-invert max-w-none p-4 bg-gray-900/70 rounded-lg border border-gray-700 h-64 overflow-y-auto">
-                            <ReactMarkdown remarkPlugins={[remarkGfm]} components={{
-                                h3: ({...props}) => <h3 className="text-xl font-semibold mt-4 mb-2 text-cyan-400 border-b border-gray-600 pb-1" {...props} />,
-                                ul: ({...props}) => <ul className="list-disc list-inside space-y-1" {...props} />,
-                                li: ({...props}) => <li className="text-gray-300" {...props} />,
-                                p: ({...props}) => <p className="text-gray-300" {...props}/>,
-                                strong: ({...props}) => <strong className="font-semibold text-gray-100" {...props}/>,
-                            }}>
-                                {restOfMarkdown}
-                            </ReactMarkdown>
+                        {unsupportedCount > 0 && (
+                            <p className="text-sm text-yellow-300 bg-yellow-900/30 p-3 rounded-lg border border-yellow-400/50 text-center">
+                                {t.app.done.unsupported(unsupportedCount)}
+                            </p>
+                        )}
+
+                        <div className="max-h-[32rem] overflow-y-auto pr-1">
+                            <MinutesEditor
+                                minutes={minutes}
+                                template={minutesTemplate}
+                                language={minutesLanguage}
+                                onChange={handleMinutesChange}
+                                onRegenerate={handleRegenerateSection}
+                                canRegenerate={transcript.trim() !== ''}
+                                transcriptSegments={transcriptSegments}
+                                onShowSource={index => setSourceFocus({ index })}
+                            />
                         </div>
 
+                        {transcriptSegments.length > 0 && (
+                            <section className="flex flex-col gap-2">
+                                <h3 className="text-lg font-semibold text-cyan-400">{t.transcriptPlayer.title}</h3>
+                                <TranscriptPlayer segments={transcriptSegments} audio={meetingAudio} focus={sourceFocus} />
+                            </section>
+                        )}
+
+                        {isIncomplete && <p className="text-sm text-yellow-300 bg-yellow-900/30 p-3 rounded-lg border border-yellow-400/50 text-center">{t.app.done.incomplete}</p>}
+                        {actionError && <p className="text-gray-300 bg-red-900/50 p-3 rounded-lg text-center">{actionError}</p>}
+
+                        <ExportMenu onExport={handleExport} />
+
+                        <IntegrationsPanel
+                            buildContext={() => buildIntegrationContext(minutes, minutesTemplate, {
+                                language: minutesLanguage,
+                                date: meetingDate ? new Date(meetingDate) : new Date(),
+                                attendees: getParticipants(transcriptSegments),
+                            })}
+                            meetingId={sessionIdRef.current ?? undefined}
+                            confirmSend={confirmUnsupported}
+                        />
+
+                        <TaskExport
+                            items={extractActionItems(minutes, minutesTemplate)}
+                            nextMeeting={getTemplateSection(minutesTemplate, 'nextMeeting') && minutes.nextMeeting.date !== NOT_SPECIFIED ? minutes.nextMeeting : null}
+                            title={minutesTitle}
+                            date={(meetingDate ? new Date(meetingDate) : new Date()).toLocaleDateString(minutesLanguage, { dateStyle: 'long' })}
+                            language={minutesLanguage}
+                            uidPrefix={sessionIdRef.current ?? toFileName(minutesTitle)}
+                        />
+
+                        {minutes.projectName !== NOT_SPECIFIED && (
+                            <ProjectFollowUps project={minutes.projectName} meetingId={sessionIdRef.current ?? undefined} followUps={minutes.followUps} />
+                        )}
+
+                        {notionPage?.url && (
+                            <p className="text-sm text-center text-gray-400">
+                                <a href={notionPage.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-200 hover:underline">
+                                    {t.app.done.openInNotion}
+                                </a>
+                            </p>
+                        )}
+
                         <div className="flex flex-wrap justify-center gap-4">
                              <ActionButton onClick={handleCopy} className="bg-green-700 hover:bg-green-800 focus:ring-green-600">
                                 {isCopied ? <CheckIcon className="w-6 h-6" /> : <CopyIcon className="w-6 h-6" />}
-                                <span>{isCopied ? 'Copiado!' : 'Copiar Markdown'}</span>
+                                <span>{isCopied ? t.common.copied : t.app.done.copyMarkdown}</span>
                             </ActionButton>
                             <ActionButton onClick={handleCopyFormatted} className="bg-sky-600 hover:bg-sky-700 focus:ring-sky-500">
                                 {isFormattedCopied ? <CheckIcon className="w-6 h-6" /> : <CopyIcon className="w-6 h-6" />}
-                                <span>{isFormattedCopied ? 'Copiado!' : 'Copiar con Formato'}</span>
-                            </ActionButton>
-                             {/*
-                             <ActionButton
-                                onClick={handleSendToNotion}
-                                disabled={isSendingToNotion || notionSendSuccess === true}
-                                className={`w-48
-                                    ${notionSendSuccess === true ? 'bg-teal-600 cursor-default hover:bg-teal-600' : ''}
-                                    ${notionSendSuccess === false ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : ''}
-                                    ${notionSendSuccess === null ? 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500' : ''}
-                                `}
-                            >
-                                {isSendingToNotion ? (
-                                    <>
-                                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                                        <span>Enviando...</span>
-                                    </>
-                                ) : notionSendSuccess === true ? (
-                                    <>
-                                        <CheckIcon className="w-6 h-6" />
-                                        <span>Enviado</span>
-                                    </>
-                                ) : notionSendSuccess === false ? (
-                                     <>
-                                        <ResetIcon className="w-6 h-6" />
-                                        <span>Reintentar</span>
-                                    </>
-                                ) : (
-                                    <>
-                                        <PaperAirplaneIcon className="w-6 h-6" />
-                                        <span>Enviar a Notion</span>
-                                    </>
-                                )}
+                                <span>{isFormattedCopied ? t.common.copied : t.app.done.copyFormatted}</span>
                             </ActionButton>
-                            */}
+                            {isNotionConfigured() && (
+                                <ActionButton
+                                    onClick={handleSendToNotion}
+                                    disabled={isSendingToNotion}
+                                    className={`w-56
+                                        ${notionSendSuccess === true ? 'bg-teal-600 hover:bg-teal-700 focus:ring-teal-500' : ''}
+                                        ${notionSendSuccess === false ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : ''}
+                                        ${notionSendSuccess === null ? 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500' : ''}
+                                    `}
+                                >
+                                    {isSendingToNotion ? (
+                                        <>
+                                            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                                            <span>{t.app.done.sending}</span>
+                                        </>
+                                    ) : notionSendSuccess === true ? (
+                                        <>
+                                            <CheckIcon className="w-6 h-6" />
+                                            <span>{t.app.done.sent}</span>
+                                        </>
+                                    ) : notionSendSuccess === false ? (
+                                        <>
+                                            <ResetIcon className="w-6 h-6" />
+                                            <span>{t.common.retry}</span>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <PaperAirplaneIcon className="w-6 h-6" />
+                                            <span>{notionPage ? t.app.done.updateInNotion : t.app.done.sendToNotion}</span>
+                                        </>
+                                    )}
+                                </ActionButton>
+                            )}
                             <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
                                 <ResetIcon className="w-6 h-6"/>
-                                <span>Empezar de Nuevo</span>
+                                <span>{t.app.done.startOver}</span>
                             </ActionButton>
                         </div>
                     </div>
                 );
             }
-            case AppStatus.Error:
-                 return (
+            case AppStatus.ImportPreview:
+                return (
+                    <div className="w-full flex flex-col gap-6">
+                        <h2 className="text-2xl font-bold text-center text-gray-100">{t.app.importPreview.title}</h2>
+                        <p className="text-gray-400 text-center">{t.app.importPreview.intro}</p>
+                        <TranscriptPreview segments={transcriptSegments} />
+                        <TemplateSelect />
+                        <FollowUpSelect />
+                        <LanguageSelect transcript={formatTranscript(transcriptSegments)} />
+                        <div className="flex flex-wrap justify-center gap-4">
+                            <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                                <ResetIcon className="w-6 h-6"/>
+                                <span>{t.common.cancel}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.NamingSpeakers)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <span>{t.app.importPreview.renameParticipants}</span>
+                            </ActionButton>
+                            <ActionButton onClick={handleGenerateFromImport} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
+                                <SparklesIcon className="w-6 h-6" />
+                                <span>{t.common.generateMinutes}</span>
+                            </ActionButton>
+                        </div>
+                    </div>
+                );
+            case AppStatus.UploadFile:
+                return (
+                    <div className="w-full flex flex-col gap-6">
+                        <h2 className="text-2xl font-bold text-center text-gray-100">{t.app.upload.title}</h2>
+                        <p className="text-gray-400 text-center">{t.app.upload.intro}</p>
+                        <FileDropZone
+                            accept={ACCEPTED_MEDIA_TYPES.join(',')}
+                            hint={t.app.upload.hint(MAX_UPLOAD_BYTES / (1024 * 1024))}
+                            onFile={handleFileSelected}
+                        />
+                        {uploadError && <p className="text-gray-300 bg-red-900/50 p-3 rounded-lg text-center">{uploadError}</p>}
+                        <div className="flex justify-center">
+                            <ActionButton onClick={handleReset} className="bg-gray-600 hover:bg-gray-700 focus:ring-gray-500">
+                                <ResetIcon className="w-6 h-6"/>
+                                <span>{t.common.cancel}</span>
+                            </ActionButton>
+                        </div>
+                    </div>
+                );
+            case AppStatus.RecordingSetup:
+                return <RecordingSetup onStart={handleStartRecording} onCancel={handleReset} />;
+            case AppStatus.History:
+                return <HistoryView onReopen={handleReopenMeeting} onBack={handleReset} />;
+            case AppStatus.Templates:
+                return <TemplateManager onBack={handleReset} />;
+            case AppStatus.Settings:
+                return <ProviderSettings onBack={handleReset} />;
+            case AppStatus.Integrations:
+                return <IntegrationManager onBack={handleReset} />;
+            case AppStatus.ActionItems:
+                return <ActionItemTracker onBack={handleReset} />;
+            case AppStatus.Error: {
+                if (!error) return null;
+                const actions = recoveryActions(error, failedStep);
+                const handlers: Record<RecoveryAction, () => unknown> = {
+                    retry: handleRetryFailedStep,
+                    backToTranscript: handleBackToTranscript,
+                    reRecord: () => setStatus(AppStatus.RecordingSetup),
+                    startOver: handleReset,
+                };
+                const icons: Record<RecoveryAction, ReactNode> = {
+                    retry: <ResetIcon className="w-6 h-6" />,
+                    backToTranscript: <ArrowUturnLeftIcon className="w-6 h-6" />,
+                    reRecord: <MicrophoneIcon className="w-6 h-6" />,
+                    startOver: null,
+                };
+                return (
                     <div className="text-center flex flex-col items-center gap-4">
-                        <h2 className="text-2xl font-bold text-red-400">Ocurrió un Error</h2>
-                        <p className="text-gray-300 bg-red-900/50 p-4 rounded-lg max-w-md">{error}</p>
-                        <ActionButton onClick={handleReset} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
-                            <span>Intentar de Nuevo</span>
-                        </ActionButton>
+                        <h2 className="text-2xl font-bold text-red-400">{t.app.error.titles[error.category]}</h2>
+                        <p className="text-gray-300 bg-red-900/50 p-4 rounded-lg max-w-md">{error.message}</p>
+                        {(failedStep === 'transcription' || failedStep === 'generation') && (
+                            <p className="text-sm text-gray-400 max-w-md">{t.app.error.inputKept}</p>
+                        )}
+                        <div className="flex flex-wrap justify-center gap-4">
+                            {actions.map((action, i) => (
+                                <ActionButton
+                                    key={action}
+                                    onClick={handlers[action]}
+                                    className={i === 0 ? 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500' : 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500'}
+                                >
+                                    {icons[action]}
+                                    <span>{t.app.error.actions[action]}</span>
+                                </ActionButton>
+                            ))}
+                        </div>
                     </div>
                 );
+            }
             case AppStatus.Idle:
             default:
                 return (
                     <div className="text-center flex flex-col items-center gap-6">
                         {isSafari && (
                             <div className="p-4 mb-4 text-sm text-yellow-300 bg-yellow-900/30 rounded-lg border border-yellow-400/50" role="alert">
-                                <span className="font-bold">Aviso para usuarios de Safari:</span> Para una grabación completa (incluyendo a todos los participantes), recomendamos usar Google Chrome. Safari solo permitirá grabar el audio de tu micrófono.
+                                <span className="font-bold">{t.app.idle.safariWarningTitle}</span> {t.app.idle.safariWarning}
                             </div>
                         )}
-                        <h2 className="text-3xl font-bold">Asistente de Minutas de Reunión</h2>
-                        <p className="text-gray-400 max-w-lg">Elija cómo desea comenzar. Grabe una reunión completa o pegue una transcripción existente para generar una minuta profesional.</p>
-                        <div className="flex flex-col sm:flex-row gap-4 mt-4">
-                            <ActionButton onClick={handleStartRecording} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
+                        {unfinishedRecording && (
+                            <div className="w-full p-4 text-sm text-cyan-200 bg-cyan-900/30 rounded-lg border border-cyan-400/50 flex flex-col gap-3" role="alert">
+                                <p>
+                                    <span className="font-bold">{t.app.idle.unfinishedTitle}</span> {t.app.idle.unfinishedBody(new Date(unfinishedRecording.createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }))}
+                                </p>
+                                <div className="flex justify-center gap-2">
+                                    <button
+                                        onClick={handleDiscardRecording}
+                                        className="px-3 py-1 text-sm font-semibold text-white bg-gray-600 hover:bg-gray-700 rounded-full focus:outline-none focus:ring-2 focus:ring-gray-500"
+                                    >
+                                        {t.app.idle.discard}
+                                    </button>
+                                    <button
+                                        onClick={handleRecoverRecording}
+                                        className="px-3 py-1 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        {t.app.idle.recover}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        <h2 className="text-3xl font-bold">{t.app.title}</h2>
+                        <p className="text-gray-400 max-w-lg">{t.app.idle.intro}</p>
+                        <div className="flex flex-col sm:flex-row sm:flex-wrap sm:justify-center gap-4 mt-4">
+                            <ActionButton onClick={() => setStatus(AppStatus.RecordingSetup)} className="bg-blue-600 hover:bg-blue-700 focus:ring-blue-500">
                                 <MicrophoneIcon className="w-6 h-6" />
-                                <span>Iniciar Grabación Completa</span>
+                                <span>{t.app.idle.startRecording}</span>
                             </ActionButton>
                              <ActionButton onClick={() => setStatus(AppStatus.ReadyToGenerate)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
                                 <DocumentTextIcon className="w-6 h-6" />
-                                <span>Usar Texto Existente</span>
+                                <span>{t.app.idle.useExistingText}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.UploadFile)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <ArrowUpTrayIcon className="w-6 h-6" />
+                                <span>{t.app.idle.uploadFile}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.History)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <ArchiveBoxIcon className="w-6 h-6" />
+                                <span>{t.app.idle.history}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.Templates)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <DocumentTextIcon className="w-6 h-6" />
+                                <span>{t.app.idle.templates}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.Settings)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <CogIcon className="w-6 h-6" />
+                                <span>{t.app.idle.settings}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.Integrations)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <PaperAirplaneIcon className="w-6 h-6" />
+                                <span>{t.app.idle.integrations}</span>
+                            </ActionButton>
+                            <ActionButton onClick={() => setStatus(AppStatus.ActionItems)} className="bg-gray-700 hover:bg-gray-600 focus:ring-gray-500">
+                                <CheckIcon className="w-6 h-6" />
+                                <span>{t.app.idle.actionItems}</span>
                             </ActionButton>
                         </div>
                     </div>
@@ -654,8 +1447,20 @@ const App = () => {
                 <Card className="min-h-[30rem] flex items-center justify-center">
                     {renderContent()}
                 </Card>
-                <footer className="text-center mt-6 text-gray-500 text-sm">
-                    <p>Desarrollado con React y Gemini API.</p>
+                <footer className="text-center mt-6 text-gray-500 text-sm flex flex-col items-center gap-2">
+                    <p>{t.app.footer}</p>
+                    <label className="flex items-center gap-2">
+                        <span>{t.app.interfaceLanguage}</span>
+                        <select
+                            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:ring-2 focus:ring-blue-500"
+                            value={locale}
+                            onChange={(e) => setLocale(e.target.value as Locale)}
+                        >
+                            {LOCALES.map(code => (
+                                <option key={code} value={code}>{messages(code).languageName}</option>
+                            ))}
+                        </select>
+                    </label>
                 </footer>
             </main>
         </div>
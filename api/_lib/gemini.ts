@@ -0,0 +1,46 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { HttpError } from './http';
+
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+// The key only exists on the server, in the GEMINI_API_KEY environment variable.
+export function getGeminiClient(): GoogleGenAI {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new HttpError(503, 'NOT_CONFIGURED', 'GEMINI_API_KEY is not set on the server.');
+    }
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+}
+
+// Runs a Gemini call, reporting its failures as upstream errors.
+export async function callGemini<T>(request: (ai: GoogleGenAI) => Promise<T>): Promise<T> {
+    const ai = getGeminiClient();
+    try {
+        return await request(ai);
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        console.error('Gemini request failed:', error);
+        throw new HttpError(502, 'UPSTREAM_FAILED', error instanceof Error ? error.message : 'Gemini request failed.');
+    }
+}
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+];
+
+// Text of a response, or a SAFETY_BLOCKED error when Gemini refused the
+// prompt or stopped the answer on its content filters.
+export function responseText(response: GenerateContentResponse, fallback: string): string {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new HttpError(422, 'SAFETY_BLOCKED', `Gemini blocked the response (${blockReason ?? finishReason}).`);
+    }
+    return response.text ?? fallback;
+}
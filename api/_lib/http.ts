@@ -0,0 +1,61 @@
+import { ApiErrorBody, ApiErrorCode } from '../../services/apiErrors';
+
+// Failure of a request with the status and code sent back to the browser.
+export class HttpError extends Error {
+    status: number;
+    code: ApiErrorCode;
+    retryAfterSeconds?: number;
+
+    constructor(status: number, code: ApiErrorCode, message: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.code = code;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+export const errorBody = ({ code, message, retryAfterSeconds }: HttpError): ApiErrorBody =>
+    ({ error: { code, message, ...(retryAfterSeconds !== undefined && { retryAfterSeconds }) } });
+
+const errorResponse = (error: HttpError): Response =>
+    jsonResponse(errorBody(error), error.status, error.retryAfterSeconds !== undefined ? { 'Retry-After': String(error.retryAfterSeconds) } : {});
+
+/**
+ * Wraps a route handler so every failure reaches the browser as a JSON
+ * error with a stable code. Unexpected errors are logged and reported as
+ * upstream failures without their details.
+ */
+export const route = (handler: (request: Request) => Promise<Response>) =>
+    async (request: Request): Promise<Response> => {
+        try {
+            return await handler(request);
+        } catch (error) {
+            if (error instanceof HttpError) {
+                return errorResponse(error);
+            }
+            console.error(`Unexpected error in ${new URL(request.url).pathname}:`, error);
+            return errorResponse(new HttpError(502, 'UPSTREAM_FAILED', 'The AI service request failed.'));
+        }
+    };
+
+// Identifies the caller for rate limiting. Behind Vercel and most proxies
+// the first X-Forwarded-For entry is the client address.
+export const clientKey = (request: Request): string =>
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'anonymous';
+
+// Rejects a request whose declared size is over the limit before reading it.
+export function assertContentLength(request: Request, maxBytes: number): void {
+    const length = Number(request.headers.get('content-length'));
+    if (length > maxBytes) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body of ${length} bytes exceeds the ${maxBytes} byte limit.`);
+    }
+}
@@ -0,0 +1,82 @@
+import { parseNotionId } from '../../services/notionBlocks';
+import { HttpError } from './http';
+
+const NOTION_API = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+// The integration token only exists on the server, in NOTION_TOKEN.
+const notionToken = (): string => {
+    const token = process.env.NOTION_TOKEN;
+    if (!token) {
+        throw new HttpError(503, 'NOT_CONFIGURED', 'NOTION_TOKEN is not set on the server.');
+    }
+    return token;
+};
+
+/**
+ * Checks that the route may use a database. The token reaches every database
+ * shared with the integration, so the ones the browser can read and write
+ * are listed in NOTION_DATABASE_IDS (ids or URLs, separated by commas).
+ * Others are answered as not found.
+ */
+export function assertAllowedDatabase(databaseId: string): void {
+    const allowed = (process.env.NOTION_DATABASE_IDS ?? '').split(',').map(id => parseNotionId(id.trim())).filter(id => id !== null);
+    if (allowed.length === 0) {
+        throw new HttpError(503, 'NOT_CONFIGURED', 'NOTION_DATABASE_IDS is not set on the server.');
+    }
+    if (!allowed.includes(databaseId)) {
+        throw new HttpError(404, 'NOT_FOUND', `Notion database ${databaseId} is not enabled on this server.`);
+    }
+}
+
+/**
+ * Calls the Notion API with the server's token. Missing objects (or objects
+ * not shared with the integration) become NOT_FOUND errors, Notion's rate
+ * limit becomes RATE_LIMITED, and anything else an upstream failure.
+ */
+export async function notionRequest<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(`${NOTION_API}/${path}`, {
+            method,
+            headers: {
+                Authorization: `Bearer ${notionToken()}`,
+                'Notion-Version': NOTION_VERSION,
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    } catch (error) {
+        if (error instanceof HttpError) throw error;
+        console.error('Notion request failed:', error);
+        throw new HttpError(502, 'UPSTREAM_FAILED', 'Notion could not be reached.');
+    }
+    if (response.ok) {
+        return response.json() as Promise<T>;
+    }
+    const details = await response.text().catch(() => '');
+    if (response.status === 404) {
+        throw new HttpError(404, 'NOT_FOUND', `Notion object not found: ${path}`);
+    }
+    if (response.status === 429) {
+        const retryAfterSeconds = Number(response.headers.get('retry-after')) || 60;
+        throw new HttpError(429, 'RATE_LIMITED', 'Notion rate limit reached.', retryAfterSeconds);
+    }
+    if (response.status === 400) {
+        // Usually a property mapping that no longer matches the database.
+        throw new HttpError(400, 'INVALID_REQUEST', `Notion rejected the request: ${details.slice(0, 300)}`);
+    }
+    console.error(`Notion ${method} ${path} failed with ${response.status}:`, details);
+    throw new HttpError(502, 'UPSTREAM_FAILED', `Notion answered ${response.status}.`);
+}
+
+// Runs `task` over the items with at most `limit` requests in flight.
+export async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
@@ -0,0 +1,37 @@
+import { HttpError } from './http';
+
+interface Window {
+    start: number;
+    count: number;
+}
+
+// Entries are swept once the map grows past this many callers.
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Fixed-window request counter per caller. State lives in the memory of the
+ * function instance, so the limit applies per instance; that is enough to
+ * stop a single client from draining the key without an external store.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+    const windows = new Map<string, Window>();
+
+    return (key: string): void => {
+        const now = Date.now();
+        if (windows.size > SWEEP_THRESHOLD) {
+            windows.forEach((window, k) => {
+                if (now - window.start >= windowMs) windows.delete(k);
+            });
+        }
+        const window = windows.get(key);
+        if (!window || now - window.start >= windowMs) {
+            windows.set(key, { start: now, count: 1 });
+            return;
+        }
+        if (window.count >= limit) {
+            const retryAfterSeconds = Math.ceil((window.start + windowMs - now) / 1000);
+            throw new HttpError(429, 'RATE_LIMITED', `More than ${limit} requests in ${windowMs / 1000} s.`, retryAfterSeconds);
+        }
+        window.count++;
+    };
+}
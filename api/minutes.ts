@@ -0,0 +1,173 @@
+import { ActionItemStatus, Minutes, MomentFlag, MomentFlagKind } from '../types';
+import { isLocale } from '../i18n';
+import { buildMinutesRequestPrompt, buildMinutesRequestSchema, FollowUp, MAX_FOLLOW_UP_ITEMS, MAX_FOLLOW_UP_TEXT, MinutesRequest, PendingActionItem } from '../services/prompts';
+import { TemplateValidationError, validateTemplate } from '../services/templates';
+import { MinutesValidationError, validateMinutes } from '../services/minutesSchema';
+import { ApiStreamEvent } from '../services/apiErrors';
+import { assertContentLength, clientKey, errorBody, HttpError, route } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+import { callGemini, GEMINI_MODEL, responseText } from './_lib/gemini';
+
+// Enough for the transcript of a meeting of several hours.
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_PARTICIPANTS = 100;
+const MAX_INSTRUCTION_CHARS = 1000;
+const MAX_FLAGS = 200;
+const FLAG_KINDS: MomentFlagKind[] = ['decision', 'action'];
+const ITEM_STATUSES: ActionItemStatus[] = ['open', 'done', 'blocked'];
+
+const checkRateLimit = createRateLimiter(10, 60_000);
+
+const invalid = (message: string) => new HttpError(400, 'INVALID_REQUEST', message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFlag = (value: unknown): value is MomentFlag =>
+    isRecord(value) && FLAG_KINDS.includes(value.kind as MomentFlagKind)
+    && typeof value.time === 'number' && Number.isFinite(value.time) && value.time >= 0;
+
+const isOptionalText = (value: unknown): value is string | null =>
+    value === null || (typeof value === 'string' && value.length <= MAX_FOLLOW_UP_TEXT);
+
+const isPendingItem = (value: unknown): value is PendingActionItem =>
+    isRecord(value) && typeof value.id === 'string' && value.id.length <= 100
+    && typeof value.description === 'string' && value.description.length <= MAX_FOLLOW_UP_TEXT
+    && isOptionalText(value.owner) && isOptionalText(value.dueDate)
+    && ITEM_STATUSES.includes(value.status as ActionItemStatus);
+
+function parseFollowUp(value: unknown): FollowUp | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value) || typeof value.project !== 'string' || value.project.length > MAX_FOLLOW_UP_TEXT) {
+        throw invalid('"followUp" must be an object with the project name.');
+    }
+    const { project, items } = value;
+    if (!Array.isArray(items) || items.length > MAX_FOLLOW_UP_ITEMS || !items.every(isPendingItem)) {
+        throw invalid(`"followUp.items" must be a list of at most ${MAX_FOLLOW_UP_ITEMS} pending tasks.`);
+    }
+    return {
+        project,
+        items: items.map(({ id, description, owner, dueDate, status }) => ({ id, description, owner, dueDate, status })),
+    };
+}
+
+const isSectionValue = (value: unknown): value is string | string[] =>
+    typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+// The minutes a section is rewritten in, normalized like a model answer.
+// Custom sections are kept as they are; citations and follow-ups are not
+// part of the prompt and are dropped.
+function parseCurrentMinutes(value: unknown): Minutes {
+    let minutes: Minutes;
+    try {
+        minutes = validateMinutes(value, { id: '', name: '', sections: [] });
+    } catch (error) {
+        if (error instanceof MinutesValidationError) throw invalid(`"minutes": ${error.message}`);
+        throw error;
+    }
+    const { customSections } = value as Record<string, unknown>;
+    if (customSections === undefined) return minutes;
+    const sections = isRecord(customSections) ? Object.entries(customSections) : [];
+    if (!isRecord(customSections) || !sections.every((entry): entry is [string, string | string[]] => isSectionValue(entry[1]))) {
+        throw invalid('"minutes.customSections" must map section ids to text or lists of text.');
+    }
+    return { ...minutes, customSections: Object.fromEntries(sections) };
+}
+
+// Checks the untrusted body and rebuilds it as a `MinutesRequest`, so only
+// the fields the prompts use reach the model.
+function parseMinutesRequest(body: string): MinutesRequest {
+    let value: unknown;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw invalid('The body is not valid JSON.');
+    }
+    if (!isRecord(value)) throw invalid('The body must be a JSON object.');
+    const { kind, transcript, language } = value;
+    if (typeof transcript !== 'string' || !transcript.trim()) throw invalid('"transcript" must be non-empty text.');
+    if (!isLocale(language)) throw invalid('"language" is not a supported locale.');
+
+    try {
+        if (kind === 'minutes') {
+            const { participants, template, flags = [] } = value;
+            if (!Array.isArray(participants) || participants.length > MAX_PARTICIPANTS || !participants.every(p => typeof p === 'string')) {
+                throw invalid(`"participants" must be a list of at most ${MAX_PARTICIPANTS} names.`);
+            }
+            if (!Array.isArray(flags) || flags.length > MAX_FLAGS || !flags.every(isFlag)) {
+                throw invalid(`"flags" must be a list of at most ${MAX_FLAGS} marked moments.`);
+            }
+            const moments = flags.map(({ kind: flagKind, time }) => ({ kind: flagKind, time }));
+            const followUp = parseFollowUp(value.followUp);
+            return { kind, transcript, language, participants, template: validateTemplate(template), flags: moments, ...(followUp && { followUp }) };
+        }
+        if (kind === 'section') {
+            const { section, instruction } = value;
+            const minutes = parseCurrentMinutes(value.minutes);
+            if (typeof instruction !== 'string' || instruction.length > MAX_INSTRUCTION_CHARS) {
+                throw invalid(`"instruction" must be text of at most ${MAX_INSTRUCTION_CHARS} characters.`);
+            }
+            const [validSection] = validateTemplate({ name: 'section', sections: [section] }).sections;
+            return { kind, transcript, language, minutes, section: validSection, instruction };
+        }
+    } catch (error) {
+        if (error instanceof TemplateValidationError) throw invalid(error.message);
+        throw error;
+    }
+    throw invalid('"kind" must be "minutes" or "section".');
+}
+
+// POST /api/minutes — JSON `MinutesRequest`. Streams the model's JSON as
+// NDJSON `ApiStreamEvent`s; the browser validates the joined text against
+// the template.
+export const POST = route(async request => {
+    checkRateLimit(clientKey(request));
+    assertContentLength(request, MAX_BODY_BYTES);
+    const body = await request.text();
+    if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds the ${MAX_BODY_BYTES} byte limit.`);
+    }
+    const minutesRequest = parseMinutesRequest(body);
+
+    const stream = await callGemini(ai => ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: buildMinutesRequestPrompt(minutesRequest),
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: buildMinutesRequestSchema(minutesRequest),
+            // Stop generating when the browser cancels.
+            abortSignal: request.signal,
+        },
+    }));
+
+    const encoder = new TextEncoder();
+    const events = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ApiStreamEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+            let text = '';
+            try {
+                for await (const chunk of stream) {
+                    const piece = responseText(chunk, '');
+                    text += piece;
+                    if (piece) send({ text: piece });
+                }
+                JSON.parse(text);
+            } catch (error) {
+                if (request.signal.aborted) {
+                    controller.close();
+                    return;
+                }
+                if (error instanceof SyntaxError) {
+                    send(errorBody(new HttpError(502, 'INVALID_MODEL_RESPONSE', 'The model did not return JSON.')));
+                } else if (error instanceof HttpError) {
+                    send(errorBody(error));
+                } else {
+                    console.error('Gemini stream failed:', error);
+                    send(errorBody(new HttpError(502, 'UPSTREAM_FAILED', 'The AI service request failed.')));
+                }
+            }
+            controller.close();
+        },
+    });
+    return new Response(events, { headers: { 'Content-Type': 'application/x-ndjson' } });
+});
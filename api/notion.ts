@@ -0,0 +1,177 @@
+import { NotionBlock, NotionDatabaseSchema, NotionSendRequest, NotionSendResult, parseNotionId } from '../services/notionBlocks';
+import { assertContentLength, clientKey, HttpError, jsonResponse, route } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+import { assertAllowedDatabase, forEachLimited, notionRequest } from './_lib/notion';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_BLOCKS = 1000;
+const MAX_PROPERTIES = 50;
+// Notion takes at most 100 blocks per append and about three requests per
+// second per integration.
+const BLOCKS_PER_REQUEST = 100;
+const CONCURRENT_DELETES = 3;
+
+const checkRateLimit = createRateLimiter(10, 60_000);
+
+const invalid = (message: string) => new HttpError(400, 'INVALID_REQUEST', message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlock = (value: unknown): value is NotionBlock =>
+    isRecord(value) && value.object === 'block' && typeof value.type === 'string' && isRecord(value[value.type]);
+
+interface RichTextResponse {
+    plain_text: string;
+}
+
+interface DatabaseResponse {
+    title: RichTextResponse[];
+    properties: Record<string, { name: string; type: string }>;
+}
+
+interface PageResponse {
+    id: string;
+    url: string;
+    archived: boolean;
+    parent: { type: string; database_id?: string };
+}
+
+interface BlockResponse {
+    id: string;
+    type: string;
+    to_do?: { rich_text: RichTextResponse[]; checked: boolean };
+}
+
+interface ChildrenResponse {
+    results: BlockResponse[];
+    has_more: boolean;
+    next_cursor: string | null;
+}
+
+function requireId(value: unknown, name: string): string {
+    const id = typeof value === 'string' ? parseNotionId(value) : null;
+    if (!id) throw invalid(`"${name}" must be a Notion id.`);
+    return id;
+}
+
+function parseSendRequest(body: string): NotionSendRequest {
+    let value: unknown;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw invalid('The body is not valid JSON.');
+    }
+    if (!isRecord(value)) throw invalid('The body must be a JSON object.');
+    const { properties, blocks } = value;
+    if (!isRecord(properties) || Object.keys(properties).length > MAX_PROPERTIES) {
+        throw invalid(`"properties" must be an object with at most ${MAX_PROPERTIES} properties.`);
+    }
+    if (!Array.isArray(blocks) || blocks.length > MAX_BLOCKS || !blocks.every(isBlock)) {
+        throw invalid(`"blocks" must be a list of at most ${MAX_BLOCKS} Notion blocks.`);
+    }
+    return {
+        databaseId: requireId(value.databaseId, 'databaseId'),
+        ...(value.pageId !== undefined && { pageId: requireId(value.pageId, 'pageId') }),
+        properties,
+        blocks,
+    };
+}
+
+const plainText = (richText: RichTextResponse[]): string => richText.map(text => text.plain_text).join('');
+
+async function listChildren(blockId: string): Promise<BlockResponse[]> {
+    const children: BlockResponse[] = [];
+    let cursor: string | null = null;
+    do {
+        const query = `page_size=100${cursor ? `&start_cursor=${encodeURIComponent(cursor)}` : ''}`;
+        const page: ChildrenResponse = await notionRequest<ChildrenResponse>(`blocks/${blockId}/children?${query}`);
+        children.push(...page.results);
+        cursor = page.has_more ? page.next_cursor : null;
+    } while (cursor);
+    return children;
+}
+
+async function appendBlocks(pageId: string, blocks: NotionBlock[]): Promise<void> {
+    for (let i = 0; i < blocks.length; i += BLOCKS_PER_REQUEST) {
+        await notionRequest(`blocks/${pageId}/children`, 'PATCH', { children: blocks.slice(i, i + BLOCKS_PER_REQUEST) });
+    }
+}
+
+// Page previously created for the same meeting, if it is still in the
+// database. A deleted or moved page gets replaced by a new one.
+async function findExistingPage(pageId: string, databaseId: string): Promise<PageResponse | null> {
+    try {
+        const page = await notionRequest<PageResponse>(`pages/${pageId}`);
+        const parentId = page.parent.database_id?.replace(/-/g, '');
+        return !page.archived && parentId === databaseId ? page : null;
+    } catch (error) {
+        if (error instanceof HttpError && error.code === 'NOT_FOUND') return null;
+        throw error;
+    }
+}
+
+// Replaces the content of the page, keeping tasks already ticked in Notion
+// ticked when their text did not change. The new blocks are appended before
+// the old ones are deleted, so a send that fails halfway never leaves the
+// page empty.
+async function replaceContent(pageId: string, blocks: NotionBlock[]): Promise<void> {
+    const existing = await listChildren(pageId);
+    const checked = new Set(existing.filter(block => block.to_do?.checked).map(block => plainText(block.to_do.rich_text)));
+    const content = blocks.map(block => {
+        if (block.type !== 'to_do') return block;
+        const todo = block.to_do as { rich_text: { text: { content: string } }[] };
+        const text = todo.rich_text.map(piece => piece.text.content).join('');
+        return checked.has(text) ? { ...block, to_do: { ...todo, checked: true } } : block;
+    });
+    await appendBlocks(pageId, content);
+    await forEachLimited(existing, CONCURRENT_DELETES, async block => {
+        await notionRequest(`blocks/${block.id}`, 'DELETE');
+    });
+}
+
+// GET /api/notion?database=<id> — title and properties of the database,
+// for mapping the minutes fields in settings.
+export const GET = route(async request => {
+    checkRateLimit(clientKey(request));
+    const databaseId = requireId(new URL(request.url).searchParams.get('database'), 'database');
+    assertAllowedDatabase(databaseId);
+    const database = await notionRequest<DatabaseResponse>(`databases/${databaseId}`);
+    const schema: NotionDatabaseSchema = {
+        title: plainText(database.title),
+        properties: Object.values(database.properties).map(({ name, type }) => ({ name, type })),
+    };
+    return jsonResponse(schema);
+});
+
+// POST /api/notion — JSON `NotionSendRequest`. Updates the page given in
+// `pageId` when it is still in the database, otherwise creates one, and
+// answers with a `NotionSendResult`.
+export const POST = route(async request => {
+    checkRateLimit(clientKey(request));
+    assertContentLength(request, MAX_BODY_BYTES);
+    const body = await request.text();
+    if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds the ${MAX_BODY_BYTES} byte limit.`);
+    }
+    const { databaseId, pageId, properties, blocks } = parseSendRequest(body);
+    // The page is only updated when it belongs to this database.
+    assertAllowedDatabase(databaseId);
+
+    const existing = pageId ? await findExistingPage(pageId, databaseId) : null;
+    if (existing) {
+        await notionRequest(`pages/${existing.id}`, 'PATCH', { properties });
+        await replaceContent(existing.id, blocks);
+        const result: NotionSendResult = { pageId: existing.id, url: existing.url, updated: true };
+        return jsonResponse(result);
+    }
+
+    const page = await notionRequest<PageResponse>('pages', 'POST', {
+        parent: { database_id: databaseId },
+        properties,
+        children: blocks.slice(0, BLOCKS_PER_REQUEST),
+    });
+    await appendBlocks(page.id, blocks.slice(BLOCKS_PER_REQUEST));
+    const result: NotionSendResult = { pageId: page.id, url: page.url, updated: false };
+    return jsonResponse(result);
+});
@@ -0,0 +1,83 @@
+import { Buffer } from 'node:buffer';
+import { MAX_AUDIO_UPLOAD_BYTES } from '../services/audioSegments';
+import { AudioPart, buildTranscriptionPrompt } from '../services/prompts';
+import { parseTranscriptJson, transcriptResponseSchema, TranscriptValidationError } from '../services/transcriptSchema';
+import { assertContentLength, clientKey, HttpError, jsonResponse, route } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+import { callGemini, GEMINI_MODEL, responseText } from './_lib/gemini';
+
+// Room for the multipart boundaries and the `part` field.
+const MAX_BODY_BYTES = MAX_AUDIO_UPLOAD_BYTES + 64 * 1024;
+const MAX_CONTEXT_CHARS = 4000;
+
+// A long meeting is sent as one request per segment of two to five minutes,
+// plus retries.
+const checkRateLimit = createRateLimiter(60, 60_000);
+
+const parsePart = (value: FormDataEntryValue | null): AudioPart | undefined => {
+    if (value === null) return undefined;
+    let part: unknown;
+    try {
+        part = JSON.parse(String(value));
+    } catch {
+        throw new HttpError(400, 'INVALID_REQUEST', 'The "part" field is not valid JSON.');
+    }
+    const { index, total, previousContext } = (part ?? {}) as Record<string, unknown>;
+    // The total is left out while the recording is still in progress.
+    if (!Number.isInteger(index) || (index as number) < 0
+        || (total !== undefined && (!Number.isInteger(total) || (index as number) >= (total as number)))) {
+        throw new HttpError(400, 'INVALID_REQUEST', 'The "part" field needs an index below the total.');
+    }
+    if (previousContext !== undefined && (typeof previousContext !== 'string' || previousContext.length > MAX_CONTEXT_CHARS)) {
+        throw new HttpError(400, 'INVALID_REQUEST', `"previousContext" must be text of at most ${MAX_CONTEXT_CHARS} characters.`);
+    }
+    return { index: index as number, total: total as number | undefined, previousContext: previousContext as string | undefined };
+};
+
+// POST /api/transcribe — multipart form with the `audio` file and an optional
+// `part` (JSON) when it is one segment of a longer recording.
+export const POST = route(async request => {
+    checkRateLimit(clientKey(request));
+    assertContentLength(request, MAX_BODY_BYTES);
+
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        throw new HttpError(400, 'INVALID_REQUEST', 'Expected a multipart form body.');
+    }
+    const audio = form.get('audio');
+    if (!(audio instanceof Blob) || audio.size === 0) {
+        throw new HttpError(400, 'INVALID_REQUEST', 'The "audio" file is missing or empty.');
+    }
+    if (audio.size > MAX_AUDIO_UPLOAD_BYTES) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Audio of ${audio.size} bytes exceeds the ${MAX_AUDIO_UPLOAD_BYTES} byte limit.`);
+    }
+    const part = parsePart(form.get('part'));
+
+    const text = await callGemini(async ai => {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: audio.type || 'audio/webm', data: Buffer.from(await audio.arrayBuffer()).toString('base64') } },
+                    { text: buildTranscriptionPrompt(part) },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: transcriptResponseSchema,
+            },
+        });
+        return responseText(response, '[]');
+    });
+
+    try {
+        return jsonResponse({ segments: parseTranscriptJson(text) });
+    } catch (error) {
+        if (error instanceof TranscriptValidationError) {
+            throw new HttpError(502, 'INVALID_MODEL_RESPONSE', error.message);
+        }
+        throw error;
+    }
+});
@@ -0,0 +1,67 @@
+import { isRelayUrl } from '../services/integrationPayload';
+import { assertContentLength, clientKey, HttpError, jsonResponse, route } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+
+// Slack rejects messages over 40k characters; Teams cards are capped at 28 KB.
+const MAX_BODY_BYTES = 256 * 1024;
+
+const checkRateLimit = createRateLimiter(30, 60_000);
+
+const invalid = (message: string) => new HttpError(400, 'INVALID_REQUEST', message);
+
+function parseRelayRequest(body: string): { url: string; body: string } {
+    let value: unknown;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw invalid('The body is not valid JSON.');
+    }
+    if (typeof value !== 'object' || value === null) throw invalid('The body must be a JSON object.');
+    const { url, body: message } = value as Record<string, unknown>;
+    if (typeof url !== 'string' || !(isRelayUrl('slack', url) || isRelayUrl('teams', url))) {
+        throw invalid('"url" must be a Slack or Microsoft Teams webhook.');
+    }
+    if (typeof message !== 'string') throw invalid('"body" must be text.');
+    try {
+        JSON.parse(message);
+    } catch {
+        throw invalid('"body" must be JSON text.');
+    }
+    return { url, body: message };
+}
+
+// POST /api/webhook — JSON `{ url, body }`. Posts `body` to a Slack or Teams
+// webhook, which cannot be called from the browser, and answers `{ status }`.
+export const POST = route(async request => {
+    checkRateLimit(clientKey(request));
+    assertContentLength(request, MAX_BODY_BYTES);
+    const text = await request.text();
+    if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds the ${MAX_BODY_BYTES} byte limit.`);
+    }
+    const { url, body } = parseRelayRequest(text);
+
+    let response: Response;
+    try {
+        // Redirects are not followed, so the request stays on the allowed host.
+        response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, redirect: 'error' });
+    } catch (error) {
+        console.error('Webhook request failed:', error);
+        throw new HttpError(502, 'UPSTREAM_FAILED', 'The webhook could not be reached.');
+    }
+    if (response.ok) {
+        return jsonResponse({ status: response.status });
+    }
+    const details = (await response.text().catch(() => '')).slice(0, 300);
+    if (response.status === 404 || response.status === 410) {
+        throw new HttpError(404, 'NOT_FOUND', `The webhook no longer exists: ${details}`);
+    }
+    if (response.status === 429) {
+        const retryAfterSeconds = Number(response.headers.get('retry-after')) || 60;
+        throw new HttpError(429, 'RATE_LIMITED', 'The webhook rate limit was reached.', retryAfterSeconds);
+    }
+    if (response.status < 500) {
+        throw invalid(`The webhook rejected the message with ${response.status}: ${details}`);
+    }
+    throw new HttpError(502, 'UPSTREAM_FAILED', `The webhook answered ${response.status}.`);
+});
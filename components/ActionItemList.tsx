@@ -0,0 +1,68 @@
+import React from 'react';
+import { ActionItemStatus, TrackedActionItem } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { ACTION_ITEM_STATUSES, deleteTrackedItem, isOverdue, setActionItemStatus } from '../services/actionItemTracker';
+import { TrashIcon } from './icons';
+
+interface ActionItemListProps {
+    items: TrackedActionItem[];
+}
+
+const iconButtonClass = "text-gray-400 hover:text-red-400 transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+const STATUS_CLASSES: Record<ActionItemStatus, string> = {
+    open: 'text-cyan-300',
+    blocked: 'text-yellow-300',
+    done: 'text-green-400',
+};
+
+// Tracked tasks with their owner, due date and latest progress, and a status
+// that can be changed in place. Overdue tasks are highlighted.
+export const ActionItemList: React.FC<ActionItemListProps> = ({ items }) => {
+    const { t, locale } = useI18n();
+
+    const handleDelete = (item: TrackedActionItem) => {
+        if (window.confirm(t.actionItems.deleteConfirm(item.description))) deleteTrackedItem(item.id);
+    };
+
+    return (
+        <ul className="flex flex-col gap-2">
+            {items.map(item => {
+                const overdue = isOverdue(item);
+                return (
+                    <li
+                        key={item.id}
+                        className={`p-2 bg-gray-900/70 rounded-lg border flex justify-between items-start gap-3 text-sm ${overdue ? 'border-red-500/70' : 'border-gray-700'}`}
+                    >
+                        <div className="min-w-0">
+                            <p className={item.status === 'done' ? 'text-gray-500 line-through' : 'text-gray-200'}>{item.description}</p>
+                            <p className="text-gray-400">
+                                {item.owner ?? t.actionItems.noOwner}
+                                {' · '}
+                                <span className={overdue ? 'text-red-400 font-semibold' : undefined}>
+                                    {item.dueDate ?? item.dueDateText ?? t.actionItems.noDueDate}
+                                    {overdue && ` (${t.actionItems.overdue})`}
+                                </span>
+                                <span className="text-gray-500"> · {t.actionItems.agreedOn(new Date(item.meetingDate).toLocaleDateString(locale, { dateStyle: 'medium' }))}</span>
+                            </p>
+                            {item.progress && <p className="text-gray-400 italic break-words">{t.actionItems.progress(item.progress)}</p>}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <select
+                                className={`px-2 py-1 bg-gray-900 border border-gray-700 rounded-md text-sm ${STATUS_CLASSES[item.status]}`}
+                                value={item.status}
+                                onChange={(e) => setActionItemStatus(item.id, e.target.value as ActionItemStatus)}
+                                aria-label={t.actionItems.status}
+                            >
+                                {ACTION_ITEM_STATUSES.map(status => <option key={status} value={status}>{t.actionItems.statuses[status]}</option>)}
+                            </select>
+                            <button onClick={() => handleDelete(item)} className={iconButtonClass} aria-label={t.actionItems.delete} title={t.actionItems.delete}>
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
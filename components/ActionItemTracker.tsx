@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useTrackedItems } from '../hooks/useTrackedItems';
+import { isOverdue, isPending, listProjects, projectItems } from '../services/actionItemTracker';
+import { ActionItemList } from './ActionItemList';
+import { ResetIcon } from './icons';
+
+interface ActionItemTrackerProps {
+    onBack: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+
+// Tasks of every project, oldest meeting first, so commitments that were
+// never followed up stand out.
+export const ActionItemTracker: React.FC<ActionItemTrackerProps> = ({ onBack }) => {
+    const { t } = useI18n();
+    const items = useTrackedItems();
+    const [project, setProject] = useState('');
+    const [showDone, setShowDone] = useState(false);
+
+    const projects = listProjects(items);
+    const shown = (project ? [project] : projects)
+        .map(name => ({
+            name,
+            items: projectItems(items, name)
+                .filter(item => showDone || isPending(item))
+                .sort((a, b) => a.meetingDate - b.meetingDate),
+        }))
+        .filter(group => group.items.length > 0);
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.actionItems.title}</h2>
+            <p className="text-gray-400 text-center">{t.actionItems.intro}</p>
+
+            {projects.length > 0 && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-center gap-3 text-sm text-gray-400">
+                    <select className={inputClass} value={project} onChange={(e) => setProject(e.target.value)} aria-label={t.actionItems.project}>
+                        <option value="">{t.actionItems.allProjects}</option>
+                        {projects.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={showDone} onChange={(e) => setShowDone(e.target.checked)} />
+                        {t.actionItems.showDone}
+                    </label>
+                </div>
+            )}
+
+            <div className="flex flex-col gap-4 max-h-[32rem] overflow-y-auto pr-1">
+                {shown.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center italic">{projects.length === 0 ? t.actionItems.empty : t.actionItems.nothingPending}</p>
+                )}
+                {shown.map(group => {
+                    const overdue = group.items.filter(item => isOverdue(item)).length;
+                    return (
+                        <section key={group.name} className="flex flex-col gap-2">
+                            <h3 className="text-lg font-semibold text-cyan-400">
+                                {group.name}
+                                {overdue > 0 && <span className="ml-2 text-sm font-normal text-red-400">{t.actionItems.overdueCount(overdue)}</span>}
+                            </h3>
+                            <ActionItemList items={group.items} />
+                        </section>
+                    );
+                })}
+            </div>
+
+            <div className="flex justify-center">
+                <button
+                    onClick={onBack}
+                    className="inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white rounded-full shadow-lg bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-500"
+                >
+                    <ResetIcon className="w-6 h-6" />
+                    <span>{t.common.back}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
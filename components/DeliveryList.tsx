@@ -0,0 +1,67 @@
+import React from 'react';
+import { Delivery } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { removeDelivery, retryDelivery } from '../services/outbox';
+import { ResetIcon, TrashIcon } from './icons';
+
+interface DeliveryListProps {
+    deliveries: Delivery[];
+    // Shows which meeting each delivery belongs to.
+    showMeeting?: boolean;
+}
+
+const iconButtonClass = "text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+const STATUS_CLASSES: Record<Delivery['status'], string> = {
+    queued: 'text-yellow-300',
+    sending: 'text-cyan-300',
+    sent: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+// Status of each delivery, newest first, with its last error and a retry
+// button once it has failed.
+export const DeliveryList: React.FC<DeliveryListProps> = ({ deliveries, showMeeting = false }) => {
+    const { t, locale } = useI18n();
+    const time = (ms: number) => new Date(ms).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+    const statusText = (delivery: Delivery): string => {
+        if (delivery.status === 'queued' && delivery.nextAttemptAt) {
+            return t.integrations.status.retrying(new Date(delivery.nextAttemptAt).toLocaleTimeString(locale, { timeStyle: 'short' }));
+        }
+        if (delivery.status === 'queued' && !navigator.onLine) return t.integrations.status.offline;
+        return t.integrations.status[delivery.status];
+    };
+
+    return (
+        <ul className="flex flex-col gap-2">
+            {[...deliveries].reverse().map(delivery => (
+                <li key={delivery.id} className="p-2 bg-gray-900/70 rounded-lg border border-gray-700 flex justify-between items-start gap-3 text-sm">
+                    <div className="min-w-0">
+                        <p className="text-gray-200">
+                            {delivery.targetName}
+                            {showMeeting && <span className="text-gray-500"> · {delivery.meetingTitle}</span>}
+                        </p>
+                        <p className={STATUS_CLASSES[delivery.status]}>
+                            {statusText(delivery)}
+                            <span className="text-gray-500"> · {time(delivery.updatedAt)}</span>
+                        </p>
+                        {delivery.error && delivery.status !== 'sent' && <p className="text-gray-400 break-words">{delivery.error}</p>}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                        {delivery.status === 'failed' && (
+                            <button onClick={() => retryDelivery(delivery.id)} className={iconButtonClass} aria-label={t.common.retry} title={t.common.retry}>
+                                <ResetIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        {delivery.status !== 'sending' && (
+                            <button onClick={() => removeDelivery(delivery.id)} className={`${iconButtonClass} hover:text-red-400`} aria-label={t.integrations.removeDelivery} title={t.integrations.removeDelivery}>
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { clearStoredLogo, getStoredLogo, storeLogo } from '../services/exportBranding';
+import { EXPORT_FORMATS, ExportFormat } from '../services/minutesExport';
+import { ArrowDownTrayIcon, TrashIcon } from './icons';
+
+interface ExportMenuProps {
+    // Builds and downloads the file; rejects when it could not be written.
+    onExport: (format: ExportFormat) => Promise<void>;
+}
+
+const buttonClass = "inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed";
+const linkClass = "text-sm text-cyan-400 hover:text-cyan-200 hover:underline focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded-md";
+
+// Downloads the minutes as a Word, PDF or HTML file, and sets the company
+// logo printed in their header.
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+    const { t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [logo, setLogo] = useState(getStoredLogo);
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async (format: ExportFormat) => {
+        setExporting(format);
+        setError(null);
+        try {
+            await onExport(format);
+        } catch (err) {
+            console.error("Error exporting minutes:", err);
+            setError(t.exportMenu.failed(err instanceof Error ? err.message : String(err)));
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const handleLogoSelected = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            setLogo(await storeLogo(file));
+        } catch (err) {
+            console.error("Error storing the export logo:", err);
+            setError(err instanceof Error ? err.message : t.exportMenu.invalidLogo);
+        }
+    };
+
+    const handleRemoveLogo = () => {
+        clearStoredLogo();
+        setLogo(null);
+    };
+
+    return (
+        <section className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-lg font-semibold text-cyan-400">{t.exportMenu.title}</h3>
+            <div className="flex flex-wrap gap-2">
+                {EXPORT_FORMATS.map(format => (
+                    <button key={format} onClick={() => handleExport(format)} disabled={exporting !== null} className={buttonClass}>
+                        {exporting === format
+                            ? <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                            : <ArrowDownTrayIcon className="w-4 h-4" />}
+                        <span>{t.exportMenu.formats[format]}</span>
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+                <span>{t.exportMenu.logo}</span>
+                {logo
+                    ? <img src={logo} alt="" className="h-8 max-w-[8rem] object-contain bg-white rounded p-0.5" />
+                    : <span className="italic">{t.exportMenu.noLogo}</span>}
+                <button onClick={() => fileInputRef.current?.click()} className={linkClass}>
+                    {logo ? t.exportMenu.changeLogo : t.exportMenu.chooseLogo}
+                </button>
+                {logo && (
+                    <button onClick={handleRemoveLogo} className="text-gray-400 hover:text-white p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label={t.exportMenu.removeLogo} title={t.exportMenu.removeLogo}>
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/svg+xml,image/webp"
+                    className="hidden"
+                    onChange={(e) => { handleLogoSelected(e.target.files?.[0]); e.target.value = ''; }}
+                />
+            </div>
+            <p className="text-xs text-gray-500">{t.exportMenu.logoHint}</p>
+            {error && <p className="text-sm text-gray-300 bg-red-900/50 p-2 rounded-lg">{error}</p>}
+        </section>
+    );
+};
@@ -0,0 +1,62 @@
+import React, { useState, useRef } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { ArrowUpTrayIcon } from './icons';
+
+interface FileDropZoneProps {
+    accept: string;
+    hint: string;
+    onFile: (file: File) => void;
+    disabled?: boolean;
+    compact?: boolean;
+}
+
+// Drag-and-drop area that also opens the file picker when clicked.
+export const FileDropZone: React.FC<FileDropZoneProps> = ({ accept, hint, onFile, disabled, compact }) => {
+    const { t } = useI18n();
+    const [isDragging, setIsDragging] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        if (disabled) return;
+        const file = event.dataTransfer.files[0];
+        if (file) onFile(file);
+    };
+
+    return (
+        <div
+            role="button"
+            tabIndex={0}
+            onClick={() => !disabled && inputRef.current?.click()}
+            onKeyDown={(e) => {
+                if ((e.key === 'Enter' || e.key === ' ') && !disabled) {
+                    e.preventDefault();
+                    inputRef.current?.click();
+                }
+            }}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`w-full flex flex-col items-center justify-center border-2 border-dashed rounded-lg cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500
+                ${isDragging ? 'border-blue-400 bg-blue-900/20' : 'border-gray-600 bg-gray-900/50 hover:border-gray-500'}
+                ${compact ? 'gap-1 p-4' : 'gap-3 p-10'}
+                ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+            <ArrowUpTrayIcon className={compact ? 'w-6 h-6 text-gray-400' : 'w-10 h-10 text-gray-400'} />
+            <p className="text-gray-200 font-semibold">{t.fileDrop.prompt}</p>
+            <p className="text-sm text-gray-400">{hint}</p>
+            <input
+                ref={inputRef}
+                type="file"
+                accept={accept}
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onFile(file);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useTrackedItems } from '../hooks/useTrackedItems';
+import { FollowUpChoice, getFollowUpChoice, isPending, listProjects, projectItems, setFollowUpChoice } from '../services/actionItemTracker';
+
+const choiceValue = (choice: FollowUpChoice): string =>
+    typeof choice === 'string' ? choice : `project:${choice.project}`;
+
+// Chooses the project whose pending tasks the next generation follows up.
+// Hidden while no project has pending tasks.
+export const FollowUpSelect: React.FC = () => {
+    const { t } = useI18n();
+    const items = useTrackedItems();
+    const [choice, setChoice] = useState(getFollowUpChoice);
+    const pending = items.filter(isPending);
+    const projects = listProjects(pending);
+
+    if (projects.length === 0) return null;
+
+    const handleChange = (value: string) => {
+        const next: FollowUpChoice = value === 'auto' || value === 'none' ? value : { project: value.slice('project:'.length) };
+        setChoice(next);
+        setFollowUpChoice(next);
+    };
+
+    return (
+        <label className="flex flex-col sm:flex-row sm:items-center justify-center gap-2 text-gray-400">
+            <span>{t.actionItems.followUp}</span>
+            <select
+                className="px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                value={choiceValue(choice)}
+                onChange={(e) => handleChange(e.target.value)}
+            >
+                <option value="auto">{t.actionItems.detectProject}</option>
+                <option value="none">{t.actionItems.noFollowUp}</option>
+                {projects.map(project => (
+                    <option key={project} value={choiceValue({ project })}>
+                        {t.actionItems.projectOption(project, projectItems(pending, project).length)}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+};
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AppStatus, Locale, MeetingRecord } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { Messages } from '../i18n';
+import { listMeetings, updateMeeting, deleteMeeting, purgeMeetings, getStorageEstimate, StorageEstimate } from '../services/meetingStore';
+import { minutesToMarkdown } from '../services/minutesFormatter';
+import { DEFAULT_TEMPLATE } from '../services/templates';
+import { formatTranscript } from '../services/transcript';
+import { downloadFile, formatBytes, toFileName } from '../services/download';
+import { ArrowDownTrayIcon, CheckIcon, CopyIcon, PencilIcon, ResetIcon, TrashIcon } from './icons';
+
+interface HistoryViewProps {
+    onReopen: (record: MeetingRecord) => void;
+    onBack: () => void;
+}
+
+const STATUS_LABEL_KEYS: Partial<Record<AppStatus, keyof Messages['history']['status']>> = {
+    [AppStatus.Done]: 'done',
+    [AppStatus.Error]: 'error',
+    [AppStatus.Recording]: 'recording',
+    [AppStatus.Transcribing]: 'transcribing',
+    [AppStatus.NamingSpeakers]: 'pendingMinutes',
+    [AppStatus.Generating]: 'pendingMinutes',
+    [AppStatus.ImportPreview]: 'pendingMinutes',
+};
+
+const formatDate = (timestamp: number, locale: Locale): string =>
+    new Date(timestamp).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+const recordTranscript = (record: MeetingRecord): string =>
+    record.transcriptSegments.length > 0 ? formatTranscript(record.transcriptSegments) : record.transcript;
+
+const matchesQuery = (record: MeetingRecord, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return [record.title, record.minutes?.summary ?? '', recordTranscript(record)]
+        .some(text => text.toLowerCase().includes(needle));
+};
+
+const iconButtonClass = "text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2";
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onReopen, onBack }) => {
+    const { t, locale } = useI18n();
+    const [records, setRecords] = useState<MeetingRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [storage, setStorage] = useState<StorageEstimate | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const statusLabel = (status: AppStatus): string => {
+        const key = STATUS_LABEL_KEYS[status];
+        return key ? t.history.status[key] : t.history.inProgress;
+    };
+
+    const refresh = useCallback(async () => {
+        try {
+            const [meetings, estimate] = await Promise.all([listMeetings(), getStorageEstimate()]);
+            setRecords(meetings);
+            setStorage(estimate);
+        } catch (err) {
+            console.error("Error loading meeting history:", err);
+            setError(t.history.loadFailed);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Runs a change to the stored meetings and reloads the list, which also
+    // shows what a failed change left behind.
+    const changeHistory = async (change: () => Promise<unknown>, failure: string) => {
+        setError(null);
+        try {
+            await change();
+        } catch (err) {
+            console.error("Error updating meeting history:", err);
+            setError(failure);
+        }
+        await refresh();
+    };
+
+    const handleSaveTitle = async (id: string) => {
+        const title = editingTitle.trim();
+        setEditingId(null);
+        if (!title) return;
+        await changeHistory(() => updateMeeting(id, { title }), t.history.renameFailed);
+    };
+
+    const handleDelete = async (record: MeetingRecord) => {
+        if (!window.confirm(t.history.deleteConfirm(record.title))) return;
+        await changeHistory(() => deleteMeeting(record.id), t.history.deleteFailed);
+    };
+
+    const handlePurge = async (options: Parameters<typeof purgeMeetings>[0], confirmation: string) => {
+        if (!window.confirm(confirmation)) return;
+        await changeHistory(() => purgeMeetings(options), t.history.purgeFailed);
+    };
+
+    const handleCopyMarkdown = (record: MeetingRecord) => {
+        if (!record.minutes) return;
+        navigator.clipboard.writeText(minutesToMarkdown(record.minutes, record.template ?? DEFAULT_TEMPLATE, { language: record.language }));
+        setCopiedId(record.id);
+        setTimeout(() => setCopiedId(null), 2000);
+    };
+
+    const handleDownloadMarkdown = (record: MeetingRecord) => {
+        if (!record.minutes) return;
+        const content = `${record.minutes.summary}\n\n---\n\n${minutesToMarkdown(record.minutes, record.template ?? DEFAULT_TEMPLATE, { language: record.language })}`;
+        downloadFile(content, `${toFileName(record.title)}.md`, 'text/markdown');
+    };
+
+    const filtered = records.filter(record => matchesQuery(record, query));
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.history.title}</h2>
+
+            <input
+                type="search"
+                className="w-full px-4 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t.history.searchPlaceholder}
+            />
+
+            {error && <p className="text-red-300 bg-red-900/50 p-3 rounded-lg">{error}</p>}
+
+            <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+                {isLoading ? (
+                    <p className="text-gray-400 text-center">{t.common.loading}</p>
+                ) : filtered.length === 0 ? (
+                    <p className="text-gray-400 text-center">{records.length === 0 ? t.history.empty : t.history.noResults}</p>
+                ) : filtered.map(record => (
+                    <div key={record.id} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-2">
+                        <div className="flex justify-between items-start gap-4">
+                            {editingId === record.id ? (
+                                <input
+                                    type="text"
+                                    autoFocus
+                                    className="flex-1 px-2 py-1 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-200"
+                                    value={editingTitle}
+                                    onChange={(e) => setEditingTitle(e.target.value)}
+                                    onBlur={() => handleSaveTitle(record.id)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleSaveTitle(record.id);
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                />
+                            ) : (
+                                <h3 className="text-lg font-semibold text-cyan-400">{record.title}</h3>
+                            )}
+                            <div className="flex items-center gap-1 shrink-0">
+                                <button
+                                    onClick={() => { setEditingId(record.id); setEditingTitle(record.title); }}
+                                    className={iconButtonClass}
+                                    aria-label={t.history.rename}
+                                >
+                                    <PencilIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => handleCopyMarkdown(record)}
+                                    className={iconButtonClass}
+                                    aria-label={t.history.copyMarkdown}
+                                    disabled={!record.minutes}
+                                >
+                                    {copiedId === record.id ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
+                                </button>
+                                <button
+                                    onClick={() => handleDownloadMarkdown(record)}
+                                    className={iconButtonClass}
+                                    aria-label={t.history.download}
+                                    disabled={!record.minutes}
+                                >
+                                    <ArrowDownTrayIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(record)}
+                                    className={`${iconButtonClass} hover:text-red-400`}
+                                    aria-label={t.history.delete}
+                                >
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </div>
+                        <p className="text-sm text-gray-400">
+                            {formatDate(record.createdAt, locale)} · {statusLabel(record.status)}
+                            {record.audio && ` · ${t.history.audioSize(formatBytes(record.audio.size))}`}
+                        </p>
+                        {record.minutes && <p className="text-sm text-gray-300 line-clamp-2">{record.minutes.summary}</p>}
+                        <div>
+                            <button
+                                onClick={() => onReopen(record)}
+                                className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}
+                            >
+                                {t.history.open}
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+                <h3 className="text-lg font-semibold text-gray-200">{t.history.storage}</h3>
+                {storage && storage.quota > 0 ? (
+                    <div className="flex flex-col gap-1">
+                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-cyan-400" style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}></div>
+                        </div>
+                        <p className="text-sm text-gray-400">{t.history.storageUsage(formatBytes(storage.usage), formatBytes(storage.quota))}</p>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-400">{t.history.storageUnknown}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={() => handlePurge({ olderThanDays: 30, audioOnly: true }, t.history.purgeOldAudioConfirm)}
+                        className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}
+                    >
+                        {t.history.purgeOldAudio}
+                    </button>
+                    <button
+                        onClick={() => handlePurge({ olderThanDays: 90 }, t.history.purgeOldMeetingsConfirm)}
+                        className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}
+                    >
+                        {t.history.purgeOldMeetings}
+                    </button>
+                    <button
+                        onClick={() => handlePurge({}, t.history.purgeAllConfirm)}
+                        className={`${smallButtonClass} bg-red-700 hover:bg-red-800 focus:ring-red-600`}
+                    >
+                        {t.history.purgeAll}
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex justify-center">
+                <button
+                    onClick={onBack}
+                    className="inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white rounded-full shadow-lg bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-500"
+                >
+                    <ResetIcon className="w-6 h-6" />
+                    <span>{t.common.back}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
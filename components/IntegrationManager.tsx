@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { IntegrationKind, IntegrationTarget } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { useOutbox } from '../hooks/useOutbox';
+import { createIntegration, deleteIntegration, INTEGRATION_KINDS, listIntegrations, saveIntegration } from '../services/integrationStore';
+import { PLACEHOLDERS, validateIntegrationTarget } from '../services/integrationPayload';
+import { testIntegration } from '../services/integrationDelivery';
+import { clearSentDeliveries } from '../services/outbox';
+import { DeliveryList } from './DeliveryList';
+import { PaperAirplaneIcon, PencilIcon, ResetIcon, TrashIcon } from './icons';
+
+interface IntegrationManagerProps {
+    onBack: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const iconButtonClass = "text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed";
+
+type TestState = { status: 'sending' } | { status: 'sent' } | { status: 'failed'; message: string };
+
+// Webhook, Slack, Teams and email targets the minutes can be sent to, and
+// the outbox of deliveries to all of them.
+export const IntegrationManager: React.FC<IntegrationManagerProps> = ({ onBack }) => {
+    const { t } = useI18n();
+    const outbox = useOutbox();
+    const [targets, setTargets] = useState(listIntegrations);
+    const [draft, setDraft] = useState<IntegrationTarget | null>(null);
+    const [newKind, setNewKind] = useState<IntegrationKind>('webhook');
+    const [error, setError] = useState<string | null>(null);
+    const [test, setTest] = useState<TestState | null>(null);
+
+    const refresh = () => setTargets(listIntegrations());
+
+    const edit = (target: IntegrationTarget) => {
+        setDraft(target);
+        setError(null);
+        setTest(null);
+    };
+
+    const update = (patch: Partial<IntegrationTarget>) => {
+        setDraft(prev => prev && { ...prev, ...patch });
+        setTest(null);
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        try {
+            saveIntegration(draft);
+            setDraft(null);
+            setError(null);
+            refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleTest = async () => {
+        if (!draft) return;
+        setError(null);
+        try {
+            validateIntegrationTarget(draft);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            return;
+        }
+        setTest({ status: 'sending' });
+        try {
+            await testIntegration(draft);
+            setTest({ status: 'sent' });
+        } catch (err) {
+            console.error("Error sending the test message:", err);
+            setTest({ status: 'failed', message: err instanceof Error ? err.message : String(err) });
+        }
+    };
+
+    const handleDelete = (target: IntegrationTarget) => {
+        if (!window.confirm(t.integrations.deleteConfirm(target.name))) return;
+        deleteIntegration(target.id);
+        refresh();
+    };
+
+    const handleToggle = (target: IntegrationTarget) => {
+        try {
+            saveIntegration({ ...target, enabled: !target.enabled });
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+        refresh();
+    };
+
+    if (draft) {
+        const urlLabel = draft.kind === 'email' ? t.integrations.relayUrl : t.integrations.webhookUrl;
+        return (
+            <div className="w-full flex flex-col gap-4">
+                <h2 className="text-2xl font-bold text-center text-gray-100">
+                    {draft.id ? t.integrations.editTitle : t.integrations.newTitle(t.integrations.kinds[draft.kind])}
+                </h2>
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {t.integrations.name}
+                    <input type="text" className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                </label>
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {urlLabel}
+                    <input type="url" autoComplete="off" className={inputClass} value={draft.url} onChange={(e) => update({ url: e.target.value })} />
+                    <span className="text-xs text-gray-500">{t.integrations.urlHints[draft.kind]}</span>
+                </label>
+                {draft.kind === 'email' && (
+                    <label className="flex flex-col gap-1 text-sm text-gray-400">
+                        {t.integrations.recipients}
+                        <input type="text" className={inputClass} value={draft.recipients} onChange={(e) => update({ recipients: e.target.value })} placeholder="ana@example.com, luis@example.com" />
+                    </label>
+                )}
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {draft.kind === 'email' ? t.integrations.emailTemplate : t.integrations.jsonTemplate}
+                    <textarea
+                        className={`${inputClass} h-56 resize-y font-mono text-xs`}
+                        spellCheck={false}
+                        value={draft.template}
+                        onChange={(e) => update({ template: e.target.value })}
+                    />
+                    <span className="text-xs text-gray-500">
+                        {t.integrations.placeholdersHint(PLACEHOLDERS.map(name => `{{${name}}}`).join(' '))}
+                    </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                    <input type="checkbox" checked={draft.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                    {t.integrations.enabled}
+                </label>
+
+                {error && <p className="text-red-300 bg-red-900/50 p-3 rounded-lg">{error}</p>}
+                {test?.status === 'sent' && <p className="text-sm text-green-400 text-center">{t.integrations.testSent}</p>}
+                {test?.status === 'failed' && <p className="text-sm text-gray-300 bg-red-900/50 p-2 rounded-lg">{t.integrations.testFailed(test.message)}</p>}
+
+                <div className="flex justify-center gap-4">
+                    <button onClick={() => { setDraft(null); setError(null); }} className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>{t.common.cancel}</button>
+                    <button onClick={handleTest} disabled={test?.status === 'sending'} className={`${smallButtonClass} inline-flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500`}>
+                        <PaperAirplaneIcon className="w-4 h-4" />
+                        <span>{test?.status === 'sending' ? t.app.done.sending : t.integrations.testSend}</span>
+                    </button>
+                    <button onClick={handleSave} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>{t.common.save}</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.integrations.title}</h2>
+            <p className="text-gray-400 text-center">{t.integrations.intro}</p>
+
+            {error && <p className="text-red-300 bg-red-900/50 p-3 rounded-lg">{error}</p>}
+
+            <div className="flex flex-col gap-3 max-h-72 overflow-y-auto pr-1">
+                {targets.length === 0 && <p className="text-sm text-gray-500 text-center italic">{t.integrations.empty}</p>}
+                {targets.map(target => (
+                    <div key={target.id} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex justify-between items-center gap-4">
+                        <div className="min-w-0">
+                            <h3 className={`text-lg font-semibold ${target.enabled ? 'text-cyan-400' : 'text-gray-500'}`}>{target.name}</h3>
+                            <p className="text-sm text-gray-400">{t.integrations.kinds[target.kind]}{target.enabled ? '' : ` · ${t.integrations.disabled}`}</p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <label className="flex items-center gap-1 text-sm text-gray-400 mr-2">
+                                <input type="checkbox" checked={target.enabled} onChange={() => handleToggle(target)} />
+                                {t.integrations.enabled}
+                            </label>
+                            <button onClick={() => edit(target)} className={iconButtonClass} aria-label={t.integrations.edit}>
+                                <PencilIcon className="w-5 h-5" />
+                            </button>
+                            <button onClick={() => handleDelete(target)} className={`${iconButtonClass} hover:text-red-400`} aria-label={t.integrations.delete}>
+                                <TrashIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <select className={inputClass} value={newKind} onChange={(e) => setNewKind(e.target.value as IntegrationKind)}>
+                    {INTEGRATION_KINDS.map(kind => <option key={kind} value={kind}>{t.integrations.kinds[kind]}</option>)}
+                </select>
+                <button onClick={() => edit(createIntegration(newKind))} className={`${smallButtonClass} shrink-0 bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>
+                    {t.integrations.add}
+                </button>
+            </div>
+
+            <section className="flex flex-col gap-2">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-semibold text-cyan-400">{t.integrations.outbox}</h3>
+                    {outbox.some(delivery => delivery.status === 'sent') && (
+                        <button onClick={clearSentDeliveries} className="text-sm text-cyan-400 hover:text-cyan-200 hover:underline">{t.integrations.clearSent}</button>
+                    )}
+                </div>
+                {outbox.length === 0
+                    ? <p className="text-sm text-gray-500 italic">{t.integrations.outboxEmpty}</p>
+                    : <div className="max-h-72 overflow-y-auto pr-1"><DeliveryList deliveries={outbox} showMeeting /></div>}
+            </section>
+
+            <div className="flex justify-center">
+                <button
+                    onClick={onBack}
+                    className="inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white rounded-full shadow-lg bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-500"
+                >
+                    <ResetIcon className="w-6 h-6" />
+                    <span>{t.common.back}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
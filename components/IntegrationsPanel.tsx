@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { useOutbox } from '../hooks/useOutbox';
+import { listIntegrations } from '../services/integrationStore';
+import { IntegrationContext } from '../services/integrationPayload';
+import { buildDeliveryRequest, mailtoUrl, opensMailClient } from '../services/integrationDelivery';
+import { enqueueDelivery } from '../services/outbox';
+import { DeliveryList } from './DeliveryList';
+import { PaperAirplaneIcon } from './icons';
+
+interface IntegrationsPanelProps {
+    // Values for the targets' templates, built from the current minutes.
+    buildContext: () => IntegrationContext;
+    // Meeting in the history the deliveries belong to, if saved.
+    meetingId?: string;
+    // Asked before sending; false cancels.
+    confirmSend: () => boolean;
+}
+
+const buttonClass = "inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Sends the minutes to the enabled integration targets through the outbox
+// and shows how each delivery of this meeting went.
+export const IntegrationsPanel: React.FC<IntegrationsPanelProps> = ({ buildContext, meetingId, confirmSend }) => {
+    const { t } = useI18n();
+    const outbox = useOutbox();
+    const [targets] = useState(() => listIntegrations().filter(target => target.enabled));
+    const [selected, setSelected] = useState(() => new Set(targets.map(target => target.id)));
+    const [error, setError] = useState<string | null>(null);
+
+    if (targets.length === 0) return null;
+
+    const deliveries = meetingId ? outbox.filter(delivery => delivery.meetingId === meetingId) : [];
+    const waitingOffline = !navigator.onLine && deliveries.some(delivery => delivery.status === 'queued');
+
+    const toggle = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    const handleSend = () => {
+        if (!confirmSend()) return;
+        setError(null);
+        const context = buildContext();
+        for (const target of targets.filter(target => selected.has(target.id))) {
+            try {
+                if (opensMailClient(target)) {
+                    window.location.href = mailtoUrl(target, context);
+                } else {
+                    enqueueDelivery(target, buildDeliveryRequest(target, context), { id: meetingId, title: context.title });
+                }
+            } catch (err) {
+                console.error(`Error preparing the message for ${target.name}:`, err);
+                setError(t.integrations.prepareFailed(target.name, err instanceof Error ? err.message : String(err)));
+            }
+        }
+    };
+
+    return (
+        <section className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-lg font-semibold text-cyan-400">{t.integrations.panelTitle}</h3>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {targets.map(target => (
+                    <label key={target.id} className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={selected.has(target.id)} onChange={() => toggle(target.id)} />
+                        {target.name}
+                        <span className="text-gray-500">({t.integrations.kinds[target.kind]})</span>
+                    </label>
+                ))}
+            </div>
+            <div>
+                <button onClick={handleSend} disabled={selected.size === 0} className={buttonClass}>
+                    <PaperAirplaneIcon className="w-4 h-4" />
+                    <span>{t.integrations.send}</span>
+                </button>
+            </div>
+            {error && <p className="text-sm text-gray-300 bg-red-900/50 p-2 rounded-lg">{error}</p>}
+            {waitingOffline && <p className="text-sm text-yellow-300">{t.integrations.queuedOffline}</p>}
+            {deliveries.length > 0 && <DeliveryList deliveries={deliveries} />}
+        </section>
+    );
+};
@@ -0,0 +1,52 @@
+import React, { useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { LOCALES } from '../i18n';
+import { detectTranscriptLanguage, getOutputLanguage, OutputLanguage, setOutputLanguage } from '../services/language';
+
+interface LanguageSelectProps {
+    // Transcript the minutes will be generated from, used to detect its language.
+    transcript: string;
+}
+
+// Chooses the language the next minutes are written in and shows the one
+// detected in the transcript. The choice is remembered for later sessions.
+export const LanguageSelect: React.FC<LanguageSelectProps> = ({ transcript }) => {
+    const { t } = useI18n();
+    const [language, setLanguage] = useState<OutputLanguage>(getOutputLanguage);
+    const detected = useMemo(() => detectTranscriptLanguage(transcript), [transcript]);
+
+    const handleChange = (value: OutputLanguage) => {
+        setLanguage(value);
+        setOutputLanguage(value);
+    };
+
+    const languageList = (locales: Locale[]) => locales.map(locale => t.languages[locale]).join(', ');
+
+    return (
+        <div className="flex flex-col items-center gap-1 text-gray-400">
+            <label className="flex flex-col sm:flex-row sm:items-center justify-center gap-2">
+                <span>{t.generation.outputLanguage}</span>
+                <select
+                    className="px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                    value={language}
+                    onChange={(e) => handleChange(e.target.value as OutputLanguage)}
+                >
+                    <option value="auto">
+                        {detected ? t.generation.automaticDetected(t.languages[detected.language]) : t.generation.automatic}
+                    </option>
+                    {LOCALES.map(locale => (
+                        <option key={locale} value={locale}>{t.languages[locale]}</option>
+                    ))}
+                </select>
+            </label>
+            {detected && (
+                <p className="text-sm text-gray-500">
+                    {detected.others.length > 0
+                        ? t.generation.detectedMixed(t.languages[detected.language], languageList(detected.others))
+                        : t.generation.detected(t.languages[detected.language])}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LevelMeterProps {
+    label: string;
+    analyser: AnalyserNode;
+    // Freezes the bar, e.g. while the recording is paused.
+    paused?: boolean;
+}
+
+// RMS level at which the bar is full; speech rarely goes above it.
+const FULL_SCALE_RMS = 0.3;
+
+// Live input level of one audio source, read from an `AnalyserNode` on
+// every animation frame.
+export const LevelMeter: React.FC<LevelMeterProps> = ({ label, analyser, paused = false }) => {
+    const barRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (paused) return;
+        const samples = new Float32Array(analyser.fftSize);
+        let frame = 0;
+        const draw = () => {
+            analyser.getFloatTimeDomainData(samples);
+            const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+            if (barRef.current) {
+                barRef.current.style.width = `${Math.min(100, (rms / FULL_SCALE_RMS) * 100)}%`;
+            }
+            frame = requestAnimationFrame(draw);
+        };
+        draw();
+        return () => cancelAnimationFrame(frame);
+    }, [analyser, paused]);
+
+    return (
+        <div className="flex items-center gap-3 text-sm text-gray-400">
+            <span className="w-24 text-right shrink-0">{label}</span>
+            <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden" role="meter" aria-label={label}>
+                <div ref={barRef} className="h-full w-0 bg-green-400 transition-[width] duration-75"></div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { MomentFlag, MomentFlagKind, TranscriptionChunk } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { formatTimestamp, mergeChunkSegments } from '../services/transcript';
+import { FlagIcon } from './icons';
+
+interface LiveTranscriptProps {
+    // Off when live transcription is disabled; only the flags are listed.
+    live: boolean;
+    chunks: TranscriptionChunk[];
+    flags: MomentFlag[];
+    onFlag: (kind: MomentFlagKind) => void;
+    onRemoveFlag: (flag: MomentFlag) => void;
+}
+
+const FLAG_KINDS: MomentFlagKind[] = ['decision', 'action'];
+
+// Rolling transcript shown while recording, with buttons to mark the
+// current moment as a decision or an action item.
+export const LiveTranscript: React.FC<LiveTranscriptProps> = ({ live, chunks, flags, onFlag, onRemoveFlag }) => {
+    const { t } = useI18n();
+    const listRef = useRef<HTMLOListElement>(null);
+    const segments = mergeChunkSegments(chunks.filter(chunk => chunk.status === 'done'));
+    const isTranscribing = chunks.some(chunk => chunk.status === 'transcribing');
+    const hasFailed = chunks.some(chunk => chunk.status === 'error');
+    const flagLabel = (kind: MomentFlagKind) => kind === 'decision' ? t.app.recording.live.flagDecision : t.app.recording.live.flagAction;
+
+    // Turns and flags in recording order.
+    const entries = [
+        ...segments.map(segment => ({ time: segment.start, segment })),
+        ...flags.map(flag => ({ time: flag.time, flag })),
+    ].sort((a, b) => a.time - b.time);
+
+    // Follow the newest lines.
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [entries.length]);
+
+    return (
+        <div className="w-full flex flex-col gap-2 text-left">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-gray-300">{live ? t.app.recording.live.title : t.app.recording.live.flagsTitle}</h3>
+                {isTranscribing && <p className="text-xs text-gray-500">{t.app.recording.live.transcribing}</p>}
+            </div>
+            <ol ref={listRef} className="flex flex-col gap-2 p-4 bg-gray-900/70 rounded-lg border border-gray-700 h-56 overflow-y-auto">
+                {entries.length === 0 && <li className="text-sm text-gray-500">{live ? t.app.recording.live.waiting : t.app.recording.live.off}</li>}
+                {entries.map((entry, index) => 'flag' in entry ? (
+                    <li key={`flag-${index}`} className="flex items-center gap-2 text-sm text-yellow-300">
+                        <FlagIcon className="w-4 h-4 shrink-0" />
+                        <span className="font-mono text-yellow-500">[{formatTimestamp(entry.flag.time)}]</span>
+                        <span className="font-semibold">{flagLabel(entry.flag.kind)}</span>
+                        <button
+                            onClick={() => onRemoveFlag(entry.flag)}
+                            className="ml-auto text-xs text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-yellow-500 rounded"
+                        >
+                            {t.app.recording.live.removeFlag}
+                        </button>
+                    </li>
+                ) : (
+                    <li key={`turn-${index}`} className="text-sm text-gray-300">
+                        <span className="font-mono text-gray-500">[{formatTimestamp(entry.segment.start)}]</span>{' '}
+                        <span className="font-semibold text-cyan-400">{entry.segment.speaker}:</span> {entry.segment.text}
+                    </li>
+                ))}
+            </ol>
+            {hasFailed && <p className="text-xs text-yellow-300">{t.app.recording.live.failed}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-400">{t.app.recording.live.flagHint}</span>
+                {FLAG_KINDS.map(kind => (
+                    <button
+                        key={kind}
+                        onClick={() => onFlag(kind)}
+                        className="inline-flex items-center gap-1 px-3 py-1 text-sm font-semibold text-yellow-200 bg-yellow-900/40 hover:bg-yellow-900/60 border border-yellow-600/50 rounded-full focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    >
+                        <FlagIcon className="w-4 h-4" />
+                        <span>{flagLabel(kind)}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'https://esm.sh/react-markdown@9';
+import remarkGfm from 'https://esm.sh/remark-gfm@4';
+import { Locale, Minutes, MinutesField, MinutesTask, MinutesTemplate, NextMeeting, TemplateSection, TemplateSectionKind, TranscriptSegment } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { messages } from '../i18n';
+import { formatTask, sectionBodyMarkdown } from '../services/minutesFormatter';
+import { NOT_SPECIFIED, SOURCED_SECTIONS } from '../services/minutesSchema';
+import { getSectionValue, sectionItemTexts, withSectionValue } from '../services/templates';
+import { confirmItem, findQuotedSegment, removeItem } from '../services/citations';
+import { formatTimestamp } from '../services/transcript';
+import { findSourceSegment } from '../services/transcriptLinks';
+import { CheckIcon, CopyIcon, PencilIcon, SparklesIcon, TrashIcon } from './icons';
+
+interface MinutesEditorProps {
+    minutes: Minutes;
+    // Template the minutes were generated with; sets the sections and titles.
+    template: MinutesTemplate;
+    // Language the minutes were written in; the controls follow the interface.
+    language: Locale;
+    onChange: (minutes: Minutes) => void;
+    // Resolves to an error message, or null when the section was replaced.
+    onRegenerate: (section: TemplateSection, instruction: string) => Promise<string | null>;
+    canRegenerate: boolean;
+    // Shows the minutes without editing controls, e.g. while they stream in.
+    readOnly?: boolean;
+    // Transcript the minutes were generated from. When given with
+    // `onShowSource`, decisions, tasks and next steps link to the passage
+    // they came from.
+    transcriptSegments?: TranscriptSegment[];
+    onShowSource?: (segmentIndex: number) => void;
+}
+
+type SectionKind = 'title' | TemplateSectionKind;
+
+// The project name is shown as the header of the minutes, the summary right
+// below it; the remaining sections follow in template order.
+const orderSections = (template: MinutesTemplate): TemplateSection[] => {
+    const lead = ['projectName', 'summary'].flatMap(id => template.sections.filter(section => section.id === id));
+    return [...lead, ...template.sections.filter(section => !lead.includes(section))];
+};
+
+const sectionKind = (section: TemplateSection): SectionKind =>
+    section.id === 'projectName' ? 'title' : section.kind;
+
+// Sections that offer a copy-to-clipboard button.
+const COPYABLE_SECTIONS = ['projectName', 'summary'];
+
+const isSourcedSection = (section: TemplateSection): boolean =>
+    SOURCED_SECTIONS.includes(section.id as MinutesField);
+
+const sectionItems = (minutes: Minutes, section: TemplateSection): string[] =>
+    sectionItemTexts(getSectionValue(minutes, section), section.kind);
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const iconButtonClass = "text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2";
+
+const markdownComponents = {
+    ul: ({...props}) => <ul className="list-disc list-inside space-y-1" {...props} />,
+    li: ({...props}) => <li className="text-gray-300" {...props} />,
+    p: ({...props}) => <p className="text-gray-300" {...props}/>,
+    strong: ({...props}) => <strong className="font-semibold text-gray-100" {...props}/>,
+};
+
+// Editable copy of a section's value, in a form the inputs can work with.
+type Draft = string | MinutesTask[] | NextMeeting;
+
+const toDraft = (minutes: Minutes, section: TemplateSection): Draft => {
+    const value = getSectionValue(minutes, section);
+    if (section.kind === 'list') return (value as string[]).join('\n');
+    if (section.kind === 'tasks') return (value as MinutesTask[]).map(task => ({ ...task }));
+    if (section.kind === 'meeting') return { ...(value as NextMeeting) };
+    return value as string;
+};
+
+const fromDraft = (draft: Draft, kind: TemplateSectionKind): string | string[] | MinutesTask[] | NextMeeting => {
+    if (kind === 'list') return (draft as string).split('\n').map(line => line.trim()).filter(Boolean);
+    if (kind === 'tasks') return (draft as MinutesTask[]).filter(task => task.description.trim() !== '');
+    if (kind === 'meeting') return draft as NextMeeting;
+    return (draft as string).trim() || NOT_SPECIFIED;
+};
+
+export const MinutesEditor: React.FC<MinutesEditorProps> = ({ minutes, template, language, onChange, onRegenerate, canRegenerate, readOnly = false, transcriptSegments = [], onShowSource }) => {
+    const { t } = useI18n();
+    const [editing, setEditing] = useState<{ key: string; draft: Draft } | null>(null);
+    const [instructionFor, setInstructionFor] = useState<string | null>(null);
+    const [instruction, setInstruction] = useState('');
+    const [regenerating, setRegenerating] = useState<string | null>(null);
+    const [sectionError, setSectionError] = useState<{ key: string; message: string } | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    // Source segment of every item of the sourced sections, by section id:
+    // where the model's quotes are found, or else the passage that reads most
+    // like the item itself.
+    const sources = useMemo(() => {
+        if (!onShowSource || transcriptSegments.length === 0) return {};
+        return Object.fromEntries(template.sections.filter(isSourcedSection).map(section => [
+            section.id,
+            sectionItems(minutes, section).map((item, index) =>
+                findQuotedSegment(minutes.citations?.[section.id]?.[index]?.quotes ?? [], transcriptSegments)
+                ?? findSourceSegment(item, transcriptSegments)),
+        ]));
+    }, [minutes, template, transcriptSegments, onShowSource]) as Record<string, (number | null)[]>;
+
+    const projectTitle = (value: string) =>
+        value === NOT_SPECIFIED ? messages(language).minutes.notSpecified : value;
+
+    const handleSave = (section: TemplateSection) => {
+        if (!editing) return;
+        onChange(withSectionValue(minutes, section, fromDraft(editing.draft, section.kind)));
+        setEditing(null);
+    };
+
+    const handleRegenerate = async (section: TemplateSection) => {
+        const key = section.id;
+        setRegenerating(key);
+        setSectionError(null);
+        const error = await onRegenerate(section, instruction);
+        setRegenerating(null);
+        if (error) {
+            setSectionError({ key, message: error });
+        } else {
+            setInstructionFor(null);
+            setInstruction('');
+        }
+    };
+
+    const handleCopy = (section: TemplateSection) => {
+        const value = getSectionValue(minutes, section) as string;
+        if (!value || value === NOT_SPECIFIED) return;
+        navigator.clipboard.writeText(value);
+        setCopied(section.id);
+        setTimeout(() => setCopied(null), 2000);
+    };
+
+    const renderEditor = (kind: SectionKind, draft: Draft) => {
+        const setDraft = (value: Draft) => setEditing(prev => prev && { ...prev, draft: value });
+        switch (kind) {
+            case 'title':
+                return <input type="text" className={inputClass} value={draft as string} onChange={(e) => setDraft(e.target.value)} />;
+            case 'text':
+                return <textarea className={`${inputClass} h-32 resize-y`} value={draft as string} onChange={(e) => setDraft(e.target.value)} />;
+            case 'list':
+                return (
+                    <>
+                        <textarea className={`${inputClass} h-40 resize-y`} value={draft as string} onChange={(e) => setDraft(e.target.value)} />
+                        <p className="text-xs text-gray-500">{t.editor.onePerLine}</p>
+                    </>
+                );
+            case 'tasks': {
+                const tasks = draft as MinutesTask[];
+                const updateTask = (index: number, patch: Partial<MinutesTask>) =>
+                    setDraft(tasks.map((task, i) => (i === index ? { ...task, ...patch } : task)));
+                return (
+                    <div className="flex flex-col gap-3">
+                        {tasks.map((task, index) => (
+                            <div key={index} className="flex flex-col sm:flex-row gap-2">
+                                <input type="text" className={`${inputClass} sm:flex-[2]`} value={task.description} placeholder={t.editor.task} onChange={(e) => updateTask(index, { description: e.target.value })} />
+                                <input type="text" className={`${inputClass} sm:flex-1`} value={task.owner} placeholder={t.minutes.owner} onChange={(e) => updateTask(index, { owner: e.target.value })} />
+                                <input type="text" className={`${inputClass} sm:w-36`} value={task.dueDate} placeholder="YYYY-MM-DD" onChange={(e) => updateTask(index, { dueDate: e.target.value })} />
+                                <button onClick={() => setDraft(tasks.filter((_, i) => i !== index))} className={`${iconButtonClass} hover:text-red-400`} aria-label={t.editor.deleteTask}>
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        ))}
+                        <div>
+                            <button
+                                onClick={() => setDraft([...tasks, { description: '', owner: NOT_SPECIFIED, dueDate: NOT_SPECIFIED }])}
+                                className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}
+                            >
+                                {t.editor.addTask}
+                            </button>
+                        </div>
+                    </div>
+                );
+            }
+            case 'meeting': {
+                const meeting = draft as Minutes['nextMeeting'];
+                return (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input type="text" className={inputClass} value={meeting.date} placeholder={t.minutes.date} onChange={(e) => setDraft({ ...meeting, date: e.target.value })} />
+                        <input type="text" className={inputClass} value={meeting.time} placeholder={t.minutes.time} onChange={(e) => setDraft({ ...meeting, time: e.target.value })} />
+                        <input type="text" className={inputClass} value={meeting.platform} placeholder={t.minutes.platform} onChange={(e) => setDraft({ ...meeting, platform: e.target.value })} />
+                    </div>
+                );
+            }
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            {orderSections(template).map(section => {
+                const { id: key, title: label } = section;
+                const kind = sectionKind(section);
+                const isEditing = editing?.key === key;
+                const isRegenerating = regenerating === key;
+                return (
+                    <section key={key} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-2">
+                        <div className="flex justify-between items-center gap-2">
+                            {kind === 'title' && !isEditing ? (
+                                <h3 className="text-xl font-bold text-cyan-400">{projectTitle(getSectionValue(minutes, section) as string)}</h3>
+                            ) : (
+                                <h3 className="text-lg font-semibold text-cyan-400">{label}</h3>
+                            )}
+                            {!readOnly && <div className="flex items-center gap-1 shrink-0">
+                                {COPYABLE_SECTIONS.includes(key) && (
+                                    <button
+                                        onClick={() => handleCopy(section)}
+                                        className={iconButtonClass}
+                                        aria-label={t.editor.copy(label)}
+                                        disabled={getSectionValue(minutes, section) === NOT_SPECIFIED}
+                                    >
+                                        {copied === key ? <CheckIcon className="w-5 h-5 text-green-400" /> : <CopyIcon className="w-5 h-5" />}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setEditing({ key, draft: toDraft(minutes, section) })}
+                                    className={iconButtonClass}
+                                    aria-label={t.editor.edit(label)}
+                                    disabled={isEditing || isRegenerating}
+                                >
+                                    <PencilIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => { setInstructionFor(instructionFor === key ? null : key); setInstruction(''); setSectionError(null); }}
+                                    className={iconButtonClass}
+                                    aria-label={t.editor.regenerate(label)}
+                                    disabled={!canRegenerate || isEditing || regenerating !== null}
+                                    title={canRegenerate ? t.editor.regenerateHint : t.editor.regenerateUnavailable}
+                                >
+                                    <SparklesIcon className="w-5 h-5" />
+                                </button>
+                            </div>}
+                        </div>
+
+                        {isEditing ? (
+                            <div className="flex flex-col gap-2">
+                                {renderEditor(kind, editing.draft)}
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={() => setEditing(null)} className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>{t.common.cancel}</button>
+                                    <button onClick={() => handleSave(section)} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>{t.common.save}</button>
+                                </div>
+                            </div>
+                        ) : isSourcedSection(section) && sectionItems(minutes, section).length > 0 && (sources[key] || minutes.citations?.[key]) ? (
+                            <ul className="flex flex-col gap-1">
+                                {sectionItems(minutes, section).map((item, index) => {
+                                    const source = sources[key]?.[index] ?? null;
+                                    const unsupported = minutes.citations?.[key]?.[index]?.status === 'unsupported';
+                                    const markdown = section.kind === 'tasks'
+                                        ? formatTask((getSectionValue(minutes, section) as MinutesTask[])[index], language)
+                                        : `* ${item}`;
+                                    return (
+                                        <li
+                                            key={index}
+                                            className={`flex items-start gap-2 ${unsupported ? 'p-2 rounded-md bg-yellow-900/30 border border-yellow-600/60' : ''}`}
+                                        >
+                                            <div className="flex-1 flex flex-col gap-1">
+                                                <div className="prose prose-invert max-w-none">
+                                                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{markdown}</ReactMarkdown>
+                                                </div>
+                                                {unsupported && <p className="text-xs text-yellow-300">{t.editor.unsupported}</p>}
+                                            </div>
+                                            {unsupported && !readOnly && (
+                                                <div className="flex items-center gap-1 shrink-0">
+                                                    <button
+                                                        onClick={() => onChange(confirmItem(minutes, key, index))}
+                                                        className={`${smallButtonClass} bg-yellow-700 hover:bg-yellow-800 focus:ring-yellow-500`}
+                                                    >
+                                                        {t.editor.confirmItem}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onChange(removeItem(minutes, section, index))}
+                                                        className={iconButtonClass}
+                                                        aria-label={t.editor.removeItem}
+                                                        title={t.editor.removeItem}
+                                                    >
+                                                        <TrashIcon className="w-5 h-5" />
+                                                    </button>
+                                                </div>
+                                            )}
+                                            {source !== null && (
+                                                <button
+                                                    onClick={() => onShowSource(source)}
+                                                    className="shrink-0 font-mono text-xs text-cyan-400 hover:text-cyan-200 hover:underline p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                    title={t.editor.showSource}
+                                                >
+                                                    [{formatTimestamp(transcriptSegments[source].start)}]
+                                                </button>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        ) : kind !== 'title' && (
+                            <div className="prose prose-invert max-w-none">
+                                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                                    {sectionBodyMarkdown(minutes, section, language)}
+                                </ReactMarkdown>
+                            </div>
+                        )}
+
+                        {instructionFor === key && (
+                            <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-gray-700">
+                                <input
+                                    type="text"
+                                    className={inputClass}
+                                    value={instruction}
+                                    onChange={(e) => setInstruction(e.target.value)}
+                                    placeholder={t.editor.instructionPlaceholder}
+                                    disabled={isRegenerating}
+                                />
+                                <button
+                                    onClick={() => handleRegenerate(section)}
+                                    disabled={isRegenerating}
+                                    className={`${smallButtonClass} shrink-0 inline-flex items-center justify-center gap-2 bg-cyan-700 hover:bg-cyan-800 focus:ring-cyan-600 disabled:opacity-50`}
+                                >
+                                    {isRegenerating && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
+                                    <span>{isRegenerating ? t.editor.regenerating : t.editor.regenerateAction}</span>
+                                </button>
+                            </div>
+                        )}
+                        {sectionError?.key === key && <p className="text-sm text-red-300">{sectionError.message}</p>}
+                    </section>
+                );
+            })}
+        </div>
+    );
+};
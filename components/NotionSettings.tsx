@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { NotionSettings as Settings } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { fetchNotionDatabase } from '../services/notion';
+import { NOTION_PROPERTY_TYPES, NotionDatabaseSchema, NotionPropertyKey, parseNotionId } from '../services/notionBlocks';
+
+interface NotionSettingsProps {
+    value: Settings;
+    onChange: (settings: Settings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const PROPERTY_KEYS = Object.keys(NOTION_PROPERTY_TYPES) as NotionPropertyKey[];
+
+// Target database of "Send to Notion" and which of its properties receive
+// the title, date, project and attendees. Saved with the provider settings.
+export const NotionSettings: React.FC<NotionSettingsProps> = ({ value, onChange }) => {
+    const { t } = useI18n();
+    const [schema, setSchema] = useState<NotionDatabaseSchema | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleLoad = async () => {
+        const databaseId = parseNotionId(value.databaseId);
+        if (!databaseId) {
+            setError(t.notionSettings.invalidDatabase);
+            return;
+        }
+        setIsLoading(true);
+        setError(null);
+        try {
+            setSchema(await fetchNotionDatabase(databaseId));
+        } catch (err) {
+            setSchema(null);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Until the database is loaded only the saved mapping can be shown.
+    const options = (key: NotionPropertyKey): string[] => {
+        if (!schema) return value.properties[key] ? [value.properties[key]] : [];
+        return schema.properties.filter(p => NOTION_PROPERTY_TYPES[key].includes(p.type)).map(p => p.name);
+    };
+
+    return (
+        <div className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-lg font-semibold text-cyan-400">{t.notionSettings.title}</h3>
+            <p className="text-sm text-gray-500">{t.notionSettings.intro}</p>
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+                {t.notionSettings.database}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        autoComplete="off"
+                        className={inputClass}
+                        placeholder={t.notionSettings.databasePlaceholder}
+                        value={value.databaseId}
+                        onChange={(e) => { onChange({ ...value, databaseId: e.target.value }); setSchema(null); }}
+                    />
+                    <button
+                        onClick={handleLoad}
+                        disabled={isLoading || !value.databaseId.trim()}
+                        className={`${smallButtonClass} shrink-0 bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500`}
+                    >
+                        {isLoading ? t.notionSettings.loading : t.notionSettings.load}
+                    </button>
+                </div>
+            </label>
+            {schema && <p className="text-sm text-green-400">{t.notionSettings.loaded(schema.title || t.notionSettings.untitledDatabase)}</p>}
+            {error && <p className="text-sm text-gray-300 bg-red-900/50 p-2 rounded-lg">{error}</p>}
+            {PROPERTY_KEYS.map(key => (
+                <label key={key} className="flex flex-col gap-1 text-sm text-gray-400">
+                    {t.notionSettings.properties[key]}
+                    <select
+                        className={inputClass}
+                        value={value.properties[key]}
+                        disabled={!schema}
+                        onChange={(e) => onChange({ ...value, properties: { ...value.properties, [key]: e.target.value } })}
+                    >
+                        <option value="">{key === 'title' ? t.notionSettings.defaultTitle : t.notionSettings.notMapped}</option>
+                        {options(key).map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </label>
+            ))}
+            <p className="text-xs text-gray-500">{schema ? t.notionSettings.typesHint : t.notionSettings.loadHint}</p>
+        </div>
+    );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ActionItemProgress } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { useTrackedItems } from '../hooks/useTrackedItems';
+import { isPending, projectItems } from '../services/actionItemTracker';
+import { ActionItemList } from './ActionItemList';
+
+interface ProjectFollowUpsProps {
+    project: string;
+    meetingId?: string;
+    // Progress the minutes reported, whose tasks are shown even once done.
+    followUps?: ActionItemProgress[];
+}
+
+// Tasks of earlier meetings of the project: the pending ones and those whose
+// progress these minutes reported.
+export const ProjectFollowUps: React.FC<ProjectFollowUpsProps> = ({ project, meetingId, followUps = [] }) => {
+    const { t } = useI18n();
+    const items = useTrackedItems();
+    const reported = new Set(followUps.map(report => report.id));
+    const shown = projectItems(items, project)
+        .filter(item => item.meetingId !== meetingId && (isPending(item) || reported.has(item.id)))
+        .sort((a, b) => a.meetingDate - b.meetingDate);
+
+    if (shown.length === 0) return null;
+
+    return (
+        <section className="flex flex-col gap-2">
+            <h3 className="text-lg font-semibold text-cyan-400">{t.actionItems.projectTitle(project)}</h3>
+            <div className="max-h-72 overflow-y-auto pr-1">
+                <ActionItemList items={shown} />
+            </div>
+        </section>
+    );
+};
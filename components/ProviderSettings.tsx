@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { NotionSettings as NotionConfig, ProviderId, ProviderSettings as Settings } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { getProviderSettings, saveProviderSettings, PROVIDER_IDS } from '../services/providerSettings';
+import { getNotionSettings, saveNotionSettings } from '../services/notionSettings';
+import { NotionSettings } from './NotionSettings';
+import { ResetIcon } from './icons';
+
+interface ProviderSettingsProps {
+    onBack: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2";
+
+// Editable fields of each provider, in display order. The mock provider has none.
+type FieldGroup = Exclude<ProviderId, 'mock'>;
+type FieldKey = 'proxyUrl' | 'apiKey' | 'model' | 'baseUrl' | 'transcriptionModel' | 'whisperUrl' | 'whisperModel' | 'ollamaUrl';
+
+const FIELDS: Record<FieldGroup, { key: FieldKey; secret?: boolean }[]> = {
+    gemini: [{ key: 'proxyUrl' }],
+    openai: [{ key: 'baseUrl' }, { key: 'apiKey', secret: true }, { key: 'model' }, { key: 'transcriptionModel' }],
+    local: [{ key: 'whisperUrl' }, { key: 'whisperModel' }, { key: 'ollamaUrl' }, { key: 'model' }],
+};
+
+// Chooses the transcription and generation backend and its connection details,
+// and where "Send to Notion" writes.
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onBack }) => {
+    const { t } = useI18n();
+    const [settings, setSettings] = useState(getProviderSettings);
+    const [notion, setNotion] = useState(getNotionSettings);
+    const [saved, setSaved] = useState(false);
+
+    const update = (next: Settings) => {
+        setSettings(next);
+        setSaved(false);
+    };
+
+    const updateNotion = (next: NotionConfig) => {
+        setNotion(next);
+        setSaved(false);
+    };
+
+    const handleSave = () => {
+        saveProviderSettings(settings);
+        saveNotionSettings(notion);
+        setSaved(true);
+    };
+
+    const renderFields = (group: FieldGroup) => {
+        const values = settings[group] as Record<string, string>;
+        return FIELDS[group].map(({ key, secret }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm text-gray-400">
+                {t.settings[key]}
+                <input
+                    type={secret ? 'password' : 'text'}
+                    autoComplete="off"
+                    className={inputClass}
+                    value={values[key]}
+                    onChange={(e) => update({ ...settings, [group]: { ...values, [key]: e.target.value } })}
+                />
+            </label>
+        ));
+    };
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.settings.title}</h2>
+            <p className="text-gray-400 text-center">{t.settings.intro}</p>
+
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+                {t.settings.provider}
+                <select
+                    className={inputClass}
+                    value={settings.provider}
+                    onChange={(e) => update({ ...settings, provider: e.target.value as ProviderId })}
+                >
+                    {PROVIDER_IDS.map(id => <option key={id} value={id}>{t.settings.providers[id]}</option>)}
+                </select>
+            </label>
+            <p className="text-sm text-gray-500">{t.settings.descriptions[settings.provider]}</p>
+
+            {settings.provider !== 'mock' && (
+                <div className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+                    {renderFields(settings.provider)}
+                    <p className="text-xs text-gray-500">{t.settings.storedLocally}</p>
+                </div>
+            )}
+
+            <NotionSettings value={notion} onChange={updateNotion} />
+
+            {saved && <p className="text-sm text-green-400 text-center">{t.settings.saved}</p>}
+
+            <div className="flex justify-center gap-4">
+                <button onClick={onBack} className={`${smallButtonClass} inline-flex items-center gap-1 bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>
+                    <ResetIcon className="w-4 h-4" />
+                    <span>{t.common.back}</span>
+                </button>
+                <button onClick={handleSave} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>
+                    {t.common.save}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { RecordingOptions, RecordingSource } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { getRecordingOptions, listMicrophones, RECORDING_SOURCES } from '../services/recordingOptions';
+import { MicrophoneIcon, ResetIcon } from './icons';
+
+interface RecordingSetupProps {
+    onStart: (options: RecordingOptions) => void;
+    onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2";
+
+// Chooses what to record (tab, microphone or both) and which microphone.
+export const RecordingSetup: React.FC<RecordingSetupProps> = ({ onStart, onCancel }) => {
+    const { t } = useI18n();
+    const [options, setOptions] = useState(getRecordingOptions);
+    const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+
+    useEffect(() => {
+        const refresh = () => listMicrophones()
+            .then(setMicrophones)
+            .catch(err => console.error("Error listing microphones:", err));
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, []);
+
+    // A remembered microphone that is no longer connected falls back to the default.
+    const microphoneId = microphones.some(mic => mic.deviceId === options.microphoneId) ? options.microphoneId : '';
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.app.recordingSetup.title}</h2>
+            <p className="text-gray-400 text-center">{t.app.recordingSetup.intro}</p>
+
+            <fieldset className="flex flex-col gap-2">
+                <legend className="text-sm text-gray-400 mb-1">{t.app.recordingSetup.source}</legend>
+                {RECORDING_SOURCES.map((source: RecordingSource) => (
+                    <label
+                        key={source}
+                        className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${options.source === source ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 bg-gray-900/70'}`}
+                    >
+                        <input
+                            type="radio"
+                            name="recording-source"
+                            className="mt-1"
+                            checked={options.source === source}
+                            onChange={() => setOptions({ ...options, source })}
+                        />
+                        <span className="flex flex-col">
+                            <span className="font-semibold text-gray-200">{t.app.recordingSetup.sources[source]}</span>
+                            <span className="text-sm text-gray-400">{t.app.recordingSetup.descriptions[source]}</span>
+                        </span>
+                    </label>
+                ))}
+            </fieldset>
+
+            {options.source !== 'tab' && (
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {t.app.recordingSetup.microphone}
+                    <select
+                        className={inputClass}
+                        value={microphoneId}
+                        onChange={(e) => setOptions({ ...options, microphoneId: e.target.value })}
+                    >
+                        <option value="">{t.app.recordingSetup.defaultMicrophone}</option>
+                        {microphones.map((mic, index) => (
+                            <option key={mic.deviceId} value={mic.deviceId}>{mic.label || t.app.recordingSetup.microphoneN(index + 1)}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+
+            <label className="flex gap-3 text-sm cursor-pointer">
+                <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={options.speechMode}
+                    onChange={(e) => setOptions({ ...options, speechMode: e.target.checked })}
+                />
+                <span className="flex flex-col">
+                    <span className="font-semibold text-gray-200">{t.app.recordingSetup.speechMode}</span>
+                    <span className="text-gray-400">{t.app.recordingSetup.speechModeHint}</span>
+                </span>
+            </label>
+
+            <label className="flex gap-3 text-sm cursor-pointer">
+                <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={options.liveTranscription}
+                    onChange={(e) => setOptions({ ...options, liveTranscription: e.target.checked })}
+                />
+                <span className="flex flex-col">
+                    <span className="font-semibold text-gray-200">{t.app.recordingSetup.liveTranscription}</span>
+                    <span className="text-gray-400">{t.app.recordingSetup.liveTranscriptionHint}</span>
+                </span>
+            </label>
+
+            <div className="flex justify-center gap-4">
+                <button onClick={onCancel} className={`${smallButtonClass} inline-flex items-center gap-1 bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>
+                    <ResetIcon className="w-4 h-4" />
+                    <span>{t.common.cancel}</span>
+                </button>
+                <button
+                    onClick={() => onStart({ ...options, microphoneId })}
+                    className={`${smallButtonClass} inline-flex items-center gap-1 bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}
+                >
+                    <MicrophoneIcon className="w-4 h-4" />
+                    <span>{t.app.recordingSetup.start}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Locale, NextMeeting } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { ActionItem, parseNextMeeting } from '../services/actionItems';
+import { exportActionItems, exportNextMeeting, isIssueTracker, IssueTracker, TASK_EXPORT_FORMATS, TaskExportFormat, TrackerMapping } from '../services/taskExport';
+import { getTrackerMapping, saveTrackerMapping } from '../services/trackerMappings';
+import { ArrowDownTrayIcon } from './icons';
+
+interface TaskExportProps {
+    items: ActionItem[];
+    nextMeeting: NextMeeting | null;
+    title: string;
+    // Meeting date, formatted in the language of the minutes.
+    date: string;
+    language: Locale;
+    // Stable per meeting, so calendar entries are updated when imported again.
+    uidPrefix: string;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const buttonClass = "inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Exports the selected tasks as CSV, issue tracker JSON or calendar to-dos,
+// and the next meeting as a calendar event.
+export const TaskExport: React.FC<TaskExportProps> = ({ items, nextMeeting, title, date, language, uidPrefix }) => {
+    const { t } = useI18n();
+    // Tracks the unticked items, so tasks added while editing start ticked.
+    const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+    const [format, setFormat] = useState<TaskExportFormat>('csv');
+    const [mapping, setMapping] = useState<TrackerMapping | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const selected = items.filter(item => !excluded.has(item.id));
+    const owners: string[] = Array.from(new Set(selected.map(item => item.owner).filter((owner): owner is string => !!owner)));
+    const meetingTime = nextMeeting && parseNextMeeting(nextMeeting);
+    const options = { title, date, language, uidPrefix };
+
+    const toggle = (id: string) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    const handleFormat = (next: TaskExportFormat) => {
+        setFormat(next);
+        setMapping(isIssueTracker(next) ? getTrackerMapping(next) : null);
+        setNotice(null);
+    };
+
+    const handleExport = () => {
+        if (isIssueTracker(format) && mapping) {
+            saveTrackerMapping(format, mapping);
+            if (format !== 'github' && !mapping.project.trim()) {
+                setNotice(t.taskExport.missingProject[format]);
+                return;
+            }
+        }
+        setNotice(null);
+        exportActionItems(format, selected, { ...options, ...(mapping && { mapping }) });
+    };
+
+    const handleNextMeeting = () => {
+        if (nextMeeting && !exportNextMeeting(nextMeeting, options)) {
+            setNotice(t.taskExport.unreadableMeetingDate);
+        }
+    };
+
+    const renderMapping = (tracker: IssueTracker) => (
+        <div className="flex flex-col gap-3 p-3 rounded-lg border border-gray-700">
+            {tracker !== 'github' && (
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {t.taskExport.project[tracker]}
+                    <input type="text" className={inputClass} value={mapping.project} onChange={(e) => setMapping({ ...mapping, project: e.target.value })} />
+                </label>
+            )}
+            <label className="flex flex-col gap-1 text-sm text-gray-400">
+                {t.taskExport.dueDateField}
+                <input type="text" className={inputClass} value={mapping.dueDateField} onChange={(e) => setMapping({ ...mapping, dueDateField: e.target.value })} />
+                <span className="text-xs text-gray-500">{t.taskExport.dueDateHints[tracker]}</span>
+            </label>
+            {owners.length > 0 && (
+                <div className="flex flex-col gap-2 text-sm text-gray-400">
+                    <span>{t.taskExport.assignees[tracker]}</span>
+                    {owners.map(owner => (
+                        <label key={owner} className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] items-center gap-2">
+                            <span className="text-gray-300 truncate">{owner}</span>
+                            <input
+                                type="text"
+                                className={inputClass}
+                                value={mapping.assignees[owner] ?? ''}
+                                placeholder={t.taskExport.unassigned}
+                                onChange={(e) => setMapping({ ...mapping, assignees: { ...mapping.assignees, [owner]: e.target.value } })}
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <section className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <h3 className="text-lg font-semibold text-cyan-400">{t.taskExport.title}</h3>
+            {items.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{t.taskExport.noTasks}</p>
+            ) : (
+                <>
+                    <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto pr-1">
+                        {items.map(item => (
+                            <li key={item.id}>
+                                <label className="flex items-start gap-2 text-sm text-gray-300">
+                                    <input type="checkbox" className="mt-1" checked={!excluded.has(item.id)} onChange={() => toggle(item.id)} />
+                                    <span>
+                                        {item.description}
+                                        <span className="text-gray-500">
+                                            {' · '}{item.owner ?? t.taskExport.noOwner}
+                                            {' · '}{item.dueDate ?? item.dueDateText ?? t.taskExport.noDueDate}
+                                        </span>
+                                    </span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <select className={inputClass} value={format} onChange={(e) => handleFormat(e.target.value as TaskExportFormat)} aria-label={t.taskExport.format}>
+                            {TASK_EXPORT_FORMATS.map(f => <option key={f} value={f}>{t.taskExport.formats[f]}</option>)}
+                        </select>
+                        <button onClick={handleExport} disabled={selected.length === 0} className={`${buttonClass} shrink-0`}>
+                            <ArrowDownTrayIcon className="w-4 h-4" />
+                            <span>{t.taskExport.export(selected.length)}</span>
+                        </button>
+                    </div>
+                    {isIssueTracker(format) && mapping && renderMapping(format)}
+                </>
+            )}
+            {nextMeeting && (
+                <div>
+                    <button
+                        onClick={handleNextMeeting}
+                        disabled={!meetingTime}
+                        title={meetingTime ? undefined : t.taskExport.unreadableMeetingDate}
+                        className={buttonClass}
+                    >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        <span>{t.taskExport.nextMeeting}</span>
+                    </button>
+                </div>
+            )}
+            {notice && <p className="text-sm text-yellow-300">{notice}</p>}
+        </section>
+    );
+};
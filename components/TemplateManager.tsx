@@ -0,0 +1,265 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MinutesTemplate, TemplateSection, TemplateSectionKind } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { listTemplates, saveTemplate, deleteTemplate, importTemplate, templateToJson } from '../services/templateStore';
+import { defaultTemplate, DEFAULT_TEMPLATE_ID, BUILT_IN_SECTION_KINDS, CUSTOM_SECTION_KINDS, createSectionId, getTemplateSection, isBuiltInSection } from '../services/templates';
+import { downloadFile, toFileName } from '../services/download';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, CopyIcon, PencilIcon, ResetIcon, TrashIcon } from './icons';
+
+interface TemplateManagerProps {
+    onBack: () => void;
+}
+
+// Value of the "add section" selector for a section that is not a built-in field.
+const CUSTOM_OPTION = 'custom';
+
+const inputClass = "w-full px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200";
+const iconButtonClass = "text-gray-400 hover:text-white transition-colors p-1 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed";
+const smallButtonClass = "px-3 py-1 text-sm font-semibold text-white rounded-full focus:outline-none focus:ring-2";
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ onBack }) => {
+    const { t, locale } = useI18n();
+    const [templates, setTemplates] = useState(listTemplates);
+    const [draft, setDraft] = useState<MinutesTemplate | null>(null);
+    const [newSection, setNewSection] = useState(CUSTOM_OPTION);
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = () => setTemplates(listTemplates());
+
+    // The built-in template is listed in the interface language.
+    const builtInTemplate = defaultTemplate(locale);
+    useEffect(() => setTemplates(listTemplates()), [locale]);
+
+    const handleEdit = (template: MinutesTemplate, asCopy: boolean) => {
+        setError(null);
+        setNewSection(CUSTOM_OPTION);
+        setDraft({
+            id: asCopy ? '' : template.id,
+            name: asCopy ? t.templates.copyName(template.name) : template.name,
+            sections: template.sections.map(section => ({ ...section })),
+        });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        try {
+            saveTemplate(draft);
+            setDraft(null);
+            setError(null);
+            refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t.templates.saveFailed);
+        }
+    };
+
+    const handleDelete = (template: MinutesTemplate) => {
+        if (!window.confirm(t.templates.deleteConfirm(template.name))) return;
+        deleteTemplate(template.id);
+        refresh();
+    };
+
+    const handleExport = (template: MinutesTemplate) => {
+        downloadFile(templateToJson(template), `plantilla-${toFileName(template.name)}.json`, 'application/json');
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            importTemplate(await file.text());
+            setError(null);
+            refresh();
+        } catch (err) {
+            setError(err instanceof Error ? t.templates.importFailed(file.name, err.message) : t.templates.importFailedUnknown);
+        }
+    };
+
+    const updateSection = (index: number, patch: Partial<TemplateSection>) => {
+        setDraft(prev => prev && {
+            ...prev,
+            sections: prev.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+        });
+    };
+
+    const moveSection = (index: number, offset: number) => {
+        setDraft(prev => {
+            if (!prev) return prev;
+            const sections = [...prev.sections];
+            const [moved] = sections.splice(index, 1);
+            sections.splice(index + offset, 0, moved);
+            return { ...prev, sections };
+        });
+    };
+
+    const removeSection = (index: number) => {
+        setDraft(prev => prev && { ...prev, sections: prev.sections.filter((_, i) => i !== index) });
+    };
+
+    const addSection = () => {
+        if (!draft) return;
+        const builtIn = newSection !== CUSTOM_OPTION ? getTemplateSection(builtInTemplate, newSection) : undefined;
+        const section: TemplateSection = builtIn
+            ? { ...builtIn }
+            : { id: createSectionId(), title: t.templates.newSectionTitle, kind: 'text', instructions: '', required: false };
+        setDraft({ ...draft, sections: [...draft.sections, section] });
+        setNewSection(CUSTOM_OPTION);
+    };
+
+    if (draft) {
+        const unusedFields = Object.keys(BUILT_IN_SECTION_KINDS).filter(id => !getTemplateSection(draft, id));
+        return (
+            <div className="w-full flex flex-col gap-4">
+                <h2 className="text-2xl font-bold text-center text-gray-100">{draft.id ? t.templates.editTitle : t.templates.newTitle}</h2>
+                <label className="flex flex-col gap-1 text-sm text-gray-400">
+                    {t.templates.name}
+                    <input type="text" className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                </label>
+
+                <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+                    {draft.sections.map((section, index) => (
+                        <div key={section.id} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex flex-col gap-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    className={inputClass}
+                                    value={section.title}
+                                    onChange={(e) => updateSection(index, { title: e.target.value })}
+                                    aria-label={t.templates.sectionTitle}
+                                />
+                                <button onClick={() => moveSection(index, -1)} disabled={index === 0} className={iconButtonClass} aria-label={t.templates.moveUp}>↑</button>
+                                <button onClick={() => moveSection(index, 1)} disabled={index === draft.sections.length - 1} className={iconButtonClass} aria-label={t.templates.moveDown}>↓</button>
+                                <button onClick={() => removeSection(index)} className={`${iconButtonClass} hover:text-red-400`} aria-label={t.templates.removeSection}>
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                            <textarea
+                                className={`${inputClass} h-20 resize-y text-sm`}
+                                value={section.instructions}
+                                onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                                placeholder={t.templates.instructionsPlaceholder}
+                            />
+                            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+                                {isBuiltInSection(section.id) ? (
+                                    <span>{t.templates.kind} {t.templates.kinds[section.kind]}</span>
+                                ) : (
+                                    <label className="flex items-center gap-2">
+                                        {t.templates.kind}
+                                        <select
+                                            className="px-2 py-1 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-200"
+                                            value={section.kind}
+                                            onChange={(e) => updateSection(index, { kind: e.target.value as TemplateSectionKind })}
+                                        >
+                                            {CUSTOM_SECTION_KINDS.map(kind => <option key={kind} value={kind}>{t.templates.kinds[kind]}</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                                <label className="flex items-center gap-2">
+                                    {section.kind === 'text' ? t.templates.maxCharacters : t.templates.maxItems}
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        className="w-24 px-2 py-1 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-200"
+                                        value={section.maxLength ?? ''}
+                                        onChange={(e) => updateSection(index, { maxLength: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined })}
+                                        disabled={section.kind === 'meeting'}
+                                    />
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <input type="checkbox" checked={section.required} onChange={(e) => updateSection(index, { required: e.target.checked })} />
+                                    {t.templates.required}
+                                </label>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <select className={inputClass} value={newSection} onChange={(e) => setNewSection(e.target.value)}>
+                        <option value={CUSTOM_OPTION}>{t.templates.customSection}</option>
+                        {unusedFields.map(id => (
+                            <option key={id} value={id}>{getTemplateSection(builtInTemplate, id)!.title}</option>
+                        ))}
+                    </select>
+                    <button onClick={addSection} className={`${smallButtonClass} shrink-0 bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>
+                        {t.templates.addSection}
+                    </button>
+                </div>
+
+                {error && <p className="text-red-300 bg-red-900/50 p-3 rounded-lg">{error}</p>}
+
+                <div className="flex justify-center gap-4">
+                    <button onClick={() => { setDraft(null); setError(null); }} className={`${smallButtonClass} bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>{t.common.cancel}</button>
+                    <button onClick={handleSave} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>{t.common.save}</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full flex flex-col gap-4">
+            <h2 className="text-2xl font-bold text-center text-gray-100">{t.templates.title}</h2>
+            <p className="text-gray-400 text-center">{t.templates.intro}</p>
+
+            {error && <p className="text-red-300 bg-red-900/50 p-3 rounded-lg">{error}</p>}
+
+            <div className="flex flex-col gap-3 max-h-96 overflow-y-auto pr-1">
+                {templates.map(template => (
+                    <div key={template.id} className="p-4 bg-gray-900/70 rounded-lg border border-gray-700 flex justify-between items-start gap-4">
+                        <div>
+                            <h3 className="text-lg font-semibold text-cyan-400">{template.name}</h3>
+                            <p className="text-sm text-gray-400">{template.sections.map(section => section.title).join(' · ')}</p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            {template.id !== DEFAULT_TEMPLATE_ID && (
+                                <button onClick={() => handleEdit(template, false)} className={iconButtonClass} aria-label={t.templates.edit}>
+                                    <PencilIcon className="w-5 h-5" />
+                                </button>
+                            )}
+                            <button onClick={() => handleEdit(template, true)} className={iconButtonClass} aria-label={t.templates.duplicate}>
+                                <CopyIcon className="w-5 h-5" />
+                            </button>
+                            <button onClick={() => handleExport(template)} className={iconButtonClass} aria-label={t.templates.export}>
+                                <ArrowDownTrayIcon className="w-5 h-5" />
+                            </button>
+                            {template.id !== DEFAULT_TEMPLATE_ID && (
+                                <button onClick={() => handleDelete(template)} className={`${iconButtonClass} hover:text-red-400`} aria-label={t.templates.delete}>
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-2">
+                <button onClick={() => handleEdit(builtInTemplate, true)} className={`${smallButtonClass} bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}>
+                    {t.templates.create}
+                </button>
+                <button onClick={() => importInputRef.current?.click()} className={`${smallButtonClass} inline-flex items-center gap-1 bg-gray-600 hover:bg-gray-700 focus:ring-gray-500`}>
+                    <ArrowUpTrayIcon className="w-4 h-4" />
+                    <span>{t.templates.import}</span>
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            <div className="flex justify-center">
+                <button
+                    onClick={onBack}
+                    className="inline-flex items-center justify-center gap-2 px-6 py-3 font-semibold text-white rounded-full shadow-lg bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-500"
+                >
+                    <ResetIcon className="w-6 h-6" />
+                    <span>{t.common.back}</span>
+                </button>
+            </div>
+        </div>
+    );
+};
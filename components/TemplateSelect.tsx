@@ -0,0 +1,32 @@
+import React, { useMemo, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+import { getSelectedTemplateId, listTemplates, setSelectedTemplateId } from '../services/templateStore';
+
+// Chooses the template used for the next generation. The choice is
+// remembered for later sessions.
+export const TemplateSelect: React.FC = () => {
+    const { t, locale } = useI18n();
+    // The built-in template is named in the interface language.
+    const templates = useMemo(listTemplates, [locale]);
+    const [selectedId, setSelectedId] = useState(getSelectedTemplateId);
+
+    const handleChange = (id: string) => {
+        setSelectedId(id);
+        setSelectedTemplateId(id);
+    };
+
+    return (
+        <label className="flex flex-col sm:flex-row sm:items-center justify-center gap-2 text-gray-400">
+            <span>{t.generation.template}</span>
+            <select
+                className="px-3 py-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                value={selectedId}
+                onChange={(e) => handleChange(e.target.value)}
+            >
+                {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { formatTimestamp } from '../services/transcript';
+
+interface TranscriptPlayerProps {
+    segments: TranscriptSegment[];
+    // Recording of the meeting; without it the transcript is shown alone.
+    audio: Blob | null;
+    // Segment to jump to, e.g. the source of an item of the minutes. A new
+    // object jumps again even to the same segment.
+    focus: { index: number } | null;
+}
+
+// Index of the segment being said at `time`, or -1 before the first one.
+const segmentAt = (segments: TranscriptSegment[], time: number): number => {
+    let current = -1;
+    segments.forEach((segment, index) => {
+        if (segment.start <= time) current = index;
+    });
+    return current;
+};
+
+// Transcript of the meeting with a player for its recording. Clicking a
+// segment plays the audio from there, and the segment being played is
+// highlighted.
+export const TranscriptPlayer: React.FC<TranscriptPlayerProps> = ({ segments, audio, focus }) => {
+    const { t } = useI18n();
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(-1);
+
+    useEffect(() => {
+        if (!audio) return;
+        const url = URL.createObjectURL(audio);
+        setAudioUrl(url);
+        return () => {
+            URL.revokeObjectURL(url);
+            setAudioUrl(null);
+        };
+    }, [audio]);
+
+    const seekTo = (index: number, play: boolean) => {
+        setActiveIndex(index);
+        const player = audioRef.current;
+        if (!player) return;
+        player.currentTime = segments[index].start;
+        if (play) player.play().catch(err => console.warn("Could not start playback:", err));
+    };
+
+    useEffect(() => {
+        if (!focus || !segments[focus.index]) return;
+        seekTo(focus.index, false);
+        itemRefs.current[focus.index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [focus]);
+
+    // Recordings made by MediaRecorder carry no duration, which keeps the
+    // browser from seeking in them. Seeking far past the end once makes it
+    // read the whole file and work the duration out.
+    const handleLoadedMetadata = () => {
+        const player = audioRef.current;
+        if (!player || Number.isFinite(player.duration)) return;
+        const restore = () => {
+            player.removeEventListener('durationchange', restore);
+            player.currentTime = activeIndex >= 0 ? segments[activeIndex].start : 0;
+        };
+        player.addEventListener('durationchange', restore);
+        player.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+
+    const handleTimeUpdate = () => {
+        const player = audioRef.current;
+        if (!player || player.paused) return;
+        setActiveIndex(segmentAt(segments, player.currentTime));
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            {audioUrl ? (
+                <audio
+                    ref={audioRef}
+                    src={audioUrl}
+                    controls
+                    preload="metadata"
+                    className="w-full"
+                    onLoadedMetadata={handleLoadedMetadata}
+                    onTimeUpdate={handleTimeUpdate}
+                />
+            ) : (
+                <p className="text-sm text-gray-500">{t.transcriptPlayer.noAudio}</p>
+            )}
+            <ol className="flex flex-col gap-1 p-2 bg-gray-900/70 rounded-lg border border-gray-700 h-64 overflow-y-auto">
+                {segments.map((segment, index) => (
+                    <li key={index} ref={element => { itemRefs.current[index] = element; }}>
+                        <button
+                            onClick={() => seekTo(index, true)}
+                            className={`w-full text-left text-sm p-2 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${index === activeIndex ? 'bg-cyan-900/50 text-gray-100' : 'text-gray-300 hover:bg-gray-800'}`}
+                            title={audioUrl ? t.transcriptPlayer.playFrom(formatTimestamp(segment.start)) : undefined}
+                        >
+                            <span className="font-mono text-gray-500">[{formatTimestamp(segment.start)}]</span>{' '}
+                            <span className="font-semibold text-cyan-400">{segment.speaker}:</span> {segment.text}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { TranscriptSegment } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { formatTimestamp, getSpeakers } from '../services/transcript';
+
+interface TranscriptPreviewProps {
+    segments: TranscriptSegment[];
+}
+
+// Read-only list of transcript turns with speaker and start time.
+export const TranscriptPreview: React.FC<TranscriptPreviewProps> = ({ segments }) => {
+    const { t } = useI18n();
+    const speakers = getSpeakers(segments);
+    const duration = segments.length > 0 ? segments[segments.length - 1].end : 0;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <p className="text-sm text-gray-400">
+                {t.transcriptPreview.summary(segments.length, speakers.length)}
+                {duration > 0 && ` · ${formatTimestamp(duration)}`}
+            </p>
+            <ol className="flex flex-col gap-2 p-4 bg-gray-900/70 rounded-lg border border-gray-700 h-64 overflow-y-auto">
+                {segments.map((segment, index) => (
+                    <li key={index} className="text-sm text-gray-300">
+                        <span className="font-mono text-gray-500">[{formatTimestamp(segment.start)}]</span>{' '}
+                        <span className="font-semibold text-cyan-400">{segment.speaker}:</span> {segment.text}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, messages, setLocale, subscribeLocale } from '../i18n';
+
+// Messages of the interface locale; re-renders the component when it changes.
+export function useI18n() {
+    const locale = useSyncExternalStore(subscribeLocale, getLocale);
+    return { t: messages(locale), locale, setLocale };
+}
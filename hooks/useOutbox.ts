@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getOutbox, subscribeOutbox } from '../services/outbox';
+
+// Deliveries in the outbox; re-renders the component when any of them changes.
+export function useOutbox() {
+    return useSyncExternalStore(subscribeOutbox, getOutbox);
+}
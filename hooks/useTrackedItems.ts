@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getTrackedItems, subscribeTrackedItems } from '../services/actionItemTracker';
+
+// Tasks followed up across meetings; re-renders the component when any of them changes.
+export function useTrackedItems() {
+    return useSyncExternalStore(subscribeTrackedItems, getTrackedItems);
+}
@@ -0,0 +1,50 @@
+import { useState, useRef, useCallback } from 'react';
+
+interface UndoHistory<T> {
+    past: T[];
+    present: T;
+    future: T[];
+}
+
+// Maximum number of undo steps kept in memory.
+const MAX_HISTORY = 100;
+
+/**
+ * State with an undo/redo history. `set` records a new step, `reset`
+ * replaces the value and clears the history. `undo` and `redo` return the
+ * value they restore so callers can persist it right away.
+ */
+export function useUndoableState<T>(initial: T) {
+    const historyRef = useRef<UndoHistory<T>>({ past: [], present: initial, future: [] });
+    const [, setVersion] = useState(0);
+
+    const commit = useCallback((next: UndoHistory<T>): T => {
+        historyRef.current = next;
+        setVersion(v => v + 1);
+        return next.present;
+    }, []);
+
+    const set = useCallback((value: T) => {
+        const { past, present } = historyRef.current;
+        commit({ past: [...past, present].slice(-MAX_HISTORY), present: value, future: [] });
+    }, [commit]);
+
+    const reset = useCallback((value: T) => {
+        commit({ past: [], present: value, future: [] });
+    }, [commit]);
+
+    const undo = useCallback((): T => {
+        const { past, present, future } = historyRef.current;
+        if (past.length === 0) return present;
+        return commit({ past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+    }, [commit]);
+
+    const redo = useCallback((): T => {
+        const { past, present, future } = historyRef.current;
+        if (future.length === 0) return present;
+        return commit({ past: [...past, present], present: future[0], future: future.slice(1) });
+    }, [commit]);
+
+    const { past, present, future } = historyRef.current;
+    return { value: present, set, reset, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 };
+}
@@ -0,0 +1,598 @@
+import { Messages } from './es';
+
+export const en: Messages = {
+    languageName: 'English',
+    languages: {
+        es: 'Spanish',
+        en: 'English',
+        pt: 'Portuguese',
+    },
+    common: {
+        cancel: 'Cancel',
+        save: 'Save',
+        back: 'Back',
+        retry: 'Retry',
+        copied: 'Copied!',
+        loading: 'Loading...',
+        generateMinutes: 'Generate Minutes',
+    },
+    app: {
+        title: 'Meeting Minutes Assistant',
+        footer: 'Built with React and the Gemini API.',
+        interfaceLanguage: 'Interface language',
+        defaultMeetingTitle: (date) => `Meeting on ${date}`,
+        idle: {
+            intro: 'Choose how to start. Record a full meeting, upload a recording or paste an existing transcript to generate professional minutes.',
+            startRecording: 'Record Full Meeting',
+            useExistingText: 'Use Existing Text',
+            uploadFile: 'Upload File',
+            history: 'History',
+            templates: 'Templates',
+            settings: 'Settings',
+            integrations: 'Integrations',
+            actionItems: 'Task follow-up',
+            safariWarningTitle: 'Note for Safari users:',
+            safariWarning: 'To record the whole meeting (including every participant), we recommend Google Chrome. Safari can only record your microphone.',
+            unfinishedTitle: 'Unfinished recording:',
+            unfinishedBody: (date) => `audio was found from a meeting started on ${date} that was never processed. Do you want to recover and transcribe it?`,
+            discard: 'Discard',
+            recover: 'Recover and Transcribe',
+            discardConfirm: 'Discard the unfinished recording? The recovered audio will be deleted.',
+        },
+        recordingSetup: {
+            title: 'Prepare Recording',
+            intro: 'Choose which audio to record. When sharing a tab, tick the option to share its audio.',
+            source: 'Audio source',
+            sources: {
+                mixed: 'Tab and microphone',
+                microphone: 'Microphone only',
+                tab: 'Tab only',
+            },
+            descriptions: {
+                mixed: 'Records the other participants from the meeting tab and your voice from the microphone.',
+                microphone: 'Records only the microphone, for example in an in-person meeting.',
+                tab: "Records only the shared tab's audio, without your microphone.",
+            },
+            microphone: 'Microphone',
+            defaultMicrophone: 'System default',
+            microphoneN: (number) => `Microphone ${number}`,
+            speechMode: 'Optimize for speech (16 kHz, mono)',
+            speechModeHint: 'Records in mono at a lower quality to reduce the upload size. Transcription is not affected.',
+            liveTranscription: 'Transcribe live',
+            liveTranscriptionHint: 'Shows the transcript while recording. The 30-second windows overlap, so about a third more audio is uploaded.',
+            start: 'Start Recording',
+        },
+        recording: {
+            inProgress: 'Recording full meeting...',
+            stop: 'Stop and Process',
+            pause: 'Pause',
+            resume: 'Resume',
+            paused: 'Recording paused',
+            levelMicrophone: 'Microphone',
+            levelTab: 'Tab',
+            tabNoAudio: 'The shared tab has no audio: only the microphone is being recorded. To include the other participants, stop the recording and share the tab again with "Share audio" ticked.',
+            uploadEstimate: (size) => `Estimated upload: ${size}`,
+            live: {
+                title: 'Live transcript',
+                waiting: 'The transcript will appear here about every 30 seconds.',
+                flagsTitle: 'Marked moments',
+                off: 'Live transcription is off: the audio is transcribed when the recording stops.',
+                transcribing: 'Transcribing the latest stretch...',
+                failed: 'A stretch could not be transcribed; it will be retried when the recording stops.',
+                flagHint: 'Mark important moments so the minutes take them into account:',
+                flagDecision: 'Decision',
+                flagAction: 'Action item',
+                removeFlag: 'Remove mark',
+            },
+        },
+        transcribing: {
+            extracting: 'Extracting audio from the file...',
+            transcribing: 'Transcribing audio...',
+            progress: (done, total) => `${done} of ${total} segments`,
+            upload: (size) => `Audio to upload: ${size}`,
+            patience: 'This may take a few minutes depending on the length of the recording. Please keep this window open.',
+            failedTitle: 'Some segments could not be transcribed',
+            failedBody: (done, total) => `${done} of ${total} segments were transcribed. You can retry only the failed segments without uploading the whole meeting again.`,
+            chunk: (number) => `Segment ${number}`,
+            retryAll: 'Retry All',
+        },
+        naming: {
+            title: 'Identify Participants',
+            intro: 'Give each detected speaker a name. These names will be used as owners of commitments and tasks.',
+            placeholder: 'Participant name',
+            silenceReport: (removed, total, percent) => `Skipped ${removed} of silence out of ${total} of audio (${percent}%), which was not sent for transcription.`,
+        },
+        pasteText: {
+            title: 'Use Existing Text',
+            intro: 'Paste your meeting transcript here to generate the minutes.',
+            placeholder: 'Paste the full transcript of your meeting here...',
+            importHint: 'Or import a Teams, Zoom or Google Meet file (.vtt, .srt, .docx, .txt)',
+        },
+        importPreview: {
+            title: 'Transcript Preview',
+            intro: 'Review the imported transcript before generating the minutes.',
+            renameParticipants: 'Rename Participants',
+        },
+        upload: {
+            title: 'Upload Recording',
+            intro: 'Upload a meeting recording (for example from Zoom or Meet) to transcribe it and generate the minutes. Videos are processed by extracting only the audio.',
+            hint: (maxMegabytes) => `MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 or MOV · up to ${maxMegabytes} MB`,
+        },
+        generating: {
+            title: 'Generating minutes...',
+            waiting: 'Waiting for the model to respond...',
+            streaming: 'Receiving the minutes...',
+            stop: 'Stop',
+        },
+        done: {
+            incomplete: 'Generation was stopped before it finished: some sections may be missing or incomplete.',
+            undo: 'Undo',
+            undoHint: 'Undo (Ctrl+Z)',
+            redo: 'Redo',
+            redoHint: 'Redo (Ctrl+Shift+Z)',
+            copyMarkdown: 'Copy Markdown',
+            copyFormatted: 'Copy Formatted',
+            sending: 'Sending...',
+            sent: 'Sent',
+            sendToNotion: 'Send to Notion',
+            updateInNotion: 'Update in Notion',
+            openInNotion: 'Open the page in Notion',
+            startOver: 'Start Over',
+            unsupported: (count) => count === 1
+                ? 'One item has no support in the transcript. It is highlighted below: confirm or remove it.'
+                : `${count} items have no support in the transcript. They are highlighted below: confirm or remove them.`,
+            unsupportedConfirm: (count) => count === 1
+                ? 'One item of the minutes has no support in the transcript and has not been reviewed yet. Continue anyway?'
+                : `${count} items of the minutes have no support in the transcript and have not been reviewed yet. Continue anyway?`,
+        },
+        error: {
+            titles: {
+                permission: 'Permission Denied',
+                emptyAudio: 'No Speech Detected',
+                rateLimit: 'Request Limit Reached',
+                network: 'Connection Error',
+                safety: 'Content Blocked',
+                invalidOutput: 'Invalid Response',
+                invalidInput: 'Request Rejected',
+                configuration: 'Service Not Configured',
+                cancelled: 'Generation Cancelled',
+                unknown: 'An Error Occurred',
+            },
+            inputKept: 'The recording and transcript are kept, so you can retry without starting over.',
+            actions: {
+                retry: 'Retry',
+                backToTranscript: 'Back to Transcript',
+                reRecord: 'Record Again',
+                startOver: 'Start Over',
+            },
+        },
+    },
+    generation: {
+        template: 'Minutes template:',
+        outputLanguage: 'Minutes language:',
+        automatic: 'Automatic',
+        automaticDetected: (language) => `Automatic (${language})`,
+        detected: (language) => `Detected language: ${language}`,
+        detectedMixed: (language, others) => `Detected language: ${language}, with parts in ${others}`,
+    },
+    errors: {
+        emptyTranscriptInput: 'The transcript cannot be empty.',
+        emptyTranscription: 'The transcription came back empty. The audio may not contain clear speech.',
+        transcriptionFailed: (message) => `Error transcribing the audio: ${message}`,
+        transcriptionUnknown: 'An unknown error occurred while transcribing the audio.',
+        invalidMinutes: (message) => `The generated minutes are not in a valid format. ${message}`,
+        apiFailed: (message) => `Error contacting the AI service: ${message}`,
+        generationUnknown: 'An unknown error occurred while generating the minutes.',
+        generationCancelled: 'Minutes generation was cancelled.',
+        missingSection: (title) => `The response does not contain the "${title}" section.`,
+        invalidSection: (message) => `The regenerated section is not in a valid format. ${message}`,
+        regenerationUnknown: 'An unknown error occurred while regenerating the section.',
+        fileProcessing: 'The file could not be processed.',
+        noAudioToRecover: 'No audio was found to recover.',
+        recoveryFailed: 'The recording could not be recovered.',
+        transcriptImportFailed: 'The transcript could not be imported.',
+        noRecordingData: 'The recording contains no audio data. Please try again.',
+        recordingStartFailed: 'An error occurred while starting the recording.',
+        tabNoAudio: 'The shared tab has no audio. Share it again with the "Share audio" option ticked (it is not available in Safari).',
+        permissionDenied: 'Permission to capture the screen or microphone was denied. Please grant the required permissions and try again.',
+        copyFormattedUnsupported: "Formatted copy failed. Your browser may not support it. Try 'Copy Markdown'.",
+        copyFormattedFailed: 'An error occurred while generating the formatted content.',
+        notionFailed: 'The minutes could not be sent to Notion. Please try again.',
+        notion: {
+            noDatabase: 'Set up the Notion database in Settings.',
+            notConfigured: 'The server has no Notion integration token configured.',
+            notFound: 'The Notion database was not found. Check the link and that it is shared with the integration.',
+            rejected: 'Notion rejected the minutes. Check the property mapping in Settings.',
+        },
+        missingApiKey: (provider) => `The ${provider} API key is missing. Set it in Settings.`,
+        providerUnreachable: (url) => `Could not connect to ${url}. Check that the server is running and allows CORS.`,
+        providerHttp: (status, details) => `The service responded with error ${status}: ${details}`,
+        api: {
+            invalidRequest: 'The server rejected the request as malformed.',
+            payloadTooLarge: 'The audio or transcript exceeds the maximum size the server accepts.',
+            rateLimited: (seconds) => `Request limit reached. Try again in ${seconds} seconds.`,
+            notConfigured: 'The server has no Gemini API key configured.',
+            notFound: 'The server could not find the requested resource.',
+            upstreamFailed: 'The AI service could not be reached. Try again in a few minutes.',
+            invalidModelResponse: 'The AI service returned an invalid response.',
+            safetyBlocked: 'The AI service blocked the response with its content filters. Review the transcript and try again.',
+        },
+    },
+    validation: {
+        fieldNotText: (path) => `The "${path}" field must be text.`,
+        fieldNotTextList: (path) => `The "${path}" field must be a list of texts.`,
+        tasksNotList: 'The "tasks" field must be a list.',
+        invalidTask: (number) => `Task ${number} is not in a valid format.`,
+        invalidNextMeeting: 'The "nextMeeting" field is not in a valid format.',
+        notMinutes: 'The response is not a minutes object.',
+        missingRequiredSection: (title) => `The minutes are missing the required "${title}" section.`,
+        invalidMinutesJson: 'The model response is not valid JSON.',
+        transcriptNotList: 'The transcript is not a list of speaker turns.',
+        invalidTurn: (number) => `Turn ${number} is not in a valid format.`,
+        invalidTurnTimes: (number) => `Turn ${number} does not have valid times.`,
+        invalidTranscriptJson: 'The transcript from the model is not valid JSON.',
+    },
+    media: {
+        unsupportedFormat: (name) => `The format of "${name}" is not supported. Use MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 or MOV files.`,
+        emptyFile: (name) => `The file "${name}" is empty.`,
+        tooLarge: (name, maxMegabytes) => `The file "${name}" exceeds the maximum size of ${maxMegabytes} MB.`,
+        extractionFailed: (name) => `The audio of "${name}" could not be extracted. The file may have no audio track or your browser may not support its codec.`,
+        noAudio: (name) => `The file "${name}" contains no audio.`,
+    },
+    transcriptImport: {
+        unsupportedFormat: (name) => `The format of "${name}" is not supported. Use .vtt, .srt, .txt or .docx files.`,
+        noText: (name) => `No transcript text was found in "${name}".`,
+        invalidDocx: 'The file is not a valid .docx document.',
+        damagedDocx: 'The .docx file is damaged.',
+        unsupportedCompression: 'The .docx file uses an unsupported compression format.',
+        noDocument: 'The .docx file does not contain a text document.',
+    },
+    fileDrop: {
+        prompt: 'Drag a file here or click to select one',
+    },
+    transcriptPreview: {
+        summary: (turns, participants) =>
+            `${turns} turns · ${participants} ${participants === 1 ? 'participant' : 'participants'}`,
+    },
+    transcriptPlayer: {
+        title: 'Transcript',
+        noAudio: 'No recording is available for this meeting.',
+        playFrom: (time) => `Play from ${time}`,
+    },
+    exportMenu: {
+        title: 'Export',
+        formats: { docx: 'Word (.docx)', pdf: 'PDF', html: 'HTML' },
+        logo: 'Header logo:',
+        noLogo: 'none',
+        chooseLogo: 'Choose image',
+        changeLogo: 'Change',
+        removeLogo: 'Remove the logo',
+        logoHint: 'Files carry the logo, meeting date and attendees in their header, and the tasks in a table with checkboxes.',
+        invalidLogo: 'The logo image could not be read.',
+        failed: (message) => `The minutes could not be exported: ${message}`,
+    },
+    taskExport: {
+        title: 'Export tasks',
+        noTasks: 'The minutes have no tasks.',
+        noOwner: 'No owner',
+        noDueDate: 'No date',
+        format: 'Format',
+        formats: { csv: 'CSV (spreadsheet)', jira: 'Jira (JSON)', linear: 'Linear (JSON)', github: 'GitHub Issues (JSON)', ics: 'Calendar (.ics)' },
+        export: (count) => count === 1 ? 'Export 1 task' : `Export ${count} tasks`,
+        project: { jira: 'Jira project key', linear: 'Linear team ID' },
+        missingProject: { jira: 'Enter the Jira project key.', linear: 'Enter the Linear team ID.' },
+        dueDateField: 'Due date field',
+        dueDateHints: {
+            jira: 'Usually "duedate". Leave it empty to add the date to the description.',
+            linear: 'Usually "dueDate". Leave it empty to add the date to the description.',
+            github: 'GitHub has no due dates: enter a prefix (e.g. "due") to add it as a label, or leave it empty to add it to the description.',
+        },
+        assignees: { jira: 'Jira account ID of each owner', linear: 'Linear user ID of each owner', github: 'GitHub username of each owner' },
+        unassigned: 'Unassigned',
+        nextMeeting: 'Next meeting (.ics)',
+        unreadableMeetingDate: 'The date of the next meeting could not be read. Write it as YYYY-MM-DD or DD/MM/YYYY.',
+        source: (title, date) => `Minutes: ${title} (${date})`,
+    },
+    minutes: {
+        notSpecified: 'Not specified',
+        owner: 'Owner',
+        dueDate: 'Due',
+        date: 'Date',
+        time: 'Time',
+        platform: 'Platform',
+        untitled: 'Meeting Minutes',
+        attendees: 'Attendees',
+        task: 'Task',
+        done: 'Done',
+    },
+    editor: {
+        summary: 'Summary',
+        copy: (label) => `Copy ${label.toLowerCase()}`,
+        edit: (label) => `Edit ${label}`,
+        regenerate: (label) => `Regenerate ${label}`,
+        regenerateHint: 'Regenerate this section',
+        regenerateUnavailable: 'No transcript available to regenerate from',
+        onePerLine: 'One item per line.',
+        task: 'Task',
+        deleteTask: 'Delete task',
+        addTask: 'Add task',
+        instructionPlaceholder: 'Optional instruction (e.g. "shorter", "include the amounts")',
+        regenerating: 'Regenerating...',
+        regenerateAction: 'Regenerate',
+        showSource: 'Show where this comes from in the transcript',
+        unsupported: 'Nothing in the transcript supports this item. Check it before sharing the minutes.',
+        confirmItem: 'Confirm',
+        removeItem: 'Remove this item',
+    },
+    history: {
+        title: 'Meeting History',
+        searchPlaceholder: 'Search by title, summary or transcript...',
+        loadFailed: 'The meeting history could not be loaded.',
+        renameFailed: 'The meeting could not be renamed.',
+        deleteFailed: 'The meeting could not be deleted.',
+        purgeFailed: 'The history could not be cleaned up.',
+        empty: 'No meetings saved yet.',
+        noResults: 'No results for this search.',
+        rename: 'Rename meeting',
+        copyMarkdown: 'Copy minutes as Markdown',
+        download: 'Download minutes',
+        delete: 'Delete meeting',
+        deleteConfirm: (title) => `Delete "${title}" from the history? This cannot be undone.`,
+        open: 'Open',
+        audioSize: (size) => `Audio ${size}`,
+        inProgress: 'In progress',
+        status: {
+            done: 'Completed',
+            error: 'Failed',
+            recording: 'Recording interrupted',
+            transcribing: 'Transcription incomplete',
+            pendingMinutes: 'Minutes pending',
+        },
+        storage: 'Storage',
+        storageUsage: (used, quota) => `${used} used of ${quota} available`,
+        storageUnknown: 'Your browser does not report the available space.',
+        purgeOldAudio: 'Delete audio > 30 days',
+        purgeOldAudioConfirm: 'Delete the audio of meetings older than 30 days? Transcripts and minutes are kept.',
+        purgeOldMeetings: 'Delete meetings > 90 days',
+        purgeOldMeetingsConfirm: 'Delete meetings older than 90 days?',
+        purgeAll: 'Delete all',
+        purgeAllConfirm: 'Delete the whole meeting history? This cannot be undone.',
+    },
+    settings: {
+        title: 'Settings',
+        intro: 'Choose the service that transcribes the audio and generates the minutes.',
+        provider: 'Provider',
+        providers: {
+            gemini: 'Google Gemini',
+            openai: 'OpenAI-compatible',
+            local: 'Local (Whisper + Ollama)',
+            mock: 'Mock (offline)',
+        },
+        descriptions: {
+            gemini: 'Transcription with speaker identification and minutes with Gemini, through the app server, which holds the API key.',
+            openai: 'Any server with the OpenAI chat and transcription endpoints. Whisper does not identify speakers.',
+            local: 'A Whisper server and Ollama on your machine; the audio never leaves your network.',
+            mock: 'Fixed answers for trying the app offline and without API keys.',
+        },
+        proxyUrl: 'App server URL',
+        apiKey: 'API key',
+        model: 'Model',
+        baseUrl: 'Base URL',
+        transcriptionModel: 'Transcription model',
+        whisperUrl: 'Whisper server URL',
+        whisperModel: 'Whisper model',
+        ollamaUrl: 'Ollama URL',
+        storedLocally: 'Keys are stored only in this browser.',
+        saved: 'Settings saved.',
+    },
+    notionSettings: {
+        title: 'Notion',
+        intro: 'Database where "Send to Notion" creates one page per meeting. The integration token is configured on the server.',
+        database: 'Database (link or ID)',
+        databasePlaceholder: 'https://www.notion.so/...',
+        load: 'Load properties',
+        loading: 'Loading...',
+        loaded: (name) => `Database: ${name}`,
+        untitledDatabase: 'Untitled',
+        invalidDatabase: 'No Notion ID was found in the link.',
+        properties: {
+            title: 'Title',
+            date: 'Meeting date',
+            project: 'Project',
+            attendees: 'Attendees',
+        },
+        defaultTitle: "The database's title property",
+        notMapped: 'Do not send',
+        typesHint: 'Only properties of a compatible type are listed: date or text for the date, select or text for the project, and multi-select or text for the attendees.',
+        loadHint: 'Load the database properties to choose where each value goes.',
+    },
+    integrations: {
+        title: 'Integrations',
+        intro: 'Targets the minutes can be sent to: webhooks, Slack, Microsoft Teams and email. Sends made while offline wait in the outbox.',
+        empty: 'There are no integrations yet.',
+        add: 'Add',
+        edit: 'Edit',
+        delete: 'Delete',
+        deleteConfirm: (name) => `Delete the integration "${name}"?`,
+        newTitle: (kind) => `New Integration: ${kind}`,
+        editTitle: 'Edit Integration',
+        kinds: {
+            webhook: 'JSON webhook',
+            slack: 'Slack',
+            teams: 'Microsoft Teams',
+            email: 'Email',
+        },
+        name: 'Name',
+        webhookUrl: 'Webhook URL',
+        relayUrl: 'SMTP relay URL (optional)',
+        urlHints: {
+            webhook: 'Receives a POST with the JSON of the template. The server must allow CORS.',
+            slack: 'Slack incoming webhook (https://hooks.slack.com/...). Sent through the app server.',
+            teams: 'Teams connector or workflow. Sent through the app server.',
+            email: 'HTTP endpoint that receives { to, subject, text } and sends the email. Leave empty to open the mail client.',
+        },
+        recipients: 'Recipients',
+        jsonTemplate: 'Message (JSON)',
+        emailTemplate: 'Email body',
+        placeholdersHint: (placeholders) => `Placeholders: ${placeholders} and {{section.<id>}} for a section of the template.`,
+        enabled: 'Active',
+        disabled: 'Disabled',
+        testSend: 'Send test',
+        testSent: 'Test message sent.',
+        testFailed: (message) => `The test could not be sent: ${message}`,
+        outbox: 'Outbox',
+        outboxEmpty: 'Nothing has been sent.',
+        clearSent: 'Clear sent',
+        removeDelivery: 'Remove from outbox',
+        panelTitle: 'Send to Integrations',
+        send: 'Send',
+        queuedOffline: 'Offline: the messages will go out when the connection returns.',
+        prepareFailed: (name, message) => `The message for ${name} could not be prepared: ${message}`,
+        status: {
+            queued: 'Queued',
+            sending: 'Sending...',
+            sent: 'Sent',
+            failed: 'Failed',
+            retrying: (time) => `Retrying at ${time}`,
+            offline: 'Waiting for connection',
+        },
+        defaults: {
+            summary: 'Summary',
+            tasks: 'Tasks',
+            attendees: 'Attendees',
+        },
+        sample: {
+            title: 'Integration test',
+            heading: 'Summary',
+            summary: 'Test message sent from Minutas to check the integration.',
+            attendees: 'Ana, Luis',
+            tasks: '[ ] Check the integration - **Owner:** Ana - **Due:** 2030-01-01',
+        },
+        errors: {
+            unknownPlaceholder: (name) => `The placeholder {{${name}}} does not exist.`,
+            invalidJson: (message) => `The template does not produce valid JSON: ${message}. Placeholders must go inside quotes.`,
+            tooLarge: 'The message is too large.',
+            missingName: 'Enter a name for the integration.',
+            invalidUrl: 'The URL is not valid.',
+            unexpectedHost: (kind) => `The URL is not a ${kind} webhook.`,
+            missingRecipients: 'Enter at least one email address.',
+            unreachable: (url) => `Could not connect to ${url}. Check the connection and that the server allows CORS.`,
+            http: (status, details) => `The target answered with error ${status}: ${details}`,
+            serviceFailed: 'The target service did not answer. It will be tried again.',
+            webhookGone: 'The webhook no longer exists. Check the URL of the integration.',
+            rejected: 'The target rejected the message. Check the template of the integration.',
+            unknown: 'An unknown error occurred while sending.',
+        },
+    },
+    actionItems: {
+        title: 'Task Follow-up',
+        intro: 'The tasks of the minutes are kept by project. When the minutes of another meeting of the same project are generated, the pending ones are included so the model reports their progress.',
+        empty: 'No tasks yet. They are added when minutes with a project name are generated.',
+        nothingPending: 'No pending tasks.',
+        project: 'Project',
+        allProjects: 'All projects',
+        showDone: 'Show done',
+        projectTitle: (project) => `Earlier tasks of "${project}"`,
+        status: 'Status',
+        statuses: { open: 'Open', blocked: 'Blocked', done: 'Done' },
+        noOwner: 'No owner',
+        noDueDate: 'No date',
+        overdue: 'overdue',
+        overdueCount: (count) => `${count} overdue`,
+        agreedOn: (date) => `agreed on ${date}`,
+        progress: (text) => `Progress: ${text}`,
+        delete: 'Stop following up',
+        deleteConfirm: (task) => `Stop following up "${task}"?`,
+        followUp: 'Task follow-up:',
+        detectProject: 'Detect the project in the transcript',
+        noFollowUp: 'None',
+        projectOption: (project, count) => `${project} (${count} pending)`,
+    },
+    templates: {
+        title: 'Minutes Templates',
+        intro: 'Define which sections the minutes have, what each one should contain and which are required.',
+        newTitle: 'New Template',
+        editTitle: 'Edit Template',
+        name: 'Name',
+        copyName: (name) => `${name} (copy)`,
+        sectionTitle: 'Section title',
+        moveUp: 'Move section up',
+        moveDown: 'Move section down',
+        removeSection: 'Remove section',
+        instructionsPlaceholder: 'Instructions for the model (what this section should contain)',
+        kind: 'Type:',
+        maxCharacters: 'Max. characters:',
+        maxItems: 'Max. items:',
+        required: 'Required',
+        customSection: 'Custom section',
+        newSectionTitle: 'New section',
+        addSection: 'Add section',
+        edit: 'Edit template',
+        duplicate: 'Duplicate template',
+        export: 'Export template',
+        delete: 'Delete template',
+        deleteConfirm: (name) => `Delete the "${name}" template? Minutes already generated with it are not changed.`,
+        create: 'New template',
+        import: 'Import JSON',
+        saveFailed: 'The template could not be saved.',
+        importFailed: (name, message) => `"${name}" could not be imported: ${message}`,
+        importFailedUnknown: 'The template could not be imported.',
+        kinds: {
+            text: 'Text',
+            list: 'List',
+            tasks: 'Tasks',
+            meeting: 'Next meeting',
+        },
+        errors: {
+            invalidSection: (number) => `Section ${number} is not in a valid format.`,
+            invalidSectionId: (number) => `Section ${number} has an invalid identifier.`,
+            missingSectionTitle: (number) => `Section ${number} has no title.`,
+            invalidKind: (number, title) => `Section ${number} ("${title}") has an invalid type.`,
+            invalidInstructions: (title) => `The instructions of "${title}" must be text.`,
+            invalidMaxLength: (title) => `The limit of "${title}" must be a positive whole number.`,
+            notTemplate: 'The file does not contain a template.',
+            missingName: 'The template has no name.',
+            noSections: 'The template must have at least one section.',
+            duplicateSections: 'The template has duplicate sections.',
+            defaultReadOnly: 'The standard template cannot be changed.',
+            invalidJson: 'The file is not valid JSON.',
+        },
+    },
+    defaultTemplate: {
+        name: 'Standard minutes',
+        sections: {
+            summary: {
+                title: 'Summary',
+                instructions: 'Summary of the meeting in a single paragraph. It must capture the essence of the discussion.',
+            },
+            projectName: {
+                title: 'Project or subject',
+                instructions: 'Title of the project or main subject. If no explicit title is mentioned, create a concise, descriptive title based on the summary and the topics discussed.',
+            },
+            objective: {
+                title: 'Meeting objective',
+                instructions: 'Briefly describe why the meeting was held.',
+            },
+            topics: {
+                title: 'Topics discussed',
+                instructions: 'The points discussed, one per item. Summarize each topic.',
+            },
+            decisions: {
+                title: 'Decisions made',
+                instructions: 'What was agreed, precisely, one decision per item.',
+            },
+            tasks: {
+                title: 'Commitments and tasks',
+                instructions: 'The commitments, with the task, the owner and the date in YYYY-MM-DD format.',
+            },
+            nextSteps: {
+                title: 'Next steps',
+                instructions: 'The key activities to monitor before the next meeting.',
+            },
+            nextMeeting: {
+                title: 'Next meeting',
+                instructions: 'Date, time and platform of the next meeting.',
+            },
+        },
+    },
+};
@@ -0,0 +1,601 @@
+// Spanish messages. This catalog defines the shape every other locale follows;
+// messages with parameters are functions.
+export const es = {
+    languageName: 'Español',
+    languages: {
+        es: 'Español',
+        en: 'Inglés',
+        pt: 'Portugués',
+    },
+    common: {
+        cancel: 'Cancelar',
+        save: 'Guardar',
+        back: 'Volver',
+        retry: 'Reintentar',
+        copied: '¡Copiado!',
+        loading: 'Cargando...',
+        generateMinutes: 'Generar Minuta',
+    },
+    app: {
+        title: 'Asistente de Minutas de Reunión',
+        footer: 'Desarrollado con React y Gemini API.',
+        interfaceLanguage: 'Idioma de la interfaz',
+        defaultMeetingTitle: (date: string) => `Reunión del ${date}`,
+        idle: {
+            intro: 'Elija cómo desea comenzar. Grabe una reunión completa, suba una grabación o pegue una transcripción existente para generar una minuta profesional.',
+            startRecording: 'Iniciar Grabación Completa',
+            useExistingText: 'Usar Texto Existente',
+            uploadFile: 'Subir Archivo',
+            history: 'Historial',
+            templates: 'Plantillas',
+            settings: 'Configuración',
+            integrations: 'Integraciones',
+            actionItems: 'Seguimiento de tareas',
+            safariWarningTitle: 'Aviso para usuarios de Safari:',
+            safariWarning: 'Para una grabación completa (incluyendo a todos los participantes), recomendamos usar Google Chrome. Safari solo permitirá grabar el audio de tu micrófono.',
+            unfinishedTitle: 'Grabación sin terminar:',
+            unfinishedBody: (date: string) => `se encontró audio de una reunión iniciada el ${date} que no llegó a procesarse. ¿Desea recuperarla y transcribirla?`,
+            discard: 'Descartar',
+            recover: 'Recuperar y Transcribir',
+            discardConfirm: '¿Descartar la grabación sin terminar? El audio recuperado se eliminará.',
+        },
+        recordingSetup: {
+            title: 'Preparar Grabación',
+            intro: 'Elija qué audio grabar. Al compartir una pestaña, marque la opción de compartir su audio.',
+            source: 'Fuente de audio',
+            sources: {
+                mixed: 'Pestaña y micrófono',
+                microphone: 'Solo micrófono',
+                tab: 'Solo pestaña',
+            },
+            descriptions: {
+                mixed: 'Graba a los demás participantes desde la pestaña de la reunión y su voz desde el micrófono.',
+                microphone: 'Graba solo el micrófono, por ejemplo en una reunión presencial.',
+                tab: 'Graba solo el audio de la pestaña compartida, sin su micrófono.',
+            },
+            microphone: 'Micrófono',
+            defaultMicrophone: 'Predeterminado del sistema',
+            microphoneN: (number: number) => `Micrófono ${number}`,
+            speechMode: 'Optimizar para voz (16 kHz, mono)',
+            speechModeHint: 'Graba en mono a menor calidad para reducir el tamaño de la subida. La transcripción no se ve afectada.',
+            liveTranscription: 'Transcribir en vivo',
+            liveTranscriptionHint: 'Muestra la transcripción mientras graba. Los tramos de 30 segundos se solapan, por lo que se sube aproximadamente un tercio más de audio.',
+            start: 'Comenzar a Grabar',
+        },
+        recording: {
+            inProgress: 'Grabando reunión completa...',
+            stop: 'Detener y Procesar',
+            pause: 'Pausar',
+            resume: 'Reanudar',
+            paused: 'Grabación en pausa',
+            levelMicrophone: 'Micrófono',
+            levelTab: 'Pestaña',
+            tabNoAudio: 'La pestaña compartida no tiene audio: solo se está grabando el micrófono. Para incluir a los demás participantes, detenga la grabación y vuelva a compartir la pestaña marcando "Compartir audio".',
+            uploadEstimate: (size: string) => `Subida estimada: ${size}`,
+            live: {
+                title: 'Transcripción en vivo',
+                waiting: 'La transcripción aparecerá aquí cada 30 segundos aproximadamente.',
+                flagsTitle: 'Momentos marcados',
+                off: 'La transcripción en vivo está desactivada: el audio se transcribirá al detener la grabación.',
+                transcribing: 'Transcribiendo el último tramo...',
+                failed: 'Un tramo no se pudo transcribir; se reintentará al detener la grabación.',
+                flagHint: 'Marque los momentos importantes para que la minuta los tenga en cuenta:',
+                flagDecision: 'Decisión',
+                flagAction: 'Tarea',
+                removeFlag: 'Quitar marca',
+            },
+        },
+        transcribing: {
+            extracting: 'Extrayendo audio del archivo...',
+            transcribing: 'Transcribiendo audio...',
+            progress: (done: number, total: number) => `${done} de ${total} fragmentos`,
+            upload: (size: string) => `Audio por subir: ${size}`,
+            patience: 'Este proceso puede tardar unos minutos dependiendo de la duración de la grabación. Por favor, no cierre esta ventana.',
+            failedTitle: 'Algunos fragmentos no se pudieron transcribir',
+            failedBody: (done: number, total: number) => `Se transcribieron ${done} de ${total} fragmentos. Puede reintentar solo los fragmentos fallidos sin volver a subir toda la reunión.`,
+            chunk: (number: number) => `Fragmento ${number}`,
+            retryAll: 'Reintentar Todos',
+        },
+        naming: {
+            title: 'Identificar Participantes',
+            intro: 'Asigne un nombre a cada hablante detectado. Estos nombres se usarán como responsables de los compromisos y tareas.',
+            placeholder: 'Nombre del participante',
+            silenceReport: (removed: string, total: string, percent: number) => `Se omitieron ${removed} de silencio de ${total} de audio (${percent} %), que no se enviaron a transcribir.`,
+        },
+        pasteText: {
+            title: 'Usar Texto Existente',
+            intro: 'Pegue aquí la transcripción de su reunión para generar la minuta.',
+            placeholder: 'Pegue aquí la transcripción completa de su reunión...',
+            importHint: 'O importe un archivo de Teams, Zoom o Google Meet (.vtt, .srt, .docx, .txt)',
+        },
+        importPreview: {
+            title: 'Vista Previa de la Transcripción',
+            intro: 'Revise la transcripción importada antes de generar la minuta.',
+            renameParticipants: 'Renombrar Participantes',
+        },
+        upload: {
+            title: 'Subir Grabación',
+            intro: 'Suba la grabación de una reunión (por ejemplo, de Zoom o Meet) para transcribirla y generar la minuta. Los videos se procesan extrayendo solo el audio.',
+            hint: (maxMegabytes: number) => `MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 o MOV · máximo ${maxMegabytes} MB`,
+        },
+        generating: {
+            title: 'Generando minuta...',
+            waiting: 'Esperando la respuesta del modelo...',
+            streaming: 'Recibiendo la minuta...',
+            stop: 'Detener',
+        },
+        done: {
+            incomplete: 'La generación se detuvo antes de terminar: algunas secciones pueden faltar o estar incompletas.',
+            undo: 'Deshacer',
+            undoHint: 'Deshacer (Ctrl+Z)',
+            redo: 'Rehacer',
+            redoHint: 'Rehacer (Ctrl+Shift+Z)',
+            copyMarkdown: 'Copiar Markdown',
+            copyFormatted: 'Copiar con Formato',
+            sending: 'Enviando...',
+            sent: 'Enviado',
+            sendToNotion: 'Enviar a Notion',
+            updateInNotion: 'Actualizar en Notion',
+            openInNotion: 'Abrir la página en Notion',
+            startOver: 'Empezar de Nuevo',
+            unsupported: (count: number) => count === 1
+                ? 'Un punto no tiene respaldo en la transcripción. Está resaltado abajo: confírmalo o elimínalo.'
+                : `${count} puntos no tienen respaldo en la transcripción. Están resaltados abajo: confírmalos o elimínalos.`,
+            unsupportedConfirm: (count: number) => count === 1
+                ? 'Un punto del acta no tiene respaldo en la transcripción y aún no se ha revisado. ¿Continuar de todos modos?'
+                : `${count} puntos del acta no tienen respaldo en la transcripción y aún no se han revisado. ¿Continuar de todos modos?`,
+        },
+        error: {
+            titles: {
+                permission: 'Permiso Denegado',
+                emptyAudio: 'No se Detectó Voz',
+                rateLimit: 'Límite de Solicitudes Alcanzado',
+                network: 'Error de Conexión',
+                safety: 'Contenido Bloqueado',
+                invalidOutput: 'Respuesta Inválida',
+                invalidInput: 'Solicitud Rechazada',
+                configuration: 'Servicio sin Configurar',
+                cancelled: 'Generación Cancelada',
+                unknown: 'Ocurrió un Error',
+            },
+            inputKept: 'La grabación y la transcripción se conservan, así que puede reintentar sin empezar de cero.',
+            actions: {
+                retry: 'Reintentar',
+                backToTranscript: 'Volver a la Transcripción',
+                reRecord: 'Grabar de Nuevo',
+                startOver: 'Empezar de Nuevo',
+            },
+        },
+    },
+    generation: {
+        template: 'Plantilla de minuta:',
+        outputLanguage: 'Idioma de la minuta:',
+        automatic: 'Automático',
+        automaticDetected: (language: string) => `Automático (${language})`,
+        detected: (language: string) => `Idioma detectado: ${language}`,
+        detectedMixed: (language: string, others: string) => `Idioma detectado: ${language}, con partes en ${others}`,
+    },
+    errors: {
+        emptyTranscriptInput: 'La transcripción no puede estar vacía.',
+        emptyTranscription: 'La transcripción resultó vacía. El audio puede no haber contenido voz clara.',
+        transcriptionFailed: (message: string) => `Error al transcribir el audio: ${message}`,
+        transcriptionUnknown: 'Ocurrió un error desconocido al transcribir el audio.',
+        invalidMinutes: (message: string) => `La minuta generada no tiene un formato válido. ${message}`,
+        apiFailed: (message: string) => `Error al contactar el servicio de IA: ${message}`,
+        generationUnknown: 'Ocurrió un error desconocido al generar la minuta.',
+        generationCancelled: 'Se canceló la generación de la minuta.',
+        missingSection: (title: string) => `La respuesta no contiene la sección "${title}".`,
+        invalidSection: (message: string) => `La sección regenerada no tiene un formato válido. ${message}`,
+        regenerationUnknown: 'Ocurrió un error desconocido al regenerar la sección.',
+        fileProcessing: 'No se pudo procesar el archivo.',
+        noAudioToRecover: 'No se encontró audio para recuperar.',
+        recoveryFailed: 'No se pudo recuperar la grabación.',
+        transcriptImportFailed: 'No se pudo importar la transcripción.',
+        noRecordingData: 'La grabación no contiene datos de audio. Por favor, inténtelo de nuevo.',
+        recordingStartFailed: 'Ocurrió un error al iniciar la grabación.',
+        tabNoAudio: 'La pestaña compartida no tiene audio. Vuelva a compartirla marcando la opción "Compartir audio" (en Safari no está disponible).',
+        permissionDenied: 'Permiso denegado para capturar pantalla o micrófono. Por favor, conceda los permisos necesarios e inténtelo de nuevo.',
+        copyFormattedUnsupported: "No se pudo copiar con formato. Su navegador podría no ser compatible. Intente 'Copiar Markdown'.",
+        copyFormattedFailed: 'Ocurrió un error al generar el contenido con formato.',
+        notionFailed: 'No se pudo enviar la minuta a Notion. Por favor, intente de nuevo.',
+        notion: {
+            noDatabase: 'Configure la base de datos de Notion en Configuración.',
+            notConfigured: 'El servidor no tiene configurado el token de la integración de Notion.',
+            notFound: 'No se encontró la base de datos de Notion. Verifique el enlace y que esté compartida con la integración.',
+            rejected: 'Notion rechazó la minuta. Revise la asignación de propiedades en Configuración.',
+        },
+        missingApiKey: (provider: string) => `Falta la clave de API de ${provider}. Configúrela en Configuración.`,
+        providerUnreachable: (url: string) => `No se pudo conectar con ${url}. Verifique que el servidor esté en ejecución y admita CORS.`,
+        providerHttp: (status: number, details: string) => `El servicio respondió con el error ${status}: ${details}`,
+        api: {
+            invalidRequest: 'El servidor rechazó la solicitud por no tener un formato válido.',
+            payloadTooLarge: 'El audio o la transcripción supera el tamaño máximo que acepta el servidor.',
+            rateLimited: (seconds: number) => `Se alcanzó el límite de solicitudes. Intente de nuevo en ${seconds} segundos.`,
+            notConfigured: 'El servidor no tiene configurada la clave de API de Gemini.',
+            notFound: 'El servidor no encontró el recurso solicitado.',
+            upstreamFailed: 'No se pudo contactar el servicio de IA. Intente de nuevo en unos minutos.',
+            invalidModelResponse: 'El servicio de IA devolvió una respuesta inválida.',
+            safetyBlocked: 'El servicio de IA bloqueó la respuesta por sus filtros de contenido. Revise la transcripción e inténtelo de nuevo.',
+        },
+    },
+    validation: {
+        fieldNotText: (path: string) => `El campo "${path}" debe ser texto.`,
+        fieldNotTextList: (path: string) => `El campo "${path}" debe ser una lista de textos.`,
+        tasksNotList: 'El campo "tasks" debe ser una lista.',
+        invalidTask: (number: number) => `La tarea ${number} no tiene un formato válido.`,
+        invalidNextMeeting: 'El campo "nextMeeting" no tiene un formato válido.',
+        notMinutes: 'La respuesta no es un objeto de minuta.',
+        missingRequiredSection: (title: string) => `La minuta no contiene la sección obligatoria "${title}".`,
+        invalidMinutesJson: 'La respuesta del modelo no es un JSON válido.',
+        transcriptNotList: 'La transcripción no es una lista de intervenciones.',
+        invalidTurn: (number: number) => `La intervención ${number} no tiene un formato válido.`,
+        invalidTurnTimes: (number: number) => `La intervención ${number} no tiene tiempos válidos.`,
+        invalidTranscriptJson: 'La transcripción del modelo no es un JSON válido.',
+    },
+    media: {
+        unsupportedFormat: (name: string) => `El formato de "${name}" no es compatible. Use archivos MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 o MOV.`,
+        emptyFile: (name: string) => `El archivo "${name}" está vacío.`,
+        tooLarge: (name: string, maxMegabytes: number) => `El archivo "${name}" supera el tamaño máximo de ${maxMegabytes} MB.`,
+        extractionFailed: (name: string) => `No se pudo extraer el audio de "${name}". Es posible que el archivo no tenga pista de audio o que su navegador no admita el códec.`,
+        noAudio: (name: string) => `El archivo "${name}" no contiene audio.`,
+    },
+    transcriptImport: {
+        unsupportedFormat: (name: string) => `El formato de "${name}" no es compatible. Use archivos .vtt, .srt, .txt o .docx.`,
+        noText: (name: string) => `No se encontró texto de transcripción en "${name}".`,
+        invalidDocx: 'El archivo no es un documento .docx válido.',
+        damagedDocx: 'El archivo .docx está dañado.',
+        unsupportedCompression: 'El archivo .docx usa un formato de compresión no compatible.',
+        noDocument: 'El archivo .docx no contiene un documento de texto.',
+    },
+    fileDrop: {
+        prompt: 'Arrastre un archivo aquí o haga clic para seleccionarlo',
+    },
+    transcriptPreview: {
+        summary: (turns: number, participants: number) =>
+            `${turns} intervenciones · ${participants} ${participants === 1 ? 'participante' : 'participantes'}`,
+    },
+    transcriptPlayer: {
+        title: 'Transcripción',
+        noAudio: 'No hay grabación disponible para esta reunión.',
+        playFrom: (time: string) => `Reproducir desde ${time}`,
+    },
+    exportMenu: {
+        title: 'Exportar',
+        formats: { docx: 'Word (.docx)', pdf: 'PDF', html: 'HTML' },
+        logo: 'Logo del encabezado:',
+        noLogo: 'ninguno',
+        chooseLogo: 'Elegir imagen',
+        changeLogo: 'Cambiar',
+        removeLogo: 'Quitar el logo',
+        logoHint: 'Los archivos llevan el logo, la fecha de la reunión y los asistentes en el encabezado, y las tareas en una tabla con casillas.',
+        invalidLogo: 'No se pudo leer la imagen del logo.',
+        failed: (message: string) => `No se pudo exportar la minuta: ${message}`,
+    },
+    taskExport: {
+        title: 'Exportar tareas',
+        noTasks: 'La minuta no tiene tareas.',
+        noOwner: 'Sin responsable',
+        noDueDate: 'Sin fecha',
+        format: 'Formato',
+        formats: { csv: 'CSV (hoja de cálculo)', jira: 'Jira (JSON)', linear: 'Linear (JSON)', github: 'GitHub Issues (JSON)', ics: 'Calendario (.ics)' },
+        export: (count: number) => count === 1 ? 'Exportar 1 tarea' : `Exportar ${count} tareas`,
+        project: { jira: 'Clave del proyecto de Jira', linear: 'ID del equipo de Linear' },
+        missingProject: { jira: 'Indique la clave del proyecto de Jira.', linear: 'Indique el ID del equipo de Linear.' },
+        dueDateField: 'Campo de la fecha límite',
+        dueDateHints: {
+            jira: 'Normalmente "duedate". Déjelo vacío para añadir la fecha a la descripción.',
+            linear: 'Normalmente "dueDate". Déjelo vacío para añadir la fecha a la descripción.',
+            github: 'GitHub no tiene fechas límite: escriba un prefijo (p. ej. "due") para añadirla como etiqueta, o déjelo vacío para añadirla a la descripción.',
+        },
+        assignees: { jira: 'ID de cuenta de Jira de cada responsable', linear: 'ID de usuario de Linear de cada responsable', github: 'Usuario de GitHub de cada responsable' },
+        unassigned: 'Sin asignar',
+        nextMeeting: 'Próxima reunión (.ics)',
+        unreadableMeetingDate: 'No se pudo leer la fecha de la próxima reunión. Escríbala como AAAA-MM-DD o DD/MM/AAAA.',
+        source: (title: string, date: string) => `Minuta: ${title} (${date})`,
+    },
+    minutes: {
+        notSpecified: 'No se especifica',
+        owner: 'Responsable',
+        dueDate: 'Fecha',
+        date: 'Fecha',
+        time: 'Hora',
+        platform: 'Plataforma',
+        untitled: 'Minuta de Reunión',
+        attendees: 'Asistentes',
+        task: 'Tarea',
+        done: 'Hecha',
+    },
+    editor: {
+        summary: 'Resumen',
+        copy: (label: string) => `Copiar ${label.toLowerCase()}`,
+        edit: (label: string) => `Editar ${label}`,
+        regenerate: (label: string) => `Regenerar ${label}`,
+        regenerateHint: 'Regenerar esta sección',
+        regenerateUnavailable: 'No hay transcripción disponible para regenerar',
+        onePerLine: 'Un elemento por línea.',
+        task: 'Tarea',
+        deleteTask: 'Eliminar tarea',
+        addTask: 'Agregar tarea',
+        instructionPlaceholder: 'Instrucción opcional (ej. «más breve», «incluye los montos»)',
+        regenerating: 'Regenerando...',
+        regenerateAction: 'Regenerar',
+        showSource: 'Ver en la transcripción de dónde proviene',
+        unsupported: 'No se encontró en la transcripción nada que respalde este punto. Revísalo antes de compartir el acta.',
+        confirmItem: 'Confirmar',
+        removeItem: 'Eliminar este punto',
+    },
+    history: {
+        title: 'Historial de Reuniones',
+        searchPlaceholder: 'Buscar por título, resumen o transcripción...',
+        loadFailed: 'No se pudo cargar el historial de reuniones.',
+        renameFailed: 'No se pudo renombrar la reunión.',
+        deleteFailed: 'No se pudo eliminar la reunión.',
+        purgeFailed: 'No se pudo liberar el espacio del historial.',
+        empty: 'Aún no hay reuniones guardadas.',
+        noResults: 'No hay resultados para la búsqueda.',
+        rename: 'Renombrar reunión',
+        copyMarkdown: 'Copiar minuta en Markdown',
+        download: 'Descargar minuta',
+        delete: 'Eliminar reunión',
+        deleteConfirm: (title: string) => `¿Eliminar "${title}" del historial? Esta acción no se puede deshacer.`,
+        open: 'Abrir',
+        audioSize: (size: string) => `Audio ${size}`,
+        inProgress: 'En curso',
+        status: {
+            done: 'Completada',
+            error: 'Con error',
+            recording: 'Grabación interrumpida',
+            transcribing: 'Transcripción incompleta',
+            pendingMinutes: 'Pendiente de minuta',
+        },
+        storage: 'Almacenamiento',
+        storageUsage: (used: string, quota: string) => `${used} usados de ${quota} disponibles`,
+        storageUnknown: 'Su navegador no informa el espacio disponible.',
+        purgeOldAudio: 'Borrar audio > 30 días',
+        purgeOldAudioConfirm: '¿Eliminar el audio de las reuniones de hace más de 30 días? Las transcripciones y minutas se conservan.',
+        purgeOldMeetings: 'Borrar reuniones > 90 días',
+        purgeOldMeetingsConfirm: '¿Eliminar las reuniones de hace más de 90 días?',
+        purgeAll: 'Borrar todo',
+        purgeAllConfirm: '¿Eliminar todo el historial de reuniones? Esta acción no se puede deshacer.',
+    },
+    settings: {
+        title: 'Configuración',
+        intro: 'Elija el servicio que transcribe el audio y genera las minutas.',
+        provider: 'Proveedor',
+        providers: {
+            gemini: 'Google Gemini',
+            openai: 'Compatible con OpenAI',
+            local: 'Local (Whisper + Ollama)',
+            mock: 'Simulado (sin conexión)',
+        },
+        descriptions: {
+            gemini: 'Transcripción con identificación de hablantes y minutas con Gemini, a través del servidor de la aplicación, que guarda la clave de API.',
+            openai: 'Cualquier servidor con los endpoints de chat y transcripción de OpenAI. Whisper no identifica hablantes.',
+            local: 'Un servidor Whisper y Ollama en su equipo; el audio no sale de su red.',
+            mock: 'Respuestas fijas para probar la aplicación sin conexión ni claves de API.',
+        },
+        proxyUrl: 'URL del servidor de la aplicación',
+        apiKey: 'Clave de API',
+        model: 'Modelo',
+        baseUrl: 'URL base',
+        transcriptionModel: 'Modelo de transcripción',
+        whisperUrl: 'URL del servidor Whisper',
+        whisperModel: 'Modelo de Whisper',
+        ollamaUrl: 'URL de Ollama',
+        storedLocally: 'Las claves se guardan solo en este navegador.',
+        saved: 'Configuración guardada.',
+    },
+    notionSettings: {
+        title: 'Notion',
+        intro: 'Base de datos donde "Enviar a Notion" crea una página por reunión. El token de la integración se configura en el servidor.',
+        database: 'Base de datos (enlace o ID)',
+        databasePlaceholder: 'https://www.notion.so/...',
+        load: 'Cargar propiedades',
+        loading: 'Cargando...',
+        loaded: (name: string) => `Base de datos: ${name}`,
+        untitledDatabase: 'Sin título',
+        invalidDatabase: 'No se encontró un ID de Notion en el enlace.',
+        properties: {
+            title: 'Título',
+            date: 'Fecha de la reunión',
+            project: 'Proyecto',
+            attendees: 'Asistentes',
+        },
+        defaultTitle: 'Propiedad de título de la base',
+        notMapped: 'No enviar',
+        typesHint: 'Solo se listan propiedades de tipo compatible: fecha o texto para la fecha, selección o texto para el proyecto y selección múltiple o texto para los asistentes.',
+        loadHint: 'Cargue las propiedades de la base de datos para elegir dónde va cada dato.',
+    },
+    integrations: {
+        title: 'Integraciones',
+        intro: 'Destinos a los que se puede enviar la minuta: webhooks, Slack, Microsoft Teams y correo. Los envíos sin conexión esperan en la bandeja de salida.',
+        empty: 'Todavía no hay integraciones.',
+        add: 'Agregar',
+        edit: 'Editar',
+        delete: 'Eliminar',
+        deleteConfirm: (name: string) => `¿Eliminar la integración "${name}"?`,
+        newTitle: (kind: string) => `Nueva Integración: ${kind}`,
+        editTitle: 'Editar Integración',
+        kinds: {
+            webhook: 'Webhook JSON',
+            slack: 'Slack',
+            teams: 'Microsoft Teams',
+            email: 'Correo',
+        },
+        name: 'Nombre',
+        webhookUrl: 'URL del webhook',
+        relayUrl: 'URL del relé SMTP (opcional)',
+        urlHints: {
+            webhook: 'Recibe un POST con el JSON de la plantilla. El servidor debe admitir CORS.',
+            slack: 'Webhook entrante de Slack (https://hooks.slack.com/...). Se envía a través del servidor de la aplicación.',
+            teams: 'Conector o flujo de trabajo de Teams. Se envía a través del servidor de la aplicación.',
+            email: 'Endpoint HTTP que recibe { to, subject, text } y envía el correo. Vacío para abrir el programa de correo.',
+        },
+        recipients: 'Destinatarios',
+        jsonTemplate: 'Mensaje (JSON)',
+        emailTemplate: 'Cuerpo del correo',
+        placeholdersHint: (placeholders: string) => `Marcadores: ${placeholders} y {{section.<id>}} para una sección de la plantilla.`,
+        enabled: 'Activa',
+        disabled: 'Desactivada',
+        testSend: 'Enviar prueba',
+        testSent: 'Mensaje de prueba enviado.',
+        testFailed: (message: string) => `No se pudo enviar la prueba: ${message}`,
+        outbox: 'Bandeja de salida',
+        outboxEmpty: 'No hay envíos.',
+        clearSent: 'Borrar enviados',
+        removeDelivery: 'Quitar de la bandeja',
+        panelTitle: 'Enviar a Integraciones',
+        send: 'Enviar',
+        queuedOffline: 'Sin conexión: los envíos saldrán cuando vuelva la conexión.',
+        prepareFailed: (name: string, message: string) => `No se pudo preparar el mensaje para ${name}: ${message}`,
+        status: {
+            queued: 'En cola',
+            sending: 'Enviando...',
+            sent: 'Enviado',
+            failed: 'Falló',
+            retrying: (time: string) => `Se reintentará a las ${time}`,
+            offline: 'Esperando conexión',
+        },
+        defaults: {
+            summary: 'Resumen',
+            tasks: 'Tareas',
+            attendees: 'Asistentes',
+        },
+        sample: {
+            title: 'Prueba de integración',
+            heading: 'Resumen',
+            summary: 'Mensaje de prueba enviado desde Minutas para comprobar la integración.',
+            attendees: 'Ana, Luis',
+            tasks: '[ ] Revisar la integración - **Responsable:** Ana - **Fecha:** 2030-01-01',
+        },
+        errors: {
+            unknownPlaceholder: (name: string) => `El marcador {{${name}}} no existe.`,
+            invalidJson: (message: string) => `La plantilla no produce un JSON válido: ${message}. Los marcadores deben ir dentro de comillas.`,
+            tooLarge: 'El mensaje es demasiado grande.',
+            missingName: 'Escriba un nombre para la integración.',
+            invalidUrl: 'La URL no es válida.',
+            unexpectedHost: (kind: string) => `La URL no es un webhook de ${kind}.`,
+            missingRecipients: 'Indique al menos una dirección de correo.',
+            unreachable: (url: string) => `No se pudo conectar con ${url}. Verifique la conexión y que el servidor admita CORS.`,
+            http: (status: number, details: string) => `El destino respondió con el error ${status}: ${details}`,
+            serviceFailed: 'El servicio de destino no respondió. Se volverá a intentar.',
+            webhookGone: 'El webhook ya no existe. Revise la URL de la integración.',
+            rejected: 'El destino rechazó el mensaje. Revise la plantilla de la integración.',
+            unknown: 'Ocurrió un error desconocido al enviar.',
+        },
+    },
+    actionItems: {
+        title: 'Seguimiento de Tareas',
+        intro: 'Las tareas de las minutas se guardan por proyecto. Al generar la minuta de otra reunión del mismo proyecto, las pendientes se incluyen para que el modelo informe su avance.',
+        empty: 'Todavía no hay tareas. Se añaden al generar minutas con nombre de proyecto.',
+        nothingPending: 'No hay tareas pendientes.',
+        project: 'Proyecto',
+        allProjects: 'Todos los proyectos',
+        showDone: 'Mostrar terminadas',
+        projectTitle: (project: string) => `Tareas anteriores de «${project}»`,
+        status: 'Estado',
+        statuses: { open: 'Abierta', blocked: 'Bloqueada', done: 'Terminada' },
+        noOwner: 'Sin responsable',
+        noDueDate: 'Sin fecha',
+        overdue: 'vencida',
+        overdueCount: (count: number) => count === 1 ? '1 vencida' : `${count} vencidas`,
+        agreedOn: (date: string) => `acordada el ${date}`,
+        progress: (text: string) => `Avance: ${text}`,
+        delete: 'Quitar del seguimiento',
+        deleteConfirm: (task: string) => `¿Quitar «${task}» del seguimiento?`,
+        followUp: 'Seguimiento de tareas:',
+        detectProject: 'Detectar el proyecto en la transcripción',
+        noFollowUp: 'Ninguno',
+        projectOption: (project: string, count: number) => `${project} (${count} pendientes)`,
+    },
+    templates: {
+        title: 'Plantillas de Minuta',
+        intro: 'Defina qué secciones tiene la minuta, qué debe contener cada una y cuáles son obligatorias.',
+        newTitle: 'Nueva Plantilla',
+        editTitle: 'Editar Plantilla',
+        name: 'Nombre',
+        copyName: (name: string) => `${name} (copia)`,
+        sectionTitle: 'Título de la sección',
+        moveUp: 'Subir sección',
+        moveDown: 'Bajar sección',
+        removeSection: 'Eliminar sección',
+        instructionsPlaceholder: 'Instrucciones para el modelo (qué debe contener esta sección)',
+        kind: 'Tipo:',
+        maxCharacters: 'Máx. caracteres:',
+        maxItems: 'Máx. elementos:',
+        required: 'Obligatoria',
+        customSection: 'Sección personalizada',
+        newSectionTitle: 'Nueva sección',
+        addSection: 'Agregar sección',
+        edit: 'Editar plantilla',
+        duplicate: 'Duplicar plantilla',
+        export: 'Exportar plantilla',
+        delete: 'Eliminar plantilla',
+        deleteConfirm: (name: string) => `¿Eliminar la plantilla "${name}"? Las minutas ya generadas con ella no se modifican.`,
+        create: 'Nueva plantilla',
+        import: 'Importar JSON',
+        saveFailed: 'No se pudo guardar la plantilla.',
+        importFailed: (name: string, message: string) => `No se pudo importar "${name}": ${message}`,
+        importFailedUnknown: 'No se pudo importar la plantilla.',
+        kinds: {
+            text: 'Texto',
+            list: 'Lista',
+            tasks: 'Tareas',
+            meeting: 'Próxima reunión',
+        },
+        errors: {
+            invalidSection: (number: number) => `La sección ${number} no tiene un formato válido.`,
+            invalidSectionId: (number: number) => `La sección ${number} tiene un identificador inválido.`,
+            missingSectionTitle: (number: number) => `La sección ${number} no tiene título.`,
+            invalidKind: (number: number, title: string) => `La sección ${number} ("${title}") tiene un tipo inválido.`,
+            invalidInstructions: (title: string) => `Las instrucciones de "${title}" deben ser texto.`,
+            invalidMaxLength: (title: string) => `El límite de "${title}" debe ser un número entero positivo.`,
+            notTemplate: 'El archivo no contiene una plantilla.',
+            missingName: 'La plantilla no tiene nombre.',
+            noSections: 'La plantilla debe tener al menos una sección.',
+            duplicateSections: 'La plantilla tiene secciones repetidas.',
+            defaultReadOnly: 'La plantilla estándar no se puede modificar.',
+            invalidJson: 'El archivo no es un JSON válido.',
+        },
+    },
+    // Built-in template, generated in the language of the minutes.
+    defaultTemplate: {
+        name: 'Minuta estándar',
+        sections: {
+            summary: {
+                title: 'Resumen',
+                instructions: 'Resumen de la reunión en un solo párrafo. Debe capturar la esencia de la discusión.',
+            },
+            projectName: {
+                title: 'Nombre del proyecto o asunto',
+                instructions: 'Título del proyecto o tema principal. Si no se menciona un título explícito, crea un título conciso y descriptivo basado en el resumen y los temas tratados.',
+            },
+            objective: {
+                title: 'Objetivo de la reunión',
+                instructions: 'Describe brevemente por qué se realizó la reunión.',
+            },
+            topics: {
+                title: 'Temas tratados',
+                instructions: 'Los puntos discutidos, uno por elemento. Resume cada tema.',
+            },
+            decisions: {
+                title: 'Decisiones tomadas',
+                instructions: 'Lo que se acordó, de forma precisa, una decisión por elemento.',
+            },
+            tasks: {
+                title: 'Compromisos y tareas',
+                instructions: 'Los compromisos, con la tarea, el responsable y la fecha en formato YYYY-MM-DD.',
+            },
+            nextSteps: {
+                title: 'Próximos pasos',
+                instructions: 'Las actividades clave a monitorear antes de la siguiente reunión.',
+            },
+            nextMeeting: {
+                title: 'Próxima reunión',
+                instructions: 'Fecha, hora y plataforma de la próxima reunión.',
+            },
+        },
+    },
+};
+
+export type Messages = typeof es;
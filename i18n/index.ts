@@ -0,0 +1,51 @@
+import { Locale } from '../types';
+import { es, Messages } from './es';
+import { en } from './en';
+import { pt } from './pt';
+
+export type { Messages };
+
+export const LOCALES: Locale[] = ['es', 'en', 'pt'];
+export const DEFAULT_LOCALE: Locale = 'es';
+
+const CATALOGS: Record<Locale, Messages> = { es, en, pt };
+
+const LOCALE_KEY = 'minutas.locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && (LOCALES as string[]).includes(value);
+
+// Stored choice first, then the browser language, then Spanish. The server
+// routes share these catalogs and always start in Spanish.
+const initialLocale = (): Locale => {
+    if (typeof localStorage === 'undefined') return DEFAULT_LOCALE;
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+    const browser = navigator.language.slice(0, 2).toLowerCase();
+    return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+let currentLocale: Locale = initialLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export function setLocale(locale: Locale): void {
+    if (locale === currentLocale) return;
+    currentLocale = locale;
+    localStorage.setItem(LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+    listeners.forEach(listener => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Messages of the given locale, or of the current interface locale. Services
+ * use this directly; components go through `useI18n` so they re-render when
+ * the locale changes.
+ */
+export const messages = (locale: Locale = currentLocale): Messages => CATALOGS[locale];
@@ -0,0 +1,598 @@
+import { Messages } from './es';
+
+export const pt: Messages = {
+    languageName: 'Português',
+    languages: {
+        es: 'Espanhol',
+        en: 'Inglês',
+        pt: 'Português',
+    },
+    common: {
+        cancel: 'Cancelar',
+        save: 'Salvar',
+        back: 'Voltar',
+        retry: 'Tentar novamente',
+        copied: 'Copiado!',
+        loading: 'Carregando...',
+        generateMinutes: 'Gerar Ata',
+    },
+    app: {
+        title: 'Assistente de Atas de Reunião',
+        footer: 'Desenvolvido com React e a API Gemini.',
+        interfaceLanguage: 'Idioma da interface',
+        defaultMeetingTitle: (date) => `Reunião de ${date}`,
+        idle: {
+            intro: 'Escolha como deseja começar. Grave uma reunião completa, envie uma gravação ou cole uma transcrição existente para gerar uma ata profissional.',
+            startRecording: 'Gravar Reunião Completa',
+            useExistingText: 'Usar Texto Existente',
+            uploadFile: 'Enviar Arquivo',
+            history: 'Histórico',
+            templates: 'Modelos',
+            settings: 'Configurações',
+            integrations: 'Integrações',
+            actionItems: 'Acompanhamento de tarefas',
+            safariWarningTitle: 'Aviso para usuários do Safari:',
+            safariWarning: 'Para gravar a reunião completa (incluindo todos os participantes), recomendamos o Google Chrome. O Safari só permite gravar o áudio do seu microfone.',
+            unfinishedTitle: 'Gravação não finalizada:',
+            unfinishedBody: (date) => `foi encontrado áudio de uma reunião iniciada em ${date} que não chegou a ser processada. Deseja recuperá-la e transcrevê-la?`,
+            discard: 'Descartar',
+            recover: 'Recuperar e Transcrever',
+            discardConfirm: 'Descartar a gravação não finalizada? O áudio recuperado será excluído.',
+        },
+        recordingSetup: {
+            title: 'Preparar Gravação',
+            intro: 'Escolha qual áudio gravar. Ao compartilhar uma aba, marque a opção de compartilhar o áudio.',
+            source: 'Fonte de áudio',
+            sources: {
+                mixed: 'Aba e microfone',
+                microphone: 'Somente microfone',
+                tab: 'Somente aba',
+            },
+            descriptions: {
+                mixed: 'Grava os outros participantes pela aba da reunião e a sua voz pelo microfone.',
+                microphone: 'Grava somente o microfone, por exemplo em uma reunião presencial.',
+                tab: 'Grava somente o áudio da aba compartilhada, sem o seu microfone.',
+            },
+            microphone: 'Microfone',
+            defaultMicrophone: 'Padrão do sistema',
+            microphoneN: (number) => `Microfone ${number}`,
+            speechMode: 'Otimizar para voz (16 kHz, mono)',
+            speechModeHint: 'Grava em mono com qualidade menor para reduzir o tamanho do envio. A transcrição não é afetada.',
+            liveTranscription: 'Transcrever ao vivo',
+            liveTranscriptionHint: 'Mostra a transcrição durante a gravação. Os trechos de 30 segundos se sobrepõem, então cerca de um terço a mais de áudio é enviado.',
+            start: 'Começar a Gravar',
+        },
+        recording: {
+            inProgress: 'Gravando reunião completa...',
+            stop: 'Parar e Processar',
+            pause: 'Pausar',
+            resume: 'Retomar',
+            paused: 'Gravação pausada',
+            levelMicrophone: 'Microfone',
+            levelTab: 'Aba',
+            tabNoAudio: 'A aba compartilhada não tem áudio: somente o microfone está sendo gravado. Para incluir os outros participantes, pare a gravação e compartilhe a aba novamente marcando "Compartilhar áudio".',
+            uploadEstimate: (size) => `Envio estimado: ${size}`,
+            live: {
+                title: 'Transcrição ao vivo',
+                waiting: 'A transcrição aparecerá aqui a cada 30 segundos, aproximadamente.',
+                flagsTitle: 'Momentos marcados',
+                off: 'A transcrição ao vivo está desativada: o áudio será transcrito ao parar a gravação.',
+                transcribing: 'Transcrevendo o último trecho...',
+                failed: 'Um trecho não pôde ser transcrito; será tentado novamente quando a gravação parar.',
+                flagHint: 'Marque os momentos importantes para que a ata os leve em conta:',
+                flagDecision: 'Decisão',
+                flagAction: 'Tarefa',
+                removeFlag: 'Remover marca',
+            },
+        },
+        transcribing: {
+            extracting: 'Extraindo o áudio do arquivo...',
+            transcribing: 'Transcrevendo áudio...',
+            progress: (done, total) => `${done} de ${total} fragmentos`,
+            upload: (size) => `Áudio a enviar: ${size}`,
+            patience: 'Este processo pode levar alguns minutos, dependendo da duração da gravação. Por favor, não feche esta janela.',
+            failedTitle: 'Alguns fragmentos não puderam ser transcritos',
+            failedBody: (done, total) => `Foram transcritos ${done} de ${total} fragmentos. Você pode tentar novamente apenas os fragmentos com falha, sem reenviar a reunião inteira.`,
+            chunk: (number) => `Fragmento ${number}`,
+            retryAll: 'Tentar Todos Novamente',
+        },
+        naming: {
+            title: 'Identificar Participantes',
+            intro: 'Atribua um nome a cada falante detectado. Esses nomes serão usados como responsáveis pelos compromissos e tarefas.',
+            placeholder: 'Nome do participante',
+            silenceReport: (removed, total, percent) => `Foram omitidos ${removed} de silêncio de ${total} de áudio (${percent} %), que não foram enviados para transcrição.`,
+        },
+        pasteText: {
+            title: 'Usar Texto Existente',
+            intro: 'Cole aqui a transcrição da sua reunião para gerar a ata.',
+            placeholder: 'Cole aqui a transcrição completa da sua reunião...',
+            importHint: 'Ou importe um arquivo do Teams, Zoom ou Google Meet (.vtt, .srt, .docx, .txt)',
+        },
+        importPreview: {
+            title: 'Prévia da Transcrição',
+            intro: 'Revise a transcrição importada antes de gerar a ata.',
+            renameParticipants: 'Renomear Participantes',
+        },
+        upload: {
+            title: 'Enviar Gravação',
+            intro: 'Envie a gravação de uma reunião (por exemplo, do Zoom ou Meet) para transcrevê-la e gerar a ata. Dos vídeos é extraído apenas o áudio.',
+            hint: (maxMegabytes) => `MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 ou MOV · máximo ${maxMegabytes} MB`,
+        },
+        generating: {
+            title: 'Gerando ata...',
+            waiting: 'Aguardando a resposta do modelo...',
+            streaming: 'Recebendo a ata...',
+            stop: 'Parar',
+        },
+        done: {
+            incomplete: 'A geração foi interrompida antes de terminar: algumas seções podem estar faltando ou incompletas.',
+            undo: 'Desfazer',
+            undoHint: 'Desfazer (Ctrl+Z)',
+            redo: 'Refazer',
+            redoHint: 'Refazer (Ctrl+Shift+Z)',
+            copyMarkdown: 'Copiar Markdown',
+            copyFormatted: 'Copiar com Formatação',
+            sending: 'Enviando...',
+            sent: 'Enviado',
+            sendToNotion: 'Enviar ao Notion',
+            updateInNotion: 'Atualizar no Notion',
+            openInNotion: 'Abrir a página no Notion',
+            startOver: 'Começar de Novo',
+            unsupported: (count) => count === 1
+                ? 'Um item não tem respaldo na transcrição. Ele está destacado abaixo: confirme-o ou remova-o.'
+                : `${count} itens não têm respaldo na transcrição. Eles estão destacados abaixo: confirme-os ou remova-os.`,
+            unsupportedConfirm: (count) => count === 1
+                ? 'Um item da ata não tem respaldo na transcrição e ainda não foi revisado. Continuar mesmo assim?'
+                : `${count} itens da ata não têm respaldo na transcrição e ainda não foram revisados. Continuar mesmo assim?`,
+        },
+        error: {
+            titles: {
+                permission: 'Permissão Negada',
+                emptyAudio: 'Nenhuma Fala Detectada',
+                rateLimit: 'Limite de Solicitações Atingido',
+                network: 'Erro de Conexão',
+                safety: 'Conteúdo Bloqueado',
+                invalidOutput: 'Resposta Inválida',
+                invalidInput: 'Solicitação Rejeitada',
+                configuration: 'Serviço não Configurado',
+                cancelled: 'Geração Cancelada',
+                unknown: 'Ocorreu um Erro',
+            },
+            inputKept: 'A gravação e a transcrição são mantidas, então você pode tentar novamente sem começar do zero.',
+            actions: {
+                retry: 'Tentar Novamente',
+                backToTranscript: 'Voltar à Transcrição',
+                reRecord: 'Gravar Novamente',
+                startOver: 'Começar de Novo',
+            },
+        },
+    },
+    generation: {
+        template: 'Modelo de ata:',
+        outputLanguage: 'Idioma da ata:',
+        automatic: 'Automático',
+        automaticDetected: (language) => `Automático (${language})`,
+        detected: (language) => `Idioma detectado: ${language}`,
+        detectedMixed: (language, others) => `Idioma detectado: ${language}, com partes em ${others}`,
+    },
+    errors: {
+        emptyTranscriptInput: 'A transcrição não pode estar vazia.',
+        emptyTranscription: 'A transcrição ficou vazia. O áudio pode não conter fala clara.',
+        transcriptionFailed: (message) => `Erro ao transcrever o áudio: ${message}`,
+        transcriptionUnknown: 'Ocorreu um erro desconhecido ao transcrever o áudio.',
+        invalidMinutes: (message) => `A ata gerada não tem um formato válido. ${message}`,
+        apiFailed: (message) => `Erro ao contatar o serviço de IA: ${message}`,
+        generationUnknown: 'Ocorreu um erro desconhecido ao gerar a ata.',
+        generationCancelled: 'A geração da ata foi cancelada.',
+        missingSection: (title) => `A resposta não contém a seção "${title}".`,
+        invalidSection: (message) => `A seção regenerada não tem um formato válido. ${message}`,
+        regenerationUnknown: 'Ocorreu um erro desconhecido ao regenerar a seção.',
+        fileProcessing: 'Não foi possível processar o arquivo.',
+        noAudioToRecover: 'Não foi encontrado áudio para recuperar.',
+        recoveryFailed: 'Não foi possível recuperar a gravação.',
+        transcriptImportFailed: 'Não foi possível importar a transcrição.',
+        noRecordingData: 'A gravação não contém dados de áudio. Por favor, tente novamente.',
+        recordingStartFailed: 'Ocorreu um erro ao iniciar a gravação.',
+        tabNoAudio: 'A aba compartilhada não tem áudio. Compartilhe-a novamente marcando a opção "Compartilhar áudio" (não disponível no Safari).',
+        permissionDenied: 'Permissão negada para capturar a tela ou o microfone. Conceda as permissões necessárias e tente novamente.',
+        copyFormattedUnsupported: "Não foi possível copiar com formatação. Seu navegador pode não ser compatível. Tente 'Copiar Markdown'.",
+        copyFormattedFailed: 'Ocorreu um erro ao gerar o conteúdo formatado.',
+        notionFailed: 'Não foi possível enviar a ata ao Notion. Por favor, tente novamente.',
+        notion: {
+            noDatabase: 'Configure o banco de dados do Notion em Configurações.',
+            notConfigured: 'O servidor não tem o token da integração do Notion configurado.',
+            notFound: 'O banco de dados do Notion não foi encontrado. Verifique o link e se ele está compartilhado com a integração.',
+            rejected: 'O Notion rejeitou a ata. Revise o mapeamento de propriedades em Configurações.',
+        },
+        missingApiKey: (provider) => `Falta a chave de API de ${provider}. Configure-a em Configurações.`,
+        providerUnreachable: (url) => `Não foi possível conectar a ${url}. Verifique se o servidor está em execução e permite CORS.`,
+        providerHttp: (status, details) => `O serviço respondeu com o erro ${status}: ${details}`,
+        api: {
+            invalidRequest: 'O servidor recusou a solicitação por não ter um formato válido.',
+            payloadTooLarge: 'O áudio ou a transcrição excede o tamanho máximo aceito pelo servidor.',
+            rateLimited: (seconds) => `Limite de solicitações atingido. Tente novamente em ${seconds} segundos.`,
+            notConfigured: 'O servidor não tem a chave de API do Gemini configurada.',
+            notFound: 'O servidor não encontrou o recurso solicitado.',
+            upstreamFailed: 'Não foi possível contatar o serviço de IA. Tente novamente em alguns minutos.',
+            invalidModelResponse: 'O serviço de IA devolveu uma resposta inválida.',
+            safetyBlocked: 'O serviço de IA bloqueou a resposta com seus filtros de conteúdo. Revise a transcrição e tente novamente.',
+        },
+    },
+    validation: {
+        fieldNotText: (path) => `O campo "${path}" deve ser texto.`,
+        fieldNotTextList: (path) => `O campo "${path}" deve ser uma lista de textos.`,
+        tasksNotList: 'O campo "tasks" deve ser uma lista.',
+        invalidTask: (number) => `A tarefa ${number} não tem um formato válido.`,
+        invalidNextMeeting: 'O campo "nextMeeting" não tem um formato válido.',
+        notMinutes: 'A resposta não é um objeto de ata.',
+        missingRequiredSection: (title) => `A ata não contém a seção obrigatória "${title}".`,
+        invalidMinutesJson: 'A resposta do modelo não é um JSON válido.',
+        transcriptNotList: 'A transcrição não é uma lista de intervenções.',
+        invalidTurn: (number) => `A intervenção ${number} não tem um formato válido.`,
+        invalidTurnTimes: (number) => `A intervenção ${number} não tem tempos válidos.`,
+        invalidTranscriptJson: 'A transcrição do modelo não é um JSON válido.',
+    },
+    media: {
+        unsupportedFormat: (name) => `O formato de "${name}" não é compatível. Use arquivos MP3, M4A, WAV, WEBM, OGG, FLAC, MP4 ou MOV.`,
+        emptyFile: (name) => `O arquivo "${name}" está vazio.`,
+        tooLarge: (name, maxMegabytes) => `O arquivo "${name}" excede o tamanho máximo de ${maxMegabytes} MB.`,
+        extractionFailed: (name) => `Não foi possível extrair o áudio de "${name}". O arquivo pode não ter faixa de áudio ou seu navegador pode não suportar o codec.`,
+        noAudio: (name) => `O arquivo "${name}" não contém áudio.`,
+    },
+    transcriptImport: {
+        unsupportedFormat: (name) => `O formato de "${name}" não é compatível. Use arquivos .vtt, .srt, .txt ou .docx.`,
+        noText: (name) => `Nenhum texto de transcrição foi encontrado em "${name}".`,
+        invalidDocx: 'O arquivo não é um documento .docx válido.',
+        damagedDocx: 'O arquivo .docx está danificado.',
+        unsupportedCompression: 'O arquivo .docx usa um formato de compressão não compatível.',
+        noDocument: 'O arquivo .docx não contém um documento de texto.',
+    },
+    fileDrop: {
+        prompt: 'Arraste um arquivo para cá ou clique para selecioná-lo',
+    },
+    transcriptPreview: {
+        summary: (turns, participants) =>
+            `${turns} intervenções · ${participants} ${participants === 1 ? 'participante' : 'participantes'}`,
+    },
+    transcriptPlayer: {
+        title: 'Transcrição',
+        noAudio: 'Não há gravação disponível para esta reunião.',
+        playFrom: (time) => `Reproduzir a partir de ${time}`,
+    },
+    exportMenu: {
+        title: 'Exportar',
+        formats: { docx: 'Word (.docx)', pdf: 'PDF', html: 'HTML' },
+        logo: 'Logo do cabeçalho:',
+        noLogo: 'nenhum',
+        chooseLogo: 'Escolher imagem',
+        changeLogo: 'Trocar',
+        removeLogo: 'Remover o logo',
+        logoHint: 'Os arquivos trazem o logo, a data da reunião e os participantes no cabeçalho, e as tarefas em uma tabela com caixas de seleção.',
+        invalidLogo: 'Não foi possível ler a imagem do logo.',
+        failed: (message) => `Não foi possível exportar a ata: ${message}`,
+    },
+    taskExport: {
+        title: 'Exportar tarefas',
+        noTasks: 'A ata não tem tarefas.',
+        noOwner: 'Sem responsável',
+        noDueDate: 'Sem data',
+        format: 'Formato',
+        formats: { csv: 'CSV (planilha)', jira: 'Jira (JSON)', linear: 'Linear (JSON)', github: 'GitHub Issues (JSON)', ics: 'Calendário (.ics)' },
+        export: (count) => count === 1 ? 'Exportar 1 tarefa' : `Exportar ${count} tarefas`,
+        project: { jira: 'Chave do projeto do Jira', linear: 'ID da equipe do Linear' },
+        missingProject: { jira: 'Informe a chave do projeto do Jira.', linear: 'Informe o ID da equipe do Linear.' },
+        dueDateField: 'Campo do prazo',
+        dueDateHints: {
+            jira: 'Normalmente "duedate". Deixe vazio para adicionar a data à descrição.',
+            linear: 'Normalmente "dueDate". Deixe vazio para adicionar a data à descrição.',
+            github: 'O GitHub não tem prazos: digite um prefixo (ex.: "due") para adicioná-lo como etiqueta, ou deixe vazio para adicioná-lo à descrição.',
+        },
+        assignees: { jira: 'ID da conta do Jira de cada responsável', linear: 'ID de usuário do Linear de cada responsável', github: 'Usuário do GitHub de cada responsável' },
+        unassigned: 'Sem atribuição',
+        nextMeeting: 'Próxima reunião (.ics)',
+        unreadableMeetingDate: 'Não foi possível ler a data da próxima reunião. Escreva-a como AAAA-MM-DD ou DD/MM/AAAA.',
+        source: (title, date) => `Ata: ${title} (${date})`,
+    },
+    minutes: {
+        notSpecified: 'Não especificado',
+        owner: 'Responsável',
+        dueDate: 'Prazo',
+        date: 'Data',
+        time: 'Hora',
+        platform: 'Plataforma',
+        untitled: 'Ata de Reunião',
+        attendees: 'Participantes',
+        task: 'Tarefa',
+        done: 'Feita',
+    },
+    editor: {
+        summary: 'Resumo',
+        copy: (label) => `Copiar ${label.toLowerCase()}`,
+        edit: (label) => `Editar ${label}`,
+        regenerate: (label) => `Regenerar ${label}`,
+        regenerateHint: 'Regenerar esta seção',
+        regenerateUnavailable: 'Não há transcrição disponível para regenerar',
+        onePerLine: 'Um item por linha.',
+        task: 'Tarefa',
+        deleteTask: 'Excluir tarefa',
+        addTask: 'Adicionar tarefa',
+        instructionPlaceholder: 'Instrução opcional (ex. «mais breve», «inclua os valores»)',
+        regenerating: 'Regenerando...',
+        regenerateAction: 'Regenerar',
+        showSource: 'Ver na transcrição de onde isto vem',
+        unsupported: 'Nada na transcrição respalda este item. Revise-o antes de compartilhar a ata.',
+        confirmItem: 'Confirmar',
+        removeItem: 'Remover este item',
+    },
+    history: {
+        title: 'Histórico de Reuniões',
+        searchPlaceholder: 'Buscar por título, resumo ou transcrição...',
+        loadFailed: 'Não foi possível carregar o histórico de reuniões.',
+        renameFailed: 'Não foi possível renomear a reunião.',
+        deleteFailed: 'Não foi possível excluir a reunião.',
+        purgeFailed: 'Não foi possível liberar o espaço do histórico.',
+        empty: 'Ainda não há reuniões salvas.',
+        noResults: 'Não há resultados para a busca.',
+        rename: 'Renomear reunião',
+        copyMarkdown: 'Copiar ata em Markdown',
+        download: 'Baixar ata',
+        delete: 'Excluir reunião',
+        deleteConfirm: (title) => `Excluir "${title}" do histórico? Esta ação não pode ser desfeita.`,
+        open: 'Abrir',
+        audioSize: (size) => `Áudio ${size}`,
+        inProgress: 'Em andamento',
+        status: {
+            done: 'Concluída',
+            error: 'Com erro',
+            recording: 'Gravação interrompida',
+            transcribing: 'Transcrição incompleta',
+            pendingMinutes: 'Ata pendente',
+        },
+        storage: 'Armazenamento',
+        storageUsage: (used, quota) => `${used} usados de ${quota} disponíveis`,
+        storageUnknown: 'Seu navegador não informa o espaço disponível.',
+        purgeOldAudio: 'Apagar áudio > 30 dias',
+        purgeOldAudioConfirm: 'Excluir o áudio das reuniões com mais de 30 dias? As transcrições e atas são mantidas.',
+        purgeOldMeetings: 'Apagar reuniões > 90 dias',
+        purgeOldMeetingsConfirm: 'Excluir as reuniões com mais de 90 dias?',
+        purgeAll: 'Apagar tudo',
+        purgeAllConfirm: 'Excluir todo o histórico de reuniões? Esta ação não pode ser desfeita.',
+    },
+    settings: {
+        title: 'Configurações',
+        intro: 'Escolha o serviço que transcreve o áudio e gera as atas.',
+        provider: 'Provedor',
+        providers: {
+            gemini: 'Google Gemini',
+            openai: 'Compatível com OpenAI',
+            local: 'Local (Whisper + Ollama)',
+            mock: 'Simulado (offline)',
+        },
+        descriptions: {
+            gemini: 'Transcrição com identificação de falantes e atas com o Gemini, pelo servidor do aplicativo, que guarda a chave de API.',
+            openai: 'Qualquer servidor com os endpoints de chat e transcrição da OpenAI. O Whisper não identifica falantes.',
+            local: 'Um servidor Whisper e o Ollama no seu computador; o áudio não sai da sua rede.',
+            mock: 'Respostas fixas para testar o aplicativo offline e sem chaves de API.',
+        },
+        proxyUrl: 'URL do servidor do aplicativo',
+        apiKey: 'Chave de API',
+        model: 'Modelo',
+        baseUrl: 'URL base',
+        transcriptionModel: 'Modelo de transcrição',
+        whisperUrl: 'URL do servidor Whisper',
+        whisperModel: 'Modelo do Whisper',
+        ollamaUrl: 'URL do Ollama',
+        storedLocally: 'As chaves são armazenadas apenas neste navegador.',
+        saved: 'Configurações salvas.',
+    },
+    notionSettings: {
+        title: 'Notion',
+        intro: 'Banco de dados onde "Enviar ao Notion" cria uma página por reunião. O token da integração é configurado no servidor.',
+        database: 'Banco de dados (link ou ID)',
+        databasePlaceholder: 'https://www.notion.so/...',
+        load: 'Carregar propriedades',
+        loading: 'Carregando...',
+        loaded: (name) => `Banco de dados: ${name}`,
+        untitledDatabase: 'Sem título',
+        invalidDatabase: 'Nenhum ID do Notion foi encontrado no link.',
+        properties: {
+            title: 'Título',
+            date: 'Data da reunião',
+            project: 'Projeto',
+            attendees: 'Participantes',
+        },
+        defaultTitle: 'Propriedade de título do banco',
+        notMapped: 'Não enviar',
+        typesHint: 'Só são listadas propriedades de tipo compatível: data ou texto para a data, seleção ou texto para o projeto e seleção múltipla ou texto para os participantes.',
+        loadHint: 'Carregue as propriedades do banco de dados para escolher onde vai cada dado.',
+    },
+    integrations: {
+        title: 'Integrações',
+        intro: 'Destinos para onde a ata pode ser enviada: webhooks, Slack, Microsoft Teams e e-mail. Envios feitos sem conexão esperam na caixa de saída.',
+        empty: 'Ainda não há integrações.',
+        add: 'Adicionar',
+        edit: 'Editar',
+        delete: 'Excluir',
+        deleteConfirm: (name) => `Excluir a integração "${name}"?`,
+        newTitle: (kind) => `Nova Integração: ${kind}`,
+        editTitle: 'Editar Integração',
+        kinds: {
+            webhook: 'Webhook JSON',
+            slack: 'Slack',
+            teams: 'Microsoft Teams',
+            email: 'E-mail',
+        },
+        name: 'Nome',
+        webhookUrl: 'URL do webhook',
+        relayUrl: 'URL do relay SMTP (opcional)',
+        urlHints: {
+            webhook: 'Recebe um POST com o JSON do modelo. O servidor deve permitir CORS.',
+            slack: 'Webhook de entrada do Slack (https://hooks.slack.com/...). Enviado pelo servidor do aplicativo.',
+            teams: 'Conector ou fluxo de trabalho do Teams. Enviado pelo servidor do aplicativo.',
+            email: 'Endpoint HTTP que recebe { to, subject, text } e envia o e-mail. Vazio para abrir o programa de e-mail.',
+        },
+        recipients: 'Destinatários',
+        jsonTemplate: 'Mensagem (JSON)',
+        emailTemplate: 'Corpo do e-mail',
+        placeholdersHint: (placeholders) => `Marcadores: ${placeholders} e {{section.<id>}} para uma seção do modelo.`,
+        enabled: 'Ativa',
+        disabled: 'Desativada',
+        testSend: 'Enviar teste',
+        testSent: 'Mensagem de teste enviada.',
+        testFailed: (message) => `Não foi possível enviar o teste: ${message}`,
+        outbox: 'Caixa de saída',
+        outboxEmpty: 'Não há envios.',
+        clearSent: 'Limpar enviados',
+        removeDelivery: 'Remover da caixa de saída',
+        panelTitle: 'Enviar para Integrações',
+        send: 'Enviar',
+        queuedOffline: 'Sem conexão: as mensagens sairão quando a conexão voltar.',
+        prepareFailed: (name, message) => `Não foi possível preparar a mensagem para ${name}: ${message}`,
+        status: {
+            queued: 'Na fila',
+            sending: 'Enviando...',
+            sent: 'Enviado',
+            failed: 'Falhou',
+            retrying: (time) => `Nova tentativa às ${time}`,
+            offline: 'Aguardando conexão',
+        },
+        defaults: {
+            summary: 'Resumo',
+            tasks: 'Tarefas',
+            attendees: 'Participantes',
+        },
+        sample: {
+            title: 'Teste de integração',
+            heading: 'Resumo',
+            summary: 'Mensagem de teste enviada pelo Minutas para verificar a integração.',
+            attendees: 'Ana, Luis',
+            tasks: '[ ] Verificar a integração - **Responsável:** Ana - **Prazo:** 2030-01-01',
+        },
+        errors: {
+            unknownPlaceholder: (name) => `O marcador {{${name}}} não existe.`,
+            invalidJson: (message) => `O modelo não produz um JSON válido: ${message}. Os marcadores devem ficar entre aspas.`,
+            tooLarge: 'A mensagem é grande demais.',
+            missingName: 'Digite um nome para a integração.',
+            invalidUrl: 'A URL não é válida.',
+            unexpectedHost: (kind) => `A URL não é um webhook do ${kind}.`,
+            missingRecipients: 'Informe pelo menos um endereço de e-mail.',
+            unreachable: (url) => `Não foi possível conectar a ${url}. Verifique a conexão e se o servidor permite CORS.`,
+            http: (status, details) => `O destino respondeu com o erro ${status}: ${details}`,
+            serviceFailed: 'O serviço de destino não respondeu. Será tentado novamente.',
+            webhookGone: 'O webhook não existe mais. Revise a URL da integração.',
+            rejected: 'O destino rejeitou a mensagem. Revise o modelo da integração.',
+            unknown: 'Ocorreu um erro desconhecido ao enviar.',
+        },
+    },
+    actionItems: {
+        title: 'Acompanhamento de Tarefas',
+        intro: 'As tarefas das atas são guardadas por projeto. Ao gerar a ata de outra reunião do mesmo projeto, as pendentes são incluídas para que o modelo informe o andamento delas.',
+        empty: 'Ainda não há tarefas. Elas são adicionadas ao gerar atas com nome de projeto.',
+        nothingPending: 'Não há tarefas pendentes.',
+        project: 'Projeto',
+        allProjects: 'Todos os projetos',
+        showDone: 'Mostrar concluídas',
+        projectTitle: (project) => `Tarefas anteriores de «${project}»`,
+        status: 'Status',
+        statuses: { open: 'Aberta', blocked: 'Bloqueada', done: 'Concluída' },
+        noOwner: 'Sem responsável',
+        noDueDate: 'Sem data',
+        overdue: 'atrasada',
+        overdueCount: (count) => count === 1 ? '1 atrasada' : `${count} atrasadas`,
+        agreedOn: (date) => `combinada em ${date}`,
+        progress: (text) => `Andamento: ${text}`,
+        delete: 'Remover do acompanhamento',
+        deleteConfirm: (task) => `Remover «${task}» do acompanhamento?`,
+        followUp: 'Acompanhamento de tarefas:',
+        detectProject: 'Detectar o projeto na transcrição',
+        noFollowUp: 'Nenhum',
+        projectOption: (project, count) => `${project} (${count} pendentes)`,
+    },
+    templates: {
+        title: 'Modelos de Ata',
+        intro: 'Defina quais seções a ata tem, o que cada uma deve conter e quais são obrigatórias.',
+        newTitle: 'Novo Modelo',
+        editTitle: 'Editar Modelo',
+        name: 'Nome',
+        copyName: (name) => `${name} (cópia)`,
+        sectionTitle: 'Título da seção',
+        moveUp: 'Subir seção',
+        moveDown: 'Descer seção',
+        removeSection: 'Excluir seção',
+        instructionsPlaceholder: 'Instruções para o modelo (o que esta seção deve conter)',
+        kind: 'Tipo:',
+        maxCharacters: 'Máx. caracteres:',
+        maxItems: 'Máx. itens:',
+        required: 'Obrigatória',
+        customSection: 'Seção personalizada',
+        newSectionTitle: 'Nova seção',
+        addSection: 'Adicionar seção',
+        edit: 'Editar modelo',
+        duplicate: 'Duplicar modelo',
+        export: 'Exportar modelo',
+        delete: 'Excluir modelo',
+        deleteConfirm: (name) => `Excluir o modelo "${name}"? As atas já geradas com ele não são alteradas.`,
+        create: 'Novo modelo',
+        import: 'Importar JSON',
+        saveFailed: 'Não foi possível salvar o modelo.',
+        importFailed: (name, message) => `Não foi possível importar "${name}": ${message}`,
+        importFailedUnknown: 'Não foi possível importar o modelo.',
+        kinds: {
+            text: 'Texto',
+            list: 'Lista',
+            tasks: 'Tarefas',
+            meeting: 'Próxima reunião',
+        },
+        errors: {
+            invalidSection: (number) => `A seção ${number} não tem um formato válido.`,
+            invalidSectionId: (number) => `A seção ${number} tem um identificador inválido.`,
+            missingSectionTitle: (number) => `A seção ${number} não tem título.`,
+            invalidKind: (number, title) => `A seção ${number} ("${title}") tem um tipo inválido.`,
+            invalidInstructions: (title) => `As instruções de "${title}" devem ser texto.`,
+            invalidMaxLength: (title) => `O limite de "${title}" deve ser um número inteiro positivo.`,
+            notTemplate: 'O arquivo não contém um modelo.',
+            missingName: 'O modelo não tem nome.',
+            noSections: 'O modelo deve ter pelo menos uma seção.',
+            duplicateSections: 'O modelo tem seções repetidas.',
+            defaultReadOnly: 'O modelo padrão não pode ser alterado.',
+            invalidJson: 'O arquivo não é um JSON válido.',
+        },
+    },
+    defaultTemplate: {
+        name: 'Ata padrão',
+        sections: {
+            summary: {
+                title: 'Resumo',
+                instructions: 'Resumo da reunião em um único parágrafo. Deve capturar a essência da discussão.',
+            },
+            projectName: {
+                title: 'Nome do projeto ou assunto',
+                instructions: 'Título do projeto ou tema principal. Se nenhum título explícito for mencionado, crie um título conciso e descritivo com base no resumo e nos temas tratados.',
+            },
+            objective: {
+                title: 'Objetivo da reunião',
+                instructions: 'Descreva brevemente por que a reunião foi realizada.',
+            },
+            topics: {
+                title: 'Temas tratados',
+                instructions: 'Os pontos discutidos, um por item. Resuma cada tema.',
+            },
+            decisions: {
+                title: 'Decisões tomadas',
+                instructions: 'O que foi acordado, de forma precisa, uma decisão por item.',
+            },
+            tasks: {
+                title: 'Compromissos e tarefas',
+                instructions: 'Os compromissos, com a tarefa, o responsável e a data no formato YYYY-MM-DD.',
+            },
+            nextSteps: {
+                title: 'Próximos passos',
+                instructions: 'As atividades-chave a acompanhar antes da próxima reunião.',
+            },
+            nextMeeting: {
+                title: 'Próxima reunião',
+                instructions: 'Data, hora e plataforma da próxima reunião.',
+            },
+        },
+    },
+};
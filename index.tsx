@@ -2,12 +2,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { getLocale } from './i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+document.documentElement.lang = getLocale();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,195 @@
+import { ActionItemProgress, ActionItemStatus, TrackedActionItem } from "../types";
+import { ActionItem } from "./actionItems";
+import { FollowUp, MAX_FOLLOW_UP_ITEMS, MAX_FOLLOW_UP_TEXT } from "./prompts";
+
+// Tasks followed up across the meetings of each project, in localStorage so
+// they outlive the session and are not lost when a meeting is deleted.
+const ACTION_ITEMS_KEY = 'minutas.actionItems';
+
+export const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['open', 'blocked', 'done'];
+
+// Project followed up by the next generation: detected from the transcript,
+// none, or one chosen by name.
+export type FollowUpChoice = 'auto' | 'none' | { project: string };
+
+const readItems = (): TrackedActionItem[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(ACTION_ITEMS_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+// Current snapshot; replaced (never mutated) on every change so React can
+// compare it by reference.
+let items: TrackedActionItem[] = readItems();
+const listeners = new Set<() => void>();
+
+function write(next: TrackedActionItem[]): void {
+    items = next;
+    try {
+        localStorage.setItem(ACTION_ITEMS_KEY, JSON.stringify(items));
+    } catch (error) {
+        console.error("Error saving the action items:", error);
+    }
+    listeners.forEach(listener => listener());
+}
+
+export const getTrackedItems = (): TrackedActionItem[] => items;
+
+export function subscribeTrackedItems(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+const createItemId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// "Rediseño web" and "rediseno  Web" are the same project.
+export const projectKey = (name: string): string =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const isPending = (item: TrackedActionItem): boolean => item.status !== 'done';
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// Today in the local time zone, so a task due today is not overdue yet.
+const today = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const isOverdue = (item: TrackedActionItem, date: string = today()): boolean =>
+    isPending(item) && !!item.dueDate && item.dueDate < date;
+
+export const projectItems = (list: TrackedActionItem[], project: string): TrackedActionItem[] =>
+    list.filter(item => projectKey(item.project) === projectKey(project));
+
+// Projects with tracked tasks, under the name of their latest meeting,
+// most recent first.
+export function listProjects(list: TrackedActionItem[] = items): string[] {
+    const latest = new Map<string, TrackedActionItem>();
+    for (const item of list) {
+        const key = projectKey(item.project);
+        const current = latest.get(key);
+        if (!current || item.meetingDate > current.meetingDate) latest.set(key, item);
+    }
+    return [...latest.values()].sort((a, b) => b.meetingDate - a.meetingDate).map(item => item.project);
+}
+
+/**
+ * Replaces the tasks tracked for a meeting with its current action items;
+ * an empty project stops tracking them. Status and progress carry over to the
+ * task with the same description, or else the same position, so editing the
+ * minutes keeps them.
+ */
+export function trackMeetingItems(project: string, meetingId: string, meetingDate: number, actionItems: ActionItem[]): void {
+    const previous = items.filter(item => item.meetingId === meetingId);
+    const others = items.filter(item => item.meetingId !== meetingId);
+    if (!project.trim()) {
+        if (previous.length > 0) write(others);
+        return;
+    }
+    const unmatched = new Set(previous);
+    const take = (match: TrackedActionItem | undefined) => {
+        if (match) unmatched.delete(match);
+        return match;
+    };
+    const byDescription = actionItems.map(actionItem =>
+        take([...unmatched].find(item => item.description === actionItem.description)));
+    const tracked = actionItems.map((actionItem, index): TrackedActionItem => {
+        const match = byDescription[index] ?? take([...unmatched].find(item => item.taskId === actionItem.id));
+        const next = {
+            project: project.trim(),
+            description: actionItem.description,
+            owner: actionItem.owner,
+            dueDate: actionItem.dueDate,
+            dueDateText: actionItem.dueDateText,
+            meetingId,
+            taskId: actionItem.id,
+            meetingDate: match?.meetingDate ?? meetingDate,
+        };
+        if (match && Object.entries(next).every(([key, value]) => match[key as keyof TrackedActionItem] === value)) {
+            return match;
+        }
+        return {
+            status: 'open',
+            ...match,
+            ...next,
+            id: match?.id ?? createItemId(),
+            updatedAt: Date.now(),
+        };
+    });
+    if (tracked.length === previous.length && tracked.every((item, index) => item === previous[index])) return;
+    write([...others, ...tracked]);
+}
+
+const update = (id: string, patch: Partial<TrackedActionItem>): void =>
+    write(items.map(item => (item.id === id ? { ...item, ...patch, updatedAt: Date.now() } : item)));
+
+export const setActionItemStatus = (id: string, status: ActionItemStatus): void => update(id, { status });
+
+export function deleteTrackedItem(id: string): void {
+    write(items.filter(item => item.id !== id));
+}
+
+// Stores the progress the model reported for tasks of earlier meetings.
+export function applyProgress(reports: ActionItemProgress[]): void {
+    const byId = new Map(reports.map(report => [report.id, report]));
+    if (!items.some(item => byId.has(item.id))) return;
+    write(items.map(item => {
+        const report = byId.get(item.id);
+        return report
+            ? { ...item, status: report.status, ...(report.progress && { progress: report.progress }), updatedAt: Date.now() }
+            : item;
+    }));
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The project with pending tasks whose name the transcript mentions; the
+// longest name wins, so "Web" does not hide "Web móvil".
+function detectProject(transcript: string): string | null {
+    const text = projectKey(transcript);
+    const mentioned = listProjects(items.filter(isPending))
+        .filter(project => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(projectKey(project))}($|[^\\p{L}\\p{N}])`, 'u').test(text));
+    return mentioned.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+const clip = (text: string): string =>
+    text.length > MAX_FOLLOW_UP_TEXT ? `${text.slice(0, MAX_FOLLOW_UP_TEXT - 1)}…` : text;
+
+/**
+ * Pending tasks of the project chosen for the next generation, or undefined
+ * when there are none to follow up. Tasks of the meeting itself, tracked by
+ * an earlier generation, are left out, and long projects send only their
+ * most recent tasks, within the limits of /api/minutes.
+ */
+export function buildFollowUp(choice: FollowUpChoice, transcript: string, meetingId?: string): FollowUp | undefined {
+    const project = choice === 'none' ? null : choice === 'auto' ? detectProject(transcript) : choice.project;
+    if (!project) return undefined;
+    const pending = projectItems(items, project)
+        .filter(item => isPending(item) && item.meetingId !== meetingId)
+        .sort((a, b) => a.meetingDate - b.meetingDate)
+        .slice(-MAX_FOLLOW_UP_ITEMS);
+    if (pending.length === 0) return undefined;
+    return {
+        project: clip(project),
+        items: pending.map(({ id, description, owner, dueDate, dueDateText, status }) => {
+            const due = dueDate ?? dueDateText;
+            return { id, description: clip(description), owner: owner && clip(owner), dueDate: due && clip(due), status };
+        }),
+    };
+}
+
+// Not remembered across sessions: the next meeting is often of another project.
+let followUpChoice: FollowUpChoice = 'auto';
+
+export const getFollowUpChoice = (): FollowUpChoice => followUpChoice;
+
+export function setFollowUpChoice(choice: FollowUpChoice): void {
+    followUpChoice = choice;
+}
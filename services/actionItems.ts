@@ -0,0 +1,92 @@
+import { Minutes, MinutesTask, MinutesTemplate, NextMeeting } from "../types";
+import { NOT_SPECIFIED } from "./minutesSchema";
+import { getSectionValue } from "./templates";
+import { parseInline, plainText } from "./markdown";
+
+// A task of the minutes ready for export: plain text, with the owner and due
+// date separated from the "not specified" placeholder.
+export interface ActionItem {
+    // Position among the tasks of the minutes, stable while they are not edited.
+    id: string;
+    description: string;
+    owner: string | null;
+    // YYYY-MM-DD when the due date could be read as a date.
+    dueDate: string | null;
+    // The due date as written, for dates that could not be read.
+    dueDateText: string | null;
+}
+
+const specified = (value: string): string | null => {
+    const text = value.trim();
+    return text && text !== NOT_SPECIFIED ? text : null;
+};
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Reads a date as YYYY-MM-DD. The model is asked for ISO dates; edited
+ * minutes may also use day/month/year, the order used in Spanish and
+ * Portuguese. Returns null for anything else.
+ */
+export function parseDate(text: string): string | null {
+    const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+    const local = text.match(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/);
+    const [year, month, day] = iso
+        ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+        : local ? [Number(local[3]), Number(local[2]), Number(local[1])] : [0, 0, 0];
+    return year && isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+}
+
+// Reads a time of day such as "15:30", "9h", "10:00 hrs" or "3 pm" as HH:MM.
+export function parseTime(text: string): string | null {
+    const match = text.match(/(\d{1,2})(?:[:.h](\d{2}))?\s*(a\.?m\.?|p\.?m\.?|hrs?|h)?(?!\w)/i);
+    // A bare number is too ambiguous to be a time.
+    if (!match || (match[2] === undefined && !match[3])) return null;
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] ?? 0);
+    const suffix = match[3]?.toLowerCase().replace(/\./g, '');
+    if (suffix === 'pm' && hours < 12) hours += 12;
+    if (suffix === 'am' && hours === 12) hours = 0;
+    return hours < 24 && minutes < 60 ? `${pad(hours)}:${pad(minutes)}` : null;
+}
+
+const toActionItem = (task: MinutesTask, index: number): ActionItem => {
+    const due = specified(task.dueDate);
+    const dueDate = due ? parseDate(due) : null;
+    return {
+        id: String(index),
+        description: plainText(parseInline(task.description)),
+        owner: specified(task.owner),
+        dueDate,
+        dueDateText: dueDate ? null : due,
+    };
+};
+
+// The tasks of every task section of the template, in order.
+export function extractActionItems(minutes: Minutes, template: MinutesTemplate): ActionItem[] {
+    return template.sections
+        .filter(section => section.kind === 'tasks')
+        .flatMap(section => getSectionValue(minutes, section) as MinutesTask[])
+        .filter(task => specified(task.description))
+        .map(toActionItem);
+}
+
+export interface MeetingTime {
+    date: string;
+    // HH:MM, or null for an all-day entry.
+    time: string | null;
+    platform: string | null;
+}
+
+// The next meeting, if its date can be read.
+export function parseNextMeeting(meeting: NextMeeting): MeetingTime | null {
+    const date = specified(meeting.date) && parseDate(meeting.date);
+    if (!date) return null;
+    const time = specified(meeting.time);
+    return { date, time: time && parseTime(time), platform: specified(meeting.platform) };
+}
@@ -0,0 +1,47 @@
+import { ProviderSettings, TranscriptSegment } from "../types";
+import { AudioPart, MinutesRequest } from "./prompts";
+import { getProviderSettings } from "./providerSettings";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createLocalProvider } from "./localProvider";
+import { createMockProvider } from "./mockProvider";
+
+export interface TranscriptionRequest {
+    audio: Blob;
+    // Set when the audio is one segment of a longer recording.
+    part?: AudioPart;
+}
+
+export interface GenerationOptions {
+    // Aborts the request; the provider then rejects with an `AbortError`.
+    signal?: AbortSignal;
+    // Called as the answer streams in, with all the text received so far.
+    onText?: (text: string) => void;
+}
+
+/**
+ * A backend for transcription and minutes generation. Providers build their
+ * prompts with `services/prompts`; retries, validation and error messages
+ * stay in `geminiService`.
+ */
+export interface AiProvider {
+    transcribe(request: TranscriptionRequest): Promise<TranscriptSegment[]>;
+    // Resolves to the JSON text of the answer; the caller validates it.
+    generateMinutes(request: MinutesRequest, options?: GenerationOptions): Promise<string>;
+}
+
+// Provider selected in the settings. Created on every call so changes to the
+// settings apply to the next request.
+export function getProvider(settings: ProviderSettings = getProviderSettings()): AiProvider {
+    switch (settings.provider) {
+        case 'openai':
+            return createOpenAiProvider(settings.openai);
+        case 'local':
+            return createLocalProvider(settings.local);
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings.gemini);
+    }
+}
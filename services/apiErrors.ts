@@ -0,0 +1,90 @@
+import { ErrorCategory } from "../types";
+import { messages } from "../i18n";
+
+// Error codes returned by the server routes under /api. The browser turns
+// them into messages in the interface language.
+export type ApiErrorCode =
+    | 'INVALID_REQUEST'
+    | 'PAYLOAD_TOO_LARGE'
+    | 'RATE_LIMITED'
+    | 'NOT_CONFIGURED'
+    | 'NOT_FOUND'
+    | 'UPSTREAM_FAILED'
+    | 'INVALID_MODEL_RESPONSE'
+    | 'SAFETY_BLOCKED';
+
+export interface ApiErrorBody {
+    error: {
+        code: ApiErrorCode;
+        // Details in English for logs; not shown to the user.
+        message: string;
+        retryAfterSeconds?: number;
+    };
+}
+
+// Line of the NDJSON stream sent by /api/minutes. Failures after the answer
+// has started are reported in the stream, since the status is already sent.
+export type ApiStreamEvent = { text: string } | ApiErrorBody;
+
+export class ApiError extends Error {
+    code: ApiErrorCode;
+    retryAfterSeconds?: number;
+
+    constructor(code: ApiErrorCode, message: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+const API_ERROR_CATEGORIES: Record<ApiErrorCode, ErrorCategory> = {
+    INVALID_REQUEST: 'invalidInput',
+    PAYLOAD_TOO_LARGE: 'invalidInput',
+    RATE_LIMITED: 'rateLimit',
+    NOT_CONFIGURED: 'configuration',
+    NOT_FOUND: 'configuration',
+    UPSTREAM_FAILED: 'network',
+    INVALID_MODEL_RESPONSE: 'invalidOutput',
+    SAFETY_BLOCKED: 'safety',
+};
+
+const API_ERROR_CODES = Object.keys(API_ERROR_CATEGORIES) as ApiErrorCode[];
+
+export const apiErrorCategory = (error: ApiError): ErrorCategory => API_ERROR_CATEGORIES[error.code];
+
+// Reads the error body of a failed /api response. Bodies that do not follow
+// the format (a platform error page, for instance) count as upstream failures.
+export function parseApiError(status: number, body: string): ApiError {
+    try {
+        const { error } = JSON.parse(body) as Partial<ApiErrorBody>;
+        if (error && API_ERROR_CODES.includes(error.code)) {
+            return new ApiError(error.code, error.message, error.retryAfterSeconds);
+        }
+    } catch {
+        // Not JSON; fall through.
+    }
+    return new ApiError(status === 413 ? 'PAYLOAD_TOO_LARGE' : 'UPSTREAM_FAILED', `HTTP ${status}: ${body.slice(0, 300)}`);
+}
+
+export function describeApiError(error: ApiError): string {
+    const t = messages().errors.api;
+    switch (error.code) {
+        case 'INVALID_REQUEST':
+            return t.invalidRequest;
+        case 'PAYLOAD_TOO_LARGE':
+            return t.payloadTooLarge;
+        case 'RATE_LIMITED':
+            return t.rateLimited(error.retryAfterSeconds ?? 60);
+        case 'NOT_CONFIGURED':
+            return t.notConfigured;
+        case 'NOT_FOUND':
+            return t.notFound;
+        case 'UPSTREAM_FAILED':
+            return t.upstreamFailed;
+        case 'INVALID_MODEL_RESPONSE':
+            return t.invalidModelResponse;
+        case 'SAFETY_BLOCKED':
+            return t.safetyBlocked;
+    }
+}
@@ -0,0 +1,130 @@
+// Capture and encoding of recordings. Only audio is uploaded, so the
+// recorder gets just the sources' audio, mixed and compressed with Opus.
+
+// Opus bitrates of the recorder. MediaRecorder defaults to ~128 kbps, far
+// more than speech needs to be transcribed reliably.
+export const RECORDING_BITRATE = 32_000;
+export const SPEECH_MODE_BITRATE = 16_000;
+// Sample rate of speech mode, the rate transcription models work at.
+export const SPEECH_MODE_SAMPLE_RATE = 16_000;
+
+// In order of preference; Safari only records MP4.
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4;codecs=opus', 'audio/mp4'];
+
+const DOWNMIX_PROCESSOR = 'speech-downmix';
+
+// Averages the channels of its input into a single one. Loaded from a Blob
+// URL since the worklet scope has its own module graph.
+const DOWNMIX_PROCESSOR_SOURCE = `
+class SpeechDownmixProcessor extends AudioWorkletProcessor {
+    process(inputs, outputs) {
+        const input = inputs[0];
+        const output = outputs[0][0];
+        if (input.length === 0) return true;
+        for (let i = 0; i < output.length; i++) {
+            let sum = 0;
+            for (let channel = 0; channel < input.length; channel++) sum += input[channel][i];
+            output[i] = sum / input.length;
+        }
+        return true;
+    }
+}
+registerProcessor('${DOWNMIX_PROCESSOR}', SpeechDownmixProcessor);
+`;
+
+export function createRecorder(stream: MediaStream, speechMode: boolean): MediaRecorder {
+    const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    return new MediaRecorder(stream, {
+        ...(mimeType && { mimeType }),
+        audioBitsPerSecond: speechMode ? SPEECH_MODE_BITRATE : RECORDING_BITRATE,
+    });
+}
+
+/**
+ * Asks the user for a tab to share and returns its audio. Browsers require
+ * screen capture to include video, so the smallest video is requested and
+ * its track stopped right away; the returned stream only has audio tracks,
+ * possibly none if the user did not share the tab's audio.
+ */
+export async function captureTabAudio(): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: { width: 1, height: 1, frameRate: 1 },
+        audio: true,
+    });
+    stream.getVideoTracks().forEach(track => {
+        track.stop();
+        stream.removeTrack(track);
+    });
+    return stream;
+}
+
+export function captureMicrophone(microphoneId: string): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+        audio: {
+            ...(microphoneId && { deviceId: { exact: microphoneId } }),
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+        },
+    });
+}
+
+export interface RecordingMix {
+    context: AudioContext;
+    // The mixed audio, to be recorded.
+    stream: MediaStream;
+    // One analyser per input, in the order given, for level meters.
+    analysers: AnalyserNode[];
+    // False when speech mode was asked for but the browser could not run it.
+    speechMode: boolean;
+}
+
+const buildMix = async (inputs: MediaStream[], speechMode: boolean): Promise<RecordingMix> => {
+    // In speech mode the context runs at 16 kHz, so each source is resampled
+    // once on its way in, and the downmix worklet folds the mix into mono.
+    const context = new AudioContext(speechMode ? { sampleRate: SPEECH_MODE_SAMPLE_RATE } : {});
+    try {
+        const destination = context.createMediaStreamDestination();
+        let mixInput: AudioNode = destination;
+        if (speechMode) {
+            const moduleUrl = URL.createObjectURL(new Blob([DOWNMIX_PROCESSOR_SOURCE], { type: 'text/javascript' }));
+            try {
+                await context.audioWorklet.addModule(moduleUrl);
+            } finally {
+                URL.revokeObjectURL(moduleUrl);
+            }
+            const downmix = new AudioWorkletNode(context, DOWNMIX_PROCESSOR, { outputChannelCount: [1] });
+            destination.channelCount = 1;
+            downmix.connect(destination);
+            mixInput = downmix;
+        }
+        const analysers = inputs.map(stream => {
+            const source = context.createMediaStreamSource(stream);
+            const analyser = context.createAnalyser();
+            analyser.fftSize = 1024;
+            source.connect(mixInput);
+            source.connect(analyser);
+            return analyser;
+        });
+        return { context, stream: destination.stream, analysers, speechMode };
+    } catch (error) {
+        context.close();
+        throw error;
+    }
+};
+
+/**
+ * Mixes the input streams into one for the recorder. Speech mode falls back
+ * to the normal mix in browsers that cannot connect a stream to a context
+ * running at another sample rate, or that lack AudioWorklet.
+ */
+export async function createRecordingMix(inputs: MediaStream[], speechMode: boolean): Promise<RecordingMix> {
+    if (speechMode) {
+        try {
+            return await buildMix(inputs, true);
+        } catch (error) {
+            console.warn("Speech mode is not available, recording at the native sample rate:", error);
+        }
+    }
+    return buildMix(inputs, false);
+}
@@ -0,0 +1,146 @@
+import { messages } from "../i18n";
+import { AudioSegment, MAX_AUDIO_UPLOAD_BYTES, RECORDER_TIMESLICE_MS, SLICES_PER_SEGMENT, OVERLAP_SLICES } from "./audioSegments";
+
+export const ACCEPTED_MEDIA_TYPES = [
+    'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/x-m4a', 'audio/m4a', 'audio/aac',
+    'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/webm', 'audio/ogg', 'audio/flac',
+    'video/mp4', 'video/webm', 'video/quicktime',
+];
+const ACCEPTED_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav', 'webm', 'ogg', 'flac', 'mp4', 'mov'];
+const VIDEO_EXTENSIONS = ['mp4', 'mov'];
+
+// Decoding happens in memory, so very large files would exhaust the tab.
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+// Audio files up to `MAX_AUDIO_UPLOAD_BYTES`, in a format the model reads
+// directly, are sent as they are in a single request.
+const INLINE_AUDIO_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/flac', 'audio/aac', 'audio/webm'];
+// Uploaded audio is downmixed and resampled before being split into segments.
+export const TARGET_SAMPLE_RATE = 16000;
+
+const SEGMENT_SECONDS = (SLICES_PER_SEGMENT * RECORDER_TIMESLICE_MS) / 1000;
+const OVERLAP_SECONDS = (OVERLAP_SLICES * RECORDER_TIMESLICE_MS) / 1000;
+const WAV_HEADER_BYTES = 44;
+// 16-bit samples.
+const WAV_BYTES_PER_SAMPLE = 2;
+
+const fileExtension = (file: File): string => file.name.split('.').pop()?.toLowerCase() ?? '';
+
+const isVideoFile = (file: File): boolean =>
+    file.type.startsWith('video/') || (!file.type && VIDEO_EXTENSIONS.includes(fileExtension(file)));
+
+/**
+ * Checks type and size of a file chosen for upload. Returns an error message
+ * for the user, or `null` if the file can be processed.
+ */
+export function validateMediaFile(file: File): string | null {
+    const typeAccepted = file.type
+        ? ACCEPTED_MEDIA_TYPES.includes(file.type.split(';')[0])
+        : ACCEPTED_EXTENSIONS.includes(fileExtension(file));
+    if (!typeAccepted) {
+        return messages().media.unsupportedFormat(file.name);
+    }
+    if (file.size === 0) {
+        return messages().media.emptyFile(file.name);
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+        return messages().media.tooLarge(file.name, MAX_UPLOAD_BYTES / (1024 * 1024));
+    }
+    return null;
+}
+
+const writeString = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+};
+
+// Size of the WAV file `encodeWav` makes from this many samples.
+export const wavSize = (sampleCount: number): number => WAV_HEADER_BYTES + sampleCount * WAV_BYTES_PER_SAMPLE;
+
+// Encodes mono float samples as a 16-bit PCM WAV file.
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(wavSize(samples.length));
+    const view = new DataView(buffer);
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+    return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Decodes the audio track of an audio or video file and returns it as mono
+ * samples at `TARGET_SAMPLE_RATE`.
+ */
+export async function decodeToMono(file: Blob): Promise<Float32Array> {
+    const data = await file.arrayBuffer();
+    const context = new AudioContext({ sampleRate: TARGET_SAMPLE_RATE });
+    try {
+        const decoded = await context.decodeAudioData(data);
+        const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * TARGET_SAMPLE_RATE), TARGET_SAMPLE_RATE);
+        const source = offline.createBufferSource();
+        source.buffer = decoded;
+        source.connect(offline.destination);
+        source.start();
+        const rendered = await offline.startRendering();
+        return rendered.getChannelData(0);
+    } finally {
+        context.close();
+    }
+}
+
+/**
+ * Splits mono samples into overlapping WAV segments matching the recorder's,
+ * shortened so each one, overlap included, fits in `MAX_AUDIO_UPLOAD_BYTES`
+ * (about two minutes at `TARGET_SAMPLE_RATE`).
+ */
+export function splitIntoWavSegments(samples: Float32Array, sampleRate: number = TARGET_SAMPLE_RATE): AudioSegment[] {
+    const overlapLength = OVERLAP_SECONDS * sampleRate;
+    const maxSamples = Math.floor((MAX_AUDIO_UPLOAD_BYTES - WAV_HEADER_BYTES) / WAV_BYTES_PER_SAMPLE);
+    const segmentLength = Math.min(SEGMENT_SECONDS, Math.floor(maxSamples / sampleRate) - OVERLAP_SECONDS) * sampleRate;
+    const segments: AudioSegment[] = [];
+    for (let start = 0; start < samples.length; start += segmentLength) {
+        const from = Math.max(0, start - (start > 0 ? overlapLength : 0));
+        const end = Math.min(start + segmentLength, samples.length);
+        segments.push({
+            blob: encodeWav(samples.subarray(from, end), sampleRate),
+            offset: from / sampleRate,
+        });
+    }
+    return segments;
+}
+
+/**
+ * Turns an uploaded file into transcription segments. Small audio files are
+ * sent unchanged; video files and long recordings have their audio track
+ * extracted and split into WAV segments.
+ */
+export async function prepareUploadedMedia(file: File): Promise<AudioSegment[]> {
+    if (!isVideoFile(file) && file.size <= MAX_AUDIO_UPLOAD_BYTES && INLINE_AUDIO_TYPES.includes(file.type)) {
+        return [{ blob: file, offset: 0 }];
+    }
+    let samples: Float32Array;
+    try {
+        samples = await decodeToMono(file);
+    } catch (error) {
+        console.error("Error decoding uploaded media:", error);
+        throw new Error(messages().media.extractionFailed(file.name));
+    }
+    if (samples.length === 0) {
+        throw new Error(messages().media.noAudio(file.name));
+    }
+    return splitIntoWavSegments(samples);
+}
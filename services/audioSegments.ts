@@ -0,0 +1,88 @@
+// MediaRecorder emits one small Blob per timeslice. Only the first one carries
+// the container header (WebM EBML/Tracks or MP4 ftyp/moov), so the slices
+// are regrouped here into longer segments that can be decoded on their own.
+
+// Length of each MediaRecorder timeslice. Slices are also persisted as they
+// arrive, so this bounds how much audio a crash can lose.
+export const RECORDER_TIMESLICE_MS = 10_000;
+// Number of timeslices per transcription segment (5 minutes, about 1.2 MB
+// at the recorder's bitrate).
+export const SLICES_PER_SEGMENT = 30;
+// Number of trailing slices from the previous segment repeated at the start
+// of the next one, so no words are lost at the boundary.
+export const OVERLAP_SLICES = 1;
+// Largest audio sent in a single transcription request. Vercel rejects
+// request bodies over 4.5 MB; the rest is left for the multipart form.
+export const MAX_AUDIO_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+const WEBM_CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const MP4_MOOF_TYPE = [0x6d, 0x6f, 0x6f, 0x66]; // "moof"
+
+const indexOfBytes = (haystack: Uint8Array, needle: number[]): number => {
+    outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+        for (let j = 0; j < needle.length; j++) {
+            if (haystack[i + j] !== needle[j]) continue outer;
+        }
+        return i;
+    }
+    return -1;
+};
+
+/**
+ * Returns the container header (everything before the first media cluster
+ * or fragment) of the first recorded slice. Falls back to the whole slice
+ * if the container is not recognized.
+ */
+export async function extractContainerHeader(firstSlice: Blob): Promise<Blob> {
+    const bytes = new Uint8Array(await firstSlice.arrayBuffer());
+    if (firstSlice.type.includes('mp4')) {
+        const moofIndex = indexOfBytes(bytes, MP4_MOOF_TYPE);
+        // The box size (4 bytes) precedes the box type.
+        if (moofIndex >= 4) {
+            return firstSlice.slice(0, moofIndex - 4, firstSlice.type);
+        }
+    } else {
+        const clusterIndex = indexOfBytes(bytes, WEBM_CLUSTER_ID);
+        if (clusterIndex > 0) {
+            return firstSlice.slice(0, clusterIndex, firstSlice.type);
+        }
+    }
+    return firstSlice;
+}
+
+export interface AudioSegment {
+    blob: Blob;
+    // Position of the segment's first slice in the full recording, in seconds.
+    offset: number;
+}
+
+/**
+ * Segment `index` of a recording split into `slicesPerSegment` slices, each
+ * overlapping the previous one by `OVERLAP_SLICES`. Only the slices it spans
+ * are read, so a segment can be built while the recording goes on.
+ */
+export function buildAudioSegment(slices: Blob[], header: Blob, mimeType: string, index: number, slicesPerSegment = SLICES_PER_SEGMENT): AudioSegment {
+    const start = index * slicesPerSegment;
+    const end = Math.min(start + slicesPerSegment, slices.length);
+    if (start === 0) {
+        return { blob: new Blob(slices.slice(0, end), { type: mimeType }), offset: 0 };
+    }
+    const overlapStart = Math.max(1, start - OVERLAP_SLICES);
+    return {
+        blob: new Blob([header, ...slices.slice(overlapStart, end)], { type: mimeType }),
+        offset: (overlapStart * RECORDER_TIMESLICE_MS) / 1000,
+    };
+}
+
+/**
+ * Groups recorder slices into independently decodable segments of
+ * `slicesPerSegment` slices, each overlapping the previous one by
+ * `OVERLAP_SLICES`.
+ */
+export async function buildAudioSegments(slices: Blob[], mimeType: string, slicesPerSegment = SLICES_PER_SEGMENT): Promise<AudioSegment[]> {
+    if (slices.length === 0) return [];
+
+    const header = await extractContainerHeader(slices[0]);
+    return Array.from({ length: Math.ceil(slices.length / slicesPerSegment) }, (_, index) =>
+        buildAudioSegment(slices, header, mimeType, index, slicesPerSegment));
+}
@@ -0,0 +1,93 @@
+import { CitationStatus, Minutes, MinutesTask, TemplateSection, TranscriptSegment } from "../types";
+import { getSectionValue, withSectionValue } from "./templates";
+import { normalizeWord } from "./transcript";
+
+// Quotes are compared word by word, ignoring case, accents and punctuation.
+// A longer quote still counts when a few of its words differ (the model
+// dropping a filler word or fixing a typo), as long as this share of them
+// appears in order within a passage of about the same length.
+const MIN_QUOTE_MATCH = 0.8;
+// Extra words allowed in the passage on top of the quote's own.
+const PASSAGE_SLACK = 1.25;
+// Shorter quotes must match exactly.
+const MIN_FUZZY_QUOTE_WORDS = 4;
+
+const toWords = (text: string): string[] => text.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+// Length of the longest common subsequence of two word lists.
+const commonWords = (a: string[], b: string[]): number => {
+    let previous = new Array(b.length + 1).fill(0);
+    for (const word of a) {
+        const current = [0];
+        b.forEach((other, j) => current.push(word === other ? previous[j] + 1 : Math.max(previous[j + 1], current[j])));
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const containsQuote = (passage: string[], quote: string[]): boolean => {
+    if (quote.length === 0) return false;
+    if (` ${passage.join(' ')} `.includes(` ${quote.join(' ')} `)) return true;
+    if (quote.length < MIN_FUZZY_QUOTE_WORDS) return false;
+    const window = Math.ceil(quote.length * PASSAGE_SLACK);
+    const openers = new Set(quote.slice(0, 3));
+    for (let start = 0; start < passage.length; start++) {
+        if (!openers.has(passage[start])) continue;
+        if (commonWords(quote, passage.slice(start, start + window)) >= quote.length * MIN_QUOTE_MATCH) return true;
+    }
+    return false;
+};
+
+/**
+ * Verification pass over freshly generated minutes: an item is supported
+ * when at least one of its quotes can be found in the transcript. Items the
+ * user already confirmed are left alone.
+ */
+export function verifyCitations(minutes: Minutes, transcript: string): Minutes {
+    if (!minutes.citations) return minutes;
+    const transcriptWords = toWords(transcript);
+    const citations = Object.fromEntries(Object.entries(minutes.citations).map(([sectionId, items]) => [
+        sectionId,
+        items.map(citation => citation.status === 'confirmed' ? citation : {
+            ...citation,
+            status: (citation.quotes.some(quote => containsQuote(transcriptWords, toWords(quote))) ? 'supported' : 'unsupported') as CitationStatus,
+        }),
+    ]));
+    return { ...minutes, citations };
+}
+
+// Segment where the first quote that can be found starts, or null.
+export function findQuotedSegment(quotes: string[], segments: TranscriptSegment[]): number | null {
+    const segmentWords = segments.map(segment => toWords(segment.text));
+    for (const quote of quotes.map(toWords)) {
+        const index = segmentWords.findIndex(words => containsQuote(words, quote));
+        if (index !== -1) return index;
+        // A quote can run over into the next turn.
+        const start = segmentWords.findIndex((words, i) => i + 1 < segmentWords.length && containsQuote([...words, ...segmentWords[i + 1]], quote));
+        if (start !== -1) return start;
+    }
+    return null;
+}
+
+// Items no evidence was found for and the user has not yet confirmed.
+export const countUnsupported = (minutes: Minutes): number =>
+    Object.values(minutes.citations ?? {}).flat().filter(citation => citation.status === 'unsupported').length;
+
+// Marks an unsupported item as checked by the user.
+export function confirmItem(minutes: Minutes, sectionId: string, index: number): Minutes {
+    const items = minutes.citations?.[sectionId];
+    if (!items?.[index]) return minutes;
+    return {
+        ...minutes,
+        citations: {
+            ...minutes.citations,
+            [sectionId]: items.map((citation, i) => (i === index ? { ...citation, status: 'confirmed' as CitationStatus } : citation)),
+        },
+    };
+}
+
+export function removeItem(minutes: Minutes, section: TemplateSection, index: number): Minutes {
+    const items = getSectionValue(minutes, section) as string[] | MinutesTask[];
+    const remaining = (items as unknown[]).filter((_, i) => i !== index) as string[] | MinutesTask[];
+    return withSectionValue(minutes, section, remaining);
+}
@@ -0,0 +1,248 @@
+import { DocumentBlock, MinutesDocument } from "./minutesDocument";
+import { ExportLogo } from "./exportBranding";
+import { MarkdownList, TextRun } from "./markdown";
+import { createZip } from "./zipWriter";
+
+// Writes the minutes as a WordprocessingML package: the document, its styles
+// and the numbering definitions of its lists, plus the logo when there is one.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// A4 with 2.5 cm margins, in twentieths of a point.
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1418;
+// Widths of the checkbox, task, owner and due date columns.
+const TASK_COLUMNS = [700, PAGE_WIDTH - 2 * PAGE_MARGIN - 700 - 2000 - 1500, 2000, 1500];
+
+// English Metric Units per CSS pixel, for the logo size.
+const EMU_PER_PIXEL = 9525;
+const LOGO_MAX_WIDTH = 200;
+const LOGO_MAX_HEIGHT = 64;
+
+const ACCENT_COLOR = '1E3A8A';
+const BORDER_COLOR = 'D1D5DB';
+const HEADER_FILL = 'E5E7EB';
+
+const BULLETS = ['•', '◦', '▪'];
+
+const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const run = (text: string, { bold = false, italic = false }: Omit<TextRun, 'text'> = {}): string => {
+    const properties = `${bold ? '<w:b/>' : ''}${italic ? '<w:i/>' : ''}`;
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const runs = (textRuns: TextRun[]): string => textRuns.map(textRun => run(textRun.text, textRun)).join('');
+
+const paragraph = (content: string, properties = ''): string =>
+    `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+const styled = (style: string, extra = ''): string => `<w:pStyle w:val="${style}"/>${extra}`;
+
+// Numbering of the lists found while writing the body. Every top-level list
+// gets its own definition so numbered lists start again from 1.
+interface Numbering {
+    // Format of each level of each list, by numbering id (from 1).
+    lists: ('bullet' | 'decimal')[][];
+}
+
+const collectLevels = (list: MarkdownList, levels: ('bullet' | 'decimal')[], depth = 0) => {
+    levels[depth] ??= list.ordered ? 'decimal' : 'bullet';
+    list.items.forEach(item => item.children && collectLevels(item.children, levels, depth + 1));
+};
+
+const listParagraphs = (list: MarkdownList, numId: number, depth = 0): string[] =>
+    list.items.flatMap(item => [
+        paragraph(runs(item.runs), styled('ListParagraph', `<w:numPr><w:ilvl w:val="${depth}"/><w:numId w:val="${numId}"/></w:numPr>`)),
+        ...(item.children ? listParagraphs(item.children, numId, depth + 1) : []),
+    ]);
+
+const checkbox = (): string =>
+    '<w:sdt><w:sdtPr><w14:checkbox><w14:checked w14:val="0"/>'
+    + '<w14:checkedState w14:val="2612" w14:font="MS Gothic"/><w14:uncheckedState w14:val="2610" w14:font="MS Gothic"/>'
+    + '</w14:checkbox></w:sdtPr><w:sdtContent><w:r><w:rPr><w:rFonts w:ascii="MS Gothic" w:eastAsia="MS Gothic" w:hAnsi="MS Gothic"/></w:rPr>'
+    + '<w:t>☐</w:t></w:r></w:sdtContent></w:sdt>';
+
+const cell = (width: number, content: string, { header = false, center = false } = {}): string =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? `<w:shd w:val="clear" w:color="auto" w:fill="${HEADER_FILL}"/>` : ''}</w:tcPr>`
+    + paragraph(content, `<w:spacing w:after="0"/>${center ? '<w:jc w:val="center"/>' : ''}`)
+    + '</w:tc>';
+
+const tasksTable = (block: Extract<DocumentBlock, { type: 'tasks' }>, doc: MinutesDocument): string => {
+    const { labels } = doc;
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${BORDER_COLOR}"/>`;
+    const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${[labels.done, labels.task, labels.owner, labels.dueDate]
+        .map((label, i) => cell(TASK_COLUMNS[i], run(label, { bold: true }), { header: true, center: i === 0 }))
+        .join('')}</w:tr>`;
+    const rows = block.tasks.map(task => '<w:tr><w:trPr><w:cantSplit/></w:trPr>'
+        + cell(TASK_COLUMNS[0], checkbox(), { center: true })
+        + cell(TASK_COLUMNS[1], runs(task.description))
+        + cell(TASK_COLUMNS[2], run(task.owner))
+        + cell(TASK_COLUMNS[3], run(task.dueDate))
+        + '</w:tr>');
+    return '<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>'
+        + `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>`
+        + '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>'
+        + `</w:tblPr><w:tblGrid>${TASK_COLUMNS.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>`
+        + header + rows.join('')
+        + '</w:tbl>'
+        // Word needs a paragraph between a table and what follows it.
+        + paragraph('', '<w:spacing w:after="0"/>');
+};
+
+const blockXml = (block: DocumentBlock, doc: MinutesDocument, numbering: Numbering): string => {
+    switch (block.type) {
+        case 'paragraph':
+            return paragraph(runs(block.runs));
+        case 'list': {
+            const levels: ('bullet' | 'decimal')[] = [];
+            collectLevels(block.list, levels);
+            numbering.lists.push(levels);
+            return listParagraphs(block.list, numbering.lists.length).join('');
+        }
+        case 'tasks':
+            return tasksTable(block, doc);
+        case 'fields':
+            return block.fields.map(field => paragraph(run(`${field.label}: `, { bold: true }) + run(field.value), '<w:spacing w:after="40"/>')).join('');
+    }
+};
+
+const logoXml = (logo: ExportLogo): string => {
+    const scale = Math.min(1, LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height);
+    const cx = Math.round(logo.width * scale * EMU_PER_PIXEL);
+    const cy = Math.round(logo.height * scale * EMU_PER_PIXEL);
+    return paragraph(
+        '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">'
+        + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/>`
+        + '<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/></wp:cNvGraphicFramePr>'
+        + '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + '<pic:nvPicPr><pic:cNvPr id="0" name="logo.png"/><pic:cNvPicPr/></pic:nvPicPr>'
+        + '<pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>'
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+        + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>',
+        '<w:spacing w:after="240"/>',
+    );
+};
+
+const documentXml = (doc: MinutesDocument, logo: ExportLogo | null, numbering: Numbering): string => {
+    const { labels } = doc;
+    const meta = [
+        [labels.date, doc.date],
+        ...(doc.attendees.length > 0 ? [[labels.attendees, doc.attendees.join(', ')]] : []),
+    ];
+    const rule = `<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="8" w:color="${ACCENT_COLOR}"/></w:pBdr>`;
+    const header = [
+        logo ? logoXml(logo) : '',
+        paragraph(run(doc.title), styled('Title')),
+        ...meta.map(([label, value], i) =>
+            paragraph(run(`${label}: `, { bold: true }) + run(value), styled('MinutesMeta', i === meta.length - 1 ? rule : ''))),
+    ];
+    const body = doc.sections.flatMap(section => [
+        paragraph(run(section.heading), styled('Heading1')),
+        ...section.blocks.map(block => blockXml(block, doc, numbering)),
+    ]);
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"`
+        + ' xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"'
+        + ' xmlns:w14="http://schemas.microsoft.com/office/word/2010/wordml"'
+        + ' xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006" mc:Ignorable="w14">'
+        + `<w:body>${header.join('')}${body.join('')}`
+        + `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`
+        + `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/>`
+        + '</w:sectPr></w:body></w:document>';
+};
+
+const numberingXml = (numbering: Numbering): string => {
+    const level = (format: 'bullet' | 'decimal', depth: number) =>
+        `<w:lvl w:ilvl="${depth}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>`
+        + `<w:lvlText w:val="${format === 'bullet' ? BULLETS[depth % BULLETS.length] : `%${depth + 1}.`}"/><w:lvlJc w:val="left"/>`
+        + `<w:pPr><w:ind w:left="${360 * (depth + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+    const abstracts = numbering.lists.map((levels, i) =>
+        `<w:abstractNum w:abstractNumId="${i + 1}"><w:multiLevelType w:val="hybridMultilevel"/>`
+        + Array.from({ length: 9 }, (_, depth) => level(levels[depth] ?? levels[levels.length - 1], depth)).join('')
+        + '</w:abstractNum>');
+    const nums = numbering.lists.map((_, i) => `<w:num w:numId="${i + 1}"><w:abstractNumId w:val="${i + 1}"/></w:num>`);
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:numbering xmlns:w="${W_NS}">${abstracts.join('')}${nums.join('')}</w:numbering>`;
+};
+
+const stylesXml = (): string => {
+    const paragraphStyle = (id: string, name: string, properties: string, runProperties = '') =>
+        `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+        + `<w:pPr>${properties}</w:pPr>${runProperties ? `<w:rPr>${runProperties}</w:rPr>` : ''}</w:style>`;
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + `<w:styles xmlns:w="${W_NS}"><w:docDefaults>`
+        + '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="1F2937"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>'
+        + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>'
+        + '</w:docDefaults>'
+        + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+        + paragraphStyle('Title', 'Title', '<w:spacing w:after="120"/>', `<w:b/><w:color w:val="${ACCENT_COLOR}"/><w:sz w:val="48"/><w:szCs w:val="48"/>`)
+        + paragraphStyle('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>', `<w:b/><w:color w:val="${ACCENT_COLOR}"/><w:sz w:val="28"/><w:szCs w:val="28"/>`)
+        + paragraphStyle('ListParagraph', 'List Paragraph', '<w:spacing w:after="60"/><w:contextualSpacing/>')
+        + paragraphStyle('MinutesMeta', 'Minutes Meta', '<w:spacing w:after="40"/>', '<w:color w:val="4B5563"/>')
+        + '</w:styles>';
+};
+
+const coreXml = (doc: MinutesDocument): string =>
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+    + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+    + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(doc.title)}</dc:title><dc:language>${doc.language}</dc:language>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+const relationships = (entries: [id: string, type: string, target: string][]): string =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${REL_NS}">`
+    + entries.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`).join('')
+    + '</Relationships>';
+
+export function minutesDocumentToDocx(doc: MinutesDocument, logo: ExportLogo | null): Blob {
+    const numbering: Numbering = { lists: [] };
+    // Written first: it fills in the numbering definitions.
+    const document = documentXml(doc, logo, numbering);
+    const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Default Extension="png" ContentType="image/png"/>'
+        + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+        + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+        + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+        + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+        + '</Types>';
+
+    return createZip([
+        { name: '[Content_Types].xml', data: contentTypes },
+        {
+            name: '_rels/.rels',
+            data: relationships([
+                ['rId1', `${R_NS}/officeDocument`, 'word/document.xml'],
+                ['rId2', 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', 'docProps/core.xml'],
+            ]),
+        },
+        { name: 'docProps/core.xml', data: coreXml(doc) },
+        { name: 'word/document.xml', data: document },
+        { name: 'word/styles.xml', data: stylesXml() },
+        { name: 'word/numbering.xml', data: numberingXml(numbering) },
+        {
+            name: 'word/_rels/document.xml.rels',
+            data: relationships([
+                ['rIdStyles', `${R_NS}/styles`, 'styles.xml'],
+                ['rIdNumbering', `${R_NS}/numbering`, 'numbering.xml'],
+                ...(logo ? [['rIdLogo', `${R_NS}/image`, 'media/logo.png'] as [string, string, string]] : []),
+            ]),
+        },
+        ...(logo ? [{ name: 'word/media/logo.png', data: logo.png }] : []),
+    ], DOCX_MIME_TYPE);
+}
@@ -0,0 +1,91 @@
+import { DocumentBlock, MinutesDocument } from "./minutesDocument";
+import { ExportLogo } from "./exportBranding";
+import { escapeHtml, listToHtml, runsToHtml } from "./markdown";
+
+const STYLES = `
+body { margin: 0; background: #f3f4f6; font-family: "Segoe UI", Calibri, Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.5; }
+main { max-width: 800px; margin: 32px auto; padding: 48px 56px; background: #ffffff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.1); }
+header { border-bottom: 2px solid #1e3a8a; padding-bottom: 16px; margin-bottom: 24px; }
+header img { display: block; max-width: 200px; max-height: 64px; margin-bottom: 16px; }
+h1 { margin: 0 0 8px; font-size: 26px; color: #1e3a8a; }
+.meta { margin: 2px 0; color: #4b5563; }
+h2 { margin: 28px 0 8px; font-size: 18px; color: #1e3a8a; }
+ul, ol { margin: 8px 0; padding-left: 24px; }
+table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #e5e7eb; }
+td.check, th.check { width: 32px; text-align: center; }
+td.check input { width: 16px; height: 16px; margin: 0; }
+@media print {
+    body { background: #ffffff; }
+    main { margin: 0; padding: 0; box-shadow: none; }
+}
+`;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const blockHtml = (block: DocumentBlock, doc: MinutesDocument): string => {
+    switch (block.type) {
+        case 'paragraph':
+            return `<p>${runsToHtml(block.runs)}</p>`;
+        case 'list':
+            return listToHtml(block.list);
+        case 'tasks': {
+            const { labels } = doc;
+            const rows = block.tasks.map(task => [
+                '<tr>',
+                `<td class="check"><input type="checkbox" aria-label="${escapeHtml(labels.done)}"></td>`,
+                `<td>${runsToHtml(task.description)}</td>`,
+                `<td>${escapeHtml(task.owner)}</td>`,
+                `<td>${escapeHtml(task.dueDate)}</td>`,
+                '</tr>',
+            ].join(''));
+            return [
+                '<table>',
+                `<thead><tr><th class="check">${escapeHtml(labels.done)}</th><th>${escapeHtml(labels.task)}</th><th>${escapeHtml(labels.owner)}</th><th>${escapeHtml(labels.dueDate)}</th></tr></thead>`,
+                `<tbody>\n${rows.join('\n')}\n</tbody>`,
+                '</table>',
+            ].join('\n');
+        }
+        case 'fields':
+            return block.fields.map(field => `<p><strong>${escapeHtml(field.label)}:</strong> ${escapeHtml(field.value)}</p>`).join('\n');
+    }
+};
+
+// Standalone HTML page of the minutes, with the logo embedded.
+export function minutesDocumentToHtml(doc: MinutesDocument, logo: ExportLogo | null): string {
+    const header = [
+        logo ? `<img src="data:image/png;base64,${bytesToBase64(logo.png)}" alt="">` : '',
+        `<h1>${escapeHtml(doc.title)}</h1>`,
+        `<p class="meta"><strong>${escapeHtml(doc.labels.date)}:</strong> ${escapeHtml(doc.date)}</p>`,
+        doc.attendees.length > 0
+            ? `<p class="meta"><strong>${escapeHtml(doc.labels.attendees)}:</strong> ${escapeHtml(doc.attendees.join(', '))}</p>`
+            : '',
+    ].filter(Boolean).join('\n');
+    const sections = doc.sections.map(section =>
+        `<section>\n<h2>${escapeHtml(section.heading)}</h2>\n${section.blocks.map(block => blockHtml(block, doc)).join('\n')}\n</section>`);
+    return `<!DOCTYPE html>
+<html lang="${doc.language}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(doc.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+${header}
+</header>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,444 @@
+import { DocumentBlock, MinutesDocument } from "./minutesDocument";
+import { ExportLogo } from "./exportBranding";
+import { MarkdownList, TextRun } from "./markdown";
+
+// Writes the minutes as a PDF using the standard Helvetica fonts, so nothing
+// has to be embedded but the logo. Text is laid out here with the fonts'
+// published metrics; task checkboxes are form fields that can be ticked in
+// any PDF reader.
+
+// A4 with 2 cm margins, in points.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.69;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Room kept at the bottom of every page for its number.
+const FOOTER_HEIGHT = 20;
+
+const TITLE_SIZE = 22;
+const HEADING_SIZE = 14;
+const BODY_SIZE = 10.5;
+const SMALL_SIZE = 8;
+const LEADING = 1.4;
+const PARAGRAPH_GAP = 6;
+const LIST_INDENT = 16;
+
+const LOGO_MAX_WIDTH = 150;
+const LOGO_MAX_HEIGHT = 50;
+
+const TABLE_PADDING = 5;
+const CHECKBOX_SIZE = 11;
+// Widths of the checkbox, owner and due date columns; the task takes the rest.
+const CHECK_COLUMN = 44;
+const OWNER_COLUMN = 110;
+const DUE_COLUMN = 80;
+
+const TEXT_COLOR = '0.122 0.161 0.216';
+const MUTED_COLOR = '0.294 0.333 0.388';
+const ACCENT_COLOR = '0.118 0.227 0.541';
+const BORDER_COLOR = '0.82 0.835 0.859';
+const HEADER_FILL = '0.898 0.906 0.922';
+
+type FontKey = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+const FONTS: Record<FontKey, { resource: string; baseFont: string }> = {
+    regular: { resource: 'F1', baseFont: 'Helvetica' },
+    bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+    italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+    boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique' },
+};
+
+// Advance widths of the printable ASCII characters (32 to 126), in
+// thousandths of the font size, from the Helvetica AFM files. The oblique
+// faces share the widths of their upright ones.
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Widths of the other characters used in the minutes that do not share the
+// width of their unaccented letter.
+const SPECIAL_WIDTHS: Record<string, [regular: number, bold: number]> = {
+    '•': [350, 350], '…': [1000, 1000], '–': [556, 556], '—': [1000, 1000], '€': [556, 556], '™': [1000, 1000],
+    '‘': [222, 278], '’': [222, 278], '“': [333, 500], '”': [333, 500], '«': [556, 556], '»': [556, 556],
+    '¡': [333, 333], '¿': [611, 611], 'º': [365, 365], 'ª': [370, 370], '°': [400, 400], '·': [278, 278],
+    'ß': [611, 611], 'æ': [889, 889], 'Æ': [1000, 1000], 'ø': [611, 611], 'Ø': [778, 778], ' ': [278, 278],
+};
+
+// Characters of WinAnsiEncoding outside Latin-1, with their codes.
+const WIN_ANSI_CODES: Record<string, number> = {
+    '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const isBold = (font: FontKey) => font === 'bold' || font === 'boldItalic';
+
+const charWidth = (char: string, font: FontKey): number => {
+    const table = isBold(font) ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return table[code - 32];
+    if (SPECIAL_WIDTHS[char]) return SPECIAL_WIDTHS[char][isBold(font) ? 1 : 0];
+    const base = char.normalize('NFD').charCodeAt(0);
+    return base >= 32 && base <= 126 ? table[base - 32] : 556;
+};
+
+const textWidth = (text: string, font: FontKey, size: number): number =>
+    Array.from(text).reduce((width, char) => width + charWidth(char, font), 0) * size / 1000;
+
+// Characters the standard fonts cannot show are printed as "?".
+const encodeText = (text: string): string =>
+    Array.from(text).map(char => {
+        const code = char.codePointAt(0);
+        const byte = (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? code : WIN_ANSI_CODES[char] ?? 0x3f;
+        const encoded = String.fromCharCode(byte);
+        return encoded === '(' || encoded === ')' || encoded === '\\' ? `\\${encoded}` : encoded;
+    }).join('');
+
+// Text strings outside content streams (document info, field names) are
+// written in UTF-16 so any title survives.
+const pdfTextString = (text: string): string =>
+    `<FEFF${Array.from(text).flatMap(char => {
+        const code = char.codePointAt(0);
+        const units = code > 0xffff ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)] : [code];
+        return units.map(unit => unit.toString(16).padStart(4, '0').toUpperCase());
+    }).join('')}>`;
+
+const fontOf = (run: Omit<TextRun, 'text'>): FontKey =>
+    run.bold ? (run.italic ? 'boldItalic' : 'bold') : run.italic ? 'italic' : 'regular';
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+interface LinePiece {
+    text: string;
+    font: FontKey;
+}
+
+interface Line {
+    pieces: LinePiece[];
+    width: number;
+}
+
+// Breaks styled text into lines no wider than `maxWidth`. Words longer than
+// a line are split between characters.
+const layoutRuns = (runs: TextRun[], size: number, maxWidth: number): Line[] => {
+    const lines: Line[] = [];
+    let line: Line = { pieces: [], width: 0 };
+
+    const append = (text: string, font: FontKey, width: number) => {
+        const last = line.pieces[line.pieces.length - 1];
+        if (last && last.font === font) last.text += text;
+        else line.pieces.push({ text, font });
+        line.width += width;
+    };
+    const breakLine = () => {
+        lines.push(line);
+        line = { pieces: [], width: 0 };
+    };
+
+    for (const run of runs) {
+        const font = fontOf(run);
+        const spaceWidth = textWidth(' ', font, size);
+        run.text.split(/(\s+)/).forEach((word, i) => {
+            // Odd indices are the whitespace between words.
+            if (i % 2 === 1) {
+                if (line.pieces.length > 0) append(' ', font, spaceWidth);
+                return;
+            }
+            if (!word) return;
+            let rest = word;
+            while (rest) {
+                const width = textWidth(rest, font, size);
+                if (line.width + width <= maxWidth) {
+                    append(rest, font, width);
+                    return;
+                }
+                if (line.width > 0 && width <= maxWidth) {
+                    breakLine();
+                    continue;
+                }
+                // Fill the line with as much of the word as fits.
+                let fit = 1;
+                while (fit < rest.length && line.width + textWidth(rest.slice(0, fit + 1), font, size) <= maxWidth) fit++;
+                if (line.width > 0 && line.width + textWidth(rest.slice(0, fit), font, size) > maxWidth) {
+                    breakLine();
+                    continue;
+                }
+                append(rest.slice(0, fit), font, textWidth(rest.slice(0, fit), font, size));
+                breakLine();
+                rest = rest.slice(fit);
+            }
+        });
+    }
+    if (line.pieces.length > 0 || lines.length === 0) lines.push(line);
+    // Spaces left at the end of a line are not drawn.
+    for (const { pieces } of lines) {
+        const last = pieces[pieces.length - 1];
+        if (last) last.text = last.text.replace(/ +$/, '');
+    }
+    return lines;
+};
+
+interface Page {
+    content: string[];
+    // Checkbox rectangles as [x1, y1, x2, y2].
+    checkboxes: number[][];
+}
+
+// The file is assembled as a string with one character per byte.
+const binaryString = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return binary;
+};
+
+export function minutesDocumentToPdf(doc: MinutesDocument, logo: ExportLogo | null): Blob {
+    const pages: Page[] = [];
+    let page: Page;
+    // Top of the remaining space on the current page.
+    let y = 0;
+
+    const newPage = () => {
+        page = { content: [], checkboxes: [] };
+        pages.push(page);
+        y = PAGE_HEIGHT - MARGIN;
+    };
+    const bottom = MARGIN + FOOTER_HEIGHT;
+    const ensureSpace = (height: number) => {
+        if (y - height < bottom) newPage();
+    };
+
+    const lineText = (line: Line, x: number, baseline: number, size: number, color: string): string =>
+        `BT ${color} rg ${num(x)} ${num(baseline)} Td ${line.pieces
+            .map(piece => `/${FONTS[piece.font].resource} ${num(size)} Tf (${encodeText(piece.text)}) Tj`)
+            .join(' ')} ET`;
+
+    // Draws the lines one below the other; `marker` is drawn left of the
+    // first one (list bullets and numbers).
+    const drawLines = (lines: Line[], x: number, size: number, color: string, marker?: { text: string; x: number }) => {
+        const height = size * LEADING;
+        lines.forEach((line, i) => {
+            ensureSpace(height);
+            y -= height;
+            const baseline = y + (height - size) / 2 + size * 0.22;
+            page.content.push(lineText(line, x, baseline, size, color));
+            if (marker && i === 0) {
+                page.content.push(lineText({ pieces: [{ text: marker.text, font: 'regular' }], width: 0 }, marker.x, baseline, size, color));
+            }
+        });
+    };
+
+    const drawParagraph = (runs: TextRun[], { indent = 0, size = BODY_SIZE, color = TEXT_COLOR } = {}) => {
+        drawLines(layoutRuns(runs, size, CONTENT_WIDTH - indent), MARGIN + indent, size, color);
+        y -= PARAGRAPH_GAP;
+    };
+
+    const drawList = (list: MarkdownList, depth = 0) => {
+        const bullets = ['•', '–', '·'];
+        list.items.forEach((item, i) => {
+            const indent = depth * LIST_INDENT;
+            const marker = list.ordered ? `${i + 1}.` : bullets[depth % bullets.length];
+            drawLines(
+                layoutRuns(item.runs, BODY_SIZE, CONTENT_WIDTH - indent - LIST_INDENT),
+                MARGIN + indent + LIST_INDENT,
+                BODY_SIZE,
+                TEXT_COLOR,
+                { text: marker, x: MARGIN + indent + 2 },
+            );
+            if (item.children) drawList(item.children, depth + 1);
+        });
+        if (depth === 0) y -= PARAGRAPH_GAP;
+    };
+
+    const columns = [CHECK_COLUMN, CONTENT_WIDTH - CHECK_COLUMN - OWNER_COLUMN - DUE_COLUMN, OWNER_COLUMN, DUE_COLUMN];
+
+    // Draws one table row; cells are laid out lines, the first cell of a
+    // task row holds its checkbox.
+    const drawRow = (cells: Line[][], { header = false } = {}) => {
+        const lineHeight = BODY_SIZE * LEADING;
+        const height = Math.max(CHECKBOX_SIZE, ...cells.map(lines => lines.length * lineHeight)) + 2 * TABLE_PADDING;
+        const top = y;
+        if (header) page.content.push(`${HEADER_FILL} rg ${num(MARGIN)} ${num(top - height)} ${num(CONTENT_WIDTH)} ${num(height)} re f`);
+        let x = MARGIN;
+        cells.forEach((lines, column) => {
+            page.content.push(`${BORDER_COLOR} RG 0.75 w ${num(x)} ${num(top - height)} ${num(columns[column])} ${num(height)} re S`);
+            if (column === 0 && !header) {
+                const boxX = x + (columns[0] - CHECKBOX_SIZE) / 2;
+                const boxTop = top - TABLE_PADDING - (lineHeight - CHECKBOX_SIZE) / 2;
+                page.checkboxes.push([boxX, boxTop - CHECKBOX_SIZE, boxX + CHECKBOX_SIZE, boxTop]);
+            }
+            lines.forEach((line, i) => {
+                const baseline = top - TABLE_PADDING - (i + 1) * lineHeight + (lineHeight - BODY_SIZE) / 2 + BODY_SIZE * 0.22;
+                page.content.push(lineText(line, x + TABLE_PADDING, baseline, BODY_SIZE, TEXT_COLOR));
+            });
+            x += columns[column];
+        });
+        y -= height;
+    };
+
+    const drawTasks = (block: Extract<DocumentBlock, { type: 'tasks' }>) => {
+        const { labels } = doc;
+        const cellLines = (runs: TextRun[], column: number) => layoutRuns(runs, BODY_SIZE, columns[column] - 2 * TABLE_PADDING);
+        const headerCells = [labels.done, labels.task, labels.owner, labels.dueDate]
+            .map((label, column) => cellLines([{ text: label, bold: true }], column));
+        const headerHeight = BODY_SIZE * LEADING + 2 * TABLE_PADDING;
+
+        ensureSpace(headerHeight * 2);
+        drawRow(headerCells, { header: true });
+        for (const task of block.tasks) {
+            const cells = [[], cellLines(task.description, 1), cellLines([{ text: task.owner }], 2), cellLines([{ text: task.dueDate }], 3)];
+            const height = Math.max(...cells.map(lines => lines.length)) * BODY_SIZE * LEADING + 2 * TABLE_PADDING;
+            if (y - height < bottom) {
+                newPage();
+                drawRow(headerCells, { header: true });
+            }
+            drawRow(cells);
+        }
+        y -= PARAGRAPH_GAP * 2;
+    };
+
+    const drawBlock = (block: DocumentBlock) => {
+        switch (block.type) {
+            case 'paragraph':
+                return drawParagraph(block.runs);
+            case 'list':
+                return drawList(block.list);
+            case 'tasks':
+                return drawTasks(block);
+            case 'fields':
+                block.fields.forEach(field => drawParagraph([{ text: `${field.label}: `, bold: true }, { text: field.value }]));
+        }
+    };
+
+    newPage();
+
+    // Header: logo, title, date and attendees, closed by a rule.
+    if (logo) {
+        const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height);
+        const width = logo.width * scale;
+        const height = logo.height * scale;
+        y -= height;
+        page.content.push(`q ${num(width)} 0 0 ${num(height)} ${num(MARGIN)} ${num(y)} cm /Im1 Do Q`);
+        y -= 14;
+    }
+    drawLines(layoutRuns([{ text: doc.title, bold: true }], TITLE_SIZE, CONTENT_WIDTH), MARGIN, TITLE_SIZE, ACCENT_COLOR);
+    y -= 4;
+    drawLines(layoutRuns([{ text: `${doc.labels.date}: `, bold: true }, { text: doc.date }], BODY_SIZE, CONTENT_WIDTH), MARGIN, BODY_SIZE, MUTED_COLOR);
+    if (doc.attendees.length > 0) {
+        drawLines(
+            layoutRuns([{ text: `${doc.labels.attendees}: `, bold: true }, { text: doc.attendees.join(', ') }], BODY_SIZE, CONTENT_WIDTH),
+            MARGIN, BODY_SIZE, MUTED_COLOR,
+        );
+    }
+    y -= 8;
+    page.content.push(`${ACCENT_COLOR} RG 1.5 w ${num(MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(y)} l S`);
+    y -= 10;
+
+    for (const section of doc.sections) {
+        // Keep the heading on the same page as the start of its section.
+        ensureSpace(HEADING_SIZE * LEADING + 12 + BODY_SIZE * LEADING * 2);
+        y -= 12;
+        drawLines(layoutRuns([{ text: section.heading, bold: true }], HEADING_SIZE, CONTENT_WIDTH), MARGIN, HEADING_SIZE, ACCENT_COLOR);
+        y -= 4;
+        section.blocks.forEach(drawBlock);
+    }
+
+    pages.forEach((p, i) => {
+        const label = `${i + 1} / ${pages.length}`;
+        const x = (PAGE_WIDTH - textWidth(label, 'regular', SMALL_SIZE)) / 2;
+        p.content.push(`BT ${MUTED_COLOR} rg /F1 ${SMALL_SIZE} Tf ${num(x)} ${num(MARGIN - SMALL_SIZE)} Td (${label}) Tj ET`);
+    });
+
+    return serialize(doc, pages, logo);
+}
+
+// Assembles the objects of the file. Ids are handed out in order, so an
+// object can refer to the ones reserved before it is written.
+function serialize(doc: MinutesDocument, pages: Page[], logo: ExportLogo | null): Blob {
+    const objects: string[] = [];
+    const reserve = (): number => objects.push('');
+    const define = (id: number, body: string) => {
+        objects[id - 1] = body;
+    };
+    const add = (body: string): number => {
+        const id = reserve();
+        define(id, body);
+        return id;
+    };
+    const stream = (dictionary: string, data: string): string =>
+        `<< ${dictionary} /Length ${data.length} >>\nstream\n${data}\nendstream`;
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = Object.fromEntries(Object.entries(FONTS).map(([key, font]) => [
+        key,
+        add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+    ])) as Record<FontKey, number>;
+    const fontResources = `<< ${Object.entries(FONTS).map(([key, font]) => `/${font.resource} ${fontIds[key as FontKey]} 0 R`).join(' ')} >>`;
+    const imageId = logo && add(stream(
+        `/Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        binaryString(logo.jpeg),
+    ));
+
+    // Appearances of the checkbox fields, shared by all of them.
+    const hasCheckboxes = pages.some(p => p.checkboxes.length > 0);
+    const zapfId = hasCheckboxes ? add('<< /Type /Font /Subtype /Type1 /BaseFont /ZapfDingbats >>') : 0;
+    const box = `1 1 1 rg 0 0 ${CHECKBOX_SIZE} ${CHECKBOX_SIZE} re f 0.4 0.4 0.4 RG 0.75 w 0.5 0.5 ${CHECKBOX_SIZE - 1} ${CHECKBOX_SIZE - 1} re S`;
+    const appearance = (content: string) => stream(
+        `/Type /XObject /Subtype /Form /BBox [0 0 ${CHECKBOX_SIZE} ${CHECKBOX_SIZE}] /Resources << /Font << /ZaDb ${zapfId} 0 R >> >>`,
+        content,
+    );
+    const offAppearanceId = hasCheckboxes ? add(appearance(box)) : 0;
+    const onAppearanceId = hasCheckboxes ? add(appearance(`${box} BT 0 g /ZaDb 9 Tf 1.6 2.2 Td (4) Tj ET`)) : 0;
+
+    const pageIds: number[] = [];
+    const fieldIds: number[] = [];
+    for (const p of pages) {
+        const pageId = reserve();
+        pageIds.push(pageId);
+        const contentId = add(stream('', p.content.join('\n')));
+        const annotationIds = p.checkboxes.map(rect => {
+            const id = add(
+                `<< /Type /Annot /Subtype /Widget /FT /Btn /T ${pdfTextString(`task${fieldIds.length + 1}`)} /V /Off /AS /Off /F 4`
+                + ` /Rect [${rect.map(num).join(' ')}] /P ${pageId} 0 R /MK << /CA (4) >> /DA (/ZaDb 0 Tf 0 g)`
+                + ` /AP << /N << /Yes ${onAppearanceId} 0 R /Off ${offAppearanceId} 0 R >> >> >>`,
+            );
+            fieldIds.push(id);
+            return id;
+        });
+        define(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}]`
+            + ` /Resources << /Font ${fontResources}${imageId ? ` /XObject << /Im1 ${imageId} 0 R >>` : ''} >>`
+            + ` /Contents ${contentId} 0 R${annotationIds.length > 0 ? ` /Annots [${annotationIds.map(id => `${id} 0 R`).join(' ')}]` : ''} >>`);
+    }
+
+    define(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    const acroForm = fieldIds.length > 0
+        ? ` /AcroForm << /Fields [${fieldIds.map(id => `${id} 0 R`).join(' ')}] /DR << /Font << /ZaDb ${zapfId} 0 R /Helv ${fontIds.regular} 0 R >> >> /DA (/Helv 0 Tf 0 g) >>`
+        : '';
+    define(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R /Lang ${pdfTextString(doc.language)}${acroForm} >>`);
+    const infoId = add(`<< /Title ${pdfTextString(doc.title)} /Producer (Minutas) >>`);
+
+    let file = '%PDF-1.7\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, i) => {
+        const offset = file.length;
+        file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+    const xrefOffset = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+    file += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character of `file` stands for one byte.
+    return new Blob([Uint8Array.from(file, char => char.charCodeAt(0))], { type: 'application/pdf' });
+}
@@ -0,0 +1,95 @@
+// Minimal .docx reader: finds word/document.xml inside the ZIP container and
+// returns its paragraphs as plain text lines. Uses the browser's
+// DecompressionStream, so no ZIP library is needed.
+
+import { messages } from "../i18n";
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+    // The record is at least 22 bytes and may be followed by a comment.
+    for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65557); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+            return offset;
+        }
+    }
+    throw new Error(messages().transcriptImport.invalidDocx);
+};
+
+const readEntries = (buffer: ArrayBuffer): ZipEntry[] => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+    const end = findEndOfCentralDirectory(view);
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) break;
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+        entries.push({ name, method, compressedSize, localHeaderOffset });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+const readEntryData = async (buffer: ArrayBuffer, entry: ZipEntry): Promise<string> => {
+    const view = new DataView(buffer);
+    if (view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new Error(messages().transcriptImport.damagedDocx);
+    }
+    const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+    const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+    const dataStart = entry.localHeaderOffset + 30 + nameLength + extraLength;
+    const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+    if (entry.method === 0) {
+        return new TextDecoder().decode(data);
+    }
+    if (entry.method !== 8) {
+        throw new Error(messages().transcriptImport.unsupportedCompression);
+    }
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+};
+
+/**
+ * Extracts the paragraphs of a .docx file as lines of text. Line breaks and
+ * tabs inside a paragraph are kept.
+ */
+export async function extractDocxText(file: Blob): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    const entry = readEntries(buffer).find(e => e.name === 'word/document.xml');
+    if (!entry) {
+        throw new Error(messages().transcriptImport.noDocument);
+    }
+    const xml = await readEntryData(buffer, entry);
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+    const lines: string[] = [];
+    for (const paragraph of Array.from(doc.getElementsByTagNameNS('*', 'p'))) {
+        let text = '';
+        paragraph.querySelectorAll('*').forEach(node => {
+            if (node.localName === 't') text += node.textContent ?? '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br') text += '\n';
+        });
+        lines.push(text);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,43 @@
+import { AppError, ErrorCategory, Result } from "../types";
+
+export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+export const fail = (category: ErrorCategory, message: string): { ok: false; error: AppError } =>
+    ({ ok: false, error: { category, message } });
+
+/**
+ * Thrown by providers when the kind of failure is known where it happens,
+ * such as an unreachable server or a response blocked by a content filter.
+ * The message is already in the interface language.
+ */
+export class ProviderError extends Error {
+    category: ErrorCategory;
+
+    constructor(category: ErrorCategory, message: string) {
+        super(message);
+        this.name = 'ProviderError';
+        this.category = category;
+    }
+}
+
+// Failures that may go away by sending the same request again.
+export const isTransient = (category: ErrorCategory): boolean =>
+    ['network', 'rateLimit', 'invalidOutput', 'unknown'].includes(category);
+
+// Step of the flow that failed. The error screen offers to repeat it with
+// the audio or transcript that is still in memory.
+export type FailedStep = 'recording' | 'import' | 'transcription' | 'generation';
+
+export type RecoveryAction = 'retry' | 'backToTranscript' | 'reRecord' | 'startOver';
+
+export function recoveryActions({ category }: AppError, step: FailedStep): RecoveryAction[] {
+    const actions: RecoveryAction[] = [];
+    // Denied permissions and silent audio need a new recording; a blocked or
+    // rejected request needs a different transcript.
+    const needsNewInput = ['permission', 'emptyAudio', 'safety', 'invalidInput'].includes(category);
+    if ((step === 'transcription' || step === 'generation') && !needsNewInput) actions.push('retry');
+    if (step === 'generation') actions.push('backToTranscript');
+    if (step === 'recording' || category === 'permission' || category === 'emptyAudio') actions.push('reRecord');
+    actions.push('startOver');
+    return actions;
+}
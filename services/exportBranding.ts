@@ -0,0 +1,83 @@
+import { messages } from "../i18n";
+
+// The company logo printed in the header of exported minutes. Stored as a
+// small PNG data URL in localStorage, next to the other preferences.
+const LOGO_KEY = 'minutas.exportLogo';
+
+// Logos are scaled down to fit this box before being stored.
+const MAX_LOGO_WIDTH = 600;
+const MAX_LOGO_HEIGHT = 200;
+
+export interface ExportLogo {
+    png: Uint8Array;
+    // White-backed copy for formats without transparency (PDF).
+    jpeg: Uint8Array;
+    width: number;
+    height: number;
+}
+
+export const getStoredLogo = (): string | null => localStorage.getItem(LOGO_KEY);
+
+export const clearStoredLogo = (): void => localStorage.removeItem(LOGO_KEY);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(messages().exportMenu.invalidLogo));
+        image.src = src;
+    });
+
+const drawImage = (image: HTMLImageElement, width: number, height: number, background?: string): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (background) {
+        context.fillStyle = background;
+        context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+};
+
+const canvasBytes = (canvas: HTMLCanvasElement, type: string): Promise<Uint8Array> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) reject(new Error(messages().exportMenu.invalidLogo));
+            else blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+        }, type, 0.92);
+    });
+
+/**
+ * Reads an image file chosen by the user, scales it down and stores it as the
+ * export logo. Resolves to the stored data URL.
+ */
+export async function storeLogo(file: File): Promise<string> {
+    const url = URL.createObjectURL(file);
+    try {
+        const image = await loadImage(url);
+        const scale = Math.min(1, MAX_LOGO_WIDTH / image.naturalWidth, MAX_LOGO_HEIGHT / image.naturalHeight);
+        const canvas = drawImage(image, Math.round(image.naturalWidth * scale), Math.round(image.naturalHeight * scale));
+        const dataUrl = canvas.toDataURL('image/png');
+        localStorage.setItem(LOGO_KEY, dataUrl);
+        return dataUrl;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+// The stored logo in the encodings the exports need, or null without one.
+export async function loadExportLogo(): Promise<ExportLogo | null> {
+    const stored = getStoredLogo();
+    if (!stored) return null;
+    const image = await loadImage(stored);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    return {
+        png: await canvasBytes(drawImage(image, width, height), 'image/png'),
+        jpeg: await canvasBytes(drawImage(image, width, height, '#ffffff'), 'image/jpeg'),
+        width,
+        height,
+    };
+}
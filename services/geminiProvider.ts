@@ -0,0 +1,55 @@
+import { ProviderSettings, TranscriptSegment } from "../types";
+import { messages } from "../i18n";
+import { AiProvider } from "./aiProvider";
+import { ApiError, ApiStreamEvent, parseApiError } from "./apiErrors";
+import { ProviderError } from "./errors";
+import { isAbortError, joinUrl, readLines } from "./providerHttp";
+import { validateTranscriptSegments } from "./transcriptSchema";
+
+// Gemini is reached through the app's own server routes (see /api), which
+// hold the API key; the browser never sees it.
+async function postToProxy(url: string, body: BodyInit, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, { method: 'POST', headers, body, signal });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ProviderError('network', messages().errors.providerUnreachable(url));
+    }
+    if (!response.ok) {
+        throw parseApiError(response.status, await response.text().catch(() => ''));
+    }
+    return response;
+}
+
+export function createGeminiProvider({ proxyUrl }: ProviderSettings['gemini']): AiProvider {
+    return {
+        async transcribe({ audio, part }) {
+            const form = new FormData();
+            form.append('audio', audio, 'audio');
+            if (part) form.append('part', JSON.stringify(part));
+            const response = await postToProxy(joinUrl(proxyUrl, 'transcribe'), form);
+            const { segments } = await response.json() as { segments: TranscriptSegment[] };
+            return validateTranscriptSegments(segments);
+        },
+
+        async generateMinutes(request, { signal, onText } = {}) {
+            const response = await postToProxy(
+                joinUrl(proxyUrl, 'minutes'),
+                JSON.stringify(request),
+                { 'Content-Type': 'application/json' },
+                signal,
+            );
+            let text = '';
+            await readLines(response, line => {
+                const event = JSON.parse(line) as ApiStreamEvent;
+                if ('error' in event) {
+                    throw new ApiError(event.error.code, event.error.message, event.error.retryAfterSeconds);
+                }
+                text += event.text;
+                onText?.(text);
+            });
+            return text;
+        },
+    };
+}
@@ -1,125 +1,177 @@
-import { GoogleGenAI } from "@google/genai";
-
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+import { ErrorCategory, Locale, Minutes, MinutesTemplate, MomentFlag, Result, TemplateSection, TranscriptSegment } from "../types";
+import { messages } from "../i18n";
+import { parseMinutesJson, parsePartialMinutes, MinutesValidationError, PartialMinutes } from "./minutesSchema";
+import { DEFAULT_TEMPLATE, getSectionValue, withSectionValue } from "./templates";
+import { TranscriptValidationError } from "./transcriptSchema";
+import { getProvider } from "./aiProvider";
+import { isAbortError } from "./providerHttp";
+import { ApiError, apiErrorCategory, describeApiError } from "./apiErrors";
+import { fail, isTransient, ok, ProviderError } from "./errors";
+import { AudioPart, FollowUp, minutesRequestTemplate, SectionGenerationRequest } from "./prompts";
+import { verifyCitations } from "./citations";
+
+interface TranscribeOptions {
+    // Set when the blob is one segment of a longer recording. Silent segments
+    // are then returned as an empty list instead of an error.
+    part?: AudioPart;
+    maxAttempts?: number;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const RETRY_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Helper to convert Blob to Base64
-const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            // result is a data URL: "data:audio/webm;base64,..."
-            // We need to strip the prefix
-            const base64Data = (reader.result as string).split(',')[1];
-            resolve(base64Data);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
+const categorize = (error: unknown): ErrorCategory => {
+    if (error instanceof ProviderError) return error.category;
+    if (error instanceof ApiError) return apiErrorCategory(error);
+    if (error instanceof TranscriptValidationError || error instanceof MinutesValidationError || error instanceof SyntaxError) {
+        return 'invalidOutput';
+    }
+    return 'unknown';
 };
 
-export async function transcribeAudio(audioBlob: Blob): Promise<string> {
+export async function transcribeAudio(audioBlob: Blob, { part, maxAttempts = 3 }: TranscribeOptions = {}): Promise<Result<TranscriptSegment[]>> {
     try {
-        const audioData = await blobToBase64(audioBlob);
-        const audioPart = {
-            inlineData: {
-                mimeType: audioBlob.type,
-                data: audioData,
-            },
-        };
-        const promptPart = {
-            text: "Transcribe this meeting audio accurately.",
-        };
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [audioPart, promptPart] },
-        });
+        let transcription: TranscriptSegment[] = [];
+        for (let attempt = 1; ; attempt++) {
+            try {
+                transcription = await getProvider().transcribe({ audio: audioBlob, part });
+                break;
+            } catch (error) {
+                // Rejected requests and blocked content fail the same way on every attempt.
+                if (attempt >= maxAttempts || !isTransient(categorize(error))) throw error;
+                console.warn(`Transcription attempt ${attempt} failed, retrying...`, error);
+                await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+            }
+        }
 
-        const transcription = response.text;
-        if (!transcription || transcription.trim() === '') {
-            throw new Error("La transcripción resultó vacía. El audio puede no haber contenido voz clara.");
+        if (transcription.length === 0 && !part) {
+            return fail('emptyAudio', messages().errors.emptyTranscription);
         }
-        return transcription;
+        return ok(transcription);
     } catch (error) {
         console.error("Error transcribing audio:", error);
+        const t = messages();
+        const category = categorize(error);
+        if (error instanceof ApiError) {
+            return fail(category, describeApiError(error));
+        }
+        if (error instanceof ProviderError || error instanceof TranscriptValidationError) {
+            return fail(category, error.message);
+        }
         if (error instanceof Error) {
-            // Provide a more user-friendly message for common errors.
-            if (error.message.includes("La transcripción resultó vacía")) {
-                return `Error: ${error.message}`;
-            }
-            return `Error al transcribir el audio: ${error.message}`;
+            return fail(category, t.errors.transcriptionFailed(error.message));
         }
-        return "Ocurrió un error desconocido al transcribir el audio.";
+        return fail(category, t.errors.transcriptionUnknown);
     }
 }
 
 
-export async function generateMinutesFromText(transcriptionText: string): Promise<string> {
-  const prompt = `
-    **Rol y Objetivo:**
-    Actúas como un asistente experto en la creación de minutas de reuniones. Tu objetivo es transformar la siguiente transcripción en una minuta profesional, estructurada y concisa. Debes resumir y organizar el contenido en las secciones predefinidas, manteniendo siempre un tono objetivo y profesional.
-
-    **Instrucciones y Formato de Salida:**
-
-    1.  **Resumen Corto Inicial:**
-        *   Comienza tu respuesta con un resumen de la reunión en un solo párrafo, con un máximo de 550 caracteres. Este resumen debe capturar la esencia de la discusión.
-
-    2.  **Minuta en Formato Markdown:**
-        *   Inmediatamente después del resumen, y separado por una línea horizontal (\`---\`), genera la minuta completa usando Markdown.
-        *   La minuta DEBE seguir esta estructura exacta:
-
-        ### 1. Nombre del proyecto o asunto
-        * Extrae el título del proyecto o el tema principal. Si no se menciona un título explícito, crea un título conciso y descriptivo basado en el resumen y los temas tratados.
-
-        ### 2. Objetivo de la reunión
-        * Describe brevemente por qué se realizó la reunión.
-
-        ### 3. Temas tratados
-        * Enumera los puntos discutidos con viñetas. Resume cada tema.
-
-        ### 4. Decisiones tomadas
-        * Declara de forma precisa lo que se acordó, usando viñetas.
-
-        ### 5. Compromisos y tareas
-        * Lista las tareas. Para cada tarea, usa el formato \`[ ] Tarea - **Responsable:** Nombre - **Fecha:** YYYY-MM-DD\`. No uses viñetas en esta sección. Agrega un salto de línea (una línea en blanco) entre cada compromiso individual para mejorar la legibilidad.
-
-        ### 6. Próximos pasos
-        * Describe las actividades clave a monitorear antes de la siguiente reunión.
-
-        ### 7. Próxima reunión
-        * Especifica la fecha, hora y plataforma usando negritas para las etiquetas (ej. **Fecha:**, **Hora:**, **Plataforma:**). Si no se menciona, indícalo.
+interface GenerateMinutesOptions {
+    // Real names of the meeting participants, used for task owners.
+    participants?: string[];
+    // Moments the user marked while recording.
+    flags?: MomentFlag[];
+    // Pending tasks of earlier meetings of the project, to report their progress.
+    followUp?: FollowUp;
+    template?: MinutesTemplate;
+    // Language the minutes are written in, whatever the transcript's language.
+    language?: Locale;
+    // Cancels the generation; the result is then a 'cancelled' error.
+    signal?: AbortSignal;
+    // Called with the sections received so far while the answer streams in.
+    onPartial?: (partial: PartialMinutes) => void;
+}
 
-    **Reglas Estrictas:**
-    *   NO añadas información que no esté presente en el texto de entrada, con la excepción del título del proyecto si este debe ser generado.
-    *   Si una sección no puede ser completada por falta de información, escribe claramente "No se especifica".
-    *   Al usar negritas, asegúrate de que no haya espacios entre los asteriscos y el texto (formato correcto: \`**Texto**\`, formato incorrecto: \`** Texto **\`).
-    *   Sé directo y conciso.
-    *   NO incluyas viñetas para los ítems de la sección "Compromisos y tareas", usa solo el formato de checkbox \`[ ]\`.
-    *   Cada ítem con viñeta debe estar en la misma línea que el texto que le sigue.
-    *   NO incluyas enlaces a secciones de la transcripción ni comentarios personales.
+export async function generateMinutesFromText(
+  transcriptionText: string,
+  { participants = [], flags = [], followUp, template = DEFAULT_TEMPLATE, language = 'es', signal, onPartial }: GenerateMinutesOptions = {},
+): Promise<Result<Minutes>> {
+  if (!transcriptionText.trim()) {
+    return fail('invalidInput', messages().errors.emptyTranscriptInput);
+  }
+  try {
+    const text = await getProvider().generateMinutes(
+      { kind: 'minutes', transcript: transcriptionText, participants, flags, template, language, ...(followUp && { followUp }) },
+      {
+        signal,
+        onText: onPartial && (partialText => {
+          const partial = parsePartialMinutes(partialText, template);
+          if (partial) onPartial(partial);
+        }),
+      },
+    );
+    return ok(verifyCitations(parseMinutesJson(text, template), transcriptionText));
+  } catch (error) {
+    const t = messages();
+    if (isAbortError(error)) {
+        return fail('cancelled', t.errors.generationCancelled);
+    }
+    console.error("Error generating minutes:", error);
+    const category = categorize(error);
+    if (error instanceof ApiError) {
+        return fail(category, describeApiError(error));
+    }
+    if (error instanceof ProviderError) {
+        return fail(category, error.message);
+    }
+    if (error instanceof MinutesValidationError) {
+        return fail(category, t.errors.invalidMinutes(error.message));
+    }
+    if (error instanceof Error) {
+        return fail(category, t.errors.apiFailed(error.message));
+    }
+    return fail(category, t.errors.generationUnknown);
+  }
+}
 
-    **Transcripción a Procesar:**
-    ---
-    ${transcriptionText}
-    ---
-  `;
+/**
+ * Rewrites a single section of existing minutes from the transcript,
+ * optionally following an extra instruction from the user. Returns the full
+ * minutes with only that section replaced.
+ */
+export async function regenerateMinutesSection(
+  transcriptionText: string,
+  minutes: Minutes,
+  section: TemplateSection,
+  instruction: string = '',
+  language: Locale = 'es',
+): Promise<Result<Minutes>> {
+  const request: SectionGenerationRequest = {
+    kind: 'section',
+    transcript: transcriptionText,
+    minutes,
+    section,
+    instruction: instruction.trim(),
+    language,
+  };
 
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-    });
-    return response.text;
+    const text = await getProvider().generateMinutes(request);
+    const parsed = JSON.parse(text || '{}');
+    if (typeof parsed !== 'object' || parsed === null || !(section.id in parsed)) {
+        throw new MinutesValidationError(messages().errors.missingSection(section.title));
+    }
+    const regenerated = verifyCitations(parseMinutesJson(JSON.stringify(parsed), minutesRequestTemplate(request)), transcriptionText);
+    const updated = withSectionValue(minutes, section, getSectionValue(regenerated, section));
+    const citations = regenerated.citations?.[section.id];
+    return ok(citations ? { ...updated, citations: { ...updated.citations, [section.id]: citations } } : updated);
   } catch (error) {
-    console.error("Error generating minutes:", error);
+    console.error("Error regenerating minutes section:", error);
+    const t = messages();
+    const category = categorize(error);
+    if (error instanceof ApiError) {
+        return fail(category, describeApiError(error));
+    }
+    if (error instanceof ProviderError) {
+        return fail(category, error.message);
+    }
+    if (error instanceof MinutesValidationError || error instanceof SyntaxError) {
+        return fail(category, t.errors.invalidSection(error.message));
+    }
     if (error instanceof Error) {
-        return `Error al contactar la API de Gemini: ${error.message}`;
+        return fail(category, t.errors.apiFailed(error.message));
     }
-    return "Ocurrió un error desconocido al generar la minuta.";
+    return fail(category, t.errors.regenerationUnknown);
   }
 }
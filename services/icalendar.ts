@@ -0,0 +1,109 @@
+// Minimal iCalendar (RFC 5545) writer for the task and meeting exports.
+
+export const ICS_MIME_TYPE = 'text/calendar';
+
+// Lines are folded at 75 octets; continuation lines start with a space.
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const char of line) {
+        const charSize = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space.
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (size + charSize > limit) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += charSize;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// UTC timestamp, as required by DTSTAMP.
+const utcStamp = (date: Date): string =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// YYYY-MM-DD as an iCalendar DATE.
+const icsDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+// YYYY-MM-DD and HH:MM as a floating DATE-TIME, in the attendee's own time zone.
+const icsDateTime = (isoDate: string, time: string): string => `${icsDate(isoDate)}T${time.replace(':', '')}00`;
+
+export interface CalendarTodo {
+    uid: string;
+    summary: string;
+    description?: string;
+    // YYYY-MM-DD.
+    due?: string;
+}
+
+export interface CalendarEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    location?: string;
+    // YYYY-MM-DD.
+    date: string;
+    // HH:MM; without it the event takes the whole day.
+    time?: string;
+    durationMinutes?: number;
+}
+
+type Property = [name: string, value: string | undefined];
+
+const component = (name: string, properties: Property[]): string[] => [
+    `BEGIN:${name}`,
+    ...properties.filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => `${key}:${value}`),
+    `END:${name}`,
+];
+
+const todoLines = (todo: CalendarTodo, stamp: string): string[] => component('VTODO', [
+    ['UID', todo.uid],
+    ['DTSTAMP', stamp],
+    ['SUMMARY', escapeText(todo.summary)],
+    ['DESCRIPTION', todo.description && escapeText(todo.description)],
+    ['DUE;VALUE=DATE', todo.due && icsDate(todo.due)],
+    ['STATUS', 'NEEDS-ACTION'],
+]);
+
+const eventLines = (event: CalendarEvent, stamp: string): string[] => component('VEVENT', [
+    ['UID', event.uid],
+    ['DTSTAMP', stamp],
+    ['SUMMARY', escapeText(event.summary)],
+    ['DESCRIPTION', event.description && escapeText(event.description)],
+    ['LOCATION', event.location && escapeText(event.location)],
+    ...(event.time
+        ? [['DTSTART', icsDateTime(event.date, event.time)], ['DURATION', `PT${event.durationMinutes ?? 60}M`]] as Property[]
+        : [['DTSTART;VALUE=DATE', icsDate(event.date)]] as Property[]),
+]);
+
+/**
+ * Builds a calendar file with the given to-dos and events. UIDs should be
+ * stable so importing the file again updates the entries instead of
+ * duplicating them.
+ */
+export function buildCalendar({ todos = [], events = [] }: { todos?: CalendarTodo[]; events?: CalendarEvent[] }): string {
+    const stamp = utcStamp(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Minutas//Minutas//ES',
+        'CALSCALE:GREGORIAN',
+        ...todos.flatMap(todo => todoLines(todo, stamp)),
+        ...events.flatMap(event => eventLines(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,106 @@
+import { DeliveryRequest, IntegrationTarget } from "../types";
+import { messages } from "../i18n";
+import { parseApiError } from "./apiErrors";
+import { joinUrl } from "./providerHttp";
+import { getProviderSettings } from "./providerSettings";
+import { IntegrationContext, parseRecipients, renderIntegrationTemplate, sampleIntegrationContext } from "./integrationPayload";
+
+// Mail clients and browsers cut long mailto links; the body is shortened to
+// stay well within the usual limits.
+const MAX_MAILTO_BODY_CHARS = 1500;
+
+// Failure of a delivery. Retryable ones (network, rate limits, server errors)
+// stay in the outbox for another attempt.
+export class DeliveryError extends Error {
+    retryable: boolean;
+
+    constructor(message: string, retryable: boolean) {
+        super(message);
+        this.name = 'DeliveryError';
+        this.retryable = retryable;
+    }
+}
+
+// Email targets without a relay are sent by the user's mail client.
+export const opensMailClient = (target: IntegrationTarget): boolean => target.kind === 'email' && !target.url.trim();
+
+const emailSubject = (context: IntegrationContext): string => `${context.title} — ${context.date}`;
+
+/**
+ * Renders the request that delivers the minutes to a target. Slack and Teams
+ * go through the app's server, since their webhooks do not allow browser
+ * requests. Throws `IntegrationTemplateError` if the template does not render.
+ */
+export function buildDeliveryRequest(target: IntegrationTarget, context: IntegrationContext): DeliveryRequest {
+    const rendered = renderIntegrationTemplate(target.kind, target.template, context);
+    switch (target.kind) {
+        case 'slack':
+        case 'teams':
+            return { transport: 'relay', url: target.url, body: rendered };
+        case 'email':
+            return {
+                transport: 'direct',
+                url: target.url,
+                body: JSON.stringify({ to: parseRecipients(target.recipients), subject: emailSubject(context), text: rendered }),
+            };
+        case 'webhook':
+            return { transport: 'direct', url: target.url, body: rendered };
+    }
+}
+
+export function mailtoUrl(target: IntegrationTarget, context: IntegrationContext): string {
+    let body = renderIntegrationTemplate('email', target.template, context);
+    if (body.length > MAX_MAILTO_BODY_CHARS) body = `${body.slice(0, MAX_MAILTO_BODY_CHARS)}…`;
+    const query = `subject=${encodeURIComponent(emailSubject(context))}&body=${encodeURIComponent(body)}`;
+    return `mailto:${parseRecipients(target.recipients).map(encodeURIComponent).join(',')}?${query}`;
+}
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+async function post(url: string, body: string): Promise<Response> {
+    try {
+        return await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+    } catch {
+        throw new DeliveryError(messages().integrations.errors.unreachable(url), true);
+    }
+}
+
+async function deliverDirect({ url, body }: DeliveryRequest): Promise<void> {
+    const response = await post(url, body);
+    if (!response.ok) {
+        const details = await response.text().catch(() => '');
+        throw new DeliveryError(messages().integrations.errors.http(response.status, details.slice(0, 200) || response.statusText), isRetryableStatus(response.status));
+    }
+}
+
+async function deliverThroughRelay({ url, body }: DeliveryRequest): Promise<void> {
+    const t = messages().integrations.errors;
+    const relayUrl = joinUrl(getProviderSettings().gemini.proxyUrl, 'webhook');
+    const response = await post(relayUrl, JSON.stringify({ url, body }));
+    if (response.ok) return;
+    const error = parseApiError(response.status, await response.text().catch(() => ''));
+    console.error("Webhook relay failed:", error.code, error.message);
+    switch (error.code) {
+        case 'RATE_LIMITED':
+            throw new DeliveryError(messages().errors.api.rateLimited(error.retryAfterSeconds ?? 60), true);
+        case 'UPSTREAM_FAILED':
+            throw new DeliveryError(t.serviceFailed, true);
+        case 'NOT_FOUND':
+            throw new DeliveryError(t.webhookGone, false);
+        default:
+            throw new DeliveryError(t.rejected, false);
+    }
+}
+
+export const deliver = (request: DeliveryRequest): Promise<void> =>
+    request.transport === 'relay' ? deliverThroughRelay(request) : deliverDirect(request);
+
+// Sends sample minutes to a target right away, bypassing the outbox.
+export async function testIntegration(target: IntegrationTarget): Promise<void> {
+    const context = sampleIntegrationContext();
+    if (opensMailClient(target)) {
+        window.location.href = mailtoUrl(target, context);
+        return;
+    }
+    await deliver(buildDeliveryRequest(target, context));
+}
@@ -0,0 +1,207 @@
+import { IntegrationKind, IntegrationTarget, Locale, Minutes, MinutesTask, MinutesTemplate } from "../types";
+import { getLocale, messages } from "../i18n";
+import { NOT_SPECIFIED } from "./minutesSchema";
+import { formatTask, minutesToHtml, minutesToMarkdown, sectionBodyMarkdown } from "./minutesFormatter";
+import { getSectionValue, getTemplateSection } from "./templates";
+
+// Values the {{placeholders}} of an integration template are filled with.
+// `sections` holds the Markdown of every section, by section id.
+export interface IntegrationContext {
+    title: string;
+    date: string;
+    attendees: string;
+    summary: string;
+    tasks: string;
+    markdown: string;
+    html: string;
+    sections: Record<string, string>;
+}
+
+export const PLACEHOLDERS = ['title', 'date', 'attendees', 'summary', 'tasks', 'markdown', 'html'] as const;
+
+// Prefix of the placeholders for single sections, e.g. {{section.decisions}}.
+const SECTION_PREFIX = 'section.';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// The outbox and the Slack API cap messages well below this; a template that
+// renders larger is almost certainly a mistake.
+const MAX_RENDERED_CHARS = 200_000;
+
+export class IntegrationTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IntegrationTemplateError';
+    }
+}
+
+interface ContextOptions {
+    language?: Locale;
+    date?: Date;
+    attendees?: string[];
+}
+
+export function buildIntegrationContext(minutes: Minutes, template: MinutesTemplate, { language = 'es', date = new Date(), attendees = [] }: ContextOptions = {}): IntegrationContext {
+    const labels = messages(language).minutes;
+    const tasksSection = template.sections.find(section => section.kind === 'tasks');
+    const tasks = tasksSection ? getSectionValue(minutes, tasksSection) as MinutesTask[] : [];
+    const summary = getTemplateSection(template, 'summary');
+    return {
+        title: minutes.projectName && minutes.projectName !== NOT_SPECIFIED ? minutes.projectName : labels.untitled,
+        date: date.toLocaleDateString(language, { dateStyle: 'long' }),
+        attendees: attendees.join(', '),
+        summary: summary ? sectionBodyMarkdown(minutes, summary, language) : '',
+        tasks: tasks.length > 0 ? tasks.map(task => formatTask(task, language)).join('\n') : labels.notSpecified,
+        markdown: minutesToMarkdown(minutes, template, { includeProjectName: false, language }),
+        html: minutesToHtml(minutes, template, { includeProjectName: false, language }),
+        sections: Object.fromEntries(template.sections.map(section => [section.id, sectionBodyMarkdown(minutes, section, language)])),
+    };
+}
+
+// Stand-in minutes for test sends, in the interface language.
+export function sampleIntegrationContext(): IntegrationContext {
+    const t = messages().integrations.sample;
+    return {
+        title: t.title,
+        date: new Date().toLocaleDateString(getLocale(), { dateStyle: 'long' }),
+        attendees: t.attendees,
+        summary: t.summary,
+        tasks: t.tasks,
+        markdown: `### ${t.heading}\n${t.summary}`,
+        html: `<h3>${t.heading}</h3>\n<p>${t.summary}</p>`,
+        sections: {},
+    };
+}
+
+// Slack's mrkdwn marks bold with single asterisks and has no headings or
+// list syntax.
+const toSlackMarkdown = (text: string): string =>
+    text
+        .replace(/\*\*(.+?)\*\*/g, '*$1*')
+        .replace(/^#{1,6}\s+(.*)$/gm, '*$1*')
+        .replace(/^(\s*)[*-]\s+/gm, '$1• ');
+
+// Teams joins single line breaks into one paragraph.
+const toTeamsMarkdown = (text: string): string => text.replace(/\n+/g, '\n\n');
+
+const formatValue = (kind: IntegrationKind, value: string): string => {
+    if (kind === 'slack') return toSlackMarkdown(value);
+    if (kind === 'teams') return toTeamsMarkdown(value);
+    return value;
+};
+
+const placeholderValue = (name: string, context: IntegrationContext): string | undefined => {
+    if (name.startsWith(SECTION_PREFIX)) {
+        return context.sections[name.slice(SECTION_PREFIX.length)] ?? '';
+    }
+    return (PLACEHOLDERS as readonly string[]).includes(name) ? context[name as typeof PLACEHOLDERS[number]] : undefined;
+};
+
+// Templates of these kinds are JSON, with placeholders inside its strings.
+const isJsonKind = (kind: IntegrationKind): boolean => kind !== 'email';
+
+/**
+ * Fills the placeholders of a target's template. In JSON templates the
+ * values are escaped for a JSON string, and the result must parse.
+ * Throws `IntegrationTemplateError` for unknown placeholders or invalid JSON.
+ */
+export function renderIntegrationTemplate(kind: IntegrationKind, template: string, context: IntegrationContext): string {
+    const t = messages().integrations.errors;
+    const rendered = template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+        const value = placeholderValue(name, context);
+        if (value === undefined) throw new IntegrationTemplateError(t.unknownPlaceholder(name));
+        const text = formatValue(kind, value);
+        return isJsonKind(kind) ? JSON.stringify(text).slice(1, -1) : text;
+    });
+    if (rendered.length > MAX_RENDERED_CHARS) {
+        throw new IntegrationTemplateError(t.tooLarge);
+    }
+    if (isJsonKind(kind)) {
+        try {
+            JSON.parse(rendered);
+        } catch (error) {
+            throw new IntegrationTemplateError(t.invalidJson(error instanceof Error ? error.message : String(error)));
+        }
+    }
+    return rendered;
+}
+
+// Hosts of Slack incoming webhooks and Teams connectors and workflows. The
+// server relays only to these, so it cannot be used to reach anything else.
+const RELAY_HOSTS: Record<'slack' | 'teams', RegExp> = {
+    slack: /^hooks\.slack\.com$/,
+    teams: /(\.webhook\.office\.com|^outlook\.office(365)?\.com|\.logic\.azure\.com|\.powerplatform\.com)$/,
+};
+
+export function isRelayUrl(kind: 'slack' | 'teams', url: string): boolean {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'https:' && RELAY_HOSTS[kind].test(parsed.hostname);
+    } catch {
+        return false;
+    }
+}
+
+// Checks a target before it is saved, by rendering it with sample values.
+export function validateIntegrationTarget(target: IntegrationTarget): void {
+    const t = messages().integrations.errors;
+    if (!target.name.trim()) throw new IntegrationTemplateError(t.missingName);
+    if (target.kind !== 'email' || target.url.trim()) {
+        let url: URL;
+        try {
+            url = new URL(target.url.trim());
+        } catch {
+            throw new IntegrationTemplateError(t.invalidUrl);
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new IntegrationTemplateError(t.invalidUrl);
+    }
+    if ((target.kind === 'slack' || target.kind === 'teams') && !isRelayUrl(target.kind, target.url.trim())) {
+        throw new IntegrationTemplateError(t.unexpectedHost(messages().integrations.kinds[target.kind]));
+    }
+    if (target.kind === 'email' && parseRecipients(target.recipients).length === 0) {
+        throw new IntegrationTemplateError(t.missingRecipients);
+    }
+    renderIntegrationTemplate(target.kind, target.template, sampleIntegrationContext());
+}
+
+export const parseRecipients = (recipients: string): string[] =>
+    recipients.split(/[,;\s]+/).map(address => address.trim()).filter(address => address.includes('@'));
+
+// Starting template of a new target, with headings in the interface language.
+export function defaultIntegrationTemplate(kind: IntegrationKind): string {
+    const t = messages().integrations.defaults;
+    switch (kind) {
+        case 'webhook':
+            return JSON.stringify({
+                title: '{{title}}',
+                date: '{{date}}',
+                attendees: '{{attendees}}',
+                summary: '{{summary}}',
+                tasks: '{{tasks}}',
+                markdown: '{{markdown}}',
+            }, null, 2);
+        case 'slack':
+            return JSON.stringify({
+                text: '{{title}} — {{date}}',
+                blocks: [
+                    { type: 'header', text: { type: 'plain_text', text: '{{title}}' } },
+                    { type: 'context', elements: [{ type: 'mrkdwn', text: '{{date}} · {{attendees}}' }] },
+                    { type: 'section', text: { type: 'mrkdwn', text: '{{summary}}' } },
+                    { type: 'section', text: { type: 'mrkdwn', text: `*${t.tasks}*\n{{tasks}}` } },
+                ],
+            }, null, 2);
+        case 'teams':
+            return JSON.stringify({
+                '@type': 'MessageCard',
+                '@context': 'http://schema.org/extensions',
+                summary: '{{title}}',
+                title: '{{title}} — {{date}}',
+                sections: [
+                    { activityTitle: t.summary, text: '{{summary}}' },
+                    { activityTitle: t.tasks, text: '{{tasks}}' },
+                ],
+            }, null, 2);
+        case 'email':
+            return `{{title}} — {{date}}\n${t.attendees}: {{attendees}}\n\n{{markdown}}`;
+    }
+}
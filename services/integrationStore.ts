@@ -0,0 +1,62 @@
+import { IntegrationKind, IntegrationTarget } from "../types";
+import { defaultIntegrationTemplate, validateIntegrationTarget } from "./integrationPayload";
+
+// Targets are few and small, so like templates they live in localStorage.
+const INTEGRATIONS_KEY = 'minutas.integrations';
+
+export const INTEGRATION_KINDS: IntegrationKind[] = ['webhook', 'slack', 'teams', 'email'];
+
+const createIntegrationId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const isTarget = (value: unknown): value is IntegrationTarget => {
+    if (typeof value !== 'object' || value === null) return false;
+    const target = value as Record<string, unknown>;
+    return INTEGRATION_KINDS.includes(target.kind as IntegrationKind)
+        && ['id', 'name', 'url', 'recipients', 'template'].every(key => typeof target[key] === 'string')
+        && typeof target.enabled === 'boolean';
+};
+
+export function listIntegrations(): IntegrationTarget[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(INTEGRATIONS_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored.filter(isTarget) : [];
+    } catch {
+        return [];
+    }
+}
+
+export const getIntegration = (id: string): IntegrationTarget | undefined =>
+    listIntegrations().find(target => target.id === id);
+
+// New, unsaved target of the given kind with its default template.
+export const createIntegration = (kind: IntegrationKind): IntegrationTarget => ({
+    id: '',
+    kind,
+    name: '',
+    url: '',
+    recipients: '',
+    template: defaultIntegrationTemplate(kind),
+    enabled: true,
+});
+
+/**
+ * Creates or replaces a target after checking its URL and template. Throws
+ * `IntegrationTemplateError` with a message in the interface language.
+ */
+export function saveIntegration(target: IntegrationTarget): IntegrationTarget {
+    validateIntegrationTarget(target);
+    const saved = { ...target, name: target.name.trim(), url: target.url.trim(), id: target.id || createIntegrationId() };
+    const targets = listIntegrations();
+    const index = targets.findIndex(t => t.id === saved.id);
+    if (index === -1) targets.push(saved);
+    else targets[index] = saved;
+    localStorage.setItem(INTEGRATIONS_KEY, JSON.stringify(targets));
+    return saved;
+}
+
+export function deleteIntegration(id: string): void {
+    localStorage.setItem(INTEGRATIONS_KEY, JSON.stringify(listIntegrations().filter(target => target.id !== id)));
+}
@@ -0,0 +1,66 @@
+import { Locale } from "../types";
+import { getLocale, isLocale, LOCALES } from "../i18n";
+
+// Frequent function words of each supported language. Words that are also
+// words of another one ("de", "que", "para", "no", "por") are left out so
+// they do not blur the count.
+const STOPWORDS: Record<Locale, string[]> = {
+    es: ['el', 'la', 'los', 'las', 'y', 'en', 'con', 'una', 'es', 'del', 'al', 'lo', 'pero', 'más', 'eso', 'también', 'hay', 'muy', 'sí', 'cuando', 'entonces', 'bueno', 'pues', 'ahora', 'aquí', 'tenemos', 'hacer', 'ya', 'sus', 'yo', 'nosotros', 'usted', 'ellos'],
+    en: ['the', 'and', 'to', 'of', 'is', 'in', 'that', 'it', 'for', 'you', 'we', 'this', 'on', 'with', 'are', 'be', 'have', 'was', 'so', 'but', 'not', 'they', 'will', 'can', 'just', 'what', 'about', 'our', 'if', 'there', 'think', 'yeah', 'would', 'going', 'need'],
+    pt: ['os', 'em', 'um', 'uma', 'com', 'não', 'é', 'na', 'ao', 'pelo', 'pela', 'ele', 'ela', 'mais', 'isso', 'também', 'muito', 'você', 'vocês', 'nós', 'então', 'quando', 'agora', 'pra', 'vai', 'tem', 'temos', 'fazer', 'já', 'aqui', 'seu', 'sua'],
+};
+
+// Texts with fewer recognized words than this are not classified.
+const MIN_MATCHES = 5;
+// A second language counts as present above this share of the matches.
+const SECONDARY_SHARE = 0.2;
+
+export interface DetectedLanguage {
+    language: Locale;
+    // Other languages with a significant share of the text, most frequent first.
+    others: Locale[];
+}
+
+const STOPWORD_SETS = Object.fromEntries(
+    LOCALES.map(locale => [locale, new Set(STOPWORDS[locale])]),
+) as Record<Locale, Set<string>>;
+
+/**
+ * Guesses the language of a transcript by counting function words. Returns
+ * null when the text is too short or matches none of the supported languages.
+ */
+export function detectTranscriptLanguage(text: string): DetectedLanguage | null {
+    const counts: Record<Locale, number> = { es: 0, en: 0, pt: 0 };
+    for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+        for (const locale of LOCALES) {
+            if (STOPWORD_SETS[locale].has(word)) counts[locale]++;
+        }
+    }
+    const total = LOCALES.reduce((sum, locale) => sum + counts[locale], 0);
+    if (total < MIN_MATCHES) return null;
+
+    const ranked = [...LOCALES].sort((a, b) => counts[b] - counts[a]);
+    return {
+        language: ranked[0],
+        others: ranked.slice(1).filter(locale => counts[locale] / total >= SECONDARY_SHARE),
+    };
+}
+
+// 'auto' writes the minutes in the language detected in the transcript.
+export type OutputLanguage = Locale | 'auto';
+
+const OUTPUT_LANGUAGE_KEY = 'minutas.outputLanguage';
+
+export function getOutputLanguage(): OutputLanguage {
+    const stored = localStorage.getItem(OUTPUT_LANGUAGE_KEY);
+    return isLocale(stored) ? stored : 'auto';
+}
+
+export function setOutputLanguage(language: OutputLanguage): void {
+    localStorage.setItem(OUTPUT_LANGUAGE_KEY, language);
+}
+
+// Language to write the minutes in. Undetectable transcripts fall back to the
+// interface language.
+export const resolveOutputLanguage = (preference: OutputLanguage, transcript: string): Locale =>
+    preference !== 'auto' ? preference : detectTranscriptLanguage(transcript)?.language ?? getLocale();
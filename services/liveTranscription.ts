@@ -0,0 +1,92 @@
+import { TranscriptionChunk } from "../types";
+import { buildAudioSegment, buildAudioSegments, extractContainerHeader, OVERLAP_SLICES } from "./audioSegments";
+import { transcribeAudio } from "./geminiService";
+import { formatTranscript } from "./transcript";
+import { removeSilence } from "./voiceActivity";
+
+// Recorder slices per live window (30 seconds). Each window is sent for
+// transcription as soon as it is complete.
+export const LIVE_WINDOW_SLICES = 3;
+// Every window after the first repeats the slice before it, so transcribing
+// live uploads about a third more audio than was recorded.
+export const LIVE_UPLOAD_FACTOR = (LIVE_WINDOW_SLICES + OVERLAP_SLICES) / LIVE_WINDOW_SLICES;
+
+export interface LiveTranscriber {
+    // Adds the next recorder slice, starting a transcription when it
+    // completes a window.
+    addSlice(slice: Blob): void;
+    /**
+     * Waits for the window being transcribed and returns the whole recording
+     * as transcription chunks: windows transcribed live are done, the rest
+     * (including the final, shorter window) are pending.
+     */
+    finish(): Promise<TranscriptionChunk[]>;
+    // Stops transcribing; answers still in flight are ignored.
+    cancel(): void;
+}
+
+/**
+ * Transcribes a recording in short windows while it is still going on.
+ * `onUpdate` receives every chunk started so far each time one changes.
+ * Windows are sent one at a time; a window that fails is left for the
+ * transcription that runs after the recording stops.
+ */
+export function createLiveTranscriber(mimeType: string, onUpdate: (chunks: TranscriptionChunk[]) => void): LiveTranscriber {
+    const slices: Blob[] = [];
+    // Container header of the first slice, repeated at the start of the others.
+    let header: Promise<Blob> | null = null;
+    let chunks: TranscriptionChunk[] = [];
+    let queue: Promise<void> = Promise.resolve();
+    let cancelled = false;
+
+    const updateChunk = (chunk: TranscriptionChunk) => {
+        if (cancelled) return;
+        chunks = [...chunks.filter(c => c.index !== chunk.index), chunk].sort((a, b) => a.index - b.index);
+        onUpdate(chunks);
+    };
+
+    const transcribeWindow = async (index: number) => {
+        if (cancelled) return;
+        header ??= extractContainerHeader(slices[0]);
+        const { blob, offset } = buildAudioSegment(slices, await header, mimeType, index, LIVE_WINDOW_SLICES);
+        updateChunk({ index, blob, offset, status: 'transcribing', segments: [] });
+        // Windows with no speech (waiting for people to join, breaks) are never sent.
+        const chunk = await removeSilence({ index, blob, offset, status: 'transcribing', segments: [] });
+        updateChunk(chunk);
+        if (chunk.status === 'done' || cancelled) return;
+
+        const previous = chunks.find(c => c.index === index - 1);
+        const previousContext = previous ? formatTranscript(previous.segments.slice(-3)) : undefined;
+        // A single attempt: the window is retried after the recording anyway.
+        const result = await transcribeAudio(chunk.blob, { part: { index, previousContext }, maxAttempts: 1 });
+        if (result.ok === false) {
+            updateChunk({ ...chunk, status: 'error', error: result.error.message });
+        } else {
+            updateChunk({ ...chunk, status: 'done', segments: result.value });
+        }
+    };
+
+    return {
+        addSlice(slice) {
+            slices.push(slice);
+            if (slices.length % LIVE_WINDOW_SLICES !== 0) return;
+            const index = slices.length / LIVE_WINDOW_SLICES - 1;
+            queue = queue
+                .then(() => transcribeWindow(index))
+                .catch(err => console.error("Error transcribing live window:", err));
+        },
+
+        async finish() {
+            await queue;
+            const segments = await buildAudioSegments(slices, mimeType, LIVE_WINDOW_SLICES);
+            return segments.map(({ blob, offset }, index) => {
+                const live = chunks.find(c => c.index === index);
+                return live?.status === 'done' ? live : { index, blob, offset, status: 'pending', segments: [] };
+            });
+        },
+
+        cancel() {
+            cancelled = true;
+        },
+    };
+}
@@ -0,0 +1,40 @@
+import { ProviderSettings } from "../types";
+import { AiProvider } from "./aiProvider";
+import { buildMinutesRequestPrompt, buildMinutesRequestSchema } from "./prompts";
+import { joinUrl, readLines, sendRequest, toJsonSchema } from "./providerHttp";
+import { transcribeWithWhisper } from "./openAiProvider";
+
+// One line of Ollama's streamed chat answer.
+interface OllamaChatChunk {
+    message?: { content?: string };
+    done?: boolean;
+}
+
+// Runs entirely on the user's machine: a Whisper server (faster-whisper,
+// whisper.cpp or similar) for the audio and Ollama for the minutes.
+export function createLocalProvider({ whisperUrl, whisperModel, ollamaUrl, model }: ProviderSettings['local']): AiProvider {
+    return {
+        transcribe: request => transcribeWithWhisper(whisperUrl, '', whisperModel, request),
+
+        async generateMinutes(request, { signal, onText } = {}) {
+            const response = await sendRequest(joinUrl(ollamaUrl, 'api/chat'), {
+                method: 'POST',
+                signal,
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model,
+                    messages: [{ role: 'user', content: buildMinutesRequestPrompt(request) }],
+                    format: toJsonSchema(buildMinutesRequestSchema(request)),
+                    stream: true,
+                }),
+            });
+            let text = '';
+            await readLines(response, line => {
+                const chunk = JSON.parse(line) as OllamaChatChunk;
+                text += chunk.message?.content ?? '';
+                onText?.(text);
+            });
+            return text;
+        },
+    };
+}
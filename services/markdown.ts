@@ -0,0 +1,119 @@
+// The small subset of Markdown the model writes in the minutes: paragraphs,
+// bullet and numbered lists (nested by indentation), bold and italics.
+// Parsed once into blocks so every output format renders the same structure.
+
+export interface TextRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+}
+
+export interface MarkdownList {
+    ordered: boolean;
+    items: MarkdownListItem[];
+}
+
+export interface MarkdownListItem {
+    runs: TextRun[];
+    children?: MarkdownList;
+}
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; runs: TextRun[] }
+    | { type: 'list'; list: MarkdownList };
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+
+// `**bold**`, `*italic*` and `_italic_`; markers without a closing pair are
+// kept as text.
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|(?<![\p{L}\p{N}])_(?!\s)(.+?)_(?![\p{L}\p{N}])/gu;
+
+export function parseInline(text: string, style: Omit<TextRun, 'text'> = {}): TextRun[] {
+    const runs: TextRun[] = [];
+    let last = 0;
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        if (match.index > last) runs.push({ text: text.slice(last, match.index), ...style });
+        if (match[1] !== undefined) runs.push(...parseInline(match[1], { ...style, bold: true }));
+        else runs.push(...parseInline(match[2] ?? match[3], { ...style, italic: true }));
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) runs.push({ text: text.slice(last), ...style });
+    return runs;
+}
+
+export const plainText = (runs: TextRun[]): string => runs.map(run => run.text).join('');
+
+// Width of the leading whitespace, with tabs as four spaces.
+const indentWidth = (indent: string): number => indent.replace(/\t/g, '    ').length;
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    // Open lists from the outermost in, with the indentation of their items.
+    let stack: { list: MarkdownList; indent: number }[] = [];
+
+    const closeParagraph = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+        paragraph = [];
+    };
+
+    for (const line of text.split('\n')) {
+        const item = LIST_ITEM_PATTERN.exec(line);
+        if (item) {
+            closeParagraph();
+            const indent = indentWidth(item[1]);
+            const ordered = /\d/.test(item[2]);
+            while (stack.length > 0 && indent < stack[stack.length - 1].indent) stack.pop();
+            let top = stack[stack.length - 1];
+            if (top && indent > top.indent) {
+                const parent = top.list.items[top.list.items.length - 1];
+                parent.children = { ordered, items: [] };
+                top = { list: parent.children, indent };
+                stack.push(top);
+            } else if (!top || (stack.length === 1 && top.list.ordered !== ordered)) {
+                // A new list, also when the top level switches between
+                // bullets and numbers.
+                top = { list: { ordered, items: [] }, indent };
+                blocks.push({ type: 'list', list: top.list });
+                stack = [top];
+            }
+            top.list.items.push({ runs: parseInline(item[3].trim()) });
+        } else if (!line.trim()) {
+            closeParagraph();
+            stack = [];
+        } else if (stack.length > 0 && /^\s/.test(line)) {
+            // Continuation of the last list item.
+            const last = stack[stack.length - 1].list.items.at(-1);
+            last.runs = [...last.runs, ...parseInline(` ${line.trim()}`)];
+        } else {
+            stack = [];
+            paragraph.push(line.trim());
+        }
+    }
+    closeParagraph();
+    return blocks;
+}
+
+export const escapeHtml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export const runsToHtml = (runs: TextRun[]): string =>
+    runs.map(run => {
+        let html = escapeHtml(run.text);
+        if (run.italic) html = `<em>${html}</em>`;
+        if (run.bold) html = `<strong>${html}</strong>`;
+        return html;
+    }).join('');
+
+export const listToHtml = (list: MarkdownList): string => {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const items = list.items.map(item => `<li>${runsToHtml(item.runs)}${item.children ? `\n${listToHtml(item.children)}` : ''}</li>`);
+    return `<${tag}>\n${items.join('\n')}\n</${tag}>`;
+};
+
+export const blocksToHtml = (blocks: MarkdownBlock[]): string =>
+    blocks.map(block => (block.type === 'paragraph' ? `<p>${runsToHtml(block.runs)}</p>` : listToHtml(block.list))).join('\n');
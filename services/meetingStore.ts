@@ -0,0 +1,166 @@
+import { AppStatus, MeetingRecord } from "../types";
+
+const DB_NAME = 'minutas';
+const DB_VERSION = 2;
+const MEETINGS_STORE = 'meetings';
+// Audio slices written while a recording is in progress, so they survive a
+// crash or reload. Keyed by [sessionId, seq].
+const RECORDING_CHUNKS_STORE = 'recordingChunks';
+
+interface RecordingChunk {
+    sessionId: string;
+    seq: number;
+    blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(MEETINGS_STORE)) {
+                    const store = db.createObjectStore(MEETINGS_STORE, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(RECORDING_CHUNKS_STORE)) {
+                    const store = db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: ['sessionId', 'seq'] });
+                    store.createIndex('sessionId', 'sessionId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName: string = MEETINGS_STORE,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(run(transaction.objectStore(storeName)));
+};
+
+export const createMeetingId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export async function saveMeeting(record: MeetingRecord): Promise<void> {
+    await withStore('readwrite', store => store.put(record));
+}
+
+export async function getMeeting(id: string): Promise<MeetingRecord | undefined> {
+    return withStore('readonly', store => store.get(id) as IDBRequest<MeetingRecord | undefined>);
+}
+
+/**
+ * Merges `patch` into the stored meeting and returns the updated record, or
+ * `undefined` if no meeting with that id exists.
+ */
+export async function updateMeeting(id: string, patch: Partial<Omit<MeetingRecord, 'id'>>): Promise<MeetingRecord | undefined> {
+    const existing = await getMeeting(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...patch, updatedAt: Date.now() };
+    await saveMeeting(updated);
+    return updated;
+}
+
+// All meetings, most recent first.
+export async function listMeetings(): Promise<MeetingRecord[]> {
+    const records = await withStore('readonly', store => store.getAll() as IDBRequest<MeetingRecord[]>);
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteMeeting(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    await deleteRecordingChunks(id);
+}
+
+export async function appendRecordingChunk(sessionId: string, seq: number, blob: Blob): Promise<void> {
+    const chunk: RecordingChunk = { sessionId, seq, blob };
+    await withStore('readwrite', store => store.put(chunk), RECORDING_CHUNKS_STORE);
+}
+
+// Audio slices saved for a session, in recording order.
+export async function getRecordingChunks(sessionId: string): Promise<Blob[]> {
+    const chunks = await withStore(
+        'readonly',
+        store => store.index('sessionId').getAll(sessionId) as IDBRequest<RecordingChunk[]>,
+        RECORDING_CHUNKS_STORE,
+    );
+    return chunks.sort((a, b) => a.seq - b.seq).map(chunk => chunk.blob);
+}
+
+export async function deleteRecordingChunks(sessionId: string): Promise<void> {
+    const range = IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]);
+    await withStore('readwrite', store => store.delete(range), RECORDING_CHUNKS_STORE);
+}
+
+/**
+ * Meetings whose recording never reached the stop handler (tab crash,
+ * reload, closed laptop) and still have saved audio slices.
+ */
+export async function findUnfinishedRecordings(): Promise<MeetingRecord[]> {
+    const candidates = (await listMeetings()).filter(record => record.status === AppStatus.Recording);
+    const unfinished: MeetingRecord[] = [];
+    for (const record of candidates) {
+        const chunks = await getRecordingChunks(record.id);
+        if (chunks.length > 0) {
+            unfinished.push(record);
+        }
+    }
+    return unfinished;
+}
+
+interface PurgeOptions {
+    // Only meetings created more than this many days ago are affected.
+    olderThanDays?: number;
+    // Drop only the audio and keep transcript and minutes.
+    audioOnly?: boolean;
+}
+
+/**
+ * Deletes old meetings (or just their audio) and returns how many records
+ * were affected.
+ */
+export async function purgeMeetings({ olderThanDays = 0, audioOnly = false }: PurgeOptions = {}): Promise<number> {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    const targets = (await listMeetings()).filter(record =>
+        record.createdAt <= cutoff && (!audioOnly || record.audio)
+    );
+    for (const record of targets) {
+        if (audioOnly) {
+            await saveMeeting({ ...record, audio: undefined, updatedAt: Date.now() });
+        } else {
+            await deleteMeeting(record.id);
+        }
+    }
+    return targets.length;
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
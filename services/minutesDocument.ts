@@ -0,0 +1,118 @@
+import { Locale, Minutes, MinutesTask, MinutesTemplate, NextMeeting, TemplateSection } from "../types";
+import { messages } from "../i18n";
+import { NOT_SPECIFIED } from "./minutesSchema";
+import { bodySections, getSectionValue, getTemplateSection } from "./templates";
+import { MarkdownBlock, parseInline, parseMarkdown, TextRun } from "./markdown";
+
+// Layout-independent form of the minutes shared by the file exports: a header
+// followed by titled sections of blocks.
+
+export interface DocumentTask {
+    description: TextRun[];
+    owner: string;
+    dueDate: string;
+}
+
+export type DocumentBlock =
+    | MarkdownBlock
+    | { type: 'tasks'; tasks: DocumentTask[] }
+    | { type: 'fields'; fields: { label: string; value: string }[] };
+
+export interface DocumentSection {
+    heading: string;
+    blocks: DocumentBlock[];
+}
+
+export interface MinutesDocument {
+    language: Locale;
+    title: string;
+    // Meeting date, already formatted in the language of the minutes.
+    date: string;
+    attendees: string[];
+    sections: DocumentSection[];
+    labels: {
+        date: string;
+        attendees: string;
+        done: string;
+        task: string;
+        owner: string;
+        dueDate: string;
+    };
+}
+
+interface DocumentOptions {
+    language?: Locale;
+    // When the meeting took place.
+    date?: Date;
+    attendees?: string[];
+}
+
+const sectionBlocks = (minutes: Minutes, section: TemplateSection, language: Locale): DocumentBlock[] => {
+    const labels = messages(language).minutes;
+    const display = (value: string) => (value === NOT_SPECIFIED ? labels.notSpecified : value);
+    const notSpecified: DocumentBlock[] = [{ type: 'paragraph', runs: [{ text: labels.notSpecified }] }];
+    const value = getSectionValue(minutes, section);
+    switch (section.kind) {
+        case 'text':
+            return parseMarkdown(display(value as string));
+        case 'list': {
+            const items = value as string[];
+            return items.length > 0
+                ? [{ type: 'list', list: { ordered: false, items: items.map(item => ({ runs: parseInline(item) })) } }]
+                : notSpecified;
+        }
+        case 'tasks': {
+            const tasks = value as MinutesTask[];
+            return tasks.length > 0
+                ? [{
+                    type: 'tasks',
+                    tasks: tasks.map(task => ({ description: parseInline(task.description), owner: display(task.owner), dueDate: display(task.dueDate) })),
+                }]
+                : notSpecified;
+        }
+        case 'meeting': {
+            const meeting = value as NextMeeting;
+            return [{
+                type: 'fields',
+                fields: [
+                    { label: labels.date, value: display(meeting.date) },
+                    { label: labels.time, value: display(meeting.time) },
+                    { label: labels.platform, value: display(meeting.platform) },
+                ],
+            }];
+        }
+    }
+};
+
+// The project name becomes the title and the summary the first section,
+// followed by the body of the minutes, numbered without the project name.
+export function buildMinutesDocument(
+    minutes: Minutes,
+    template: MinutesTemplate,
+    { language = 'es', date = new Date(), attendees = [] }: DocumentOptions = {},
+): MinutesDocument {
+    const t = messages(language);
+    const summary = getTemplateSection(template, 'summary');
+    const body = bodySections(template, { includeProjectName: false });
+    return {
+        language,
+        title: minutes.projectName && minutes.projectName !== NOT_SPECIFIED ? minutes.projectName : t.minutes.untitled,
+        date: date.toLocaleDateString(language, { dateStyle: 'long' }),
+        attendees,
+        sections: [
+            ...(summary ? [{ heading: summary.title, blocks: sectionBlocks(minutes, summary, language) }] : []),
+            ...body.map((section, index) => ({
+                heading: `${index + 1}. ${section.title}`,
+                blocks: sectionBlocks(minutes, section, language),
+            })),
+        ],
+        labels: {
+            date: t.minutes.date,
+            attendees: t.minutes.attendees,
+            done: t.minutes.done,
+            task: t.minutes.task,
+            owner: t.minutes.owner,
+            dueDate: t.minutes.dueDate,
+        },
+    };
+}
@@ -0,0 +1,36 @@
+import { Locale, Minutes, MinutesTemplate } from "../types";
+import { buildMinutesDocument } from "./minutesDocument";
+import { loadExportLogo } from "./exportBranding";
+import { minutesDocumentToHtml } from "./documentHtml";
+import { DOCX_MIME_TYPE, minutesDocumentToDocx } from "./documentDocx";
+import { minutesDocumentToPdf } from "./documentPdf";
+import { downloadFile, toFileName } from "./download";
+
+export type ExportFormat = 'docx' | 'pdf' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['docx', 'pdf', 'html'];
+
+interface ExportOptions {
+    language?: Locale;
+    // When the meeting took place; defaults to now.
+    date?: Date;
+    attendees?: string[];
+}
+
+/**
+ * Renders the minutes in the given format, with the stored logo in the
+ * header, and downloads the file. Everything happens in the browser.
+ */
+export async function exportMinutes(format: ExportFormat, minutes: Minutes, template: MinutesTemplate, options: ExportOptions = {}): Promise<void> {
+    const doc = buildMinutesDocument(minutes, template, options);
+    const logo = await loadExportLogo();
+    const filename = `${toFileName(doc.title)}.${format}`;
+    switch (format) {
+        case 'docx':
+            return downloadFile(minutesDocumentToDocx(doc, logo), filename, DOCX_MIME_TYPE);
+        case 'pdf':
+            return downloadFile(minutesDocumentToPdf(doc, logo), filename, 'application/pdf');
+        case 'html':
+            return downloadFile(minutesDocumentToHtml(doc, logo), filename, 'text/html');
+    }
+}
@@ -0,0 +1,91 @@
+import { Locale, Minutes, MinutesTask, MinutesTemplate, NextMeeting, TemplateSection } from "../types";
+import { messages, Messages } from "../i18n";
+import { NOT_SPECIFIED } from "./minutesSchema";
+import { bodySections, getSectionValue, sectionHeading } from "./templates";
+import { blocksToHtml, escapeHtml, parseInline, parseMarkdown, runsToHtml } from "./markdown";
+
+interface FormatOptions {
+    // The Done view shows the project name as its own header, so it can be
+    // left out of the rendered body.
+    includeProjectName?: boolean;
+    // Language the minutes were written in; used for the field labels.
+    language?: Locale;
+}
+
+type Labels = Messages['minutes'];
+
+// The model always writes the untranslated sentinel for missing data; it is
+// shown in the language of the minutes.
+const display = (value: string, labels: Labels): string =>
+    value === NOT_SPECIFIED ? labels.notSpecified : value;
+
+export const formatTask = (task: MinutesTask, language: Locale = 'es'): string => {
+    const labels = messages(language).minutes;
+    return `[ ] ${task.description} - **${labels.owner}:** ${display(task.owner, labels)} - **${labels.dueDate}:** ${display(task.dueDate, labels)}`;
+};
+
+const nextMeetingLines = (meeting: NextMeeting, labels: Labels): string[] => [
+    `**${labels.date}:** ${display(meeting.date, labels)}`,
+    `**${labels.time}:** ${display(meeting.time, labels)}`,
+    `**${labels.platform}:** ${display(meeting.platform, labels)}`,
+];
+
+const markdownList = (items: string[], labels: Labels): string =>
+    items.length > 0 ? items.map(item => `* ${item}`).join('\n') : labels.notSpecified;
+
+// Markdown body (without heading) of a single section of the minutes.
+export function sectionBodyMarkdown(minutes: Minutes, section: TemplateSection, language: Locale = 'es'): string {
+    const labels = messages(language).minutes;
+    const value = getSectionValue(minutes, section);
+    switch (section.kind) {
+        case 'text':
+            return display(value as string, labels);
+        case 'list':
+            return markdownList(value as string[], labels);
+        case 'tasks': {
+            const tasks = value as MinutesTask[];
+            return tasks.length > 0 ? tasks.map(task => formatTask(task, language)).join('\n\n') : labels.notSpecified;
+        }
+        case 'meeting':
+            return nextMeetingLines(value as NextMeeting, labels).join('\n\n');
+    }
+}
+
+export function minutesToMarkdown(minutes: Minutes, template: MinutesTemplate, { includeProjectName = true, language = 'es' }: FormatOptions = {}): string {
+    return bodySections(template, { includeProjectName })
+        .map(section => `### ${sectionHeading(template, section)}\n${sectionBodyMarkdown(minutes, section, language)}`)
+        .join('\n\n');
+}
+
+// Escapes the text and turns Markdown bold and italics into HTML.
+const inlineHtml = (text: string): string => runsToHtml(parseInline(text));
+
+const htmlList = (items: string[], labels: Labels): string =>
+    items.length > 0
+        ? `<ul>\n${items.map(item => `<li>${inlineHtml(item)}</li>`).join('\n')}\n</ul>`
+        : `<p>${escapeHtml(labels.notSpecified)}</p>`;
+
+const sectionBodyHtml = (minutes: Minutes, section: TemplateSection, language: Locale): string => {
+    const labels = messages(language).minutes;
+    const value = getSectionValue(minutes, section);
+    switch (section.kind) {
+        case 'text':
+            return blocksToHtml(parseMarkdown(display(value as string, labels)));
+        case 'list':
+            return htmlList(value as string[], labels);
+        case 'tasks': {
+            const tasks = value as MinutesTask[];
+            return tasks.length > 0
+                ? `<ul>\n${tasks.map(task => `<li>${inlineHtml(formatTask(task, language).replace('[ ] ', '☐ '))}</li>`).join('\n')}\n</ul>`
+                : `<p>${escapeHtml(labels.notSpecified)}</p>`;
+        }
+        case 'meeting':
+            return nextMeetingLines(value as NextMeeting, labels).map(line => `<p>${inlineHtml(line)}</p>`).join('\n');
+    }
+};
+
+export function minutesToHtml(minutes: Minutes, template: MinutesTemplate, { language = 'es' }: FormatOptions = {}): string {
+    return bodySections(template)
+        .map(section => `<h3>${escapeHtml(sectionHeading(template, section))}</h3>\n${sectionBodyHtml(minutes, section, language)}`)
+        .join('\n');
+}
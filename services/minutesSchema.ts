@@ -0,0 +1,318 @@
+import { Type, Schema } from "@google/genai";
+import { messages } from "../i18n";
+import { ActionItemProgress, ActionItemStatus, ItemCitation, Minutes, MinutesField, MinutesTask, MinutesTemplate, NextMeeting, TemplateSection, TemplateSectionKind } from "../types";
+import { parsePartialJson } from "./partialJson";
+
+export const NOT_SPECIFIED = "No se especifica";
+
+// Sections whose items must cite the transcript passages they are based on.
+export const SOURCED_SECTIONS: MinutesField[] = ['decisions', 'tasks', 'nextSteps'];
+
+const SOURCES_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    items: { type: Type.STRING },
+    description: "Citas textuales breves de la transcripción que respaldan el elemento.",
+};
+
+// Items of the sourced lists carry their text and the quotes behind it.
+const SOURCED_ITEM_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        text: { type: Type.STRING },
+        sources: SOURCES_SCHEMA,
+    },
+    required: ["text", "sources"],
+    propertyOrdering: ["text", "sources"],
+};
+
+// Schemas of the typed fields of the minutes. The response schema sent to
+// Gemini is assembled from these according to the selected template, so the
+// model returns JSON instead of free-form Markdown.
+const FIELD_SCHEMAS: Record<MinutesField, Schema> = {
+    summary: { type: Type.STRING },
+    projectName: { type: Type.STRING },
+    objective: { type: Type.STRING },
+    topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    decisions: { type: Type.ARRAY, items: SOURCED_ITEM_SCHEMA },
+    tasks: {
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                description: { type: Type.STRING },
+                owner: { type: Type.STRING },
+                dueDate: { type: Type.STRING, description: "Fecha en formato YYYY-MM-DD o \"No se especifica\"." },
+                sources: SOURCES_SCHEMA,
+            },
+            required: ["description", "owner", "dueDate", "sources"],
+            propertyOrdering: ["description", "owner", "dueDate", "sources"],
+        },
+    },
+    nextSteps: { type: Type.ARRAY, items: SOURCED_ITEM_SCHEMA },
+    nextMeeting: {
+        type: Type.OBJECT,
+        properties: {
+            date: { type: Type.STRING },
+            time: { type: Type.STRING },
+            platform: { type: Type.STRING },
+        },
+        required: ["date", "time", "platform"],
+        propertyOrdering: ["date", "time", "platform"],
+    },
+};
+
+const CUSTOM_SECTION_SCHEMAS: Partial<Record<TemplateSectionKind, Schema>> = {
+    text: { type: Type.STRING },
+    list: { type: Type.ARRAY, items: { type: Type.STRING } },
+};
+
+const isMinutesField = (id: string): id is MinutesField =>
+    Object.prototype.hasOwnProperty.call(FIELD_SCHEMAS, id);
+
+const sectionSchema = (section: TemplateSection): Schema => {
+    const base = isMinutesField(section.id) ? FIELD_SCHEMAS[section.id] : CUSTOM_SECTION_SCHEMAS[section.kind]!;
+    const schema: Schema = { ...base, description: section.instructions || section.title };
+    if (section.maxLength) {
+        if (base.type === Type.STRING) schema.maxLength = String(section.maxLength);
+        if (base.type === Type.ARRAY) schema.maxItems = String(section.maxLength);
+    }
+    return schema;
+};
+
+const FOLLOW_UP_STATUSES: ActionItemStatus[] = ['open', 'done', 'blocked'];
+
+// Progress of the pending tasks of earlier meetings; not a section of the
+// template, so it is asked for only when there are tasks to follow up.
+const FOLLOW_UPS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    description: "Avance de las tareas pendientes de reuniones anteriores que se mencionan en la transcripción.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            status: { type: Type.STRING, format: 'enum', enum: FOLLOW_UP_STATUSES },
+            progress: { type: Type.STRING },
+        },
+        required: ["id", "status", "progress"],
+        propertyOrdering: ["id", "status", "progress"],
+    },
+};
+
+// Response schema with one property per section of the template, plus the
+// follow-ups when requested.
+export function buildMinutesResponseSchema(template: MinutesTemplate, { followUps = false } = {}): Schema {
+    const ids = [...template.sections.map(section => section.id), ...(followUps ? ['followUps'] : [])];
+    return {
+        type: Type.OBJECT,
+        properties: {
+            ...Object.fromEntries(template.sections.map(section => [section.id, sectionSchema(section)])),
+            ...(followUps && { followUps: FOLLOW_UPS_SCHEMA }),
+        },
+        required: ids,
+        propertyOrdering: ids,
+    };
+}
+
+export class MinutesValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MinutesValidationError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (source: Record<string, unknown>, key: string, path: string): string => {
+    const value = source[key];
+    if (value === undefined || value === null) {
+        return NOT_SPECIFIED;
+    }
+    if (typeof value !== 'string') {
+        throw new MinutesValidationError(messages().validation.fieldNotText(`${path}${key}`));
+    }
+    return value.trim() || NOT_SPECIFIED;
+};
+
+const readStringList = (source: Record<string, unknown>, key: string): string[] => {
+    const value = source[key];
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new MinutesValidationError(messages().validation.fieldNotTextList(key));
+    }
+    return value.map(item => (item as string).trim()).filter(item => item !== '');
+};
+
+// Quotes of a sourced item. Items without any are left for the
+// verification to flag.
+const readCitation = (item: Record<string, unknown>): ItemCitation => {
+    const quotes = Array.isArray(item.sources)
+        ? item.sources.filter((quote): quote is string => typeof quote === 'string' && quote.trim() !== '').map(quote => quote.trim())
+        : [];
+    return { quotes, status: quotes.length > 0 ? 'supported' : 'unsupported' };
+};
+
+interface Sourced<T> {
+    items: T[];
+    citations: ItemCitation[];
+}
+
+// A sourced list, whose items are `{ text, sources }` objects. Plain strings
+// are accepted too, as items without sources.
+const readSourcedList = (source: Record<string, unknown>, key: string): Sourced<string> => {
+    const value = source[key];
+    if (value === undefined || value === null) {
+        return { items: [], citations: [] };
+    }
+    // While streaming, an item can arrive before its text.
+    const isItem = (item: unknown) => typeof item === 'string' || (isRecord(item) && (item.text === undefined || typeof item.text === 'string'));
+    if (!Array.isArray(value) || !value.every(isItem)) {
+        throw new MinutesValidationError(messages().validation.fieldNotTextList(key));
+    }
+    const entries = value
+        .map(item => isRecord(item)
+            ? { text: ((item.text as string | undefined) ?? '').trim(), citation: readCitation(item) }
+            : { text: (item as string).trim(), citation: readCitation({}) })
+        .filter(entry => entry.text !== '');
+    return { items: entries.map(entry => entry.text), citations: entries.map(entry => entry.citation) };
+};
+
+const readTasks = (source: Record<string, unknown>): Sourced<MinutesTask> => {
+    const value = source.tasks;
+    if (value === undefined || value === null) {
+        return { items: [], citations: [] };
+    }
+    if (!Array.isArray(value)) {
+        throw new MinutesValidationError(messages().validation.tasksNotList);
+    }
+    const entries = value.map((task, index) => {
+        if (!isRecord(task)) {
+            throw new MinutesValidationError(messages().validation.invalidTask(index + 1));
+        }
+        return {
+            task: {
+                description: readString(task, 'description', `tasks[${index}].`),
+                owner: readString(task, 'owner', `tasks[${index}].`),
+                dueDate: readString(task, 'dueDate', `tasks[${index}].`),
+            },
+            citation: readCitation(task),
+        };
+    }).filter(entry => entry.task.description !== NOT_SPECIFIED);
+    return { items: entries.map(entry => entry.task), citations: entries.map(entry => entry.citation) };
+};
+
+const readNextMeeting = (source: Record<string, unknown>): NextMeeting => {
+    const value = source.nextMeeting ?? {};
+    if (!isRecord(value)) {
+        throw new MinutesValidationError(messages().validation.invalidNextMeeting);
+    }
+    return {
+        date: readString(value, 'date', 'nextMeeting.'),
+        time: readString(value, 'time', 'nextMeeting.'),
+        platform: readString(value, 'platform', 'nextMeeting.'),
+    };
+};
+
+// Follow-ups only update the task tracker, so malformed entries are dropped
+// instead of failing the whole minutes.
+const readFollowUps = (source: Record<string, unknown>): ActionItemProgress[] => {
+    const value = source.followUps;
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((item): item is Record<string, unknown> => isRecord(item)
+            && typeof item.id === 'string'
+            && FOLLOW_UP_STATUSES.includes(item.status as ActionItemStatus)
+            && (item.progress === undefined || typeof item.progress === 'string'))
+        .map(item => ({ id: item.id as string, status: item.status as ActionItemStatus, progress: ((item.progress as string | undefined) ?? '').trim() }));
+};
+
+const isEmptyValue = (value: Minutes[MinutesField] | string | string[]): boolean => {
+    if (typeof value === 'string') return value === NOT_SPECIFIED;
+    if (Array.isArray(value)) return value.length === 0;
+    return value.date === NOT_SPECIFIED;
+};
+
+/**
+ * Validates an untrusted value (usually the parsed model response) against a
+ * template and normalizes it into a `Minutes` object. Missing optional text
+ * falls back to "No se especifica"; wrong types or empty required sections
+ * throw a `MinutesValidationError`.
+ */
+export function validateMinutes(value: unknown, template: MinutesTemplate): Minutes {
+    if (!isRecord(value)) {
+        throw new MinutesValidationError(messages().validation.notMinutes);
+    }
+    const decisions = readSourcedList(value, 'decisions');
+    const tasks = readTasks(value);
+    const nextSteps = readSourcedList(value, 'nextSteps');
+    const minutes: Minutes = {
+        summary: readString(value, 'summary', ''),
+        projectName: readString(value, 'projectName', ''),
+        objective: readString(value, 'objective', ''),
+        topics: readStringList(value, 'topics'),
+        decisions: decisions.items,
+        tasks: tasks.items,
+        nextSteps: nextSteps.items,
+        nextMeeting: readNextMeeting(value),
+    };
+    const sourced: Record<string, Sourced<unknown>> = { decisions, tasks, nextSteps };
+    const citations = Object.fromEntries(template.sections
+        .filter(section => SOURCED_SECTIONS.includes(section.id as MinutesField))
+        .map(section => [section.id, sourced[section.id].citations]));
+    const customSections: Record<string, string | string[]> = {};
+    for (const section of template.sections) {
+        if (!isMinutesField(section.id)) {
+            customSections[section.id] = section.kind === 'list'
+                ? readStringList(value, section.id)
+                : readString(value, section.id, '');
+        }
+        const sectionValue = isMinutesField(section.id) ? minutes[section.id] : customSections[section.id];
+        if (section.required && isEmptyValue(sectionValue)) {
+            throw new MinutesValidationError(messages().validation.missingRequiredSection(section.title));
+        }
+    }
+    const followUps = readFollowUps(value);
+    return {
+        ...minutes,
+        ...(Object.keys(customSections).length > 0 && { customSections }),
+        ...(Object.keys(citations).length > 0 && { citations }),
+        ...(followUps.length > 0 && { followUps }),
+    };
+}
+
+export function parseMinutesJson(text: string, template: MinutesTemplate): Minutes {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new MinutesValidationError(messages().validation.invalidMinutesJson);
+    }
+    return validateMinutes(parsed, template);
+}
+
+export interface PartialMinutes {
+    minutes: Minutes;
+    // Ids of the template sections that have started to arrive, in order.
+    receivedSections: string[];
+}
+
+/**
+ * Reads the minutes out of a response that is still streaming. Sections that
+ * have not arrived yet are left empty and required sections are not
+ * enforced. Returns null until the text can be read as an object.
+ */
+export function parsePartialMinutes(text: string, template: MinutesTemplate): PartialMinutes | null {
+    try {
+        const value = parsePartialJson(text);
+        if (!isRecord(value)) return null;
+        const lenient = { ...template, sections: template.sections.map(section => ({ ...section, required: false })) };
+        return {
+            minutes: validateMinutes(value, lenient),
+            receivedSections: template.sections.filter(section => section.id in value).map(section => section.id),
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,96 @@
+import { Schema, Type } from "@google/genai";
+import { TranscriptSegment } from "../types";
+import { AiProvider } from "./aiProvider";
+import { buildMinutesRequestSchema } from "./prompts";
+
+// Short pause so loading states can be seen while developing.
+const MOCK_DELAY_MS = 400;
+// The minutes are streamed in pieces of this many characters, one per tick.
+const MOCK_STREAM_CHUNK = 24;
+const MOCK_STREAM_TICK_MS = 30;
+
+const SAMPLE_TRANSCRIPT: TranscriptSegment[] = [
+    { speaker: 'Hablante 1', start: 0, end: 6, text: 'Buenos días. Revisemos el avance del rediseño del sitio web antes del lanzamiento.' },
+    { speaker: 'Hablante 2', start: 6, end: 14, text: 'El diseño de la página de inicio está listo. Falta terminar la sección de precios.' },
+    { speaker: 'Hablante 1', start: 14, end: 21, text: 'Entonces acordamos lanzar el 15 de marzo. ¿Puedes tener precios listo para el 10?' },
+    { speaker: 'Hablante 2', start: 21, end: 26, text: 'Sí, me comprometo a entregarla el 10 de marzo.' },
+    { speaker: 'Hablante 1', start: 26, end: 32, text: 'Perfecto. Nos vemos el próximo lunes a las 10 por Google Meet para revisarlo.' },
+];
+
+// Fixed values for well-known fields; anything else gets a placeholder
+// derived from the field name.
+const SAMPLE_VALUES: Record<string, string> = {
+    summary: 'Se revisó el avance del rediseño del sitio web y se fijó la fecha de lanzamiento para el 15 de marzo.',
+    projectName: 'Rediseño del sitio web',
+    objective: 'Revisar el avance del rediseño antes del lanzamiento.',
+    description: 'Terminar la sección de precios',
+    owner: 'Hablante 2',
+    dueDate: '2025-03-10',
+    date: 'Lunes próximo',
+    time: '10:00',
+    platform: 'Google Meet',
+};
+
+const sampleValue = (schema: Schema, key: string): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleValue(property, name)]),
+            );
+        case Type.ARRAY: {
+            // Quotes have to be found in the transcript to pass verification.
+            if (key === 'sources') return [SAMPLE_TRANSCRIPT[2].text];
+            const count = Math.min(2, Number(schema.maxItems ?? 2));
+            return Array.from({ length: count }, (_, i) => {
+                const item = sampleValue(schema.items ?? { type: Type.STRING }, key);
+                return typeof item === 'string' ? `${item} ${i + 1}` : item;
+            });
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 0;
+        case Type.BOOLEAN:
+            return false;
+        default: {
+            if (schema.enum) return schema.enum[0];
+            const text = SAMPLE_VALUES[key] ?? `Ejemplo de ${key}`;
+            return schema.maxLength ? text.slice(0, Number(schema.maxLength)) : text;
+        }
+    }
+};
+
+/**
+ * Offline provider with deterministic answers: every recording transcribes
+ * to the same short meeting and the minutes follow the requested schema.
+ * Lets the whole flow be exercised without network access or API keys.
+ */
+export function createMockProvider(): AiProvider {
+    const delay = (ms = MOCK_DELAY_MS, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('The request was aborted.', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('The request was aborted.', 'AbortError'));
+        }, { once: true });
+    });
+    return {
+        async transcribe() {
+            await delay();
+            return SAMPLE_TRANSCRIPT.map(segment => ({ ...segment }));
+        },
+
+        async generateMinutes(request, { signal, onText } = {}) {
+            await delay(MOCK_DELAY_MS, signal);
+            const text = JSON.stringify(sampleValue(buildMinutesRequestSchema(request), ''));
+            for (let end = MOCK_STREAM_CHUNK; end < text.length; end += MOCK_STREAM_CHUNK) {
+                onText?.(text.slice(0, end));
+                await delay(MOCK_STREAM_TICK_MS, signal);
+            }
+            onText?.(text);
+            return text;
+        },
+    };
+}
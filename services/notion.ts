@@ -0,0 +1,90 @@
+import { Minutes, MinutesTemplate, Locale } from "../types";
+import { messages } from "../i18n";
+import { ApiError, describeApiError, parseApiError } from "./apiErrors";
+import { joinUrl } from "./providerHttp";
+import { getProviderSettings } from "./providerSettings";
+import { getNotionSettings } from "./notionSettings";
+import { NOT_SPECIFIED } from "./minutesSchema";
+import { buildMinutesDocument } from "./minutesDocument";
+import { buildNotionProperties, minutesToNotionBlocks, NotionDatabaseSchema, NotionSendRequest, NotionSendResult, parseNotionId } from "./notionBlocks";
+
+interface SendOptions {
+    language?: Locale;
+    // When the meeting took place; defaults to now.
+    date?: Date;
+    attendees?: string[];
+    // Page created by an earlier send of the same meeting.
+    pageId?: string;
+}
+
+// Notion-specific wording for the codes where the generic one would point
+// at the AI service.
+const describeNotionError = (error: ApiError): string => {
+    const t = messages().errors.notion;
+    switch (error.code) {
+        case 'NOT_CONFIGURED':
+            return t.notConfigured;
+        case 'NOT_FOUND':
+            return t.notFound;
+        case 'INVALID_REQUEST':
+            return t.rejected;
+        default:
+            return describeApiError(error);
+    }
+};
+
+// Calls /api/notion on the app's server, which holds the integration token.
+async function callNotionRoute<T>(query: string, init: RequestInit = {}): Promise<T> {
+    const url = joinUrl(getProviderSettings().gemini.proxyUrl, `notion${query}`);
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch {
+        throw new Error(messages().errors.providerUnreachable(url));
+    }
+    if (!response.ok) {
+        const error = parseApiError(response.status, await response.text().catch(() => ''));
+        console.error("Notion route failed:", error.code, error.message);
+        throw new Error(describeNotionError(error));
+    }
+    return response.json() as Promise<T>;
+}
+
+export const fetchNotionDatabase = (databaseId: string): Promise<NotionDatabaseSchema> =>
+    callNotionRoute(`?database=${encodeURIComponent(databaseId)}`);
+
+const isoDate = (date: Date): string =>
+    [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+/**
+ * Writes the minutes to the configured Notion database, mapping the title,
+ * date, project and attendees to its properties. Sending the same meeting
+ * again with the `pageId` of the first send updates that page.
+ */
+export async function sendMinutesToNotion(minutes: Minutes, template: MinutesTemplate, { pageId, ...options }: SendOptions = {}): Promise<NotionSendResult> {
+    const settings = getNotionSettings();
+    const databaseId = parseNotionId(settings.databaseId);
+    if (!databaseId) {
+        throw new Error(messages().errors.notion.noDatabase);
+    }
+    const date = options.date ?? new Date();
+    const doc = buildMinutesDocument(minutes, template, { ...options, date });
+    // The schema is read on every send, so renamed columns are noticed.
+    const schema = await fetchNotionDatabase(databaseId);
+    const request: NotionSendRequest = {
+        databaseId,
+        ...(pageId && { pageId }),
+        properties: buildNotionProperties(schema, settings.properties, {
+            title: doc.title,
+            date: { iso: isoDate(date), text: doc.date },
+            project: minutes.projectName && minutes.projectName !== NOT_SPECIFIED ? minutes.projectName : null,
+            attendees: doc.attendees,
+        }),
+        blocks: minutesToNotionBlocks(doc),
+    };
+    return callNotionRoute('', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+    });
+}
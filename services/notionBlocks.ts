@@ -0,0 +1,188 @@
+import { NotionSettings } from "../types";
+import { MinutesDocument, DocumentBlock } from "./minutesDocument";
+import { MarkdownList, TextRun } from "./markdown";
+
+// Notion's side of the integration: the blocks and page properties the
+// minutes become, and the requests exchanged with /api/notion. Shared by
+// the browser and the server route, so nothing here touches browser APIs.
+
+// Longest text Notion accepts in one rich text object.
+export const NOTION_TEXT_LIMIT = 2000;
+// Notion creates at most two levels of nested blocks per request.
+const MAX_NESTING = 2;
+
+export interface NotionRichText {
+    type: 'text';
+    text: { content: string };
+    annotations?: { bold?: boolean; italic?: boolean };
+}
+
+export type NotionBlock = { object: 'block'; type: string } & Record<string, unknown>;
+
+export interface NotionProperty {
+    name: string;
+    type: string;
+}
+
+// Answer of GET /api/notion: what the mapping in settings can choose from.
+export interface NotionDatabaseSchema {
+    title: string;
+    properties: NotionProperty[];
+}
+
+// Body of POST /api/notion. With `pageId`, that page is updated in place
+// when it still belongs to the database.
+export interface NotionSendRequest {
+    databaseId: string;
+    pageId?: string;
+    properties: Record<string, unknown>;
+    blocks: NotionBlock[];
+}
+
+export interface NotionSendResult {
+    pageId: string;
+    url: string;
+    // False when a new page was created.
+    updated: boolean;
+}
+
+export type NotionPropertyKey = keyof NotionSettings['properties'];
+
+// Property types each value can be written to.
+export const NOTION_PROPERTY_TYPES: Record<NotionPropertyKey, string[]> = {
+    title: ['title'],
+    date: ['date', 'rich_text'],
+    project: ['select', 'multi_select', 'rich_text'],
+    attendees: ['multi_select', 'rich_text'],
+};
+
+const NOTION_ID_PATTERN = /[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/gi;
+
+/**
+ * Reads a Notion id from an id or a page/database URL, as the 32 hex digits
+ * without dashes. Returns null when there is none.
+ */
+export function parseNotionId(input: string): string | null {
+    // In a URL the id ends the path; the query holds the view id.
+    const matches = input.split('?')[0].match(NOTION_ID_PATTERN);
+    return matches ? matches[matches.length - 1].replace(/-/g, '').toLowerCase() : null;
+}
+
+// Splits styled text into rich text objects within Notion's length limit.
+export const toRichText = (runs: TextRun[]): NotionRichText[] =>
+    runs.flatMap(run => {
+        const pieces: NotionRichText[] = [];
+        const chars = Array.from(run.text);
+        for (let i = 0; i < chars.length; i += NOTION_TEXT_LIMIT) {
+            pieces.push({
+                type: 'text',
+                text: { content: chars.slice(i, i + NOTION_TEXT_LIMIT).join('') },
+                ...((run.bold || run.italic) && { annotations: { bold: !!run.bold, italic: !!run.italic } }),
+            });
+        }
+        return pieces;
+    });
+
+const block = (type: string, content: Record<string, unknown>): NotionBlock => ({ object: 'block', type, [type]: content });
+
+const listBlocks = (list: MarkdownList, depth = 1): NotionBlock[] => {
+    const type = list.ordered ? 'numbered_list_item' : 'bulleted_list_item';
+    return list.items.flatMap(item => {
+        const nested = item.children ? listBlocks(item.children, depth + 1) : [];
+        // Deeper levels than Notion takes in one request join the last one.
+        if (depth >= MAX_NESTING) {
+            return [block(type, { rich_text: toRichText(item.runs) }), ...nested];
+        }
+        return [block(type, { rich_text: toRichText(item.runs), ...(nested.length > 0 && { children: nested }) })];
+    });
+};
+
+const documentBlocks = (documentBlock: DocumentBlock, doc: MinutesDocument): NotionBlock[] => {
+    const { labels } = doc;
+    switch (documentBlock.type) {
+        case 'paragraph':
+            return [block('paragraph', { rich_text: toRichText(documentBlock.runs) })];
+        case 'list':
+            return listBlocks(documentBlock.list);
+        case 'tasks':
+            return documentBlock.tasks.map(task => block('to_do', {
+                rich_text: toRichText([
+                    ...task.description,
+                    { text: ` — ${labels.owner}: `, bold: true },
+                    { text: task.owner },
+                    { text: ` · ${labels.dueDate}: `, bold: true },
+                    { text: task.dueDate },
+                ]),
+                checked: false,
+            }));
+        case 'fields':
+            return documentBlock.fields.map(field => block('paragraph', {
+                rich_text: toRichText([{ text: `${field.label}: `, bold: true }, { text: field.value }]),
+            }));
+    }
+};
+
+// Body of the Notion page: the date and attendees, then every section under
+// its heading.
+export function minutesToNotionBlocks(doc: MinutesDocument): NotionBlock[] {
+    const { labels } = doc;
+    const meta: TextRun[] = [{ text: `${labels.date}: `, bold: true }, { text: doc.date }];
+    if (doc.attendees.length > 0) {
+        meta.push({ text: `\n${labels.attendees}: `, bold: true }, { text: doc.attendees.join(', ') });
+    }
+    return [
+        block('paragraph', { rich_text: toRichText(meta) }),
+        ...doc.sections.flatMap(section => [
+            block('heading_2', { rich_text: toRichText([{ text: section.heading }]) }),
+            ...section.blocks.flatMap(documentBlock => documentBlocks(documentBlock, doc)),
+        ]),
+    ];
+}
+
+export interface NotionPropertyValues {
+    title: string;
+    // ISO date (YYYY-MM-DD) and its display form.
+    date: { iso: string; text: string };
+    project: string | null;
+    attendees: string[];
+}
+
+// Select options cannot contain commas.
+const optionName = (name: string): string => name.replace(/\s*,\s*/g, ' ').trim().slice(0, 100);
+
+const propertyValue = (key: NotionPropertyKey, type: string, values: NotionPropertyValues): unknown => {
+    const text = (content: string) => toRichText([{ text: content }]);
+    switch (key) {
+        case 'title':
+            return { title: text(values.title) };
+        case 'date':
+            return type === 'date' ? { date: { start: values.date.iso } } : { rich_text: text(values.date.text) };
+        case 'project':
+            if (!values.project) return null;
+            if (type === 'select') return { select: { name: optionName(values.project) } };
+            if (type === 'multi_select') return { multi_select: [{ name: optionName(values.project) }] };
+            return { rich_text: text(values.project) };
+        case 'attendees':
+            return type === 'multi_select'
+                ? { multi_select: values.attendees.map(name => ({ name: optionName(name) })) }
+                : { rich_text: text(values.attendees.join(', ')) };
+    }
+};
+
+/**
+ * Page properties for the mapped database columns. Mappings to columns that
+ * no longer exist or changed to an unsupported type are skipped, except the
+ * title, which falls back to the database's title column since every page
+ * needs one.
+ */
+export function buildNotionProperties(schema: NotionDatabaseSchema, mapping: NotionSettings['properties'], values: NotionPropertyValues): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    (Object.keys(NOTION_PROPERTY_TYPES) as NotionPropertyKey[]).forEach(key => {
+        const compatible = schema.properties.filter(p => NOTION_PROPERTY_TYPES[key].includes(p.type));
+        const property = compatible.find(p => p.name === mapping[key]) ?? (key === 'title' ? compatible[0] : undefined);
+        if (!property) return;
+        const value = propertyValue(key, property.type, values);
+        if (value) properties[property.name] = value;
+    });
+    return properties;
+}
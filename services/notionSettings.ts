@@ -0,0 +1,38 @@
+import { NotionSettings } from "../types";
+import { parseNotionId } from "./notionBlocks";
+
+// Stored next to the provider settings; the token is not part of them.
+const SETTINGS_KEY = 'minutas.notionSettings';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Missing or malformed values read as empty: nothing is mapped.
+const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+export function getNotionSettings(): NotionSettings {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    } catch {
+        stored = {};
+    }
+    const record = isRecord(stored) ? stored : {};
+    const properties = isRecord(record.properties) ? record.properties : {};
+    return {
+        databaseId: text(record.databaseId),
+        properties: {
+            title: text(properties.title),
+            date: text(properties.date),
+            project: text(properties.project),
+            attendees: text(properties.attendees),
+        },
+    };
+}
+
+export function saveNotionSettings(settings: NotionSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// The database may be given as its id or its URL.
+export const isNotionConfigured = (): boolean => parseNotionId(getNotionSettings().databaseId) !== null;
@@ -0,0 +1,164 @@
+// Opus encoding of decoded audio with WebCodecs, wrapped in an Ogg container
+// (RFC 7845) so it can be uploaded like a recording.
+
+// Ogg granule positions of Opus streams always count 48 kHz samples.
+const GRANULE_RATE = 48000;
+// Decoder delay of libopus, used when the encoder does not report its own.
+const DEFAULT_PRE_SKIP = 312;
+// Opus packets are 20 ms unless the encoder says otherwise.
+const DEFAULT_PACKET_MICROSECONDS = 20_000;
+// Audio handed to the encoder per call, in seconds.
+const ENCODE_BLOCK_SECONDS = 1;
+// Packets per page; well below the 255 lacing values a page can hold.
+const PACKETS_PER_PAGE = 50;
+const STREAM_SERIAL = 1;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 24;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+    let crc = 0;
+    for (const byte of bytes) {
+        crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    }
+    return crc;
+};
+
+const ascii = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0));
+
+interface OggPage {
+    packets: Uint8Array[];
+    granule: number;
+    first?: boolean;
+    last?: boolean;
+}
+
+function writePage({ packets, granule, first, last }: OggPage, sequence: number): Uint8Array {
+    const lacing: number[] = [];
+    for (const packet of packets) {
+        for (let rest = packet.length; ; rest -= 255) {
+            lacing.push(Math.min(rest, 255));
+            if (rest < 255) break;
+        }
+    }
+    const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set(ascii('OggS'), 0);
+    page[5] = (first ? 0x02 : 0) | (last ? 0x04 : 0);
+    view.setBigUint64(6, BigInt(granule), true);
+    view.setUint32(14, STREAM_SERIAL, true);
+    view.setUint32(18, sequence, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+    let position = 27 + lacing.length;
+    for (const packet of packets) {
+        page.set(packet, position);
+        position += packet.length;
+    }
+    view.setUint32(22, oggCrc(page), true);
+    return page;
+}
+
+function opusHead(sampleRate: number, preSkip: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(ascii('OpusHead'), 0);
+    head[8] = 1; // version
+    head[9] = 1; // mono
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, sampleRate, true);
+    return head;
+}
+
+function opusTags(): Uint8Array {
+    const vendor = ascii('minutas');
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const view = new DataView(tags.buffer);
+    tags.set(ascii('OpusTags'), 0);
+    view.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    return tags;
+}
+
+// Pre-skip of the OpusHead the encoder describes its stream with, if any.
+function reportedPreSkip(description: AllowSharedBufferSource | undefined): number | null {
+    if (!description) return null;
+    const bytes = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+        : new Uint8Array(description);
+    if (bytes.length < 19 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+    return bytes[10] | (bytes[11] << 8);
+}
+
+/**
+ * Encodes mono float samples as Ogg Opus at `bitrate` bits per second.
+ * Returns null when the browser has no Opus encoder.
+ */
+export async function encodeOggOpus(samples: Float32Array, sampleRate: number, bitrate: number): Promise<Blob | null> {
+    if (typeof AudioEncoder === 'undefined') return null;
+    const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (!supported) return null;
+
+    const packets: { data: Uint8Array; duration: number }[] = [];
+    let preSkip: number | null = null;
+    let failure: unknown = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push({ data, duration: chunk.duration ?? DEFAULT_PACKET_MICROSECONDS });
+            preSkip ??= reportedPreSkip(metadata?.decoderConfig?.description);
+        },
+        error: error => {
+            failure = error;
+        },
+    });
+    try {
+        encoder.configure(config);
+        const blockLength = ENCODE_BLOCK_SECONDS * sampleRate;
+        for (let start = 0; start < samples.length; start += blockLength) {
+            const block = samples.slice(start, start + blockLength);
+            const data = new AudioData({
+                format: 'f32',
+                sampleRate,
+                numberOfChannels: 1,
+                numberOfFrames: block.length,
+                timestamp: Math.round((start / sampleRate) * 1_000_000),
+                data: block,
+            });
+            encoder.encode(data);
+            data.close();
+        }
+        await encoder.flush();
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+    if (failure) throw failure;
+
+    const skip = preSkip ?? DEFAULT_PRE_SKIP;
+    // The last page ends at the input's length, so the encoder's padding is dropped.
+    const endGranule = skip + Math.round((samples.length * GRANULE_RATE) / sampleRate);
+    const pages: OggPage[] = [
+        { packets: [opusHead(sampleRate, skip)], granule: 0, first: true },
+        { packets: [opusTags()], granule: 0 },
+    ];
+    let granule = skip;
+    for (let start = 0; start < packets.length; start += PACKETS_PER_PAGE) {
+        const pagePackets = packets.slice(start, start + PACKETS_PER_PAGE);
+        granule += pagePackets.reduce((sum, packet) => sum + Math.round((packet.duration * GRANULE_RATE) / 1_000_000), 0);
+        const last = start + PACKETS_PER_PAGE >= packets.length;
+        pages.push({ packets: pagePackets.map(packet => packet.data), granule: last ? Math.min(granule, endGranule) : granule, last });
+    }
+    return new Blob(pages.map((page, sequence) => writePage(page, sequence)), { type: 'audio/ogg' });
+}
@@ -0,0 +1,100 @@
+import { ProviderSettings, TranscriptSegment } from "../types";
+import { messages } from "../i18n";
+import { AiProvider, TranscriptionRequest } from "./aiProvider";
+import { ProviderError } from "./errors";
+import { buildMinutesRequestPrompt, buildMinutesRequestSchema } from "./prompts";
+import { joinUrl, readLines, requestJson, sendRequest, toJsonSchema } from "./providerHttp";
+import { validateTranscriptSegments } from "./transcriptSchema";
+
+interface WhisperResponse {
+    text?: string;
+    segments?: { start: number; end: number; text: string }[];
+}
+
+// One server-sent event of a streamed chat completion.
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null; refusal?: string | null }; finish_reason?: string | null }[];
+}
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+    apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {};
+
+// File name sent with the audio; Whisper servers pick the decoder from it.
+const audioFileName = (audio: Blob): string => {
+    const subtype = audio.type.split('/')[1]?.split(';')[0];
+    return `audio.${subtype || 'webm'}`;
+};
+
+/**
+ * Transcribes through an OpenAI-style `/audio/transcriptions` endpoint.
+ * Whisper does not tell speakers apart, so every turn is attributed to
+ * "Hablante 1" and the user can rename or split them afterwards.
+ */
+export async function transcribeWithWhisper(
+    baseUrl: string,
+    apiKey: string,
+    model: string,
+    { audio, part }: TranscriptionRequest,
+): Promise<TranscriptSegment[]> {
+    const form = new FormData();
+    form.append('file', audio, audioFileName(audio));
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+    // Whisper takes preceding text as context rather than instructions.
+    if (part?.previousContext) form.append('prompt', part.previousContext);
+
+    const result = await requestJson<WhisperResponse>(joinUrl(baseUrl, 'audio/transcriptions'), {
+        method: 'POST',
+        headers: authHeaders(apiKey),
+        body: form,
+    });
+    const segments = result.segments
+        ?? (result.text?.trim() ? [{ start: 0, end: 0, text: result.text }] : []);
+    return validateTranscriptSegments(segments.map(segment => ({ speaker: 'Hablante 1', ...segment })));
+}
+
+export function createOpenAiProvider({ baseUrl, apiKey, model, transcriptionModel }: ProviderSettings['openai']): AiProvider {
+    const requireKey = () => {
+        // Self-hosted compatible servers often run without a key.
+        if (!apiKey.trim() && baseUrl.includes('api.openai.com')) {
+            throw new ProviderError('configuration', messages().errors.missingApiKey(messages().settings.providers.openai));
+        }
+    };
+
+    return {
+        async transcribe(request) {
+            requireKey();
+            return transcribeWithWhisper(baseUrl, apiKey, transcriptionModel, request);
+        },
+
+        async generateMinutes(request, { signal, onText } = {}) {
+            requireKey();
+            const response = await sendRequest(joinUrl(baseUrl, 'chat/completions'), {
+                method: 'POST',
+                signal,
+                headers: { 'Content-Type': 'application/json', ...authHeaders(apiKey) },
+                body: JSON.stringify({
+                    model,
+                    messages: [{ role: 'user', content: buildMinutesRequestPrompt(request) }],
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: { name: 'minutes', schema: toJsonSchema(buildMinutesRequestSchema(request)) },
+                    },
+                    stream: true,
+                }),
+            });
+            let text = '';
+            await readLines(response, line => {
+                const data = line.replace(/^data:\s*/, '');
+                if (!line.startsWith('data:') || data === '[DONE]') return;
+                const choice = (JSON.parse(data) as ChatCompletionChunk).choices?.[0];
+                if (choice?.finish_reason === 'content_filter' || choice?.delta?.refusal) {
+                    throw new ProviderError('safety', messages().errors.api.safetyBlocked);
+                }
+                text += choice?.delta?.content ?? '';
+                onText?.(text);
+            });
+            return text;
+        },
+    };
+}
@@ -0,0 +1,157 @@
+import { Delivery, DeliveryRequest, IntegrationTarget } from "../types";
+import { messages } from "../i18n";
+import { deliver, DeliveryError } from "./integrationDelivery";
+
+// Deliveries waiting to be sent and the latest sent ones, in localStorage so
+// sends queued while offline survive a reload.
+const OUTBOX_KEY = 'minutas.outbox';
+
+// Retries back off from 30 s, doubling up to 30 min, and stop after five
+// attempts; the user can still retry by hand.
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 30_000;
+const MAX_RETRY_MS = 30 * 60_000;
+// Sent deliveries kept for the status list.
+const KEEP_SENT = 50;
+
+const readOutbox = (): Delivery[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+// Current snapshot; replaced (never mutated) on every change so React can
+// compare it by reference.
+let deliveries: Delivery[] = readOutbox();
+const listeners = new Set<() => void>();
+let processing = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function write(next: Delivery[]): void {
+    const sent = next.filter(delivery => delivery.status === 'sent');
+    const dropped = new Set(sent.slice(0, Math.max(0, sent.length - KEEP_SENT)));
+    deliveries = next.filter(delivery => !dropped.has(delivery));
+    try {
+        localStorage.setItem(OUTBOX_KEY, JSON.stringify(deliveries));
+    } catch (error) {
+        console.error("Error saving the outbox:", error);
+    }
+    listeners.forEach(listener => listener());
+}
+
+const update = (id: string, patch: Partial<Delivery>): void =>
+    write(deliveries.map(delivery => (delivery.id === id ? { ...delivery, ...patch, updatedAt: Date.now() } : delivery)));
+
+export const getOutbox = (): Delivery[] => deliveries;
+
+export function subscribeOutbox(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+const createDeliveryId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Queues a rendered request for a target and starts sending it if online.
+export function enqueueDelivery(target: IntegrationTarget, request: DeliveryRequest, meeting: { id?: string; title: string }): void {
+    const now = Date.now();
+    write([...deliveries, {
+        id: createDeliveryId(),
+        targetId: target.id,
+        targetName: target.name,
+        ...(meeting.id && { meetingId: meeting.id }),
+        meetingTitle: meeting.title,
+        request,
+        status: 'queued',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+    }]);
+    processOutbox();
+}
+
+export function retryDelivery(id: string): void {
+    update(id, { status: 'queued', attempts: 0, nextAttemptAt: undefined, error: undefined });
+    processOutbox();
+}
+
+export function removeDelivery(id: string): void {
+    write(deliveries.filter(delivery => delivery.id !== id));
+}
+
+export function clearSentDeliveries(): void {
+    write(deliveries.filter(delivery => delivery.status !== 'sent'));
+}
+
+const retryDelay = (attempts: number): number => Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+
+async function attempt(delivery: Delivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    update(delivery.id, { status: 'sending', attempts });
+    try {
+        await deliver(delivery.request);
+        update(delivery.id, { status: 'sent', nextAttemptAt: undefined, error: undefined });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : messages().integrations.errors.unknown;
+        if (!navigator.onLine) {
+            // Lost the connection: wait for it without spending an attempt.
+            update(delivery.id, { status: 'queued', attempts: delivery.attempts, error: message });
+        } else if (error instanceof DeliveryError && error.retryable && attempts < MAX_ATTEMPTS) {
+            update(delivery.id, { status: 'queued', nextAttemptAt: Date.now() + retryDelay(attempts), error: message });
+        } else {
+            update(delivery.id, { status: 'failed', nextAttemptAt: undefined, error: message });
+        }
+    }
+}
+
+// Wakes the outbox when the earliest queued delivery is due.
+function scheduleRetry(): void {
+    clearTimeout(retryTimer);
+    const due = deliveries
+        .filter(delivery => delivery.status === 'queued')
+        .map(delivery => delivery.nextAttemptAt ?? 0);
+    if (due.length === 0 || !navigator.onLine) return;
+    retryTimer = setTimeout(processOutbox, Math.max(0, Math.min(...due) - Date.now()));
+}
+
+/**
+ * Sends the queued deliveries that are due, one at a time. Does nothing while
+ * offline; `startOutbox` resumes when the connection returns.
+ */
+export async function processOutbox(): Promise<void> {
+    if (processing) return;
+    processing = true;
+    try {
+        while (navigator.onLine) {
+            const now = Date.now();
+            const next = deliveries.find(delivery => delivery.status === 'queued' && (delivery.nextAttemptAt ?? 0) <= now);
+            if (!next) break;
+            await attempt(next);
+        }
+    } finally {
+        processing = false;
+        scheduleRetry();
+    }
+}
+
+// Resumes the outbox on load and whenever the browser comes back online.
+// Returns a function that stops it.
+export function startOutbox(): () => void {
+    // A send interrupted by closing the tab may or may not have arrived;
+    // it is sent again rather than lost.
+    if (deliveries.some(delivery => delivery.status === 'sending')) {
+        write(deliveries.map(delivery => (delivery.status === 'sending' ? { ...delivery, status: 'queued' } : delivery)));
+    }
+    const handleOnline = () => { processOutbox(); };
+    window.addEventListener('online', handleOnline);
+    processOutbox();
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        clearTimeout(retryTimer);
+    };
+}
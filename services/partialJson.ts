@@ -0,0 +1,98 @@
+interface Parsed {
+    value: unknown;
+    // False when the text ended inside this value.
+    complete: boolean;
+}
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/**
+ * Parses the beginning of a JSON document that is still being streamed.
+ * Objects and arrays cut off by the end of the text keep the members read so
+ * far, and a string cut off mid-way keeps its first characters; numbers and
+ * literals are only kept once complete. Returns undefined when not even the
+ * opening of a value has arrived. Malformed text throws a `SyntaxError`.
+ */
+export function parsePartialJson(text: string): unknown {
+    let i = 0;
+
+    const skipWhitespace = () => {
+        while (i < text.length && /\s/.test(text[i])) i++;
+    };
+
+    const parseString = (): Parsed => {
+        let value = '';
+        i++; // opening quote
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '"') {
+                i++;
+                return { value, complete: true };
+            }
+            if (char === '\\') {
+                // An escape cut off by the end of the text is dropped.
+                const escape = text.slice(i, text[i + 1] === 'u' ? i + 6 : i + 2);
+                if (escape.length < (text[i + 1] === 'u' ? 6 : 2)) break;
+                value += JSON.parse(`"${escape}"`);
+                i += escape.length;
+                continue;
+            }
+            value += char;
+            i++;
+        }
+        i = text.length;
+        return { value, complete: false };
+    };
+
+    const parseContainer = (close: '}' | ']'): Parsed => {
+        const isObject = close === '}';
+        const container: Record<string, unknown> | unknown[] = isObject ? {} : [];
+        i++; // opening bracket
+        for (;;) {
+            skipWhitespace();
+            if (i >= text.length) return { value: container, complete: false };
+            if (text[i] === close) {
+                i++;
+                return { value: container, complete: true };
+            }
+            if (text[i] === ',') {
+                i++;
+                continue;
+            }
+            let key = '';
+            if (isObject) {
+                if (text[i] !== '"') throw new SyntaxError(`Unexpected "${text[i]}" at position ${i}`);
+                const parsedKey = parseString();
+                skipWhitespace();
+                if (!parsedKey.complete || i >= text.length) return { value: container, complete: false };
+                if (text[i] !== ':') throw new SyntaxError(`Expected ":" at position ${i}`);
+                i++;
+                key = parsedKey.value as string;
+            }
+            const member = parseValue();
+            if (member.value !== undefined) {
+                if (Array.isArray(container)) container.push(member.value);
+                else container[key] = member.value;
+            }
+            if (!member.complete) return { value: container, complete: false };
+        }
+    };
+
+    const parseValue = (): Parsed => {
+        skipWhitespace();
+        if (i >= text.length) return { value: undefined, complete: false };
+        const char = text[i];
+        if (char === '{') return parseContainer('}');
+        if (char === '[') return parseContainer(']');
+        if (char === '"') return parseString();
+        const token = /^[^\s,\]}]+/.exec(text.slice(i))?.[0] ?? '';
+        i += token.length;
+        if (i >= text.length) return { value: undefined, complete: false };
+        if (token in LITERALS) return { value: LITERALS[token], complete: true };
+        const number = Number(token);
+        if (token === '' || Number.isNaN(number)) throw new SyntaxError(`Unexpected "${token || char}" at position ${i}`);
+        return { value: number, complete: true };
+    };
+
+    return parseValue().value;
+}
@@ -0,0 +1,207 @@
+import { Schema } from "@google/genai";
+import { ActionItemStatus, Locale, Minutes, MinutesField, MinutesTemplate, MomentFlag, MomentFlagKind, TemplateSection } from "../types";
+import { messages } from "../i18n";
+import { buildMinutesResponseSchema, SOURCED_SECTIONS } from "./minutesSchema";
+import { formatTimestamp } from "./transcript";
+
+// Prompts shared by the browser providers and the server proxy, so every
+// backend asks for the same minutes.
+
+export interface AudioPart {
+    index: number;
+    // Unknown while the recording is still in progress.
+    total?: number;
+    // Last lines of the previous part, so speaker labels stay consistent.
+    previousContext?: string;
+}
+
+// A task of earlier minutes of the project that is not done yet.
+export interface PendingActionItem {
+    id: string;
+    description: string;
+    owner: string | null;
+    dueDate: string | null;
+    status: ActionItemStatus;
+}
+
+// Limits of the follow-up accepted by /api/minutes, which keep the prompt
+// bounded however long a project runs.
+export const MAX_FOLLOW_UP_ITEMS = 100;
+export const MAX_FOLLOW_UP_TEXT = 1000;
+
+// Project the meeting continues and its pending tasks, whose progress the
+// model reports in `followUps`.
+export interface FollowUp {
+    project: string;
+    items: PendingActionItem[];
+}
+
+export interface MinutesGenerationRequest {
+    kind: 'minutes';
+    transcript: string;
+    // Real names of the meeting participants, used for task owners.
+    participants: string[];
+    template: MinutesTemplate;
+    // Language the minutes are written in, whatever the transcript's language.
+    language: Locale;
+    // Moments the user marked while recording.
+    flags?: MomentFlag[];
+    followUp?: FollowUp;
+}
+
+// Rewrites one section of existing minutes.
+export interface SectionGenerationRequest {
+    kind: 'section';
+    transcript: string;
+    minutes: Minutes;
+    section: TemplateSection;
+    instruction: string;
+    language: Locale;
+}
+
+export type MinutesRequest = MinutesGenerationRequest | SectionGenerationRequest;
+
+export const buildTranscriptionPrompt = (part?: AudioPart): string => {
+    const lines = [
+        "Transcribe this meeting audio accurately, separating it into speaker turns.",
+        "Label speakers consistently as \"Hablante 1\", \"Hablante 2\", etc. in order of appearance, unless a participant is clearly addressed by name.",
+        "For each turn give the start and end time in seconds from the beginning of this audio.",
+    ];
+    if (part) {
+        const position = part.total ? `part ${part.index + 1} of ${part.total} of a longer recording` : `part ${part.index + 1} of a recording still in progress`;
+        lines.push(`This is ${position}: transcribe only what is said, without introductions or comments. If there is no speech, return an empty list.`);
+        if (part.previousContext) {
+            lines.push(`The previous part ended like this; reuse the same speaker labels for the same voices:\n${part.previousContext}`);
+        }
+    }
+    return lines.join('\n');
+};
+
+// Quotes let the browser check each item against the transcript.
+const SOURCES_RULE = 'En `sources` copia literalmente, en el idioma original, uno o más fragmentos breves de la transcripción que respalden el elemento (solo lo dicho, sin la marca de tiempo ni el nombre de quien habla).';
+
+// One line of the prompt describing what the model should write in a section.
+const describeSection = (section: TemplateSection): string => {
+  const details = [section.instructions || section.title];
+  if (section.kind === 'tasks') {
+    details.push('Para cada compromiso indica `description` (la tarea), `owner` (el responsable) y `dueDate` (fecha en formato YYYY-MM-DD).');
+  } else if (SOURCED_SECTIONS.includes(section.id as MinutesField)) {
+    details.push('Cada elemento es un objeto con `text` (el contenido).');
+  }
+  if (SOURCED_SECTIONS.includes(section.id as MinutesField)) {
+    details.push(SOURCES_RULE);
+  }
+  if (section.kind === 'meeting') {
+    details.push('Indica fecha (`date`), hora (`time`) y plataforma (`platform`).');
+  }
+  if (section.maxLength) {
+    details.push(section.kind === 'text' ? `Máximo ${section.maxLength} caracteres.` : `Máximo ${section.maxLength} elementos.`);
+  }
+  if (section.required) {
+    details.push('Sección obligatoria: no puede quedar sin completar.');
+  }
+  return `    *   \`${section.id}\` («${section.title}»): ${details.join(' ')}`;
+};
+
+// The prompt is in Spanish; the output language is set explicitly so mixed or
+// foreign-language transcripts produce minutes in the chosen language.
+const languageRule = (language: Locale): string =>
+  `Redacta todo el contenido de la minuta en ${messages('es').languages[language].toLowerCase()}, aunque la transcripción esté en otro idioma o mezcle varios.`;
+
+const FLAG_LABELS: Record<MomentFlagKind, string> = {
+  decision: 'una decisión',
+  action: 'una tarea o compromiso',
+};
+
+const describePendingItem = (item: PendingActionItem): string => {
+  const details = [
+    `responsable: ${item.owner ?? 'sin asignar'}`,
+    `fecha: ${item.dueDate ?? 'sin fecha'}`,
+    ...(item.status === 'blocked' ? ['bloqueada'] : []),
+  ];
+  return `        *   [${item.id}] ${item.description} (${details.join('; ')})`;
+};
+
+const followUpRule = ({ project, items }: FollowUp, template: MinutesTemplate): string => {
+  if (items.length === 0) return '';
+  const projectName = template.sections.some(section => section.id === 'projectName')
+    ? ` Si la reunión trata de ese proyecto, escribe exactamente «${project}» en \`projectName\`.`
+    : '';
+  return `\n    *   Esta reunión da seguimiento al proyecto «${project}».${projectName} Estas tareas quedaron pendientes en reuniones anteriores. En \`followUps\` añade, por cada una de la que se hable en la transcripción, un objeto con su \`id\`, su \`status\` ("open" si sigue en curso, "done" si se terminó, "blocked" si está bloqueada) y en \`progress\` un resumen breve del avance. No incluyas las que no se mencionan ni las repitas como tareas nuevas, salvo que se reasignen o cambie su fecha:\n${items.map(describePendingItem).join('\n')}`;
+};
+
+const buildMinutesPrompt = ({ transcript: transcriptionText, participants, template, language, flags = [], followUp }: MinutesGenerationRequest): string => {
+  const participantsRule = participants.length > 0
+    ? `\n    *   Los participantes de la reunión son: ${participants.join(', ')}. Cada línea de la transcripción indica quién habla; usa exactamente estos nombres en el campo \`owner\` de las tareas.`
+    : '';
+  const flagsRule = flags.length > 0
+    ? `\n    *   Durante la reunión el usuario marcó estos momentos (la marca se hace justo después de oír lo importante, así que revisa lo dicho en los segundos anteriores). Asegúrate de que cada uno quede reflejado en la sección correspondiente si la transcripción lo respalda:\n${flags.map(flag => `        *   [${formatTimestamp(flag.time)}] ${FLAG_LABELS[flag.kind]}`).join('\n')}`
+    : '';
+  const prompt = `
+    **Rol y Objetivo:**
+    Actúas como un asistente experto en la creación de minutas de reuniones. Tu objetivo es transformar la siguiente transcripción en una minuta profesional, estructurada y concisa. Debes resumir y organizar el contenido en los campos predefinidos, manteniendo siempre un tono objetivo y profesional.
+
+    **Instrucciones y Formato de Salida:**
+    Responde únicamente con un objeto JSON que siga el esquema indicado. Cada campo corresponde a una sección de la minuta:
+
+${template.sections.map(describeSection).join('\n')}
+
+    **Reglas Estrictas:**
+    *   NO añadas información que no esté presente en el texto de entrada, con la excepción de los títulos que las instrucciones pidan generar.
+    *   ${languageRule(language)}
+    *   Si un campo de texto no puede ser completado por falta de información, escribe exactamente "No se especifica", sin traducirlo. Si una lista no tiene elementos, devuélvela vacía.
+    *   Puedes usar negritas en Markdown dentro de los textos, sin espacios entre los asteriscos y el texto (formato correcto: \`**Texto**\`, formato incorrecto: \`** Texto **\`).
+    *   No incluyas viñetas, numeración ni casillas al inicio de los elementos de las listas.
+    *   Sé directo y conciso.
+    *   NO incluyas enlaces a secciones de la transcripción ni comentarios personales.${participantsRule}${flagsRule}${followUp ? followUpRule(followUp, template) : ''}
+
+    **Transcripción a Procesar:**
+    ---
+    ${transcriptionText}
+    ---
+  `;
+  return prompt;
+};
+
+const buildSectionPrompt = ({ transcript: transcriptionText, minutes, section, instruction, language }: SectionGenerationRequest): string => {
+  const instructionText = instruction.trim()
+    ? `\n    **Instrucción del usuario para esta sección:**\n    ${instruction.trim()}\n`
+    : '';
+  const prompt = `
+    **Rol y Objetivo:**
+    Actúas como un asistente experto en la creación de minutas de reuniones. A continuación tienes la transcripción de una reunión y la minuta actual en formato JSON. Reescribe únicamente el campo \`${section.id}\` de la minuta, manteniendo la coherencia con el resto del contenido.
+
+    **Sección a reescribir:**
+${describeSection(section)}
+${instructionText}
+    **Reglas Estrictas:**
+    *   NO añadas información que no esté presente en la transcripción.
+    *   ${languageRule(language)}
+    *   Si el campo no puede ser completado por falta de información, escribe exactamente "No se especifica", sin traducirlo (o devuelve una lista vacía).
+    *   Responde solo con un objeto JSON que contenga el campo \`${section.id}\`.
+
+    **Minuta Actual:**
+    ${JSON.stringify({ ...minutes, citations: undefined, followUps: undefined }, null, 2)}
+
+    **Transcripción:**
+    ---
+    ${transcriptionText}
+    ---
+  `;
+  return prompt;
+};
+
+export const buildMinutesRequestPrompt = (request: MinutesRequest): string =>
+    request.kind === 'minutes' ? buildMinutesPrompt(request) : buildSectionPrompt(request);
+
+// Template the answer is validated against: a section is requested as a
+// template of its own.
+export const minutesRequestTemplate = (request: MinutesRequest): MinutesTemplate =>
+    request.kind === 'minutes'
+        ? request.template
+        : { id: '', name: request.section.title, sections: [request.section] };
+
+export const buildMinutesRequestSchema = (request: MinutesRequest): Schema =>
+    buildMinutesResponseSchema(minutesRequestTemplate(request), {
+        followUps: request.kind === 'minutes' && !!request.followUp && request.followUp.items.length > 0,
+    });
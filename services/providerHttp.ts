@@ -0,0 +1,102 @@
+import { Schema, Type } from "@google/genai";
+import { ErrorCategory } from "../types";
+import { messages } from "../i18n";
+import { ProviderError } from "./errors";
+
+// Joins a base URL and a path without doubling or dropping the slash.
+export const joinUrl = (base: string, path: string): string =>
+    `${base.trim().replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+const statusCategory = (status: number): ErrorCategory => {
+    if (status === 429) return 'rateLimit';
+    if (status === 401 || status === 403) return 'configuration';
+    if (status === 400 || status === 413 || status === 422) return 'invalidInput';
+    return status >= 500 ? 'network' : 'unknown';
+};
+
+// Aborted requests are rethrown as they are, so callers can tell a
+// cancellation from a failure.
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Sends a request to a provider's HTTP API. Connection failures and error
+ * statuses are turned into `ProviderError`s.
+ */
+export async function sendRequest(url: string, init: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ProviderError('network', messages().errors.providerUnreachable(url));
+    }
+    if (!response.ok) {
+        const details = await response.text().catch(() => '');
+        throw new ProviderError(statusCategory(response.status), messages().errors.providerHttp(response.status, details.slice(0, 300) || response.statusText));
+    }
+    return response;
+}
+
+// Sends a request and returns the parsed JSON body.
+export async function requestJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await sendRequest(url, init);
+    return response.json() as Promise<T>;
+}
+
+/**
+ * Reads a streamed response body line by line, as sent by NDJSON and
+ * server-sent event APIs. Blank lines are skipped.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+    if (!response.body) {
+        (await response.text()).split('\n').filter(line => line.trim()).forEach(onLine);
+        return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+            const lines = buffer.split('\n');
+            buffer = done ? '' : lines.pop() ?? '';
+            lines.filter(line => line.trim()).forEach(onLine);
+            if (done) return;
+        }
+    } catch (error) {
+        // Stop the download when a line is rejected.
+        reader.cancel().catch(() => undefined);
+        throw error;
+    }
+}
+
+const JSON_SCHEMA_TYPES: Partial<Record<Type, string>> = {
+    [Type.STRING]: 'string',
+    [Type.NUMBER]: 'number',
+    [Type.INTEGER]: 'integer',
+    [Type.BOOLEAN]: 'boolean',
+    [Type.ARRAY]: 'array',
+    [Type.OBJECT]: 'object',
+};
+
+// Converts a Gemini response schema into standard JSON Schema, as expected
+// by OpenAI-style structured outputs and by Ollama's `format` option.
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    if (schema.type && JSON_SCHEMA_TYPES[schema.type]) result.type = JSON_SCHEMA_TYPES[schema.type];
+    if (schema.description) result.description = schema.description;
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]),
+        );
+        result.additionalProperties = false;
+    }
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.required) result.required = schema.required;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.maxLength) result.maxLength = Number(schema.maxLength);
+    if (schema.maxItems) result.maxItems = Number(schema.maxItems);
+    return result;
+}
@@ -0,0 +1,58 @@
+import { ProviderId, ProviderSettings } from "../types";
+
+// Settings live in localStorage, like templates: they are small and read
+// synchronously before every request.
+const SETTINGS_KEY = 'minutas.providerSettings';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'local', 'mock'];
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    gemini: {
+        proxyUrl: '/api',
+    },
+    openai: {
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: '',
+        model: 'gpt-4o-mini',
+        transcriptionModel: 'whisper-1',
+    },
+    local: {
+        whisperUrl: 'http://localhost:8000/v1',
+        whisperModel: 'whisper-1',
+        ollamaUrl: 'http://localhost:11434',
+        model: 'llama3.1',
+    },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps the string fields of a stored group, falling back to the defaults for
+// missing or malformed values.
+const mergeGroup = <T extends Record<string, string>>(defaults: T, stored: unknown): T => {
+    if (!isRecord(stored)) return { ...defaults };
+    return Object.fromEntries(
+        Object.entries(defaults).map(([key, fallback]) => [key, typeof stored[key] === 'string' ? stored[key] : fallback]),
+    ) as T;
+};
+
+export function getProviderSettings(): ProviderSettings {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    } catch {
+        stored = {};
+    }
+    const record = isRecord(stored) ? stored : {};
+    return {
+        provider: PROVIDER_IDS.includes(record.provider as ProviderId) ? record.provider as ProviderId : DEFAULT_SETTINGS.provider,
+        gemini: mergeGroup(DEFAULT_SETTINGS.gemini, record.gemini),
+        openai: mergeGroup(DEFAULT_SETTINGS.openai, record.openai),
+        local: mergeGroup(DEFAULT_SETTINGS.local, record.local),
+    };
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
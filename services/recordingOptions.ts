@@ -0,0 +1,33 @@
+import { RecordingOptions, RecordingSource } from "../types";
+
+const RECORDING_OPTIONS_KEY = 'minutas.recordingOptions';
+
+export const RECORDING_SOURCES: RecordingSource[] = ['mixed', 'microphone', 'tab'];
+
+const DEFAULT_OPTIONS: RecordingOptions = { source: 'mixed', microphoneId: '', speechMode: false, liveTranscription: true };
+
+// Options of the last recording, reused as the defaults of the next one.
+export function getRecordingOptions(): RecordingOptions {
+    try {
+        const stored = JSON.parse(localStorage.getItem(RECORDING_OPTIONS_KEY) ?? '{}');
+        return {
+            source: RECORDING_SOURCES.includes(stored?.source) ? stored.source : DEFAULT_OPTIONS.source,
+            microphoneId: typeof stored?.microphoneId === 'string' ? stored.microphoneId : DEFAULT_OPTIONS.microphoneId,
+            speechMode: typeof stored?.speechMode === 'boolean' ? stored.speechMode : DEFAULT_OPTIONS.speechMode,
+            liveTranscription: typeof stored?.liveTranscription === 'boolean' ? stored.liveTranscription : DEFAULT_OPTIONS.liveTranscription,
+        };
+    } catch {
+        return { ...DEFAULT_OPTIONS };
+    }
+}
+
+export function saveRecordingOptions(options: RecordingOptions): void {
+    localStorage.setItem(RECORDING_OPTIONS_KEY, JSON.stringify(options));
+}
+
+// Microphones the browser reports. Labels stay empty until the user has
+// granted microphone access once.
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default');
+}
@@ -0,0 +1,165 @@
+import { Locale, NextMeeting } from "../types";
+import { messages } from "../i18n";
+import { ActionItem, parseNextMeeting } from "./actionItems";
+import { buildCalendar, ICS_MIME_TYPE } from "./icalendar";
+import { downloadFile, toFileName } from "./download";
+import { getTrackerMapping } from "./trackerMappings";
+
+export type IssueTracker = 'jira' | 'linear' | 'github';
+export type TaskExportFormat = 'csv' | IssueTracker | 'ics';
+
+export const TASK_EXPORT_FORMATS: TaskExportFormat[] = ['csv', 'jira', 'linear', 'github', 'ics'];
+export const ISSUE_TRACKERS: IssueTracker[] = ['jira', 'linear', 'github'];
+
+export const isIssueTracker = (format: TaskExportFormat): format is IssueTracker =>
+    (ISSUE_TRACKERS as string[]).includes(format);
+
+// How the action items become issues of a tracker.
+export interface TrackerMapping {
+    // Jira project key or Linear team id; GitHub takes the repository from
+    // the request URL.
+    project: string;
+    // Field that receives the due date. Empty adds it to the description;
+    // for GitHub, a label prefix (e.g. "due" gives "due:2026-03-01").
+    dueDateField: string;
+    // Owner as written in the minutes -> Jira account id, Linear user id or
+    // GitHub login. Owners without an entry are left unassigned.
+    assignees: Record<string, string>;
+}
+
+interface TaskExportOptions {
+    // Title and date of the meeting, for descriptions and file names.
+    title: string;
+    date: string;
+    language?: Locale;
+    // Stable per meeting, so importing the calendar again updates it.
+    uidPrefix: string;
+    mapping?: TrackerMapping;
+}
+
+// Jira rejects longer summaries.
+const MAX_SUMMARY_CHARS = 255;
+
+const summary = (text: string): string =>
+    text.length > MAX_SUMMARY_CHARS ? `${text.slice(0, MAX_SUMMARY_CHARS - 1)}…` : text;
+
+const dueText = (item: ActionItem): string | null => item.dueDate ?? item.dueDateText;
+
+// Description of an issue or to-do: what the field mapping leaves out, and
+// the meeting it comes from.
+const description = (item: ActionItem, { title, date, language = 'es' }: TaskExportOptions, { owner = true, due = true } = {}): string => {
+    const labels = messages(language).minutes;
+    const lines: string[] = [];
+    if (owner && item.owner) lines.push(`${labels.owner}: ${item.owner}`);
+    if (due && dueText(item)) lines.push(`${labels.dueDate}: ${dueText(item)}`);
+    lines.push(messages(language).taskExport.source(title, date));
+    return lines.join('\n');
+};
+
+// Spreadsheets run cells starting with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string): string => {
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function actionItemsToCsv(items: ActionItem[], options: TaskExportOptions): string {
+    const labels = messages(options.language).minutes;
+    const rows = [
+        [labels.task, labels.owner, labels.dueDate],
+        ...items.map(item => [item.description, item.owner ?? '', dueText(item) ?? '']),
+    ];
+    // The byte order mark makes Excel read the file as UTF-8.
+    return `\uFEFF${rows.map(row => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+const assignee = (item: ActionItem, mapping: TrackerMapping): string | undefined => {
+    const user = item.owner ? mapping.assignees[item.owner]?.trim() : '';
+    return user || undefined;
+};
+
+/**
+ * Issues in the format each tracker's API takes: the body of Jira's bulk
+ * create (POST /rest/api/2/issue/bulk), a list of Linear `IssueCreateInput`s
+ * and a list of GitHub "create an issue" bodies.
+ */
+export function actionItemsToTrackerJson(tracker: IssueTracker, items: ActionItem[], options: TaskExportOptions & { mapping: TrackerMapping }): unknown {
+    const { mapping } = options;
+    const dueField = mapping.dueDateField.trim();
+    const text = (item: ActionItem) => description(item, options, { owner: !assignee(item, mapping), due: !(dueField && item.dueDate) });
+    switch (tracker) {
+        case 'jira':
+            return {
+                issueUpdates: items.map(item => ({
+                    fields: {
+                        project: { key: mapping.project.trim() },
+                        issuetype: { name: 'Task' },
+                        summary: summary(item.description),
+                        description: text(item),
+                        ...(assignee(item, mapping) && { assignee: { accountId: assignee(item, mapping) } }),
+                        ...(dueField && item.dueDate && { [dueField]: item.dueDate }),
+                    },
+                })),
+            };
+        case 'linear':
+            return items.map(item => ({
+                teamId: mapping.project.trim(),
+                title: summary(item.description),
+                description: text(item),
+                ...(assignee(item, mapping) && { assigneeId: assignee(item, mapping) }),
+                ...(dueField && item.dueDate && { [dueField]: item.dueDate }),
+            }));
+        case 'github':
+            return items.map(item => ({
+                title: summary(item.description),
+                body: text(item),
+                ...(assignee(item, mapping) && { assignees: [assignee(item, mapping)] }),
+                ...(dueField && item.dueDate && { labels: [`${dueField}:${item.dueDate}`] }),
+            }));
+    }
+}
+
+export function actionItemsToIcs(items: ActionItem[], options: TaskExportOptions): string {
+    return buildCalendar({
+        todos: items.map(item => ({
+            uid: `${options.uidPrefix}-task-${item.id}@minutas`,
+            summary: item.description,
+            description: description(item, options, { due: !item.dueDate }),
+            due: item.dueDate ?? undefined,
+        })),
+    });
+}
+
+// Downloads the selected action items in the given format.
+export function exportActionItems(format: TaskExportFormat, items: ActionItem[], options: TaskExportOptions): void {
+    const name = toFileName(options.title);
+    if (format === 'csv') {
+        downloadFile(actionItemsToCsv(items, options), `${name}-tareas.csv`, 'text/csv;charset=utf-8');
+    } else if (format === 'ics') {
+        downloadFile(actionItemsToIcs(items, options), `${name}-tareas.ics`, ICS_MIME_TYPE);
+    } else {
+        downloadFile(JSON.stringify(actionItemsToTrackerJson(format, items, { ...options, mapping: options.mapping ?? getTrackerMapping(format) }), null, 2), `${name}-${format}.json`, 'application/json');
+    }
+}
+
+/**
+ * Downloads the next meeting as a calendar event. Returns false, without
+ * downloading, when its date cannot be read.
+ */
+export function exportNextMeeting(meeting: NextMeeting, options: TaskExportOptions): boolean {
+    const parsed = parseNextMeeting(meeting);
+    if (!parsed) return false;
+    const ics = buildCalendar({
+        events: [{
+            uid: `${options.uidPrefix}-next-meeting@minutas`,
+            summary: options.title,
+            description: messages(options.language).taskExport.source(options.title, options.date),
+            location: parsed.platform ?? undefined,
+            date: parsed.date,
+            time: parsed.time ?? undefined,
+        }],
+    });
+    downloadFile(ics, `${toFileName(options.title)}-proxima-reunion.ics`, ICS_MIME_TYPE);
+    return true;
+}
@@ -0,0 +1,98 @@
+import { MinutesTemplate } from "../types";
+import { getLocale, messages } from "../i18n";
+import { defaultTemplate, DEFAULT_TEMPLATE_ID, TemplateValidationError, validateTemplate } from "./templates";
+
+// Templates are small and read synchronously when rendering, so they live in
+// localStorage rather than in the IndexedDB meeting store.
+const TEMPLATES_KEY = 'minutas.templates';
+const SELECTED_TEMPLATE_KEY = 'minutas.selectedTemplate';
+
+export const createTemplateId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const readUserTemplates = (): MinutesTemplate[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap(entry => {
+            try {
+                const template = validateTemplate(entry);
+                return template.id && template.id !== DEFAULT_TEMPLATE_ID ? [template] : [];
+            } catch (error) {
+                console.warn("Ignoring invalid stored template:", error);
+                return [];
+            }
+        });
+    } catch {
+        return [];
+    }
+};
+
+const writeUserTemplates = (templates: MinutesTemplate[]) => {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// The built-in template (in the interface language) first, then the user's
+// templates in creation order.
+export function listTemplates(): MinutesTemplate[] {
+    return [defaultTemplate(getLocale()), ...readUserTemplates()];
+}
+
+export function getTemplate(id: string): MinutesTemplate | undefined {
+    return listTemplates().find(template => template.id === id);
+}
+
+// Creates or replaces a user template. The built-in template is read-only.
+export function saveTemplate(template: MinutesTemplate): MinutesTemplate {
+    if (template.id === DEFAULT_TEMPLATE_ID) {
+        throw new TemplateValidationError(messages().templates.errors.defaultReadOnly);
+    }
+    const saved = { ...validateTemplate(template), id: template.id || createTemplateId() };
+    const templates = readUserTemplates();
+    const index = templates.findIndex(t => t.id === saved.id);
+    if (index === -1) templates.push(saved);
+    else templates[index] = saved;
+    writeUserTemplates(templates);
+    return saved;
+}
+
+export function deleteTemplate(id: string): void {
+    writeUserTemplates(readUserTemplates().filter(template => template.id !== id));
+    if (getSelectedTemplateId() === id) {
+        setSelectedTemplateId(DEFAULT_TEMPLATE_ID);
+    }
+}
+
+export function getSelectedTemplateId(): string {
+    const id = localStorage.getItem(SELECTED_TEMPLATE_KEY);
+    return id && getTemplate(id) ? id : DEFAULT_TEMPLATE_ID;
+}
+
+export function setSelectedTemplateId(id: string): void {
+    localStorage.setItem(SELECTED_TEMPLATE_KEY, id);
+}
+
+export const templateToJson = (template: MinutesTemplate): string =>
+    JSON.stringify({ name: template.name, sections: template.sections }, null, 2);
+
+/**
+ * Parses an exported template file and stores it as a new user template.
+ * Throws a `TemplateValidationError` if the content is not a valid template.
+ */
+export function importTemplate(json: string): MinutesTemplate {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new TemplateValidationError(messages().templates.errors.invalidJson);
+    }
+    const template = validateTemplate(parsed);
+    const names = new Set(listTemplates().map(t => t.name));
+    let name = template.name;
+    for (let n = 2; names.has(name); n++) {
+        name = `${template.name} (${n})`;
+    }
+    return saveTemplate({ ...template, id: createTemplateId(), name });
+}
@@ -0,0 +1,196 @@
+import { ItemCitation, Locale, Minutes, MinutesField, MinutesTask, MinutesTemplate, NextMeeting, TemplateSection, TemplateSectionKind } from "../types";
+import { messages } from "../i18n";
+import { NOT_SPECIFIED } from "./minutesSchema";
+
+// Kind of each section backed by a typed field of `Minutes`. Templates can
+// retitle, reorder, drop or re-instruct these, but not change their kind.
+export const BUILT_IN_SECTION_KINDS: Record<MinutesField, TemplateSectionKind> = {
+    summary: 'text',
+    projectName: 'text',
+    objective: 'text',
+    topics: 'list',
+    decisions: 'list',
+    tasks: 'tasks',
+    nextSteps: 'list',
+    nextMeeting: 'meeting',
+};
+
+// Kinds available for sections that are not one of the built-in fields.
+export const CUSTOM_SECTION_KINDS: TemplateSectionKind[] = ['text', 'list'];
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+// Length limits and required flags of the built-in template; titles and
+// instructions come from the locale catalogs.
+const DEFAULT_SECTIONS: Pick<TemplateSection, 'id' | 'maxLength' | 'required'>[] = [
+    { id: 'summary', maxLength: 550, required: true },
+    { id: 'projectName', required: false },
+    { id: 'objective', required: false },
+    { id: 'topics', required: false },
+    { id: 'decisions', required: false },
+    { id: 'tasks', required: false },
+    { id: 'nextSteps', required: false },
+    { id: 'nextMeeting', required: false },
+];
+
+// The built-in template, with titles and instructions in the given language.
+export function defaultTemplate(locale: Locale): MinutesTemplate {
+    const { name, sections } = messages(locale).defaultTemplate;
+    return {
+        id: DEFAULT_TEMPLATE_ID,
+        name,
+        sections: DEFAULT_SECTIONS.map(section => {
+            const id = section.id as MinutesField;
+            return { ...section, ...sections[id], kind: BUILT_IN_SECTION_KINDS[id] };
+        }),
+    };
+}
+
+// Records saved before templates existed were generated in Spanish with the
+// built-in sections.
+export const DEFAULT_TEMPLATE: MinutesTemplate = defaultTemplate('es');
+
+export const isBuiltInSection = (id: string): id is MinutesField =>
+    Object.prototype.hasOwnProperty.call(BUILT_IN_SECTION_KINDS, id);
+
+export const getTemplateSection = (template: MinutesTemplate, id: string): TemplateSection | undefined =>
+    template.sections.find(section => section.id === id);
+
+// Sections rendered as the numbered body of the minutes. The summary is shown
+// on its own, above the body.
+export const bodySections = (template: MinutesTemplate, { includeProjectName = true } = {}): TemplateSection[] =>
+    template.sections.filter(section => section.id !== 'summary' && (includeProjectName || section.id !== 'projectName'));
+
+// Heading of a body section, numbered by its position in the template.
+export const sectionHeading = (template: MinutesTemplate, section: TemplateSection): string => {
+    const index = bodySections(template).findIndex(s => s.id === section.id);
+    return index === -1 ? section.title : `${index + 1}. ${section.title}`;
+};
+
+export type SectionValue = string | string[] | MinutesTask[] | NextMeeting;
+
+export const emptySectionValue = (kind: TemplateSectionKind): SectionValue => {
+    switch (kind) {
+        case 'text': return NOT_SPECIFIED;
+        case 'list': return [];
+        case 'tasks': return [];
+        case 'meeting': return { date: NOT_SPECIFIED, time: NOT_SPECIFIED, platform: NOT_SPECIFIED };
+    }
+};
+
+export function getSectionValue(minutes: Minutes, section: TemplateSection): SectionValue {
+    const value = isBuiltInSection(section.id) ? minutes[section.id] : minutes.customSections?.[section.id];
+    return value ?? emptySectionValue(section.kind);
+}
+
+// Text of each item of a list or tasks section.
+export const sectionItemTexts = (value: SectionValue, kind: TemplateSectionKind): string[] => {
+    if (kind === 'tasks') return (value as MinutesTask[]).map(task => task.description);
+    return kind === 'list' ? value as string[] : [];
+};
+
+// Citations of a section after its items changed: items kept as they were
+// keep their citation, and new or rewritten ones count as the user's own.
+const realignCitations = (citations: ItemCitation[], before: string[], after: string[]): ItemCitation[] =>
+    after.map(text => {
+        const index = before.indexOf(text);
+        return index === -1 ? { quotes: [], status: 'confirmed' } : citations[index];
+    });
+
+// Returns a copy of the minutes with the value of one section replaced.
+export function withSectionValue(minutes: Minutes, section: TemplateSection, value: SectionValue): Minutes {
+    const citations = minutes.citations?.[section.id];
+    const updated = citations
+        ? {
+            ...minutes,
+            citations: {
+                ...minutes.citations,
+                [section.id]: realignCitations(
+                    citations,
+                    sectionItemTexts(getSectionValue(minutes, section), section.kind),
+                    sectionItemTexts(value, section.kind),
+                ),
+            },
+        }
+        : minutes;
+    if (isBuiltInSection(section.id)) {
+        return { ...updated, [section.id]: value };
+    }
+    return { ...updated, customSections: { ...updated.customSections, [section.id]: value as string | string[] } };
+}
+
+export const createSectionId = (): string => `custom_${Math.random().toString(36).slice(2, 10)}`;
+
+export class TemplateValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateValidationError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Custom section ids become property names of the response schema.
+const SECTION_ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+const validateSection = (value: unknown, index: number): TemplateSection => {
+    const errors = messages().templates.errors;
+    const number = index + 1;
+    if (!isRecord(value)) {
+        throw new TemplateValidationError(errors.invalidSection(number));
+    }
+    const { id, title, kind, instructions, maxLength, required } = value;
+    if (typeof id !== 'string' || !SECTION_ID_PATTERN.test(id)) {
+        throw new TemplateValidationError(errors.invalidSectionId(number));
+    }
+    if (typeof title !== 'string' || !title.trim()) {
+        throw new TemplateValidationError(errors.missingSectionTitle(number));
+    }
+    const expectedKind = isBuiltInSection(id) ? BUILT_IN_SECTION_KINDS[id] : undefined;
+    if (expectedKind ? kind !== expectedKind : !CUSTOM_SECTION_KINDS.includes(kind as TemplateSectionKind)) {
+        throw new TemplateValidationError(errors.invalidKind(number, title));
+    }
+    if (instructions !== undefined && typeof instructions !== 'string') {
+        throw new TemplateValidationError(errors.invalidInstructions(title));
+    }
+    if (maxLength !== undefined && maxLength !== null && (typeof maxLength !== 'number' || !Number.isInteger(maxLength) || maxLength <= 0)) {
+        throw new TemplateValidationError(errors.invalidMaxLength(title));
+    }
+    return {
+        id,
+        title: title.trim(),
+        kind: kind as TemplateSectionKind,
+        instructions: (instructions as string | undefined)?.trim() ?? '',
+        ...(typeof maxLength === 'number' ? { maxLength } : {}),
+        required: required === true,
+    };
+};
+
+/**
+ * Validates an untrusted value (an imported file or a stored entry) and
+ * normalizes it into a `MinutesTemplate`. Throws a `TemplateValidationError`
+ * describing the first problem found.
+ */
+export function validateTemplate(value: unknown): MinutesTemplate {
+    const errors = messages().templates.errors;
+    if (!isRecord(value)) {
+        throw new TemplateValidationError(errors.notTemplate);
+    }
+    if (typeof value.name !== 'string' || !value.name.trim()) {
+        throw new TemplateValidationError(errors.missingName);
+    }
+    if (!Array.isArray(value.sections) || value.sections.length === 0) {
+        throw new TemplateValidationError(errors.noSections);
+    }
+    const sections = value.sections.map(validateSection);
+    const ids = new Set(sections.map(section => section.id));
+    if (ids.size !== sections.length) {
+        throw new TemplateValidationError(errors.duplicateSections);
+    }
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : '',
+        name: value.name.trim(),
+        sections,
+    };
+}
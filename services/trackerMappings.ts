@@ -0,0 +1,40 @@
+import { IssueTracker, TrackerMapping } from "./taskExport";
+
+// Assignee mappings are reused across meetings, so they are remembered per
+// tracker like the other preferences.
+const MAPPINGS_KEY = 'minutas.trackerMappings';
+
+// Where each tracker's import expects the due date. GitHub issues have no
+// due date; an empty field puts it in the issue body.
+const DEFAULT_DUE_DATE_FIELDS: Record<IssueTracker, string> = {
+    jira: 'duedate',
+    linear: 'dueDate',
+    github: '',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readMappings = (): Record<string, unknown> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(MAPPINGS_KEY) ?? '{}');
+        return isRecord(stored) ? stored : {};
+    } catch {
+        return {};
+    }
+};
+
+export function getTrackerMapping(tracker: IssueTracker): TrackerMapping {
+    const stored = readMappings()[tracker];
+    const mapping = isRecord(stored) ? stored : {};
+    const assignees = isRecord(mapping.assignees) ? mapping.assignees : {};
+    return {
+        project: typeof mapping.project === 'string' ? mapping.project : '',
+        dueDateField: typeof mapping.dueDateField === 'string' ? mapping.dueDateField : DEFAULT_DUE_DATE_FIELDS[tracker],
+        assignees: Object.fromEntries(Object.entries(assignees).filter(([, user]) => typeof user === 'string')) as Record<string, string>,
+    };
+}
+
+export function saveTrackerMapping(tracker: IssueTracker, mapping: TrackerMapping): void {
+    localStorage.setItem(MAPPINGS_KEY, JSON.stringify({ ...readMappings(), [tracker]: mapping }));
+}
@@ -0,0 +1,122 @@
+import { TimeMapPiece, TranscriptSegment } from "../types";
+
+export const normalizeWord = (word: string): string =>
+    word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]/gu, '');
+
+// Minimum number of matching words for a boundary to count as overlap.
+const MIN_OVERLAP_WORDS = 3;
+// Upper bound on how many words of overlap are searched for.
+const MAX_OVERLAP_WORDS = 200;
+
+/**
+ * Removes from the start of `next` the longest run of words that repeats the
+ * end of `previous` (text transcribed twice from overlapping audio).
+ */
+export function trimOverlap(previous: string, next: string): string {
+    const following = next.trim();
+    const prevNorm = previous.trim().split(/\s+/).slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+    const nextWords = following.split(/\s+/);
+    const nextNorm = nextWords.slice(0, MAX_OVERLAP_WORDS).map(normalizeWord);
+
+    let bestLength = 0;
+    for (let length = Math.min(prevNorm.length, nextNorm.length); length >= MIN_OVERLAP_WORDS; length--) {
+        const tail = prevNorm.slice(prevNorm.length - length);
+        const head = nextNorm.slice(0, length);
+        if (tail.every((word, i) => word === head[i])) {
+            bestLength = length;
+            break;
+        }
+    }
+
+    if (bestLength === 0) return following;
+    if (bestLength >= nextWords.length) return '';
+    return following.replace(new RegExp(`^(\\S+\\s+){${bestLength}}`), '');
+}
+
+// Converts a time in audio shortened by silence removal back to the same moment in the original.
+export function toOriginalTime(timeMap: TimeMapPiece[] | undefined, time: number): number {
+    if (!timeMap || timeMap.length === 0) return time;
+    let piece = timeMap[0];
+    for (const candidate of timeMap) {
+        if (candidate.start > time) break;
+        piece = candidate;
+    }
+    return piece.originalStart + Math.min(Math.max(0, time - piece.start), piece.duration);
+}
+
+interface ChunkSegments {
+    offset: number;
+    segments: TranscriptSegment[];
+    timeMap?: TimeMapPiece[];
+}
+
+// Number of trailing segments compared when trimming repeated text.
+const OVERLAP_CONTEXT_SEGMENTS = 5;
+
+/**
+ * Merges the segments of consecutive transcription chunks into one timeline.
+ * Chunk-relative times are mapped back over removed silence and shifted by
+ * the chunk offset, segments that fall entirely inside audio already covered
+ * by the previous chunk are dropped, and text repeated across the boundary
+ * is trimmed.
+ */
+export function mergeChunkSegments(chunks: ChunkSegments[]): TranscriptSegment[] {
+    const merged: TranscriptSegment[] = [];
+
+    for (const chunk of chunks) {
+        const coveredUntil = merged.length > 0 ? merged[merged.length - 1].end : 0;
+        let trimming = merged.length > 0;
+
+        for (const segment of chunk.segments) {
+            const shifted = {
+                ...segment,
+                start: toOriginalTime(chunk.timeMap, segment.start) + chunk.offset,
+                end: toOriginalTime(chunk.timeMap, segment.end) + chunk.offset,
+            };
+            if (merged.length > 0 && shifted.end <= coveredUntil) continue;
+
+            if (trimming) {
+                const context = merged.slice(-OVERLAP_CONTEXT_SEGMENTS).map(s => s.text).join(' ');
+                shifted.text = trimOverlap(context, shifted.text);
+                trimming = shifted.text === '';
+                if (shifted.text === '') continue;
+            }
+            merged.push(shifted);
+        }
+    }
+    return merged;
+}
+
+export function getSpeakers(segments: TranscriptSegment[]): string[] {
+    return Array.from(new Set(segments.map(segment => segment.speaker)));
+}
+
+// Speakers known by name; generic "Hablante N" labels are left out.
+export const getParticipants = (segments: TranscriptSegment[]): string[] =>
+    getSpeakers(segments).filter(speaker => !/^Hablante \d+$/.test(speaker));
+
+/**
+ * Replaces speaker labels ("Hablante 1") with the names entered by the user.
+ * Labels without a name are kept as they are.
+ */
+export function applySpeakerNames(segments: TranscriptSegment[], names: Record<string, string>): TranscriptSegment[] {
+    return segments.map(segment => ({
+        ...segment,
+        speaker: names[segment.speaker]?.trim() || segment.speaker,
+    }));
+}
+
+export const formatTimestamp = (seconds: number): string => {
+    const total = Math.floor(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+    const s = (total % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h.toString().padStart(2, '0')}:${m}:${s}` : `${m}:${s}`;
+};
+
+// Plain-text transcript sent to the minutes generator: "[mm:ss] Nombre: texto".
+export function formatTranscript(segments: TranscriptSegment[]): string {
+    return segments
+        .map(segment => `[${formatTimestamp(segment.start)}] ${segment.speaker}: ${segment.text}`)
+        .join('\n');
+}
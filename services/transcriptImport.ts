@@ -0,0 +1,161 @@
+import { TranscriptSegment } from "../types";
+import { messages } from "../i18n";
+import { extractDocxText } from "./docxText";
+import { trimOverlap } from "./transcript";
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'text';
+
+export const TRANSCRIPT_FILE_EXTENSIONS = ['.vtt', '.srt', '.txt', '.docx'];
+// Speaker used when a cue or line does not name one.
+const UNKNOWN_SPEAKER = 'Hablante 1';
+// Consecutive cues from the same speaker closer than this are merged.
+const MERGE_GAP_SECONDS = 2;
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+// "00:01:23", "1:23" or "[00:01:23]" at the start of a line.
+const LINE_TIMESTAMP = /^\[?((?:\d+:)?\d{1,2}:\d{2})\]?\s*/;
+// "Name: text", where the name is short and has no sentence punctuation.
+const SPEAKER_PREFIX = /^([^:.!?\n]{1,60}?):\s+(.*)$/;
+
+const parseTimestamp = (value: string): number =>
+    value.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+const decodeEntities = (text: string): string =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+
+// Removes markup and caption noise from a cue and collapses whitespace.
+const normalizeCueText = (text: string): string =>
+    decodeEntities(text.replace(/<[^>]+>/g, ''))
+        .replace(/\{\\[^}]*\}/g, '') // SSA-style tags found in some SRT files
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const splitSpeaker = (text: string): { speaker: string | null; text: string } => {
+    const match = text.match(SPEAKER_PREFIX);
+    return match ? { speaker: match[1].trim(), text: match[2] } : { speaker: null, text };
+};
+
+export function detectTranscriptFormat(content: string): TranscriptFormat {
+    const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+    if (trimmed.startsWith('WEBVTT')) return 'vtt';
+    if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/.test(trimmed)) return 'srt';
+    return 'text';
+}
+
+// Parses WebVTT (Teams, Zoom) and SRT cues. Speakers come from `<v Name>`
+// voice tags or a "Name:" prefix.
+const parseCues = (content: string): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    const blocks = content.replace(/\r/g, '').split(/\n\s*\n/);
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+        if (timingIndex === -1) continue;
+        const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+        const rawText = lines.slice(timingIndex + 1).join(' ');
+
+        const voice = rawText.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+        const { speaker, text } = voice
+            ? { speaker: voice[1].trim(), text: normalizeCueText(rawText) }
+            : splitSpeaker(normalizeCueText(rawText));
+        if (!text) continue;
+        segments.push({
+            speaker: speaker ?? UNKNOWN_SPEAKER,
+            start: parseTimestamp(start),
+            end: parseTimestamp(end),
+            text,
+        });
+    }
+    return segments;
+};
+
+// Parses plain-text exports (Google Meet .txt/.docx and similar): timestamp
+// lines set the current time, "Name: text" lines start a new turn and other
+// lines continue the previous one. Header lines before the first named
+// speaker (meeting title, attendee list) are skipped.
+const parsePlainText = (content: string): TranscriptSegment[] => {
+    const lines = content.replace(/\r/g, '').split('\n');
+    const hasSpeakers = lines.some(line => splitSpeaker(line.trim().replace(LINE_TIMESTAMP, '')).speaker !== null);
+    const segments: TranscriptSegment[] = [];
+    let currentTime = 0;
+    for (const rawLine of lines) {
+        let line = rawLine.trim();
+        if (!line) continue;
+
+        const timestamp = line.match(LINE_TIMESTAMP);
+        if (timestamp) {
+            currentTime = parseTimestamp(timestamp[1]);
+            line = line.slice(timestamp[0].length).trim();
+            if (!line) continue;
+        }
+
+        const { speaker, text } = splitSpeaker(normalizeCueText(line));
+        const previous = segments[segments.length - 1];
+        if (!speaker && previous) {
+            previous.text = `${previous.text} ${text}`;
+            continue;
+        }
+        if (!speaker && hasSpeakers) continue;
+        if (previous && previous.end < currentTime) {
+            previous.end = currentTime;
+        }
+        segments.push({ speaker: speaker ?? UNKNOWN_SPEAKER, start: currentTime, end: currentTime, text });
+    }
+    return segments;
+};
+
+/**
+ * Removes the repetition typical of caption exports (identical cues, rolling
+ * captions that repeat the previous line) and merges consecutive cues of the
+ * same speaker into a single turn.
+ */
+export function dedupeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+    const result: TranscriptSegment[] = [];
+    for (const segment of segments) {
+        const previous = result[result.length - 1];
+        if (!previous || previous.speaker !== segment.speaker) {
+            result.push({ ...segment });
+            continue;
+        }
+        const prevText = previous.text.toLowerCase();
+        const nextText = segment.text.toLowerCase();
+        if (prevText === nextText || prevText.endsWith(nextText)) {
+            previous.end = Math.max(previous.end, segment.end);
+        } else if (nextText.startsWith(prevText)) {
+            previous.text = segment.text;
+            previous.end = Math.max(previous.end, segment.end);
+        } else if (segment.start - previous.end <= MERGE_GAP_SECONDS) {
+            const remainder = trimOverlap(previous.text, segment.text);
+            if (remainder) previous.text = `${previous.text} ${remainder}`;
+            previous.end = Math.max(previous.end, segment.end);
+        } else {
+            result.push({ ...segment });
+        }
+    }
+    return result;
+}
+
+export function parseTranscriptText(content: string): TranscriptSegment[] {
+    const clean = content.replace(/^\uFEFF/, '');
+    const segments = detectTranscriptFormat(clean) === 'text' ? parsePlainText(clean) : parseCues(clean);
+    return dedupeSegments(segments);
+}
+
+export async function parseTranscriptFile(file: File): Promise<TranscriptSegment[]> {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!TRANSCRIPT_FILE_EXTENSIONS.includes(extension)) {
+        throw new Error(messages().transcriptImport.unsupportedFormat(file.name));
+    }
+    const content = extension === '.docx' ? await extractDocxText(file) : await file.text();
+    const segments = parseTranscriptText(content);
+    if (segments.length === 0) {
+        throw new Error(messages().transcriptImport.noText(file.name));
+    }
+    return segments;
+}
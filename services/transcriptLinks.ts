@@ -0,0 +1,45 @@
+import { TranscriptSegment } from "../types";
+import { normalizeWord } from "./transcript";
+
+// Shorter words (articles, prepositions, "que", "the") say little about
+// where an item came from.
+const MIN_WORD_LENGTH = 4;
+// An item is linked when at least this share of its words, and at least
+// MIN_MATCHED_WORDS of them, appear in the passage.
+const MIN_SCORE = 0.3;
+const MIN_MATCHED_WORDS = 2;
+// A passage is one segment or two consecutive ones, since an item often
+// condenses a question and its answer.
+const MAX_PASSAGE_SEGMENTS = 2;
+
+const significantWords = (text: string): Set<string> =>
+    new Set(text.split(/\s+/).map(normalizeWord).filter(word => word.length >= MIN_WORD_LENGTH));
+
+/**
+ * Finds the transcript passage an item of the minutes (a decision, a task)
+ * was most likely drawn from, by the words they share. Returns the index of
+ * the passage's first segment, or null when no passage is close enough.
+ */
+export function findSourceSegment(text: string, segments: TranscriptSegment[]): number | null {
+    const itemWords = significantWords(text);
+    if (itemWords.size === 0) return null;
+    const segmentWords = segments.map(segment => significantWords(segment.text));
+
+    const countMatches = (words: Set<string>) => [...itemWords].filter(word => words.has(word)).length;
+
+    let bestIndex = -1;
+    let bestMatched = 0;
+    for (let index = 0; index < segments.length; index++) {
+        const passage = new Set(segmentWords.slice(index, index + MAX_PASSAGE_SEGMENTS).flatMap(words => [...words]));
+        const matched = countMatches(passage);
+        // Ties go to the earlier passage, where the topic was first raised.
+        if (matched > bestMatched) {
+            bestIndex = index;
+            bestMatched = matched;
+        }
+    }
+    if (bestMatched < MIN_MATCHED_WORDS || bestMatched / itemWords.size < MIN_SCORE) return null;
+    // Point at the segment of the pair that carries most of the match.
+    const next = segmentWords[bestIndex + 1];
+    return next && countMatches(next) > countMatches(segmentWords[bestIndex]) ? bestIndex + 1 : bestIndex;
+}
@@ -0,0 +1,84 @@
+import { Type, Schema } from "@google/genai";
+import { TranscriptSegment } from "../types";
+import { messages } from "../i18n";
+
+// Response schema for diarized transcription: one entry per speaker turn.
+export const transcriptResponseSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            speaker: {
+                type: Type.STRING,
+                description: "Etiqueta del hablante, por ejemplo \"Hablante 1\".",
+            },
+            start: {
+                type: Type.NUMBER,
+                description: "Segundo del audio en que comienza la intervención.",
+            },
+            end: {
+                type: Type.NUMBER,
+                description: "Segundo del audio en que termina la intervención.",
+            },
+            text: { type: Type.STRING },
+        },
+        required: ["speaker", "start", "end", "text"],
+        propertyOrdering: ["speaker", "start", "end", "text"],
+    },
+};
+
+export class TranscriptValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptValidationError';
+    }
+}
+
+const toSeconds = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return Math.max(0, value);
+    }
+    // Models occasionally answer "MM:SS" or "HH:MM:SS" despite the schema.
+    if (typeof value === 'string' && /^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value.trim())) {
+        return value.trim().split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+    }
+    return null;
+};
+
+/**
+ * Validates the parsed model response and normalizes it into transcript
+ * segments sorted by start time. Entries without text are dropped.
+ */
+export function validateTranscriptSegments(value: unknown): TranscriptSegment[] {
+    if (!Array.isArray(value)) {
+        throw new TranscriptValidationError(messages().validation.transcriptNotList);
+    }
+    const segments: TranscriptSegment[] = [];
+    value.forEach((item, index) => {
+        if (typeof item !== 'object' || item === null) {
+            throw new TranscriptValidationError(messages().validation.invalidTurn(index + 1));
+        }
+        const record = item as Record<string, unknown>;
+        const text = typeof record.text === 'string' ? record.text.trim() : '';
+        if (!text) return;
+
+        const start = toSeconds(record.start);
+        const end = toSeconds(record.end);
+        if (start === null || end === null) {
+            throw new TranscriptValidationError(messages().validation.invalidTurnTimes(index + 1));
+        }
+        const speaker = typeof record.speaker === 'string' && record.speaker.trim() ? record.speaker.trim() : 'Hablante 1';
+        segments.push({ speaker, start, end: Math.max(start, end), text });
+    });
+    return segments.sort((a, b) => a.start - b.start);
+}
+
+export function parseTranscriptJson(text: string): TranscriptSegment[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new TranscriptValidationError(messages().validation.invalidTranscriptJson);
+    }
+    return validateTranscriptSegments(parsed);
+}
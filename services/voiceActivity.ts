@@ -0,0 +1,166 @@
+import { TimeMapPiece, TranscriptionChunk } from "../types";
+import { decodeToMono, encodeWav, TARGET_SAMPLE_RATE, wavSize } from "./audioImport";
+import { SPEECH_MODE_BITRATE } from "./audioCapture";
+import { encodeOggOpus } from "./oggOpus";
+
+// Energy-based voice activity detection. Audio is measured in short frames;
+// a frame is speech when it is clearly louder than the quietest part of the
+// chunk (its noise floor).
+const FRAME_SECONDS = 0.02;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const SPEECH_MARGIN_DB = 12;
+// Bounds of the speech threshold, so a chunk that is all silence or all
+// speech is not judged only against itself.
+const MIN_THRESHOLD_DB = -60;
+const MAX_THRESHOLD_DB = -40;
+// Kept around detected speech so soft word edges are not cut.
+const SPEECH_PADDING_SECONDS = 0.3;
+// Shorter pauses are part of the conversation and stay as they are.
+const MIN_SILENCE_SECONDS = 1.5;
+// Longer silences are shortened to this, so turns stay apart.
+const KEPT_SILENCE_SECONDS = 0.5;
+
+/**
+ * Returns the silences longer than `MIN_SILENCE_SECONDS` as [start, end)
+ * sample ranges, or null when the audio has no speech at all.
+ */
+export function findSilences(samples: Float32Array, sampleRate: number): [number, number][] | null {
+    const frameLength = Math.round(FRAME_SECONDS * sampleRate);
+    const frameCount = Math.ceil(samples.length / frameLength);
+    if (frameCount === 0) return null;
+
+    const levels = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        const from = frame * frameLength;
+        const to = Math.min(from + frameLength, samples.length);
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+        levels[frame] = 10 * Math.log10(sum / (to - from) + 1e-12);
+    }
+    const sorted = Float32Array.from(levels).sort();
+    const noiseFloor = sorted[Math.floor((sorted.length - 1) * NOISE_FLOOR_PERCENTILE)];
+    const threshold = Math.min(MAX_THRESHOLD_DB, Math.max(MIN_THRESHOLD_DB, noiseFloor + SPEECH_MARGIN_DB));
+
+    const padding = Math.round(SPEECH_PADDING_SECONDS / FRAME_SECONDS);
+    const speech = new Uint8Array(frameCount);
+    let hasSpeech = false;
+    levels.forEach((level, frame) => {
+        if (level < threshold) return;
+        hasSpeech = true;
+        speech.fill(1, Math.max(0, frame - padding), Math.min(frameCount, frame + padding + 1));
+    });
+    if (!hasSpeech) return null;
+
+    const silences: [number, number][] = [];
+    const minFrames = Math.ceil(MIN_SILENCE_SECONDS / FRAME_SECONDS);
+    for (let frame = 0; frame < frameCount;) {
+        if (speech[frame]) {
+            frame++;
+            continue;
+        }
+        const start = frame;
+        while (frame < frameCount && !speech[frame]) frame++;
+        if (frame - start >= minFrames) {
+            silences.push([start * frameLength, Math.min(frame * frameLength, samples.length)]);
+        }
+    }
+    return silences;
+}
+
+export interface TrimmedSamples {
+    samples: Float32Array;
+    timeMap: TimeMapPiece[];
+}
+
+// Shortens each silence to `KEPT_SILENCE_SECONDS`, half kept at each end.
+export function cutSilences(samples: Float32Array, sampleRate: number, silences: [number, number][]): TrimmedSamples {
+    const halfKept = Math.round((KEPT_SILENCE_SECONDS / 2) * sampleRate);
+    const kept: [number, number][] = [];
+    let from = 0;
+    for (const [start, end] of silences) {
+        kept.push([from, start + halfKept]);
+        from = end - halfKept;
+    }
+    kept.push([from, samples.length]);
+
+    const trimmed = new Float32Array(kept.reduce((sum, [start, end]) => sum + end - start, 0));
+    const timeMap: TimeMapPiece[] = [];
+    let position = 0;
+    for (const [start, end] of kept) {
+        trimmed.set(samples.subarray(start, end), position);
+        timeMap.push({ start: position / sampleRate, originalStart: start / sampleRate, duration: (end - start) / sampleRate });
+        position += end - start;
+    }
+    return { samples: trimmed, timeMap };
+}
+
+/**
+ * Encodes trimmed audio as Opus at the speech mode bitrate, which is no more
+ * than the recorder's. Browsers without an Opus encoder get WAV, about eight
+ * times larger than the recording, so only the nearly silent chunks are
+ * trimmed there. Returns null when the result is not smaller than the chunk.
+ */
+async function encodeTrimmed(samples: Float32Array, chunk: TranscriptionChunk): Promise<Blob | null> {
+    let blob: Blob | null = null;
+    try {
+        blob = await encodeOggOpus(samples, TARGET_SAMPLE_RATE, SPEECH_MODE_BITRATE);
+    } catch (error) {
+        console.warn(`Could not encode trimmed chunk ${chunk.index} as Opus:`, error);
+    }
+    if (!blob && wavSize(samples.length) < chunk.blob.size) {
+        blob = encodeWav(samples, TARGET_SAMPLE_RATE);
+    }
+    return blob && blob.size < chunk.blob.size ? blob : null;
+}
+
+/**
+ * Removes long silences from a chunk before it is transcribed. A chunk
+ * without speech is marked done with no segments and is never sent. Audio
+ * that cannot be decoded, or whose trimmed version would not be smaller, is
+ * left untouched.
+ */
+export async function removeSilence(chunk: TranscriptionChunk): Promise<TranscriptionChunk> {
+    let samples: Float32Array;
+    try {
+        samples = await decodeToMono(chunk.blob);
+    } catch (error) {
+        console.warn(`Could not decode chunk ${chunk.index} to detect silence:`, error);
+        return { ...chunk, silenceSeconds: 0 };
+    }
+    const durationSeconds = samples.length / TARGET_SAMPLE_RATE;
+    const silences = findSilences(samples, TARGET_SAMPLE_RATE);
+    if (!silences) {
+        return { ...chunk, status: 'done', segments: [], silenceSeconds: durationSeconds, durationSeconds };
+    }
+
+    const trimmed = cutSilences(samples, TARGET_SAMPLE_RATE, silences);
+    const silenceSeconds = (samples.length - trimmed.samples.length) / TARGET_SAMPLE_RATE;
+    const blob = silenceSeconds > 0 ? await encodeTrimmed(trimmed.samples, chunk) : null;
+    if (!blob) {
+        return { ...chunk, silenceSeconds: 0, durationSeconds };
+    }
+    return {
+        ...chunk,
+        blob,
+        timeMap: trimmed.timeMap,
+        silenceSeconds,
+        durationSeconds,
+    };
+}
+
+export interface SilenceReport {
+    removedSeconds: number;
+    totalSeconds: number;
+}
+
+// How much audio silence removal kept from being transcribed, or null if
+// none of the chunks went through it.
+export function summarizeSilence(chunks: TranscriptionChunk[]): SilenceReport | null {
+    const measured = chunks.filter(chunk => chunk.durationSeconds !== undefined);
+    if (measured.length === 0) return null;
+    const last = measured.reduce((a, b) => (b.offset > a.offset ? b : a));
+    const totalSeconds = last.offset + last.durationSeconds;
+    // Overlapping chunks can count the same silence twice.
+    const removedSeconds = measured.reduce((sum, chunk) => sum + (chunk.silenceSeconds ?? 0), 0);
+    return { removedSeconds: Math.min(removedSeconds, totalSeconds), totalSeconds };
+}
@@ -3,7 +3,315 @@ export enum AppStatus {
   ReadyToGenerate,
   Recording,
   Transcribing,
+  NamingSpeakers,
   Generating,
   Done,
   Error,
-}
\ No newline at end of file
+  History,
+  UploadFile,
+  ImportPreview,
+  Templates,
+  Settings,
+  RecordingSetup,
+  Integrations,
+  ActionItems,
+}
+
+export interface MinutesTask {
+  description: string;
+  owner: string;
+  dueDate: string;
+}
+
+export interface NextMeeting {
+  date: string;
+  time: string;
+  platform: string;
+}
+
+export interface Minutes {
+  summary: string;
+  projectName: string;
+  objective: string;
+  topics: string[];
+  decisions: string[];
+  tasks: MinutesTask[];
+  nextSteps: string[];
+  nextMeeting: NextMeeting;
+  // Values of template sections that are not one of the fields above, keyed
+  // by section id.
+  customSections?: Record<string, string | string[]>;
+  // Evidence for the items of the decisions, tasks and next steps, keyed by
+  // section id and in the same order as the section's items.
+  citations?: Record<string, ItemCitation[]>;
+  // Progress of the pending tasks of earlier meetings of the project, when
+  // they were passed to the generation.
+  followUps?: ActionItemProgress[];
+}
+
+// 'unsupported' items cite nothing that can be found in the transcript;
+// 'confirmed' ones were kept or written by the user.
+export type CitationStatus = 'supported' | 'unsupported' | 'confirmed';
+
+export interface ItemCitation {
+  // Passages of the transcript the model quoted as the item's basis.
+  quotes: string[];
+  status: CitationStatus;
+}
+
+// Languages the interface and the generated minutes are available in.
+export type Locale = 'es' | 'en' | 'pt';
+
+export type MinutesField = Exclude<keyof Minutes, 'customSections' | 'citations' | 'followUps'>;
+
+export type TemplateSectionKind = 'text' | 'list' | 'tasks' | 'meeting';
+
+export interface TemplateSection {
+  // A MinutesField for built-in sections, or a custom id whose value is
+  // stored in Minutes.customSections.
+  id: string;
+  title: string;
+  kind: TemplateSectionKind;
+  instructions: string;
+  // Maximum characters for text sections, maximum items for the others.
+  maxLength?: number;
+  required: boolean;
+}
+
+export interface MinutesTemplate {
+  id: string;
+  name: string;
+  sections: TemplateSection[];
+}
+
+export type ChunkStatus = 'pending' | 'transcribing' | 'done' | 'error';
+
+// One independently transcribed part of a recording. `offset` is where the
+// part starts in the full recording, in seconds.
+export interface TranscriptionChunk {
+  index: number;
+  blob: Blob;
+  offset: number;
+  status: ChunkStatus;
+  segments: TranscriptSegment[];
+  error?: string;
+  // Set once silence detection has run: seconds removed from `blob` and the
+  // length of the original audio.
+  silenceSeconds?: number;
+  durationSeconds?: number;
+  // Maps times in the trimmed `blob` back to the original audio; absent
+  // when nothing was removed.
+  timeMap?: TimeMapPiece[];
+}
+
+// A stretch of audio kept by silence removal. Times are in seconds.
+export interface TimeMapPiece {
+  // Position in the trimmed audio.
+  start: number;
+  // Position of the same audio in the original.
+  originalStart: number;
+  duration: number;
+}
+
+// A stretch of speech attributed to one speaker. Times are in seconds from
+// the start of the recording.
+export interface TranscriptSegment {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Audio captured by a recording: the microphone plus a shared tab's audio,
+// or only one of them.
+export type RecordingSource = 'mixed' | 'microphone' | 'tab';
+
+export interface RecordingOptions {
+  source: RecordingSource;
+  // Device id of the microphone; empty for the system default.
+  microphoneId: string;
+  // Records 16 kHz mono at a lower bitrate, enough for transcription.
+  speechMode: boolean;
+  // Transcribes 30-second windows while recording; they overlap, so more
+  // audio is uploaded.
+  liveTranscription: boolean;
+}
+
+// Moment the user marked while recording, passed to the minutes generator
+// as a hint.
+export type MomentFlagKind = 'decision' | 'action';
+
+export interface MomentFlag {
+  kind: MomentFlagKind;
+  // Seconds from the start of the recording.
+  time: number;
+}
+
+// A meeting session persisted in the local history. `status` is the last
+// AppStatus the session reached (Done, Error, or where it was left).
+export interface MeetingRecord {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  status: AppStatus;
+  audio?: Blob;
+  transcript: string;
+  transcriptSegments: TranscriptSegment[];
+  minutes: Minutes | null;
+  // Template the minutes were generated with; older records use the default.
+  template?: MinutesTemplate;
+  // Language the minutes were written in; older records are in Spanish.
+  language?: Locale;
+  flags?: MomentFlag[];
+  error?: string;
+  // Notion page the minutes were sent to, updated when they are sent again.
+  notionPageId?: string;
+}
+
+// Backend used for transcription and minutes generation.
+export type ProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+// Connection details of every provider, kept even when another one is
+// selected so switching back does not lose them.
+export interface ProviderSettings {
+  provider: ProviderId;
+  // The app's own server routes, which hold the Gemini key.
+  gemini: {
+    proxyUrl: string;
+  };
+  // Any server implementing the OpenAI chat completions and audio
+  // transcription endpoints.
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    transcriptionModel: string;
+  };
+  // A Whisper server with an OpenAI-style transcription endpoint and an
+  // Ollama server for the minutes.
+  local: {
+    whisperUrl: string;
+    whisperModel: string;
+    ollamaUrl: string;
+    model: string;
+  };
+}
+
+// Notion database that "Send to Notion" writes to. The integration token is
+// kept by the app's server, never in the browser.
+export interface NotionSettings {
+  databaseId: string;
+  // Database property that receives each value; empty to leave it out.
+  // Without a title mapping the database's title property is used.
+  properties: {
+    title: string;
+    date: string;
+    project: string;
+    attendees: string;
+  };
+}
+
+// Where the minutes can be sent besides Notion.
+export type IntegrationKind = 'webhook' | 'slack' | 'teams' | 'email';
+
+export interface IntegrationTarget {
+  id: string;
+  kind: IntegrationKind;
+  name: string;
+  // Webhook URL. For email, the HTTP endpoint of an SMTP relay, or empty to
+  // open the user's mail client instead.
+  url: string;
+  // Email only: comma-separated addresses.
+  recipients: string;
+  // Message with {{placeholders}} filled from the minutes: JSON for webhooks,
+  // Slack and Teams, plain text for email.
+  template: string;
+  enabled: boolean;
+}
+
+// queued: waiting to be sent (offline, or before the next retry).
+// failed: gave up; sent again only when the user retries.
+export type DeliveryStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// A message to one integration target, kept in the outbox until it is sent.
+export interface Delivery {
+  id: string;
+  targetId: string;
+  // Copied from the target so the outbox stays readable if it is deleted.
+  targetName: string;
+  // Meeting the minutes belong to, when it is in the history.
+  meetingId?: string;
+  meetingTitle: string;
+  // The rendered request, so later edits of the target do not change it.
+  request: DeliveryRequest;
+  status: DeliveryStatus;
+  attempts: number;
+  // When a queued delivery may be tried again (ms since epoch).
+  nextAttemptAt?: number;
+  // Last failure, already in the interface language.
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// direct: POSTed from the browser (the target must allow CORS).
+// relay: POSTed by /api/webhook, for Slack and Teams, which do not.
+export interface DeliveryRequest {
+  transport: 'direct' | 'relay';
+  url: string;
+  body: string;
+}
+
+export type ActionItemStatus = 'open' | 'done' | 'blocked';
+
+// A task of past minutes, followed up across the meetings of its project.
+export interface TrackedActionItem {
+  id: string;
+  // Project name as written in the minutes; items are grouped by its
+  // normalized form.
+  project: string;
+  description: string;
+  owner: string | null;
+  // YYYY-MM-DD when the due date could be read as a date.
+  dueDate: string | null;
+  dueDateText: string | null;
+  status: ActionItemStatus;
+  // Meeting the task was agreed in, and the task's id among its action items.
+  meetingId: string;
+  taskId: string;
+  meetingDate: number;
+  // Latest progress reported in the minutes of a later meeting.
+  progress?: string;
+  updatedAt: number;
+}
+
+// Progress of a tracked task as the model read it from a later meeting.
+export interface ActionItemProgress {
+  id: string;
+  status: ActionItemStatus;
+  progress: string;
+}
+
+// What kind of failure stopped a step, which decides how the user can
+// recover from it.
+export type ErrorCategory =
+  | 'permission'
+  | 'emptyAudio'
+  | 'rateLimit'
+  | 'network'
+  | 'safety'
+  | 'invalidOutput'
+  | 'invalidInput'
+  | 'configuration'
+  | 'cancelled'
+  | 'unknown';
+
+export interface AppError {
+  category: ErrorCategory;
+  // Already in the interface language.
+  message: string;
+}
+
+// Outcome of a service call that can fail in an expected way.
+export type Result<T> = { ok: true; value: T } | { ok: false; error: AppError };
@@ -4,10 +4,12 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      // The Gemini key is only read by the /api routes on the server; nothing
+      // from the environment is inlined into the bundle. In development,
+      // API_PROXY_TARGET points /api at a running `vercel dev`.
+      server: env.API_PROXY_TARGET
+        ? { proxy: { '/api': env.API_PROXY_TARGET } }
+        : undefined,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),